@@ -17,18 +17,38 @@ export { activateInternal, deactivateInternal } from './src/extension';
 //
 // The tests should import '../extension.bundle'. At design-time they live in tests/ and so will pick up this file (extension.bundle.ts).
 // At runtime the tests live in dist/tests and will therefore pick up the main webpack bundle at dist/extension.bundle.js.
+export * from './src/commands/appSettings/connectionStrings';
+export * from './src/commands/appSettings/filterAppSettings';
+export * from './src/commands/appSettings/protectedAppSettings';
+export * from './src/commands/appSettings/settingsDiff';
+export * from './src/commands/localSettings/settingReferences';
 export * from './src/commands/createFunction/createFunction';
 export * from './src/commands/createFunction/dotnetSteps/DotnetNamespaceStep';
+export * from './src/commands/createFunction/scriptSteps/ScriptFunctionCreateStep';
 export * from './src/commands/createNewProject/createNewProject';
 export * from './src/commands/initProjectForVSCode/initProjectForVSCode';
+export * from './src/commands/localFunctions/saveFunctionAsTemplate';
+export * from './src/commands/migrateProjectToV2/convertHostJsonToV2';
+export * from './src/commands/migrateProjectToV2/getBindingMigrationNotes';
 export * from './src/commands/deploy/verifyAppSettings';
 export * from './src/constants';
+export * from './src/runtimes';
 export * from './src/extensionVariables';
 export * from './src/funcConfig/function';
+export * from './src/funcConfig/host';
+export * from './src/funcConfig/local.settings';
+export * from './src/funcConfig/parseFunctionSource';
+export * from './src/funcConfig/validateFunctionJson';
 export * from './src/vsCodeConfig/settings';
+export * from './src/templates/IBindingTemplate';
 export * from './src/templates/IFunctionTemplate';
+export * from './src/templates/parseDotnetTemplates';
+export * from './src/templates/parseScriptTemplates';
 export * from './src/templates/ScriptTemplateRetriever';
+export * from './src/templates/templateBundle';
 export * from './src/templates/TemplateProvider';
+export * from './src/templates/templateVersionLock';
+export * from './src/templates/validateCustomTemplate';
 export * from './src/tree/FunctionAppProvider';
 export * from './src/utils/fs';
 export * from './src/utils/cpUtils';
@@ -0,0 +1,51 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Progress, Uri, window, workspace } from "vscode";
+import { AzureWizardExecuteStep } from "vscode-azureextensionui";
+import { IFunctionBinding, IFunctionJson } from "../../funcConfig/function";
+import { IBindingTemplate } from "../../templates/IBindingTemplate";
+import { confirmEditJsonFile } from '../../utils/fs';
+import { nonNullProp } from "../../utils/nonNull";
+import { getBindingSetting } from "../createFunction/IFunctionWizardContext";
+import { IBindingWizardContext } from "./IBindingWizardContext";
+
+export class BindingEditStep extends AzureWizardExecuteStep<IBindingWizardContext> {
+    public priority: number = 220;
+
+    public async execute(wizardContext: IBindingWizardContext, _progress: Progress<{ message?: string | undefined; increment?: number | undefined }>): Promise<void> {
+        const bindingTemplate: IBindingTemplate = nonNullProp(wizardContext, 'bindingTemplate');
+        const existingBinding: IFunctionBinding = nonNullProp(wizardContext, 'existingBinding');
+        wizardContext.actionContext.properties.bindingType = bindingTemplate.type;
+        wizardContext.actionContext.properties.bindingDirection = bindingTemplate.direction;
+
+        // Keep any properties that aren't covered by the template's settings
+        const binding: IFunctionBinding = { ...existingBinding };
+        for (const b of bindingTemplate.settings) {
+            const existingKey: string | undefined = Object.keys(binding).find(k => k.toLowerCase() === b.name.toLowerCase());
+            // tslint:disable-next-line: strict-boolean-expressions
+            binding[existingKey || b.name] = getBindingSetting(wizardContext, b);
+        }
+
+        await confirmEditJsonFile(wizardContext.functionJsonPath, (functionJson: IFunctionJson) => {
+            // tslint:disable-next-line: strict-boolean-expressions
+            functionJson.bindings = functionJson.bindings || [];
+            const index: number = functionJson.bindings.findIndex(b => b.name === existingBinding.name);
+            if (index === -1) {
+                functionJson.bindings.push(binding);
+            } else {
+                functionJson.bindings[index] = binding;
+            }
+            return functionJson;
+        });
+        wizardContext.binding = binding;
+
+        window.showTextDocument(await workspace.openTextDocument(Uri.file(wizardContext.functionJsonPath)));
+    }
+
+    public shouldExecute(wizardContext: IBindingWizardContext): boolean {
+        return !!wizardContext.bindingTemplate && !!wizardContext.existingBinding && !wizardContext.binding;
+    }
+}
@@ -13,4 +13,8 @@ export interface IBindingWizardContext extends IFunctionWizardContext {
     bindingTemplate?: IBindingTemplate;
     binding?: IFunctionBinding;
     bindingName?: string;
+    /**
+     * Defined if editing a binding that already exists in the 'function.json' file. Used to pre-fill prompts
+     */
+    existingBinding?: IFunctionBinding;
 }
@@ -3,12 +3,17 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { AzureWizard } from "vscode-azureextensionui";
+import { AzureWizard, AzureWizardPromptStep } from "vscode-azureextensionui";
+import { ext } from "../../extensionVariables";
+import { IFunctionBinding } from "../../funcConfig/function";
 import { localize } from "../../localize";
+import { IBindingTemplate } from "../../templates/IBindingTemplate";
 import { BindingCreateStep } from "./BindingCreateStep";
 import { BindingDirectionStep } from "./BindingDirectionStep";
+import { BindingEditStep } from "./BindingEditStep";
 import { BindingListStep } from "./BindingListStep";
 import { IBindingWizardContext } from "./IBindingWizardContext";
+import { addBindingSettingSteps } from "./settingSteps/addBindingSettingSteps";
 
 export function createBindingWizard(wizardContext: IBindingWizardContext): AzureWizard<IBindingWizardContext> {
     return new AzureWizard(wizardContext, {
@@ -17,3 +22,37 @@ export function createBindingWizard(wizardContext: IBindingWizardContext): Azure
         title: localize('addBinding', 'Add new binding')
     });
 }
+
+/**
+ * Creates a wizard that re-prompts for each setting of `wizardContext.existingBinding`, using the current values as defaults
+ */
+export async function createEditBindingWizard(wizardContext: IBindingWizardContext): Promise<AzureWizard<IBindingWizardContext>> {
+    const binding: IFunctionBinding | undefined = wizardContext.existingBinding;
+    if (!binding) {
+        throw new Error(localize('noBindingToEdit', 'Internal error: No binding specified to edit.'));
+    }
+
+    wizardContext.bindingTemplate = await getBindingTemplate(binding);
+    const promptSteps: AzureWizardPromptStep<IBindingWizardContext>[] = [];
+    addBindingSettingSteps(wizardContext.bindingTemplate.settings, promptSteps);
+    return new AzureWizard(wizardContext, {
+        promptSteps,
+        executeSteps: [new BindingEditStep()],
+        title: localize('editBinding', 'Edit binding "{0}"', binding.name)
+    });
+}
+
+async function getBindingTemplate(binding: IFunctionBinding): Promise<IBindingTemplate> {
+    // wait for template provider task to signal that bindings have been defined
+    await ext.templateProviderTask;
+
+    // tslint:disable-next-line: strict-boolean-expressions
+    const bindingType: string = (binding.type || '').toLowerCase();
+    // Trigger templates have a direction of 'trigger', but the binding itself will have a direction of 'in'
+    const templates: IBindingTemplate[] = ext.scriptBindings.filter(b => b.type.toLowerCase() === bindingType);
+    const template: IBindingTemplate | undefined = templates.find(b => b.direction === binding.direction) || <IBindingTemplate | undefined>templates[0];
+    if (!template) {
+        throw new Error(localize('noBindingTemplate', 'Editing bindings of type "{0}" is not supported. Edit "function.json" directly instead.', binding.type));
+    }
+    return template;
+}
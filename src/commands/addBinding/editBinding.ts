@@ -0,0 +1,16 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IActionContext } from "vscode-azureextensionui";
+import { ext } from "../../extensionVariables";
+import { LocalBindingTreeItem } from "../../tree/localProject/LocalBindingTreeItem";
+
+export async function editBinding(this: IActionContext, node?: LocalBindingTreeItem): Promise<void> {
+    if (!node) {
+        node = <LocalBindingTreeItem>await ext.tree.showTreeItemPicker(LocalBindingTreeItem.contextValue);
+    }
+
+    await node.edit(this);
+}
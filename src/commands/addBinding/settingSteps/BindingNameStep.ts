@@ -14,7 +14,7 @@ export class BindingNameStep extends StringPromptStep {
 
     public async getDefaultValue(wizardContext: IBindingWizardContext): Promise<string | undefined> {
         const defaultValue: string | undefined = await super.getDefaultValue(wizardContext);
-        if (defaultValue) {
+        if (defaultValue && !wizardContext.existingBinding) {
             let uniqueValue: string = defaultValue;
 
             let count: number = 1;
@@ -48,7 +48,9 @@ export class BindingNameStep extends StringPromptStep {
                 this._functionJson = new ParsedFunctionJson(await fse.readJSON(wizardContext.functionJsonPath));
             }
 
-            return !!this._functionJson.bindings.find(b => b.name === val);
+            // The binding being edited can keep its current name
+            const existingName: string | undefined = wizardContext.existingBinding && wizardContext.existingBinding.name;
+            return val !== existingName && !!this._functionJson.bindings.find(b => b.name === val);
         } catch {
             // If we can't parse the function.json file, we will prompt to overwrite the file later and can assume the binding doesn't exist
             return false;
@@ -3,7 +3,10 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
+import { QuickPickItem } from "vscode";
 import { AzureWizardPromptStep } from "vscode-azureextensionui";
+import { IFunctionBinding } from "../../../funcConfig/function";
+import { localize } from "../../../localize";
 import { IBindingSetting } from "../../../templates/IBindingTemplate";
 import { getBindingSetting, setBindingSetting } from "../../createFunction/IFunctionWizardContext";
 import { IBindingWizardContext } from "../IBindingWizardContext";
@@ -25,4 +28,31 @@ export abstract class BindingSettingStepBase extends AzureWizardPromptStep<IBind
     public shouldPrompt(wizardContext: IBindingWizardContext): boolean {
         return !getBindingSetting(wizardContext, this._setting);
     }
+
+    /**
+     * Returns the current value of this setting if editing an existing binding
+     */
+    protected getExistingValue(wizardContext: IBindingWizardContext): string | undefined {
+        const binding: IFunctionBinding | undefined = wizardContext.existingBinding;
+        if (binding) {
+            const key: string | undefined = Object.keys(binding).find(k => k.toLowerCase() === this._setting.name.toLowerCase());
+            const value: {} | undefined = key !== undefined ? binding[key] : undefined;
+            return value !== undefined && value !== null ? String(value) : undefined;
+        } else {
+            return undefined;
+        }
+    }
+}
+
+/**
+ * Moves the pick matching the current value of a setting to the top of the list and labels it as the current value
+ */
+export function sortCurrentPickFirst<T extends QuickPickItem>(picks: T[], currentValue: string | undefined, getValue: (pick: T) => string | undefined): T[] {
+    const index: number = currentValue === undefined ? -1 : picks.findIndex(p => getValue(p) === currentValue);
+    if (index !== -1) {
+        const current: T = picks.splice(index, 1)[0];
+        current.description = localize('currentValue', '(current)');
+        picks.unshift(current);
+    }
+    return picks;
 }
@@ -6,14 +6,18 @@
 import { QuickPickItem } from "vscode";
 import { ext } from "../../../extensionVariables";
 import { IBindingWizardContext } from "../IBindingWizardContext";
-import { BindingSettingStepBase } from "./BindingSettingStepBase";
+import { BindingSettingStepBase, sortCurrentPickFirst } from "./BindingSettingStepBase";
 
 export class BooleanPromptStep extends BindingSettingStepBase {
-    public async promptCore(_wizardContext: IBindingWizardContext): Promise<string> {
-        const picks: QuickPickItem[] = [
-            { label: 'true', description: '' },
-            { label: 'false', description: '' }
-        ];
+    public async promptCore(wizardContext: IBindingWizardContext): Promise<string> {
+        const picks: QuickPickItem[] = sortCurrentPickFirst(
+            [
+                { label: 'true', description: '' },
+                { label: 'false', description: '' }
+            ],
+            this.getExistingValue(wizardContext),
+            p => p.label
+        );
         return (await ext.ui.showQuickPick(picks, { placeHolder: this._setting.label })).label;
     }
 }
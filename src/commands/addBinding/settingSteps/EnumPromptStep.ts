@@ -6,11 +6,12 @@
 import { IAzureQuickPickItem } from "vscode-azureextensionui";
 import { ext } from "../../../extensionVariables";
 import { IBindingWizardContext } from "../IBindingWizardContext";
-import { BindingSettingStepBase } from "./BindingSettingStepBase";
+import { BindingSettingStepBase, sortCurrentPickFirst } from "./BindingSettingStepBase";
 
 export class EnumPromptStep extends BindingSettingStepBase {
-    public async promptCore(_wizardContext: IBindingWizardContext): Promise<string> {
-        const picks: IAzureQuickPickItem<string>[] = this._setting.enums.map(e => { return { data: e.value, label: e.displayName }; });
+    public async promptCore(wizardContext: IBindingWizardContext): Promise<string> {
+        let picks: IAzureQuickPickItem<string>[] = this._setting.enums.map(e => { return { data: e.value, label: e.displayName }; });
+        picks = sortCurrentPickFirst(picks, this.getExistingValue(wizardContext), p => p.data);
         return (await ext.ui.showQuickPick(picks, { placeHolder: this._setting.label })).data;
     }
 }
@@ -12,7 +12,7 @@ import { localize } from '../../../localize';
 import { ResourceType } from '../../../templates/IBindingTemplate';
 import { getBindingSetting } from '../../createFunction/IFunctionWizardContext';
 import { IBindingWizardContext } from '../IBindingWizardContext';
-import { BindingSettingStepBase } from './BindingSettingStepBase';
+import { BindingSettingStepBase, sortCurrentPickFirst } from './BindingSettingStepBase';
 import { CosmosDBConnectionCreateStep } from './cosmosDB/CosmosDBConnectionCreateStep';
 import { CosmosDBListStep } from './cosmosDB/CosmosDBListStep';
 import { EventHubAuthRuleListStep } from './eventHub/EventHubAuthRuleListStep';
@@ -32,7 +32,7 @@ export class LocalAppSettingListStep extends BindingSettingStepBase {
         const settings: ILocalSettingsJson = await getLocalSettingsJson(localSettingsPath);
         const existingSettings: string[] = settings.Values ? Object.keys(settings.Values) : [];
         let picks: IAzureQuickPickItem<string | undefined>[] = [{ label: localize('newAppSetting', '$(plus) Create new local app setting'), data: undefined }];
-        picks = picks.concat(existingSettings.map((s: string) => { return { data: s, label: s }; }));
+        picks = picks.concat(sortCurrentPickFirst(existingSettings.map((s: string) => { return { data: s, label: s }; }), this.getExistingValue(wizardContext), p => p.data));
         const placeHolder: string = localize('selectAppSetting', 'Select setting from "{0}"', localSettingsFileName);
         return (await ext.ui.showQuickPick(picks, { placeHolder })).data;
     }
@@ -18,8 +18,9 @@ export class StringPromptStep extends BindingSettingStepBase {
         });
     }
 
-    public async getDefaultValue(_wizardContext: IBindingWizardContext): Promise<string | undefined> {
-        return this._setting.defaultValue;
+    public async getDefaultValue(wizardContext: IBindingWizardContext): Promise<string | undefined> {
+        const existingValue: string | undefined = this.getExistingValue(wizardContext);
+        return existingValue !== undefined ? existingValue : this._setting.defaultValue;
     }
 
     public async validateInput(_wizardContext: IBindingWizardContext, val: string | undefined): Promise<string | undefined> {
@@ -0,0 +1,66 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { WebSiteManagementClient, WebSiteManagementModels } from 'azure-arm-website';
+import { ISiteTreeRoot, SiteClient } from 'vscode-azureappservice';
+import { createAzureClient } from 'vscode-azureextensionui';
+import { localize } from '../../localize';
+
+/**
+ * The type used for connection strings uploaded from "local.settings.json", since the local file doesn't specify a type
+ */
+export const defaultConnectionStringType: string = 'Custom';
+
+export async function listRemoteConnectionStrings(root: ISiteTreeRoot): Promise<WebSiteManagementModels.ConnectionStringDictionary> {
+    const client: SiteClient = root.client;
+    const webClient: WebSiteManagementClient = createAzureClient(root, WebSiteManagementClient);
+    return client.slotName ?
+        await webClient.webApps.listConnectionStringsSlot(client.resourceGroup, client.siteName, client.slotName) :
+        await webClient.webApps.listConnectionStrings(client.resourceGroup, client.siteName);
+}
+
+export async function updateRemoteConnectionStrings(root: ISiteTreeRoot, connectionStrings: WebSiteManagementModels.ConnectionStringDictionary): Promise<void> {
+    const client: SiteClient = root.client;
+    const webClient: WebSiteManagementClient = createAzureClient(root, WebSiteManagementClient);
+    if (client.slotName) {
+        await webClient.webApps.updateConnectionStringsSlot(client.resourceGroup, client.siteName, connectionStrings, client.slotName);
+    } else {
+        await webClient.webApps.updateConnectionStrings(client.resourceGroup, client.siteName, connectionStrings);
+    }
+}
+
+/**
+ * Converts remote connection strings to the flat name/value format used in "local.settings.json"
+ */
+export function getConnectionStringValues(connectionStrings: WebSiteManagementModels.ConnectionStringDictionary): { [key: string]: string } {
+    const result: { [key: string]: string } = {};
+    // tslint:disable-next-line: strict-boolean-expressions
+    const properties: { [key: string]: WebSiteManagementModels.ConnStringValueTypePair } = connectionStrings.properties || {};
+    for (const key of Object.keys(properties)) {
+        result[key] = properties[key].value;
+    }
+    return result;
+}
+
+/**
+ * Replaces the remote connection strings with the flat name/value pairs, preserving the type of any existing connection strings
+ */
+export function setConnectionStringValues(connectionStrings: WebSiteManagementModels.ConnectionStringDictionary, values: { [key: string]: string }): void {
+    // tslint:disable-next-line: strict-boolean-expressions
+    const oldProperties: { [key: string]: WebSiteManagementModels.ConnStringValueTypePair } = connectionStrings.properties || {};
+    const properties: { [key: string]: WebSiteManagementModels.ConnStringValueTypePair } = {};
+    for (const key of Object.keys(values)) {
+        const existing: WebSiteManagementModels.ConnStringValueTypePair | undefined = <WebSiteManagementModels.ConnStringValueTypePair | undefined>oldProperties[key];
+        properties[key] = { value: values[key], type: existing ? existing.type : defaultConnectionStringType };
+    }
+    connectionStrings.properties = properties;
+}
+
+/**
+ * Distinguishes the connection strings from the app settings of the same site or file when prompting the user
+ */
+export function getConnectionStringsName(name: string): string {
+    return localize('connectionStringsName', '{0} (Connection Strings)', name);
+}
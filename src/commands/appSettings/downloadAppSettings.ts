@@ -5,27 +5,37 @@
 
 import { WebSiteManagementModels } from "azure-arm-website";
 import * as fse from 'fs-extra';
+import * as path from 'path';
 import * as vscode from 'vscode';
-import { AppSettingsTreeItem, SiteClient } from "vscode-azureappservice";
-import { localSettingsFileName } from "../../constants";
+import { AppSettingsTreeItem, ISiteTreeRoot, SiteClient } from "vscode-azureappservice";
+import { IAzureQuickPickItem } from "vscode-azureextensionui";
+import { downloadSettingsExcludePlatformSetting, downloadSettingsExcludeSetting, downloadSettingsIncludeSetting, localSettingsFileName } from "../../constants";
 import { ext } from "../../extensionVariables";
+import { discoverLocalFunctions, getLocalFunctionConfig } from "../../funcConfig/discoverFunctions";
+import { IFunctionBinding } from "../../funcConfig/function";
 import { getLocalSettingsJson, ILocalSettingsJson } from "../../funcConfig/local.settings";
 import { localize } from "../../localize";
-import { confirmOverwriteSettings } from "./confirmOverwriteSettings";
+import { getWorkspaceSetting } from "../../vsCodeConfig/settings";
+import { getConnectionStringsName, getConnectionStringValues, listRemoteConnectionStrings } from "./connectionStrings";
 import { decryptLocalSettings } from "./decryptLocalSettings";
 import { encryptLocalSettings } from "./encryptLocalSettings";
+import { filterAppSettings, getBindingReferencedSettings, IAppSettingsFilter, IFilteredAppSettings } from "./filterAppSettings";
 import { getLocalSettingsFile } from "./getLocalSettingsFile";
+import { ISelectSettingsOptions, selectSettingsToMerge } from "./selectSettingsToMerge";
 
 export async function downloadAppSettings(node?: AppSettingsTreeItem): Promise<void> {
     if (!node) {
         node = <AppSettingsTreeItem>await ext.tree.showTreeItemPicker(AppSettingsTreeItem.contextValue);
     }
 
-    const client: SiteClient = node.root.client;
+    const root: ISiteTreeRoot = node.root;
+    const client: SiteClient = root.client;
 
     const message: string = localize('selectLocalSettings', 'Select the destination file for your downloaded settings.');
     const localSettingsPath: string = await getLocalSettingsFile(message);
     const localSettingsUri: vscode.Uri = vscode.Uri.file(localSettingsPath);
+    const filter: IAppSettingsFilter = await getDownloadFilter(path.dirname(localSettingsPath));
+    const keyVaultKeys: string[] = [];
 
     await node.runWithTemporaryDescription(localize('downloading', 'Downloading...'), async () => {
         ext.outputChannel.show(true);
@@ -45,7 +55,17 @@ export async function downloadAppSettings(node?: AppSettingsTreeItem): Promise<v
 
             const remoteSettings: WebSiteManagementModels.StringDictionary = await client.listApplicationSettings();
             if (remoteSettings.properties) {
-                await confirmOverwriteSettings(remoteSettings.properties, localSettings.Values, localSettingsFileName);
+                keyVaultKeys.push(...await mergeFilteredSettings(remoteSettings.properties, localSettings.Values, filter, client.fullName, localSettingsFileName));
+            }
+
+            const remoteConnectionStrings: { [key: string]: string } = getConnectionStringValues(await listRemoteConnectionStrings(root));
+            if (Object.keys(remoteConnectionStrings).length > 0) {
+                if (!localSettings.ConnectionStrings) {
+                    localSettings.ConnectionStrings = {};
+                }
+
+                const connectionStringKeyVaultKeys: string[] = await mergeFilteredSettings(remoteConnectionStrings, localSettings.ConnectionStrings, filter, getConnectionStringsName(client.fullName), getConnectionStringsName(localSettingsFileName));
+                keyVaultKeys.push(...connectionStringKeyVaultKeys.map(getConnectionStringsName));
             }
 
             await fse.ensureFile(localSettingsPath);
@@ -57,6 +77,12 @@ export async function downloadAppSettings(node?: AppSettingsTreeItem): Promise<v
         }
     });
 
+    if (keyVaultKeys.length > 0) {
+        const keyVaultMessage: string = localize('keyVaultNotDownloaded', 'The following settings use Key Vault references, which can\'t be resolved locally, and were not downloaded: {0}. Add local values for them manually.', keyVaultKeys.join(', '));
+        // don't wait
+        vscode.window.showWarningMessage(keyVaultMessage);
+    }
+
     const downloadedMessage: string = localize('downloadedSettings', `Successfully downloaded settings from "{0}".`, client.fullName);
     const openFile: string = localize('openFile', 'Open File');
     // don't wait
@@ -67,3 +93,62 @@ export async function downloadAppSettings(node?: AppSettingsTreeItem): Promise<v
         }
     });
 }
+
+async function getDownloadFilter(projectPath: string): Promise<IAppSettingsFilter> {
+    const filter: IAppSettingsFilter = {
+        // tslint:disable-next-line: strict-boolean-expressions
+        include: getWorkspaceSetting<string[]>(downloadSettingsIncludeSetting, projectPath) || [],
+        // tslint:disable-next-line: strict-boolean-expressions
+        exclude: getWorkspaceSetting<string[]>(downloadSettingsExcludeSetting, projectPath) || [],
+        excludePlatformSettings: getWorkspaceSetting<boolean>(downloadSettingsExcludePlatformSetting, projectPath) !== false
+    };
+
+    const bindings: IFunctionBinding[] = [];
+    try {
+        for (const func of await discoverLocalFunctions(projectPath)) {
+            try {
+                bindings.push(...(await getLocalFunctionConfig(func)).bindings);
+            } catch {
+                // ignore invalid functions
+            }
+        }
+    } catch {
+        // ignore and download all settings
+    }
+
+    if (bindings.length > 0) {
+        const picks: IAzureQuickPickItem<boolean>[] = [
+            { label: localize('downloadAll', 'All settings'), description: localize('downloadAllDescription', 'Uses the include and exclude patterns in your settings'), data: false },
+            { label: localize('downloadReferenced', 'Only settings referenced by bindings'), description: '', data: true }
+        ];
+        const placeHolder: string = localize('selectDownloadFilter', 'Select the settings to download');
+        if ((await ext.ui.showQuickPick(picks, { placeHolder, suppressPersistence: true })).data) {
+            filter.referencedKeys = getBindingReferencedSettings(bindings);
+        }
+    }
+
+    return filter;
+}
+
+/**
+ * Merges the remote settings that pass the filter into the local settings
+ * @returns The keys of the remote settings that are Key Vault references
+ */
+async function mergeFilteredSettings(remoteSettings: { [key: string]: string }, localSettings: { [key: string]: string }, filter: IAppSettingsFilter, remoteName: string, localName: string): Promise<string[]> {
+    const filtered: IFilteredAppSettings = filterAppSettings(remoteSettings, filter);
+    if (filtered.excludedKeys.length > 0) {
+        ext.outputChannel.appendLine(localize('excludedKeys', 'Excluded the following settings based on your filters:'));
+        filtered.excludedKeys.forEach(k => ext.outputChannel.appendLine(`- ${k}`));
+    }
+
+    if (filtered.keyVaultKeys.length > 0) {
+        ext.outputChannel.appendLine(localize('keyVaultKeys', 'WARNING: Skipped the following settings that use Key Vault references:'));
+        filtered.keyVaultKeys.forEach(k => ext.outputChannel.appendLine(`- ${k}`));
+    }
+
+    // Local settings that were filtered out remotely shouldn't be offered for removal
+    const filteredKeys: string[] = filtered.excludedKeys.concat(filtered.keyVaultKeys).map(k => k.toLowerCase());
+    const options: ISelectSettingsOptions = { isProtected: (key: string): boolean => filteredKeys.indexOf(key.toLowerCase()) !== -1 };
+    await selectSettingsToMerge(filtered.settings, localSettings, remoteName, localName, options);
+    return filtered.keyVaultKeys;
+}
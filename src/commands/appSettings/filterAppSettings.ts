@@ -0,0 +1,91 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IFunctionBinding } from '../../funcConfig/function';
+import { getBindingSettingReferences } from '../localSettings/settingReferences';
+
+/**
+ * Settings managed by the platform that break or don't apply when running locally
+ */
+export const platformAppSettingPatterns: string[] = [
+    'WEBSITE_*',
+    'SCM_*',
+    'MACHINEKEY_*',
+    'DIAGNOSTICS_*',
+    'FUNCTIONS_EXTENSION_VERSION'
+];
+
+export interface IAppSettingsFilter {
+    /**
+     * If not empty, only settings matching at least one of these patterns are included
+     */
+    include: string[];
+    exclude: string[];
+    excludePlatformSettings: boolean;
+    /**
+     * If defined, only these settings are included (e.g. the settings referenced by bindings)
+     */
+    referencedKeys?: string[];
+}
+
+export interface IFilteredAppSettings {
+    settings: { [key: string]: string };
+    excludedKeys: string[];
+    /**
+     * Settings whose values are Key Vault references, which can't be resolved locally
+     */
+    keyVaultKeys: string[];
+}
+
+/**
+ * Matches the key against a case-insensitive pattern, where '*' matches any characters
+ */
+export function matchesSettingPattern(key: string, pattern: string): boolean {
+    const regExpSource: string = pattern.split('*').map(p => p.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return new RegExp(`^${regExpSource}$`, 'i').test(key);
+}
+
+export function isKeyVaultReference(value: string): boolean {
+    return /^\s*@Microsoft\.KeyVault\(.*\)\s*$/i.test(value);
+}
+
+export function filterAppSettings(settings: { [key: string]: string }, filter: IAppSettingsFilter): IFilteredAppSettings {
+    const result: IFilteredAppSettings = { settings: {}, excludedKeys: [], keyVaultKeys: [] };
+    const referencedKeys: string[] | undefined = filter.referencedKeys ? filter.referencedKeys.map(k => k.toLowerCase()) : undefined;
+    for (const key of Object.keys(settings)) {
+        const matches: (pattern: string) => boolean = (pattern: string): boolean => matchesSettingPattern(key, pattern);
+        if ((filter.include.length > 0 && !filter.include.some(matches)) ||
+            filter.exclude.some(matches) ||
+            (filter.excludePlatformSettings && platformAppSettingPatterns.some(matches)) ||
+            (referencedKeys && referencedKeys.indexOf(key.toLowerCase()) === -1)) {
+            result.excludedKeys.push(key);
+        } else if (isKeyVaultReference(settings[key])) {
+            result.keyVaultKeys.push(key);
+        } else {
+            result.settings[key] = settings[key];
+        }
+    }
+    return result;
+}
+
+/**
+ * Returns the names of the app settings referenced by bindings, either through a connection property or a '%name%' expression
+ */
+export function getBindingReferencedSettings(bindings: IFunctionBinding[]): string[] {
+    const result: string[] = [];
+    const addKey: (key: string) => void = (key: string): void => {
+        if (key && !result.some(k => k.toLowerCase() === key.toLowerCase())) {
+            result.push(key);
+        }
+    };
+
+    for (const binding of bindings) {
+        for (const reference of getBindingSettingReferences(binding)) {
+            addKey(reference.key);
+        }
+    }
+
+    return result;
+}
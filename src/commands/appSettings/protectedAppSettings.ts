@@ -0,0 +1,21 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { azureWebJobsStorageKey } from '../../funcConfig/local.settings';
+
+/**
+ * Platform settings that are never deleted from Azure when mirroring local settings
+ */
+export const protectedAppSettingKeys: string[] = ['FUNCTIONS_EXTENSION_VERSION', azureWebJobsStorageKey];
+const protectedAppSettingPrefix: string = 'WEBSITE_';
+
+/**
+ * @param slotStickyNames The names of settings that are sticky to the slot, which are also protected
+ */
+export function isProtectedAppSetting(key: string, slotStickyNames: string[] = []): boolean {
+    const lowerKey: string = key.toLowerCase();
+    return lowerKey.startsWith(protectedAppSettingPrefix.toLowerCase()) ||
+        protectedAppSettingKeys.concat(slotStickyNames).some(k => k.toLowerCase() === lowerKey);
+}
@@ -0,0 +1,117 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { IAzureQuickPickItem } from "vscode-azureextensionui";
+import { ext } from "../../extensionVariables";
+import { localize } from "../../localize";
+import { setReadOnlyContent } from '../../utils/readOnlyContent';
+import { applySettingsDiffs, formatSettingsForDiff, getSettingDiffStateLabel, getSettingsDiff, ISettingDiff, SettingDiffState } from './settingsDiff';
+
+export interface ISelectSettingsOptions {
+    /**
+     * If true, settings only in the destination are selected for removal by default
+     */
+    mirror?: boolean;
+
+    /**
+     * Settings in the destination that should never be removed
+     */
+    isProtected?(key: string): boolean;
+}
+
+/**
+ * Shows a diff of the source and destination settings and lets the user select which settings to apply to the destination
+ * The destination settings are modified in place
+ * @returns The settings that were applied
+ */
+export async function selectSettingsToMerge(sourceSettings: { [key: string]: string }, destinationSettings: { [key: string]: string }, sourceName: string, destinationName: string, options: ISelectSettingsOptions = {}): Promise<ISettingDiff[]> {
+    const diffs: ISettingDiff[] = getSettingsDiff(sourceSettings, destinationSettings);
+    const isProtected: (diff: ISettingDiff) => boolean = (diff: ISettingDiff): boolean => diff.state === SettingDiffState.removed && !!options.isProtected && options.isProtected(diff.key);
+    const differentDiffs: ISettingDiff[] = diffs.filter(d => d.state !== SettingDiffState.identical && !isProtected(d));
+    const identicalDiffs: ISettingDiff[] = diffs.filter(d => d.state === SettingDiffState.identical);
+    const protectedDiffs: ISettingDiff[] = diffs.filter(isProtected);
+
+    let selectedDiffs: ISettingDiff[] = [];
+    if (differentDiffs.length > 0) {
+        let revealValues: boolean = false;
+        const diffId: string = `${sourceName}-${destinationName}-${Date.now()}`;
+        // tslint:disable-next-line: no-constant-condition
+        while (true) {
+            await showSettingsDiff(diffs, diffId, sourceName, destinationName, revealValues);
+
+            const selectSettings: IAzureQuickPickItem<boolean> = { label: localize('selectSettings', '$(checklist) Select settings to apply to "{0}"...', destinationName), description: '', data: false };
+            const toggleReveal: IAzureQuickPickItem<boolean> = revealValues ?
+                { label: localize('hideValues', '$(eye-closed) Hide values'), description: '', data: true } :
+                { label: localize('revealValues', '$(eye) Reveal values'), description: '', data: true };
+            const placeHolder: string = localize('reviewDiff', '{0} setting(s) differ between "{1}" and "{2}"', differentDiffs.length, sourceName, destinationName);
+            if ((await ext.ui.showQuickPick([selectSettings, toggleReveal], { placeHolder, suppressPersistence: true })).data) {
+                revealValues = !revealValues;
+            } else {
+                break;
+            }
+        }
+
+        const picks: IAzureQuickPickItem<ISettingDiff>[] = differentDiffs.map(d => {
+            return {
+                label: d.key,
+                description: d.state === SettingDiffState.removed ?
+                    localize('removedDescription', '{0} (deletes from "{1}")', getSettingDiffStateLabel(d.state), destinationName) :
+                    getSettingDiffStateLabel(d.state),
+                detail: getDiffDetail(d, revealValues),
+                data: d,
+                // Removing settings is destructive, so the user must opt in (unless they're mirroring)
+                picked: d.state !== SettingDiffState.removed || !!options.mirror
+            };
+        });
+        const pickPlaceHolder: string = localize('selectSettingsPlaceHolder', 'Select the settings to apply from "{0}" to "{1}"', sourceName, destinationName);
+        selectedDiffs = (await ext.ui.showQuickPick(picks, { placeHolder: pickPlaceHolder, canPickMany: true, suppressPersistence: true })).map(p => p.data);
+    }
+
+    applySettingsDiffs(selectedDiffs, destinationSettings);
+
+    logDiffs(localize('addedKeys', 'Added the following settings:'), selectedDiffs.filter(d => d.state === SettingDiffState.added));
+    logDiffs(localize('updatedKeys', 'Updated the following settings:'), selectedDiffs.filter(d => d.state === SettingDiffState.changed));
+    logDiffs(localize('removedKeys', 'Removed the following settings:'), selectedDiffs.filter(d => d.state === SettingDiffState.removed));
+    logDiffs(localize('matchingKeys', 'Ignored the following settings that were already the same:'), identicalDiffs);
+    logDiffs(localize('userIgnoredKeys', 'Ignored the following settings based on user input:'), differentDiffs.filter(d => selectedDiffs.indexOf(d) === -1));
+    logDiffs(localize('protectedKeys', 'Kept the following protected settings:'), protectedDiffs);
+    return selectedDiffs;
+}
+
+async function showSettingsDiff(diffs: ISettingDiff[], diffId: string, sourceName: string, destinationName: string, revealValues: boolean): Promise<void> {
+    const destinationUri: vscode.Uri = setReadOnlyContent(diffId, getDiffFileName(destinationName), formatSettingsForDiff(diffs, 'destination', revealValues));
+    const sourceUri: vscode.Uri = setReadOnlyContent(diffId, getDiffFileName(sourceName), formatSettingsForDiff(diffs, 'source', revealValues));
+    const title: string = localize('settingsDiffTitle', '{0} ↔ {1}', destinationName, sourceName);
+    await vscode.commands.executeCommand('vscode.diff', destinationUri, sourceUri, title, <vscode.TextDocumentShowOptions>{ preview: true, preserveFocus: true });
+}
+
+function getDiffFileName(name: string): string {
+    return /\.json$/i.test(name) ? name : `${name}.json`;
+}
+
+function getDiffDetail(diff: ISettingDiff, revealValues: boolean): string | undefined {
+    if (!revealValues) {
+        return undefined;
+    }
+
+    switch (diff.state) {
+        case SettingDiffState.added:
+            return diff.sourceValue;
+        case SettingDiffState.removed:
+            return diff.destinationValue;
+        default:
+            return localize('changedDetail', '{0} → {1}', diff.destinationValue, diff.sourceValue);
+    }
+}
+
+function logDiffs(message: string, diffs: ISettingDiff[]): void {
+    if (diffs.length > 0) {
+        ext.outputChannel.appendLine(message);
+        for (const diff of diffs) {
+            ext.outputChannel.appendLine(`- ${diff.key}`);
+        }
+    }
+}
@@ -0,0 +1,103 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { localize } from "../../localize";
+
+/**
+ * The state of a setting when applying the source settings to the destination settings
+ */
+export enum SettingDiffState {
+    /**
+     * Only in the source
+     */
+    added = 'added',
+    /**
+     * In both, but with different values
+     */
+    changed = 'changed',
+    /**
+     * Only in the destination
+     */
+    removed = 'removed',
+    identical = 'identical'
+}
+
+export interface ISettingDiff {
+    key: string;
+    state: SettingDiffState;
+    sourceValue?: string;
+    destinationValue?: string;
+}
+
+export const maskedValue: string = '********';
+
+/**
+ * Compares every key in either set of settings, sorted by key
+ */
+export function getSettingsDiff(sourceSettings: { [key: string]: string }, destinationSettings: { [key: string]: string }): ISettingDiff[] {
+    const keys: string[] = Object.keys(sourceSettings);
+    keys.push(...Object.keys(destinationSettings).filter(k => sourceSettings[k] === undefined));
+
+    return keys.sort().map(key => {
+        const sourceValue: string | undefined = sourceSettings[key];
+        const destinationValue: string | undefined = destinationSettings[key];
+        let state: SettingDiffState;
+        if (destinationValue === undefined) {
+            state = SettingDiffState.added;
+        } else if (sourceValue === undefined) {
+            state = SettingDiffState.removed;
+        } else if (sourceValue !== destinationValue) {
+            state = SettingDiffState.changed;
+        } else {
+            state = SettingDiffState.identical;
+        }
+        return { key, state, sourceValue, destinationValue };
+    });
+}
+
+export function getSettingDiffStateLabel(state: SettingDiffState): string {
+    switch (state) {
+        case SettingDiffState.added:
+            return localize('settingAdded', 'Added');
+        case SettingDiffState.changed:
+            return localize('settingChanged', 'Changed');
+        case SettingDiffState.removed:
+            return localize('settingRemoved', 'Removed');
+        default:
+            return localize('settingIdentical', 'Identical');
+    }
+}
+
+/**
+ * Formats one side of the diffs as json with sorted keys, so that the diff editor lines up the same keys
+ * When values are masked, changed values in the source are marked so that the diff editor still highlights them
+ */
+export function formatSettingsForDiff(diffs: ISettingDiff[], side: 'source' | 'destination', revealValues: boolean): string {
+    const settings: { [key: string]: string } = {};
+    for (const diff of diffs) {
+        const value: string | undefined = side === 'source' ? diff.sourceValue : diff.destinationValue;
+        if (value !== undefined) {
+            if (revealValues) {
+                settings[diff.key] = value;
+            } else {
+                settings[diff.key] = side === 'source' && diff.state === SettingDiffState.changed ? `${maskedValue} (${getSettingDiffStateLabel(diff.state)})` : maskedValue;
+            }
+        }
+    }
+    return JSON.stringify(settings, undefined, 4);
+}
+
+/**
+ * Applies the selected diffs to the destination settings. Removed settings are deleted from the destination
+ */
+export function applySettingsDiffs(diffs: ISettingDiff[], destinationSettings: { [key: string]: string }): void {
+    for (const diff of diffs) {
+        if (diff.state === SettingDiffState.removed) {
+            delete destinationSettings[diff.key];
+        } else if (diff.sourceValue !== undefined) {
+            destinationSettings[diff.key] = diff.sourceValue;
+        }
+    }
+}
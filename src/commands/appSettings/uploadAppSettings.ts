@@ -6,17 +6,24 @@
 import { WebSiteManagementModels } from "azure-arm-website";
 import * as fse from 'fs-extra';
 import * as vscode from 'vscode';
-import { AppSettingsTreeItem, SiteClient } from "vscode-azureappservice";
+import { AppSettingsTreeItem, ISiteTreeRoot, SiteClient } from "vscode-azureappservice";
+import { DialogResponses } from "vscode-azureextensionui";
 import { localSettingsFileName } from "../../constants";
 import { ext } from "../../extensionVariables";
 import { ILocalSettingsJson } from "../../funcConfig/local.settings";
 import { localize } from "../../localize";
-import { confirmOverwriteSettings } from "./confirmOverwriteSettings";
+import { getConnectionStringsName, getConnectionStringValues, listRemoteConnectionStrings, setConnectionStringValues, updateRemoteConnectionStrings } from "./connectionStrings";
 import { decryptLocalSettings } from "./decryptLocalSettings";
 import { encryptLocalSettings } from "./encryptLocalSettings";
 import { getLocalSettingsFile } from "./getLocalSettingsFile";
+import { isProtectedAppSetting } from "./protectedAppSettings";
+import { ISelectSettingsOptions, selectSettingsToMerge } from "./selectSettingsToMerge";
+import { ISettingDiff, SettingDiffState } from "./settingsDiff";
 
-export async function uploadAppSettings(node?: AppSettingsTreeItem, workspacePath?: string): Promise<void> {
+/**
+ * @param mirror If true, settings in Azure that aren't in the local settings are deleted (except for protected platform settings)
+ */
+export async function uploadAppSettings(node?: AppSettingsTreeItem, workspacePath?: string, mirror: boolean = false): Promise<void> {
     const message: string = localize('selectLocalSettings', 'Select the local settings file to upload.');
     const localSettingsPath: string = await getLocalSettingsFile(message, workspacePath);
     const localSettingsUri: vscode.Uri = vscode.Uri.file(localSettingsPath);
@@ -25,7 +32,8 @@ export async function uploadAppSettings(node?: AppSettingsTreeItem, workspacePat
         node = <AppSettingsTreeItem>await ext.tree.showTreeItemPicker(AppSettingsTreeItem.contextValue);
     }
 
-    const client: SiteClient = node.root.client;
+    const root: ISiteTreeRoot = node.root;
+    const client: SiteClient = root.client;
 
     await node.runWithTemporaryDescription(localize('uploading', 'Uploading...'), async () => {
         ext.outputChannel.show(true);
@@ -40,17 +48,69 @@ export async function uploadAppSettings(node?: AppSettingsTreeItem, workspacePat
             }
         }
 
+        // tslint:disable-next-line: strict-boolean-expressions
+        const localConnectionStrings: { [key: string]: string } = localSettings.ConnectionStrings || {};
+        const hasConnectionStrings: boolean = Object.keys(localConnectionStrings).length > 0;
+        if (!localSettings.Values && !hasConnectionStrings) {
+            throw new Error(localize('noSettings', 'No settings found in "{0}".', localSettingsFileName));
+        }
+
+        const slotConfigNames: WebSiteManagementModels.SlotConfigNamesResource = mirror ? await client.listSlotConfigurationNames() : {};
+        const removedKeys: string[] = [];
+
+        let remoteSettings: WebSiteManagementModels.StringDictionary | undefined;
         if (localSettings.Values) {
-            const remoteSettings: WebSiteManagementModels.StringDictionary = await client.listApplicationSettings();
+            remoteSettings = await client.listApplicationSettings();
             if (!remoteSettings.properties) {
                 remoteSettings.properties = {};
             }
 
-            await confirmOverwriteSettings(localSettings.Values, remoteSettings.properties, client.fullName);
+            const options: ISelectSettingsOptions = { mirror, isProtected: (key: string): boolean => isProtectedAppSetting(key, slotConfigNames.appSettingNames) };
+            const diffs: ISettingDiff[] = await selectSettingsToMerge(localSettings.Values, remoteSettings.properties, localSettingsFileName, client.fullName, options);
+            removedKeys.push(...getRemovedKeys(diffs));
+        }
+
+        // In mirror mode, connection strings need to be checked even if there are none locally since they may need to be deleted remotely
+        let remoteConnectionStrings: WebSiteManagementModels.ConnectionStringDictionary | undefined;
+        let remoteConnectionStringValues: { [key: string]: string } = {};
+        if (hasConnectionStrings || mirror) {
+            remoteConnectionStrings = await listRemoteConnectionStrings(root);
+            remoteConnectionStringValues = getConnectionStringValues(remoteConnectionStrings);
+            const options: ISelectSettingsOptions = { mirror, isProtected: (key: string): boolean => isProtectedAppSetting(key, slotConfigNames.connectionStringNames) };
+            const diffs: ISettingDiff[] = await selectSettingsToMerge(localConnectionStrings, remoteConnectionStringValues, getConnectionStringsName(localSettingsFileName), getConnectionStringsName(client.fullName), options);
+            removedKeys.push(...getRemovedKeys(diffs).map(getConnectionStringsName));
+        }
+
+        if (removedKeys.length > 0) {
+            await confirmRemovedKeys(removedKeys, client.fullName);
+        }
 
+        if (remoteSettings) {
             await client.updateApplicationSettings(remoteSettings);
-        } else {
-            throw new Error(localize('noSettings', 'No settings found in "{0}".', localSettingsFileName));
+        }
+
+        if (remoteConnectionStrings) {
+            setConnectionStringValues(remoteConnectionStrings, remoteConnectionStringValues);
+            await updateRemoteConnectionStrings(root, remoteConnectionStrings);
         }
     });
 }
+
+function getRemovedKeys(diffs: ISettingDiff[]): string[] {
+    return diffs.filter(d => d.state === SettingDiffState.removed).map(d => d.key);
+}
+
+/**
+ * Shows exactly which settings will be deleted before anything is changed in Azure
+ */
+async function confirmRemovedKeys(removedKeys: string[], siteName: string): Promise<void> {
+    ext.outputChannel.appendLine(localize('previewRemovedKeys', 'The following settings will be deleted from "{0}":', siteName));
+    for (const key of removedKeys) {
+        ext.outputChannel.appendLine(`- ${key}`);
+    }
+
+    const message: string = localize('confirmRemovedKeys', 'Are you sure you want to delete {0} setting(s) from "{1}"? {2}', removedKeys.length, siteName, removedKeys.join(', '));
+    const deleteButton: vscode.MessageItem = { title: localize('deleteAndUpload', 'Delete and upload') };
+    // Delete is the only button and cancel automatically throws, so no need to check result
+    await ext.ui.showWarningMessage(message, { modal: true }, deleteButton, DialogResponses.cancel);
+}
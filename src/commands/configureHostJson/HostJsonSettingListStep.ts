@@ -0,0 +1,39 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { AzureWizardPromptStep, IAzureQuickPickItem } from 'vscode-azureextensionui';
+import { ext } from '../../extensionVariables';
+import { localize } from '../../localize';
+import { getHostJsonSettingPath, getHostJsonValue, hostJsonSettings, IHostJsonSetting } from './hostJsonSettings';
+import { IHostJsonWizardContext } from './IHostJsonWizardContext';
+
+export class HostJsonSettingListStep extends AzureWizardPromptStep<IHostJsonWizardContext> {
+    public async prompt(wizardContext: IHostJsonWizardContext): Promise<void> {
+        const placeHolder: string = localize('selectHostJsonSetting', 'Select a setting to configure');
+        wizardContext.setting = (await ext.ui.showQuickPick(this.getPicks(wizardContext), { placeHolder })).data;
+        wizardContext.actionContext.properties.hostJsonSetting = wizardContext.setting.label;
+    }
+
+    public shouldPrompt(wizardContext: IHostJsonWizardContext): boolean {
+        return !wizardContext.setting;
+    }
+
+    private getPicks(wizardContext: IHostJsonWizardContext): IAzureQuickPickItem<IHostJsonSetting>[] {
+        const picks: IAzureQuickPickItem<IHostJsonSetting>[] = [];
+        for (const setting of hostJsonSettings) {
+            const settingPath: string[] | undefined = getHostJsonSettingPath(setting, wizardContext.runtime);
+            if (settingPath) {
+                const value: unknown = getHostJsonValue(wizardContext.data, settingPath);
+                picks.push({
+                    label: setting.label,
+                    description: value === undefined ? localize('defaultValue', '(default)') : JSON.stringify(value),
+                    detail: setting.description,
+                    data: setting
+                });
+            }
+        }
+        return picks;
+    }
+}
@@ -0,0 +1,48 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import { Progress, window } from 'vscode';
+import { AzureWizardExecuteStep } from 'vscode-azureextensionui';
+import { hostFileName } from '../../constants';
+import { ext } from '../../extensionVariables';
+import { parseHostJson } from '../../funcConfig/host';
+import { localize } from '../../localize';
+import { confirmEditJsonFile } from '../../utils/fs';
+import { nonNullProp, nonNullValue } from '../../utils/nonNull';
+import { getHostJsonSettingPath, IHostJsonSetting, setHostJsonValue } from './hostJsonSettings';
+import { IHostJsonWizardContext } from './IHostJsonWizardContext';
+
+export class HostJsonUpdateStep extends AzureWizardExecuteStep<IHostJsonWizardContext> {
+    public priority: number = 100;
+
+    public async execute(wizardContext: IHostJsonWizardContext, _progress: Progress<{ message?: string | undefined; increment?: number | undefined }>): Promise<void> {
+        const setting: IHostJsonSetting = nonNullProp(wizardContext, 'setting');
+        const settingPath: string[] = nonNullValue(getHostJsonSettingPath(setting, wizardContext.runtime), 'settingPath');
+        // Null means the setting should be removed
+        const value: string | number | boolean | null | undefined = wizardContext.value;
+
+        let newData: {} = wizardContext.data;
+        await confirmEditJsonFile(path.join(wizardContext.projectPath, hostFileName), (data: {}) => {
+            setHostJsonValue(data, settingPath, value === null ? undefined : value);
+            newData = data;
+            return data;
+        });
+
+        ext.outputChannel.appendLine(localize('updatedHostJson', 'Updated "{0}" in "{1}".', setting.label, hostFileName));
+
+        // Other settings may have been invalid before this change, so report all problems rather than blocking the edit
+        const problems: string[] = parseHostJson(newData, wizardContext.runtime).validate();
+        if (problems.length > 0) {
+            const message: string = localize('hostJsonProblems', '"{0}" has {1} problem(s): {2}', hostFileName, problems.length, problems.join(' '));
+            // don't wait
+            window.showWarningMessage(message);
+        }
+    }
+
+    public shouldExecute(wizardContext: IHostJsonWizardContext): boolean {
+        return !!wizardContext.setting && wizardContext.value !== undefined;
+    }
+}
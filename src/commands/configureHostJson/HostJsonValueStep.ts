@@ -0,0 +1,64 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { AzureWizardPromptStep, IAzureQuickPickItem } from 'vscode-azureextensionui';
+import { ext } from '../../extensionVariables';
+import { HostJsonValueType, logLevels, validateFunctionTimeout, validateHostJsonValue } from '../../funcConfig/host';
+import { localize } from '../../localize';
+import { nonNullProp, nonNullValue } from '../../utils/nonNull';
+import { getHostJsonSettingPath, getHostJsonValue, IHostJsonSetting } from './hostJsonSettings';
+import { IHostJsonWizardContext } from './IHostJsonWizardContext';
+
+export class HostJsonValueStep extends AzureWizardPromptStep<IHostJsonWizardContext> {
+    public async prompt(wizardContext: IHostJsonWizardContext): Promise<void> {
+        const setting: IHostJsonSetting = nonNullProp(wizardContext, 'setting');
+        const settingPath: string[] = nonNullValue(getHostJsonSettingPath(setting, wizardContext.runtime), 'settingPath');
+        const currentValue: unknown = getHostJsonValue(wizardContext.data, settingPath);
+        const useDefault: string = localize('useDefault', '$(circle-slash) Use default');
+        const useDefaultDescription: string = localize('useDefaultDescription', 'Remove the setting from host.json');
+
+        if (setting.valueType === HostJsonValueType.boolean || setting.valueType === HostJsonValueType.logLevel) {
+            const values: (string | boolean)[] = setting.valueType === HostJsonValueType.boolean ? [true, false] : logLevels;
+            const picks: IAzureQuickPickItem<string | boolean | null>[] = values.map(v => {
+                return { label: String(v), description: v === currentValue ? localize('current', '(current)') : undefined, data: v };
+            });
+            picks.push({ label: useDefault, description: useDefaultDescription, data: null });
+            const placeHolder: string = localize('selectValue', 'Select a value for "{0}"', setting.label);
+            wizardContext.value = (await ext.ui.showQuickPick(picks, { placeHolder, suppressPersistence: true })).data;
+        } else {
+            const prompt: string = setting.valueType === HostJsonValueType.timeSpan ?
+                localize('enterTimeSpan', 'Enter a time span for "{0}" (e.g. "00:05:00"). Leave empty to use the default.', setting.label) :
+                localize('enterNumber', 'Enter a value for "{0}". Leave empty to use the default.', setting.label);
+            const value: string = (await ext.ui.showInputBox({
+                prompt,
+                value: currentValue === undefined ? undefined : String(currentValue),
+                validateInput: (s: string): string | undefined => s.trim() ? this.validateValue(wizardContext, setting, settingPath, this.parseValue(setting, s)) : undefined
+            })).trim();
+            wizardContext.value = value ? this.parseValue(setting, value) : null;
+        }
+    }
+
+    public shouldPrompt(wizardContext: IHostJsonWizardContext): boolean {
+        return !!wizardContext.setting && wizardContext.value === undefined;
+    }
+
+    private validateValue(wizardContext: IHostJsonWizardContext, setting: IHostJsonSetting, settingPath: string[], value: string | number): string | undefined {
+        // Use the same check as `parseHostJson` so that the wizard and the validation agree
+        if (settingPath.join('.') === 'functionTimeout') {
+            return validateFunctionTimeout(value, wizardContext.runtime);
+        } else {
+            return validateHostJsonValue(setting.label, value, setting.valueType, setting.min, setting.max);
+        }
+    }
+
+    private parseValue(setting: IHostJsonSetting, value: string): string | number {
+        if (setting.valueType === HostJsonValueType.timeSpan) {
+            return value.trim();
+        } else {
+            // Number('') is 0, so explicitly check for whitespace
+            return value.trim() ? Number(value) : NaN;
+        }
+    }
+}
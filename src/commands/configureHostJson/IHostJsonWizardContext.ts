@@ -0,0 +1,23 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IActionContext } from 'vscode-azureextensionui';
+import { ProjectRuntime } from '../../constants';
+import { IHostJsonSetting } from './hostJsonSettings';
+
+export interface IHostJsonWizardContext {
+    actionContext: IActionContext;
+    projectPath: string;
+    runtime: ProjectRuntime;
+    /**
+     * The current contents of the 'host.json' file
+     */
+    data: {};
+    setting?: IHostJsonSetting;
+    /**
+     * The new value for the setting. Null if the setting should be removed so that the runtime uses its default
+     */
+    value?: string | number | boolean | null;
+}
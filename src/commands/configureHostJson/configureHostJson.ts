@@ -0,0 +1,56 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fse from 'fs-extra';
+import * as path from 'path';
+import { Uri } from 'vscode';
+import { AzureWizard, IActionContext } from 'vscode-azureextensionui';
+import { hostFileName, ProjectRuntime, projectRuntimeSetting } from '../../constants';
+import { ext } from '../../extensionVariables';
+import { localize } from '../../localize';
+import { LocalProjectTreeItem } from '../../tree/localProject/LocalProjectTreeItem';
+import { convertStringToRuntime, getWorkspaceSetting } from '../../vsCodeConfig/settings';
+import { HostJsonSettingListStep } from './HostJsonSettingListStep';
+import { HostJsonUpdateStep } from './HostJsonUpdateStep';
+import { HostJsonValueStep } from './HostJsonValueStep';
+import { IHostJsonWizardContext } from './IHostJsonWizardContext';
+
+export async function configureHostJson(this: IActionContext, data: Uri | LocalProjectTreeItem | undefined): Promise<void> {
+    let projectPath: string;
+    if (data instanceof Uri) {
+        projectPath = path.dirname(data.fsPath);
+    } else {
+        if (!data) {
+            data = <LocalProjectTreeItem>await ext.tree.showTreeItemPicker(LocalProjectTreeItem.contextValue);
+        }
+        projectPath = data.root.projectPath;
+    }
+
+    const hostJsonPath: string = path.join(projectPath, hostFileName);
+    if (!await fse.pathExists(hostJsonPath)) {
+        throw new Error(localize('hostJsonNotFound', 'Failed to find "{0}" in project "{1}".', hostFileName, projectPath));
+    }
+
+    const hostJson: {} = <{}>await fse.readJSON(hostJsonPath);
+    // tslint:disable-next-line: strict-boolean-expressions
+    const runtime: ProjectRuntime = convertStringToRuntime(getWorkspaceSetting(projectRuntimeSetting, projectPath)) || getRuntimeFromHostJson(hostJson);
+    this.properties.projectRuntime = runtime;
+
+    const wizardContext: IHostJsonWizardContext = { actionContext: this, projectPath, runtime, data: hostJson };
+    const wizard: AzureWizard<IHostJsonWizardContext> = new AzureWizard(wizardContext, {
+        promptSteps: [new HostJsonSettingListStep(), new HostJsonValueStep()],
+        executeSteps: [new HostJsonUpdateStep()],
+        title: localize('configureHostJsonTitle', 'Configure {0}', hostFileName)
+    });
+    await wizard.prompt(this);
+    await wizard.execute(this);
+}
+
+/**
+ * Only v2+ of 'host.json' has a "version" property
+ */
+function getRuntimeFromHostJson(data: { version?: unknown }): ProjectRuntime {
+    return data.version === undefined ? ProjectRuntime.v1 : ProjectRuntime.v2;
+}
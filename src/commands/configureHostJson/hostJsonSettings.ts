@@ -0,0 +1,172 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { ProjectRuntime } from '../../constants';
+import { defaultLogCategory, HostJsonValueType } from '../../funcConfig/host';
+import { localize } from '../../localize';
+
+/**
+ * Describes a setting in 'host.json' that can be configured with the "Configure host.json" wizard
+ */
+export interface IHostJsonSetting {
+    label: string;
+    description: string;
+    valueType: HostJsonValueType;
+    /**
+     * The path to the setting in 'host.json' for each runtime. The setting is not supported by a runtime if its path is undefined
+     */
+    v1Path?: string[];
+    v2Path?: string[];
+    min?: number;
+    max?: number;
+}
+
+function sharedSetting(setting: Pick<IHostJsonSetting, Exclude<keyof IHostJsonSetting, 'v1Path' | 'v2Path'>>, path: string[]): IHostJsonSetting {
+    return { ...setting, v1Path: path, v2Path: path };
+}
+
+export const hostJsonSettings: IHostJsonSetting[] = [
+    sharedSetting({ label: 'functionTimeout', description: localize('functionTimeoutDesc', 'Timeout duration for all functions'), valueType: HostJsonValueType.timeSpan }, ['functionTimeout']),
+    {
+        label: localize('defaultLogLevel', 'Default log level'),
+        description: localize('defaultLogLevelDesc', 'Log level for categories that don\'t have their own level'),
+        valueType: HostJsonValueType.logLevel,
+        v1Path: ['logger', 'categoryFilter', 'defaultLevel'],
+        v2Path: ['logging', 'logLevel', defaultLogCategory]
+    },
+    {
+        label: localize('samplingEnabled', 'Application Insights sampling'),
+        description: localize('samplingEnabledDesc', 'Whether telemetry is sampled'),
+        valueType: HostJsonValueType.boolean,
+        v1Path: ['applicationInsights', 'sampling', 'isEnabled'],
+        v2Path: ['logging', 'applicationInsights', 'samplingSettings', 'isEnabled']
+    },
+    {
+        label: localize('samplingMaxItems', 'Application Insights max telemetry items per second'),
+        description: localize('samplingMaxItemsDesc', 'The threshold at which sampling begins'),
+        valueType: HostJsonValueType.integer,
+        min: 1,
+        v1Path: ['applicationInsights', 'sampling', 'maxTelemetryItemsPerSecond'],
+        v2Path: ['logging', 'applicationInsights', 'samplingSettings', 'maxTelemetryItemsPerSecond']
+    },
+    ...['batchSize', 'maxDequeueCount', 'newBatchThreshold', 'visibilityTimeout'].map(key => {
+        const setting: IHostJsonSetting = {
+            label: `queues.${key}`,
+            description: localize('queuesDesc', 'Queue trigger setting'),
+            valueType: key === 'visibilityTimeout' ? HostJsonValueType.timeSpan : HostJsonValueType.integer,
+            v1Path: ['queues', key],
+            v2Path: ['extensions', 'queues', key]
+        };
+        if (key === 'batchSize') {
+            setting.min = 1;
+            setting.max = 32;
+        } else if (key === 'maxDequeueCount') {
+            setting.min = 1;
+        } else if (key === 'newBatchThreshold') {
+            setting.min = 0;
+        }
+        return setting;
+    }),
+    {
+        label: 'serviceBus.prefetchCount',
+        description: localize('serviceBusDesc', 'Service Bus trigger setting'),
+        valueType: HostJsonValueType.integer,
+        min: 0,
+        v1Path: ['serviceBus', 'prefetchCount'],
+        v2Path: ['extensions', 'serviceBus', 'prefetchCount']
+    },
+    {
+        label: 'serviceBus.maxConcurrentCalls',
+        description: localize('serviceBusDesc', 'Service Bus trigger setting'),
+        valueType: HostJsonValueType.integer,
+        min: 1,
+        v1Path: ['serviceBus', 'maxConcurrentCalls'],
+        v2Path: ['extensions', 'serviceBus', 'messageHandlerOptions', 'maxConcurrentCalls']
+    },
+    {
+        label: 'serviceBus.maxAutoRenewDuration',
+        description: localize('serviceBusDesc', 'Service Bus trigger setting'),
+        valueType: HostJsonValueType.timeSpan,
+        v1Path: ['serviceBus', 'autoRenewTimeout'],
+        v2Path: ['extensions', 'serviceBus', 'messageHandlerOptions', 'maxAutoRenewDuration']
+    },
+    {
+        label: 'eventHubs.maxBatchSize',
+        description: localize('eventHubsDesc', 'Event Hubs trigger setting'),
+        valueType: HostJsonValueType.integer,
+        min: 1,
+        v1Path: ['eventHub', 'maxBatchSize'],
+        v2Path: ['extensions', 'eventHubs', 'eventProcessorOptions', 'maxBatchSize']
+    },
+    {
+        label: 'eventHubs.prefetchCount',
+        description: localize('eventHubsDesc', 'Event Hubs trigger setting'),
+        valueType: HostJsonValueType.integer,
+        min: 0,
+        v1Path: ['eventHub', 'prefetchCount'],
+        v2Path: ['extensions', 'eventHubs', 'eventProcessorOptions', 'prefetchCount']
+    },
+    {
+        label: 'eventHubs.batchCheckpointFrequency',
+        description: localize('eventHubsDesc', 'Event Hubs trigger setting'),
+        valueType: HostJsonValueType.integer,
+        min: 1,
+        v1Path: ['eventHub', 'batchCheckpointFrequency'],
+        v2Path: ['extensions', 'eventHubs', 'batchCheckpointFrequency']
+    },
+    sharedSetting({ label: 'healthMonitor.enabled', description: localize('healthMonitorDesc', 'Host health monitor setting'), valueType: HostJsonValueType.boolean }, ['healthMonitor', 'enabled']),
+    sharedSetting({ label: 'healthMonitor.healthCheckInterval', description: localize('healthMonitorDesc', 'Host health monitor setting'), valueType: HostJsonValueType.timeSpan }, ['healthMonitor', 'healthCheckInterval']),
+    sharedSetting({ label: 'healthMonitor.healthCheckWindow', description: localize('healthMonitorDesc', 'Host health monitor setting'), valueType: HostJsonValueType.timeSpan }, ['healthMonitor', 'healthCheckWindow']),
+    sharedSetting({ label: 'healthMonitor.healthCheckThreshold', description: localize('healthMonitorDesc', 'Host health monitor setting'), valueType: HostJsonValueType.integer, min: 1 }, ['healthMonitor', 'healthCheckThreshold']),
+    sharedSetting({ label: 'healthMonitor.counterThreshold', description: localize('healthMonitorDesc', 'Host health monitor setting'), valueType: HostJsonValueType.number, min: 0, max: 1 }, ['healthMonitor', 'counterThreshold']),
+    ...['lockPeriod', 'listenerLockPeriod', 'listenerLockRecoveryPollingInterval', 'lockAcquisitionTimeout', 'lockAcquisitionPollingInterval'].map(key => {
+        return sharedSetting({ label: `singleton.${key}`, description: localize('singletonDesc', 'Singleton lock setting'), valueType: HostJsonValueType.timeSpan }, ['singleton', key]);
+    })
+];
+
+export function getHostJsonSettingPath(setting: IHostJsonSetting, runtime: ProjectRuntime): string[] | undefined {
+    return runtime === ProjectRuntime.v1 ? setting.v1Path : setting.v2Path;
+}
+
+export function getHostJsonValue(data: {}, path: string[]): unknown {
+    let value: unknown = data;
+    for (const key of path) {
+        if (typeof value === 'object' && value !== null) {
+            value = (<{ [key: string]: unknown }>value)[key];
+        } else {
+            return undefined;
+        }
+    }
+    return value;
+}
+
+/**
+ * Sets the value at the path, creating any parent objects as necessary. If the value is undefined, the setting is removed along with any parent objects left empty
+ */
+export function setHostJsonValue(data: {}, path: string[], value: unknown): void {
+    const parents: { [key: string]: unknown }[] = [<{ [key: string]: unknown }>data];
+    for (const key of path.slice(0, -1)) {
+        const parent: { [key: string]: unknown } = parents[parents.length - 1];
+        let child: unknown = parent[key];
+        if (typeof child !== 'object' || child === null) {
+            if (value === undefined) {
+                return;
+            }
+            child = {};
+            parent[key] = child;
+        }
+        parents.push(<{ [key: string]: unknown }>child);
+    }
+
+    const lastKey: string = path[path.length - 1];
+    if (value === undefined) {
+        delete parents[parents.length - 1][lastKey];
+        for (let i: number = parents.length - 1; i > 0 && Object.keys(parents[i]).length === 0; i -= 1) {
+            delete parents[i - 1][path[i - 1]];
+        }
+    } else {
+        parents[parents.length - 1][lastKey] = value;
+    }
+}
@@ -0,0 +1,21 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { ext } from '../extensionVariables';
+import { localize } from '../localize';
+import { LocalFunctionTreeItem } from '../tree/localProject/LocalFunctionTreeItem';
+
+export async function copyLocalFunctionUrl(node?: LocalFunctionTreeItem): Promise<void> {
+    if (!node) {
+        node = <LocalFunctionTreeItem>await ext.tree.showTreeItemPicker(/^azFuncLocalFunctionHttp(ReadOnly|)$/i);
+    }
+
+    if (node.config.isHttpTrigger) {
+        await vscode.env.clipboard.writeText(await node.getTriggerUrl());
+    } else {
+        throw new Error(localize('CopyFailedForNonHttp', 'Function URLs can only be used for HTTP triggers.'));
+    }
+}
@@ -16,6 +16,7 @@ import { writeFormattedJson } from '../../utils/fs';
 import { nonNullProp } from '../../utils/nonNull';
 import { getContainingWorkspace } from '../../utils/workspace';
 import { IFunctionWizardContext } from './IFunctionWizardContext';
+import { addRecentTemplate } from './recentTemplates';
 
 interface ICachedFunction {
     projectPath: string;
@@ -54,6 +55,7 @@ export abstract class FunctionCreateStepBase<T extends IFunctionWizardContext> e
         progress.report({ message: localize('creatingFunction', 'Creating new {0}...', template.name) });
 
         const newFilePath: string = await this.executeCore(wizardContext);
+        await addRecentTemplate(nonNullProp(wizardContext, 'language'), template.id);
         if (await this.shouldUseExtensionBundle(wizardContext, template)) {
             await this.verifyExtensionBundle(wizardContext);
         }
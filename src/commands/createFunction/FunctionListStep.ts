@@ -8,8 +8,9 @@ import { ProjectLanguage, ProjectRuntime, TemplateFilter, templateFilterSetting
 import { ext } from '../../extensionVariables';
 import { getAzureWebJobsStorage } from '../../funcConfig/local.settings';
 import { localize } from '../../localize';
-import { IFunctionTemplate } from '../../templates/IFunctionTemplate';
+import { IFunctionTemplate, TemplateCategory } from '../../templates/IFunctionTemplate';
 import { TemplateProvider } from '../../templates/TemplateProvider';
+import { getPinnedTemplateVersion } from '../../templates/templateVersionLock';
 import { nonNullProp } from '../../utils/nonNull';
 import { getWorkspaceSetting, updateWorkspaceSetting } from '../../vsCodeConfig/settings';
 import { addBindingSettingSteps } from '../addBinding/settingSteps/addBindingSettingSteps';
@@ -22,6 +23,8 @@ import { DotnetNamespaceStep } from './dotnetSteps/DotnetNamespaceStep';
 import { IFunctionWizardContext } from './IFunctionWizardContext';
 import { JavaFunctionCreateStep } from './javaSteps/JavaFunctionCreateStep';
 import { JavaFunctionNameStep } from './javaSteps/JavaFunctionNameStep';
+import { previewFunctionTemplate } from './previewFunctionTemplate';
+import { getRecentTemplateIds } from './recentTemplates';
 import { ScriptFunctionCreateStep } from './scriptSteps/ScriptFunctionCreateStep';
 import { ScriptFunctionNameStep } from './scriptSteps/ScriptFunctionNameStep';
 import { TypeScriptFunctionCreateStep } from './scriptSteps/TypeScriptFunctionCreateStep';
@@ -44,7 +47,8 @@ export class FunctionListStep extends AzureWizardPromptStep<IFunctionWizardConte
             const language: ProjectLanguage = nonNullProp(wizardContext, 'language');
             const runtime: ProjectRuntime = nonNullProp(wizardContext, 'runtime');
             const templateProvider: TemplateProvider = await ext.templateProviderTask;
-            const templates: IFunctionTemplate[] = await templateProvider.getTemplates(language, runtime, wizardContext.projectPath, TemplateFilter.All, wizardContext.actionContext.properties);
+            const templateVersion: string | undefined = await getTemplateVersion(wizardContext);
+            const templates: IFunctionTemplate[] = await templateProvider.getTemplates(language, runtime, wizardContext.projectPath, TemplateFilter.All, wizardContext.actionContext.properties, templateVersion);
             const foundTemplate: IFunctionTemplate | undefined = templates.find((t: IFunctionTemplate) => t.id === options.templateId);
             if (foundTemplate) {
                 wizardContext.functionTemplate = foundTemplate;
@@ -117,7 +121,7 @@ export class FunctionListStep extends AzureWizardPromptStep<IFunctionWizardConte
             const placeHolder: string = this._isProjectWizard ?
                 localize('selectFirstFuncTemplate', "Select a template for your project's first function") :
                 localize('selectFuncTemplate', 'Select a template for your function');
-            const result: IFunctionTemplate | TemplatePromptResult = (await ext.ui.showQuickPick(this.getPicks(wizardContext, templateFilter), { placeHolder })).data;
+            const result: IFunctionTemplate | TemplatePromptResult = (await ext.ui.showQuickPick(this.getPicks(wizardContext, templateFilter), { placeHolder, matchOnDescription: true, matchOnDetail: true })).data;
             if (result === 'skipForNow') {
                 wizardContext.actionContext.properties.templateId = 'skipForNow';
                 break;
@@ -127,6 +131,12 @@ export class FunctionListStep extends AzureWizardPromptStep<IFunctionWizardConte
                 if (!this._isProjectWizard || wizardContext.openBehavior === 'AlreadyOpen') {
                     await updateWorkspaceSetting(templateFilterSetting, templateFilter, wizardContext.projectPath);
                 }
+            } else if (result === 'preview') {
+                const templates: IFunctionTemplate[] = await this.getTemplates(wizardContext, templateFilter);
+                const previewPlaceHolder: string = localize('selectTemplateToPreview', 'Select a template to preview');
+                const template: IFunctionTemplate = (await ext.ui.showQuickPick(this.getTemplatePicks(wizardContext, templates), { placeHolder: previewPlaceHolder, matchOnDescription: true, matchOnDetail: true })).data;
+                wizardContext.actionContext.properties.previewedTemplate = 'true';
+                await previewFunctionTemplate(template);
             } else {
                 wizardContext.functionTemplate = result;
             }
@@ -139,15 +149,43 @@ export class FunctionListStep extends AzureWizardPromptStep<IFunctionWizardConte
         return !wizardContext.functionTemplate;
     }
 
-    private async getPicks(wizardContext: IFunctionWizardContext, templateFilter: TemplateFilter): Promise<IAzureQuickPickItem<IFunctionTemplate | TemplatePromptResult>[]> {
+    private async getTemplates(wizardContext: IFunctionWizardContext, templateFilter: TemplateFilter): Promise<IFunctionTemplate[]> {
         const language: ProjectLanguage = nonNullProp(wizardContext, 'language');
         const runtime: ProjectRuntime = nonNullProp(wizardContext, 'runtime');
 
         const provider: TemplateProvider = await ext.templateProviderTask;
-        let templates: IFunctionTemplate[] = await provider.getTemplates(language, runtime, wizardContext.projectPath, templateFilter, wizardContext.actionContext.properties);
-        templates = templates.sort((a, b) => sortTemplates(a, b, templateFilter));
+        const templateVersion: string | undefined = await getTemplateVersion(wizardContext);
+        const templates: IFunctionTemplate[] = await provider.getTemplates(language, runtime, wizardContext.projectPath, templateFilter, wizardContext.actionContext.properties, templateVersion);
+        const recentTemplateIds: string[] = getRecentTemplateIds(language);
+        return templates.sort((a, b) => sortTemplates(a, b, templateFilter, recentTemplateIds));
+    }
+
+    private getTemplatePicks(wizardContext: IFunctionWizardContext, templates: IFunctionTemplate[]): IAzureQuickPickItem<IFunctionTemplate>[] {
+        const recentTemplateIds: string[] = getRecentTemplateIds(nonNullProp(wizardContext, 'language'));
+        return templates.map(t => {
+            const descriptionParts: string[] = [];
+            if (recentTemplateIds.indexOf(t.id) !== -1) {
+                descriptionParts.push(localize('recentTemplate', '(Recently used)'));
+            }
+            if (isCustomTemplate(t)) {
+                descriptionParts.push(localize('customTemplate', '(Custom)'));
+            }
+            if (t.bindingTypes.length > 0) {
+                descriptionParts.push(t.bindingTypes.join(', '));
+            }
 
-        const picks: IAzureQuickPickItem<IFunctionTemplate | TemplatePromptResult>[] = templates.map(t => { return { label: t.name, data: t }; });
+            return {
+                label: t.name,
+                description: descriptionParts.join(' '),
+                detail: t.description,
+                data: t
+            };
+        });
+    }
+
+    private async getPicks(wizardContext: IFunctionWizardContext, templateFilter: TemplateFilter): Promise<IAzureQuickPickItem<IFunctionTemplate | TemplatePromptResult>[]> {
+        const templates: IFunctionTemplate[] = await this.getTemplates(wizardContext, templateFilter);
+        const picks: IAzureQuickPickItem<IFunctionTemplate | TemplatePromptResult>[] = this.getTemplatePicks(wizardContext, templates);
 
         if (this._isProjectWizard) {
             picks.unshift({
@@ -157,6 +195,13 @@ export class FunctionListStep extends AzureWizardPromptStep<IFunctionWizardConte
             });
         }
 
+        picks.push({
+            label: localize('previewTemplate', '$(eye) Preview a template'),
+            description: localize('previewTemplateDescription', 'View the files generated by a template before creating a function'),
+            data: 'preview',
+            suppressPersistence: true
+        });
+
         picks.push({
             label: localize('selectFilter', '$(gear) Change template filter'),
             description: localize('currentFilter', 'Current: {0}', templateFilter),
@@ -174,7 +219,7 @@ interface IFunctionListStepOptions {
     triggerSettings: { [key: string]: string | undefined } | undefined;
 }
 
-type TemplatePromptResult = 'changeFilter' | 'skipForNow';
+type TemplatePromptResult = 'changeFilter' | 'preview' | 'skipForNow';
 
 async function promptForTemplateFilter(): Promise<TemplateFilter> {
     const picks: IAzureQuickPickItem<TemplateFilter>[] = [
@@ -188,10 +233,42 @@ async function promptForTemplateFilter(): Promise<TemplateFilter> {
 }
 
 /**
- * If templateFilter is verified, puts HttpTrigger at the top since it's the most popular
+ * Uses the version pinned in the project's lock file (if any), so that everyone working on the project generates the same code
+ */
+async function getTemplateVersion(wizardContext: IFunctionWizardContext): Promise<string | undefined> {
+    if (!wizardContext.templateVersion) {
+        wizardContext.templateVersion = await getPinnedTemplateVersion(wizardContext.projectPath);
+    }
+    return wizardContext.templateVersion;
+}
+
+function isCustomTemplate(template: IFunctionTemplate): boolean {
+    return template.categories.indexOf(TemplateCategory.Custom) !== -1;
+}
+
+/**
+ * Puts recently used templates at the top, most recent first
+ * Then puts custom templates at the top since they were configured specifically for this project
+ * Then if templateFilter is verified, puts HttpTrigger at the top since it's the most popular
  * Otherwise sort alphabetically
  */
-function sortTemplates(a: IFunctionTemplate, b: IFunctionTemplate, templateFilter: TemplateFilter): number {
+function sortTemplates(a: IFunctionTemplate, b: IFunctionTemplate, templateFilter: TemplateFilter, recentTemplateIds: string[]): number {
+    const aRecentIndex: number = recentTemplateIds.indexOf(a.id);
+    const bRecentIndex: number = recentTemplateIds.indexOf(b.id);
+    if (aRecentIndex !== bRecentIndex) {
+        if (aRecentIndex === -1) {
+            return 1;
+        } else if (bRecentIndex === -1) {
+            return -1;
+        } else {
+            return aRecentIndex - bRecentIndex;
+        }
+    }
+
+    if (isCustomTemplate(a) !== isCustomTemplate(b)) {
+        return isCustomTemplate(a) ? -1 : 1;
+    }
+
     if (templateFilter === TemplateFilter.Verified) {
         const regExp: RegExp = /httptrigger($|[^a-z])/i;
         if (regExp.test(a.id)) {
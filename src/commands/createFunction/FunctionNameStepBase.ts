@@ -30,12 +30,16 @@ export abstract class FunctionNameStepBase<T extends IFunctionWizardContext> ext
     protected abstract validateFunctionNameCore(wizardContext: T, name: string): Promise<string | undefined>;
 
     private async validateFunctionName(wizardContext: T, name: string | undefined): Promise<string | undefined> {
-        if (!name) {
-            return localize('emptyTemplateNameError', 'The function name cannot be empty.');
-        } else if (!/^[a-z][a-z\d_\-]*$/i.test(name)) {
-            return localize('functionNameInvalidMessage', 'Function name must start with a letter and can only contain letters, digits, "_" and "-".');
-        } else {
-            return await this.validateFunctionNameCore(wizardContext, name);
-        }
+        return validateFunctionNameFormat(name) || await this.validateFunctionNameCore(wizardContext, <string>name);
+    }
+}
+
+export function validateFunctionNameFormat(name: string | undefined): string | undefined {
+    if (!name) {
+        return localize('emptyTemplateNameError', 'The function name cannot be empty.');
+    } else if (!/^[a-z][a-z\d_\-]*$/i.test(name)) {
+        return localize('functionNameInvalidMessage', 'Function name must start with a letter and can only contain letters, digits, "_" and "-".');
+    } else {
+        return undefined;
     }
 }
@@ -39,6 +39,11 @@ export async function createFunction(
         return;
     }
 
+    // The path may point to one of several projects in a workspace folder, but VS Code config is always stored at the root of the folder
+    if (workspaceFolder) {
+        workspacePath = workspaceFolder.uri.fsPath;
+    }
+
     [language, runtime] = await verifyInitForVSCode(actionContext, projectPath, language, runtime);
 
     const wizardContext: IFunctionWizardContext = { actionContext, projectPath, workspacePath, workspaceFolder, runtime, language, functionName };
@@ -0,0 +1,63 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { functionJsonFileName } from '../../constants';
+import { localize } from '../../localize';
+import { IFunctionTemplate } from '../../templates/IFunctionTemplate';
+import { IScriptFunctionTemplate } from '../../templates/parseScriptTemplates';
+import { setReadOnlyContent } from '../../utils/readOnlyContent';
+import { getScriptFileNameFromLanguage, replaceFunctionName } from './scriptSteps/ScriptFunctionCreateStep';
+
+/**
+ * Opens the files that would be generated by a template in read-only documents, using the template's default function name
+ * Only script templates include their files, so other templates show a summary instead
+ */
+export async function previewFunctionTemplate(template: IFunctionTemplate): Promise<void> {
+    const previewId: string = `templatePreview/${template.language}/${template.id}`;
+    const uris: vscode.Uri[] = [];
+    const scriptTemplate: Partial<IScriptFunctionTemplate> = template;
+    if (scriptTemplate.templateFiles && scriptTemplate.functionJson) {
+        const templateFiles: { [fileName: string]: string } = scriptTemplate.templateFiles;
+        const functionName: string = template.defaultFunctionName;
+        const functionJson: string = replaceFunctionName(JSON.stringify(scriptTemplate.functionJson.data, undefined, 2), functionName);
+        uris.push(setReadOnlyContent(previewId, functionJsonFileName, functionJson));
+
+        // Open the main script file last so that it has focus
+        const mainFileName: string | undefined = getScriptFileNameFromLanguage(template.language);
+        const fileNames: string[] = Object.keys(templateFiles).sort((a, b) => a === mainFileName ? 1 : b === mainFileName ? -1 : a.localeCompare(b));
+        for (const fileName of fileNames) {
+            uris.push(setReadOnlyContent(previewId, replaceFunctionName(fileName, functionName), replaceFunctionName(templateFiles[fileName], functionName)));
+        }
+    } else {
+        uris.push(setReadOnlyContent(previewId, `${template.defaultFunctionName}.md`, getTemplateSummary(template)));
+    }
+
+    for (const uri of uris) {
+        await vscode.window.showTextDocument(await vscode.workspace.openTextDocument(uri), { preview: false });
+    }
+}
+
+function getTemplateSummary(template: IFunctionTemplate): string {
+    const lines: string[] = [`# ${template.name}`, ''];
+    if (template.description) {
+        lines.push(template.description, '');
+    }
+
+    lines.push(localize('previewLanguage', '- Language: {0}', template.language));
+    if (template.bindingTypes.length > 0) {
+        lines.push(localize('previewBindings', '- Bindings: {0}', template.bindingTypes.join(', ')));
+    }
+
+    if (template.userPromptedSettings.length > 0) {
+        lines.push('', localize('previewSettings', '## Settings'), '');
+        for (const setting of template.userPromptedSettings) {
+            lines.push(setting.description ? `- ${setting.label}: ${setting.description}` : `- ${setting.label}`);
+        }
+    }
+
+    lines.push('', localize('previewNotAvailable', 'A preview of the generated files is only available for script templates.'));
+    return lines.join('\n');
+}
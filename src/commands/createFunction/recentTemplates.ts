@@ -0,0 +1,32 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { ext } from '../../extensionVariables';
+
+const recentTemplatesKey: string = 'azFuncRecentFunctionTemplates';
+const maxRecentTemplates: number = 3;
+
+/**
+ * Returns the ids of the templates most recently used to create a function in this language, most recent first
+ */
+export function getRecentTemplateIds(language: string): string[] {
+    // tslint:disable-next-line: strict-boolean-expressions
+    const allRecentIds: { [language: string]: string[] } = ext.context.globalState.get(recentTemplatesKey) || {};
+    // tslint:disable-next-line: strict-boolean-expressions
+    return allRecentIds[language] || [];
+}
+
+/**
+ * Called after a function is created, so that templates are only recorded if they were actually used
+ */
+export async function addRecentTemplate(language: string, templateId: string): Promise<void> {
+    // tslint:disable-next-line: strict-boolean-expressions
+    const allRecentIds: { [language: string]: string[] } = ext.context.globalState.get(recentTemplatesKey) || {};
+    // Move the template to the top of the list
+    const recentIds: string[] = getRecentTemplateIds(language).filter(id => id !== templateId);
+    recentIds.unshift(templateId);
+    allRecentIds[language] = recentIds.slice(0, maxRecentTemplates);
+    await ext.context.globalState.update(recentTemplatesKey, allRecentIds);
+}
@@ -8,7 +8,7 @@ import * as path from 'path';
 import { functionJsonFileName, ProjectLanguage } from '../../../constants';
 import { IFunctionBinding, IFunctionJson } from '../../../funcConfig/function';
 import { localize } from '../../../localize';
-import { IScriptFunctionTemplate } from '../../../templates/parseScriptTemplates';
+import { functionNamePlaceholder, IScriptFunctionTemplate } from '../../../templates/parseScriptTemplates';
 import * as fsUtil from '../../../utils/fs';
 import { nonNullProp } from '../../../utils/nonNull';
 import { FunctionCreateStepBase } from '../FunctionCreateStepBase';
@@ -40,13 +40,21 @@ export function getScriptFileNameFromLanguage(language: string): string | undefi
     }
 }
 
+/**
+ * The placeholder is only used by custom templates, such as those created with "Save as Template"
+ */
+export function replaceFunctionName(value: string, functionName: string): string {
+    return value.split(functionNamePlaceholder).join(functionName);
+}
+
 export class ScriptFunctionCreateStep extends FunctionCreateStepBase<IScriptFunctionWizardContext> {
     public async executeCore(wizardContext: IScriptFunctionWizardContext): Promise<string> {
-        const functionPath: string = path.join(wizardContext.projectPath, nonNullProp(wizardContext, 'functionName'));
+        const functionName: string = nonNullProp(wizardContext, 'functionName');
+        const functionPath: string = path.join(wizardContext.projectPath, functionName);
         const template: IScriptFunctionTemplate = nonNullProp(wizardContext, 'functionTemplate');
         await fse.ensureDir(functionPath);
         await Promise.all(Object.keys(template.templateFiles).map(async f => {
-            await fse.writeFile(path.join(functionPath, f), template.templateFiles[f]);
+            await fse.writeFile(path.join(functionPath, replaceFunctionName(f, functionName)), replaceFunctionName(template.templateFiles[f], functionName));
         }));
 
         const triggerBinding: IFunctionBinding = nonNullProp(template.functionJson, 'triggerBinding');
@@ -54,7 +62,7 @@ export class ScriptFunctionCreateStep extends FunctionCreateStepBase<IScriptFunc
             triggerBinding[setting.name] = getBindingSetting(wizardContext, setting);
         }
 
-        const functionJson: IFunctionJson = template.functionJson.data;
+        const functionJson: IFunctionJson = <IFunctionJson>JSON.parse(replaceFunctionName(JSON.stringify(template.functionJson.data), functionName));
         if (this.editFunctionJson) {
             await this.editFunctionJson(wizardContext, functionJson);
         }
@@ -19,10 +19,17 @@ export class ScriptFunctionNameStep extends FunctionNameStepBase<IScriptFunction
     }
 
     protected async validateFunctionNameCore(wizardContext: IScriptFunctionWizardContext, name: string): Promise<string | undefined> {
-        if (await fse.pathExists(path.join(wizardContext.projectPath, name))) {
-            return localize('existingFolderError', 'A folder with the name "{0}" already exists.', name);
-        } else {
-            return undefined;
-        }
+        return await validateScriptFunctionFolder(wizardContext.projectPath, name);
+    }
+}
+
+/**
+ * Script functions are defined by a folder at the root of the project, so the name can't match an existing folder
+ */
+export async function validateScriptFunctionFolder(projectPath: string, name: string): Promise<string | undefined> {
+    if (await fse.pathExists(path.join(projectPath, name))) {
+        return localize('existingFolderError', 'A folder with the name "{0}" already exists.', name);
+    } else {
+        return undefined;
     }
 }
@@ -16,6 +16,11 @@ export interface IProjectWizardContext {
     language?: ProjectLanguage;
     runtime?: ProjectRuntime;
     openBehavior?: OpenBehavior;
+
+    /**
+     * The template version pinned in the project's lock file (if any)
+     */
+    templateVersion?: string;
 }
 
 export type OpenBehavior = 'AddToWorkspace' | 'OpenInNewWindow' | 'OpenInCurrentWindow' | 'AlreadyOpen' | 'DontOpen';
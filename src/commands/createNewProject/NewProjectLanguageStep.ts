@@ -8,6 +8,7 @@ import { AzureWizardExecuteStep, AzureWizardPromptStep, IAzureQuickPickItem, IWi
 import { ProjectLanguage } from '../../constants';
 import { ext } from '../../extensionVariables';
 import { localize } from '../../localize';
+import { getPinnedTemplateVersion } from '../../templates/templateVersionLock';
 import { nonNullProp } from '../../utils/nonNull';
 import { openUrl } from '../../utils/openUrl';
 import { FunctionListStep } from '../createFunction/FunctionListStep';
@@ -26,6 +27,7 @@ import { PythonProjectCreateStep } from './ProjectCreateStep/PythonProjectCreate
 import { ScriptProjectCreateStep } from './ProjectCreateStep/ScriptProjectCreateStep';
 import { TypeScriptProjectCreateStep } from './ProjectCreateStep/TypeScriptProjectCreateStep';
 import { ProjectRuntimeStep } from './ProjectRuntimeStep';
+import { TemplateVersionLockStep } from './TemplateVersionLockStep';
 
 export class NewProjectLanguageStep extends AzureWizardPromptStep<IProjectWizardContext> {
     public hideStepCount: boolean = true;
@@ -71,6 +73,7 @@ export class NewProjectLanguageStep extends AzureWizardPromptStep<IProjectWizard
     public async getSubWizard(wizardContext: IProjectWizardContext): Promise<IWizardOptions<IProjectWizardContext>> {
         const language: ProjectLanguage = nonNullProp(wizardContext, 'language');
         const executeSteps: AzureWizardExecuteStep<IProjectWizardContext>[] = [];
+        wizardContext.templateVersion = await getPinnedTemplateVersion(wizardContext.projectPath);
 
         const promptSteps: AzureWizardPromptStep<IProjectWizardContext>[] = [new ProjectRuntimeStep()];
         switch (language) {
@@ -106,6 +109,10 @@ export class NewProjectLanguageStep extends AzureWizardPromptStep<IProjectWizard
         // All languages except Java support creating a function after creating a project
         // Java needs to fix this issue first: https://github.com/Microsoft/vscode-azurefunctions/issues/81
         if (language !== ProjectLanguage.Java) {
+            // Java templates don't come from the cli-feed and .NET templates are installed for all projects, so only script projects are pinned
+            if (language !== ProjectLanguage.CSharp && language !== ProjectLanguage.FSharp) {
+                executeSteps.push(new TemplateVersionLockStep());
+            }
             promptSteps.push(await FunctionListStep.create(wizardContext, {
                 isProjectWizard: true,
                 templateId: this._templateId,
@@ -9,6 +9,7 @@ import { DialogResponses, IActionContext } from 'vscode-azureextensionui';
 import { gitignoreFileName, hostFileName, localSettingsFileName, ProjectLanguage, ProjectRuntime } from '../../../constants';
 import { ext } from '../../../extensionVariables';
 import { localize } from "../../../localize";
+import { getRuntimeInfo } from '../../../runtimes';
 import { executeDotnetTemplateCommand } from '../../../templates/executeDotnetTemplateCommand';
 import { cpUtils } from '../../../utils/cpUtils';
 import { dotnetUtils } from '../../../utils/dotnetUtils';
@@ -35,8 +36,9 @@ export class DotnetProjectCreateStep extends ProjectCreateStepBase {
         await this.confirmOverwriteExisting(wizardContext.projectPath, projName);
 
         const templateLanguage: string = language === ProjectLanguage.FSharp ? 'FSharp' : 'CSharp';
-        const identity: string = `Microsoft.AzureFunctions.ProjectTemplate.${templateLanguage}.${runtime === ProjectRuntime.v1 ? '1' : '2'}.x`;
-        const functionsVersion: string = runtime === ProjectRuntime.v1 ? 'v1' : 'v2';
+        const majorVersion: string = getRuntimeInfo(runtime).majorVersion;
+        const identity: string = `Microsoft.AzureFunctions.ProjectTemplate.${templateLanguage}.${majorVersion}.x`;
+        const functionsVersion: string = `v${majorVersion}`;
         await executeDotnetTemplateCommand(runtime, wizardContext.projectPath, 'create', '--identity', identity, '--arg:name', cpUtils.wrapArgInQuotes(projectName), '--arg:AzureFunctionsVersion', functionsVersion);
     }
 
@@ -7,9 +7,10 @@ import * as fse from 'fs-extra';
 import * as os from 'os';
 import * as path from 'path';
 import { Progress } from 'vscode';
-import { gitignoreFileName, hostFileName, localSettingsFileName, ProjectRuntime, proxiesFileName } from '../../../constants';
+import { funcignoreFileName, gitignoreFileName, hostFileName, localSettingsFileName, ProjectRuntime, proxiesFileName, templateVersionLockFileName } from '../../../constants';
 import { IHostJsonV1, IHostJsonV2 } from '../../../funcConfig/host';
-import { ILocalSettingsJson } from '../../../funcConfig/local.settings';
+import { ILocalSettingsJson, localSettingsProfilePattern } from '../../../funcConfig/local.settings';
+import { proxiesJsonSchema } from '../../../funcConfig/proxies';
 import { confirmOverwriteFile, writeFormattedJson } from "../../../utils/fs";
 import { nonNullProp } from '../../../utils/nonNull';
 import { getFunctionsWorkerRuntime } from '../../../vsCodeConfig/settings';
@@ -17,7 +18,7 @@ import { IProjectWizardContext } from '../IProjectWizardContext';
 import { ProjectCreateStepBase } from './ProjectCreateStepBase';
 
 export class ScriptProjectCreateStep extends ProjectCreateStepBase {
-    protected funcignore: string[] = ['.git*', '.vscode', 'local.settings.json', 'test'];
+    protected funcignore: string[] = ['.git*', '.vscode', 'local.settings.json', localSettingsProfilePattern, templateVersionLockFileName, 'test'];
     protected gitignore: string = '';
     protected supportsManagedDependencies: boolean = false;
 
@@ -50,8 +51,7 @@ export class ScriptProjectCreateStep extends ProjectCreateStepBase {
         const proxiesJsonPath: string = path.join(wizardContext.projectPath, proxiesFileName);
         if (await confirmOverwriteFile(proxiesJsonPath)) {
             await writeFormattedJson(proxiesJsonPath, {
-                // tslint:disable-next-line:no-http-string
-                $schema: 'http://json.schemastore.org/proxies',
+                $schema: proxiesJsonSchema,
                 proxies: {}
             });
         }
@@ -63,17 +63,18 @@ export class ScriptProjectCreateStep extends ProjectCreateStepBase {
 bin
 obj
 appsettings.json
-local.settings.json`));
+local.settings.json
+${localSettingsProfilePattern}`));
         }
 
-        const funcIgnorePath: string = path.join(wizardContext.projectPath, '.funcignore');
+        const funcIgnorePath: string = path.join(wizardContext.projectPath, funcignoreFileName);
         if (await confirmOverwriteFile(funcIgnorePath)) {
             await fse.writeFile(funcIgnorePath, this.funcignore.sort().join(os.EOL));
         }
     }
 
     private getHostContent(runtime: ProjectRuntime): IHostJsonV2 | IHostJsonV1 {
-        if (runtime === ProjectRuntime.v2) {
+        if (runtime !== ProjectRuntime.v1) {
             if (this.supportsManagedDependencies) {
                 return {
                     version: '2.0',
@@ -86,7 +87,6 @@ local.settings.json`));
             return { version: '2.0' };
         }
 
-        // runtime === ProjectRuntime.v1
         return {};
     }
 }
@@ -0,0 +1,34 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { AzureWizardExecuteStep } from 'vscode-azureextensionui';
+import { ProjectRuntime } from '../../constants';
+import { ext } from '../../extensionVariables';
+import { TemplateProvider } from '../../templates/TemplateProvider';
+import { pinTemplateVersion } from '../../templates/templateVersionLock';
+import { nonNullProp } from '../../utils/nonNull';
+import { IProjectWizardContext } from './IProjectWizardContext';
+
+/**
+ * Pins new projects to the template version used to create them, so that functions added later (possibly on another machine) are generated the same way
+ */
+export class TemplateVersionLockStep extends AzureWizardExecuteStep<IProjectWizardContext> {
+    public priority: number = 15;
+
+    public async execute(wizardContext: IProjectWizardContext): Promise<void> {
+        const runtime: ProjectRuntime = nonNullProp(wizardContext, 'runtime');
+        const templateProvider: TemplateProvider = await ext.templateProviderTask;
+        const templateVersion: string | undefined = templateProvider.getTemplateVersion(runtime);
+        if (templateVersion) {
+            await pinTemplateVersion(wizardContext.projectPath, templateVersion);
+            wizardContext.templateVersion = templateVersion;
+        }
+    }
+
+    public shouldExecute(wizardContext: IProjectWizardContext): boolean {
+        // Keep the version if the folder already had a lock file (e.g. a cloned repo)
+        return !wizardContext.templateVersion;
+    }
+}
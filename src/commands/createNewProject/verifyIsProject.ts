@@ -5,12 +5,12 @@
 
 import * as fse from 'fs-extra';
 import * as path from 'path';
-import { MessageItem } from 'vscode';
 import { DialogResponses, IActionContext, IAzureQuickPickItem } from 'vscode-azureextensionui';
 import { hostFileName } from '../../constants';
 import { ext } from '../../extensionVariables';
 import { localize } from '../../localize';
-import { getWorkspaceSetting, updateWorkspaceSetting } from '../../vsCodeConfig/settings';
+import { isPathEqual } from '../../utils/fs';
+import { getWorkspaceSetting } from '../../vsCodeConfig/settings';
 import { createNewProject } from './createNewProject';
 
 const projectSubpathKey: string = 'projectSubpath';
@@ -20,53 +20,70 @@ export async function isFunctionProject(folderPath: string): Promise<boolean> {
     return await fse.pathExists(path.join(folderPath, hostFileName));
 }
 
+/**
+ * Checks root folder, the folder specified by the 'projectSubpath' setting (if any), and subFolders one level down
+ * Returns every function project found, or an empty array if there are none
+ */
+export async function getFunctionProjectRoots(folderPath: string): Promise<string[]> {
+    if (!(await fse.pathExists(folderPath))) {
+        return [];
+    } else if (await isFunctionProject(folderPath)) {
+        return [folderPath];
+    } else {
+        const subpaths: string[] = await fse.readdir(folderPath);
+        const matchingSubpaths: string[] = [];
+        await Promise.all(subpaths.map(async s => {
+            if (await isFunctionProject(path.join(folderPath, s))) {
+                matchingSubpaths.push(s);
+            }
+        }));
+
+        const projectRoots: string[] = matchingSubpaths.sort().map(s => path.join(folderPath, s));
+        // The setting may point to a project more than one level down (e.g. "src/app")
+        const settingRoot: string | undefined = getProjectSubpathSettingRoot(folderPath);
+        if (settingRoot && !projectRoots.some(p => isPathEqual(p, settingRoot)) && await fse.pathExists(settingRoot)) {
+            projectRoots.unshift(settingRoot);
+        }
+
+        return projectRoots;
+    }
+}
+
 /**
  * Checks root folder and subFolders one level down
- * If a single function project is found, returns that path.
- * If multiple projects are found, prompt to pick the project.
+ * If the folder is a project, a single function project is found, or the 'projectSubpath' setting is set, returns that path.
+ * If multiple projects are found, prompt to pick the project. The pick isn't saved to the 'projectSubpath' setting, so that each command can target a different project
  */
 export async function tryGetFunctionProjectRoot(folderPath: string, suppressPrompt: boolean = false): Promise<string | undefined> {
-    let subpath: string | undefined = getWorkspaceSetting(projectSubpathKey, folderPath);
-    if (!subpath) {
-        if (!(await fse.pathExists(folderPath))) {
-            return undefined;
-        } else if (await isFunctionProject(folderPath)) {
-            return folderPath;
-        } else {
-            const subpaths: string[] = await fse.readdir(folderPath);
-            const matchingSubpaths: string[] = [];
-            await Promise.all(subpaths.map(async s => {
-                if (await isFunctionProject(path.join(folderPath, s))) {
-                    matchingSubpaths.push(s);
-                }
-            }));
+    // The path may already be a resolved project path (e.g. from a LocalProjectTreeItem), in which case the setting doesn't apply
+    if (await isFunctionProject(folderPath)) {
+        return folderPath;
+    }
 
-            if (matchingSubpaths.length === 1) {
-                subpath = matchingSubpaths[0];
-            } else if (matchingSubpaths.length !== 0 && !suppressPrompt) {
-                subpath = await promptForProjectSubpath(folderPath, matchingSubpaths);
-            } else {
-                return undefined;
-            }
-        }
+    const settingRoot: string | undefined = getProjectSubpathSettingRoot(folderPath);
+    if (settingRoot) {
+        return settingRoot;
     }
 
-    return path.join(folderPath, subpath);
+    const projectRoots: string[] = await getFunctionProjectRoots(folderPath);
+    if (projectRoots.length === 1) {
+        return projectRoots[0];
+    } else if (projectRoots.length !== 0 && !suppressPrompt) {
+        return await promptForProjectRoot(folderPath, projectRoots);
+    } else {
+        return undefined;
+    }
 }
 
-async function promptForProjectSubpath(workspacePath: string, matchingSubpaths: string[]): Promise<string> {
-    const message: string = localize('detectedMultipleProject', 'Detected multiple function projects in the same workspace folder. You must either set the default or use a multi-root workspace.');
-    const learnMoreLink: string = 'https://aka.ms/AA4nmfy';
-    const setDefault: MessageItem = { title: localize('setDefault', 'Set default') };
-    // No need to check result - cancel will throw a UserCancelledError
-    await ext.ui.showWarningMessage(message, { learnMoreLink }, setDefault);
-
-    const picks: IAzureQuickPickItem<string>[] = matchingSubpaths.map(p => { return { label: p, description: workspacePath, data: p }; });
-    const placeHolder: string = localize('selectProject', 'Select the default project subpath');
-    const subpath: string = (await ext.ui.showQuickPick(picks, { placeHolder })).data;
-    await updateWorkspaceSetting(projectSubpathKey, subpath, workspacePath);
+function getProjectSubpathSettingRoot(folderPath: string): string | undefined {
+    const subpath: string | undefined = getWorkspaceSetting(projectSubpathKey, folderPath);
+    return subpath ? path.join(folderPath, subpath) : undefined;
+}
 
-    return subpath;
+async function promptForProjectRoot(folderPath: string, projectRoots: string[]): Promise<string> {
+    const picks: IAzureQuickPickItem<string>[] = projectRoots.map(p => { return { label: path.relative(folderPath, p), description: folderPath, data: p }; });
+    const placeHolder: string = localize('selectProject', 'Detected multiple function projects in the same workspace folder. Select a project');
+    return (await ext.ui.showQuickPick(picks, { placeHolder })).data;
 }
 
 /**
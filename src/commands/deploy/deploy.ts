@@ -11,6 +11,7 @@ import { ProjectLanguage, ProjectRuntime, ScmType } from '../../constants';
 import { ext } from '../../extensionVariables';
 import { addLocalFuncTelemetry } from '../../funcCoreTools/getLocalFuncCoreToolsVersion';
 import { localize } from '../../localize';
+import { LocalProjectTreeItem } from '../../tree/localProject/LocalProjectTreeItem';
 import { ProductionSlotTreeItem } from '../../tree/ProductionSlotTreeItem';
 import { SlotTreeItemBase } from '../../tree/SlotTreeItemBase';
 import * as workspaceUtil from '../../utils/workspace';
@@ -21,7 +22,7 @@ import { notifyDeployComplete } from './notifyDeployComplete';
 import { runPreDeployTask } from './runPreDeployTask';
 import { verifyAppSettings } from './verifyAppSettings';
 
-export async function deploy(this: IActionContext, target?: vscode.Uri | string | SlotTreeItemBase, functionAppId?: string | {}): Promise<void> {
+export async function deploy(this: IActionContext, target?: vscode.Uri | string | SlotTreeItemBase | LocalProjectTreeItem, functionAppId?: string | {}): Promise<void> {
     addLocalFuncTelemetry(this);
 
     let node: SlotTreeItemBase | undefined;
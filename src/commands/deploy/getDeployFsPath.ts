@@ -9,13 +9,17 @@ import { DialogResponses } from 'vscode-azureextensionui';
 import { deploySubpathSetting, extensionPrefix } from '../../constants';
 import { ext } from '../../extensionVariables';
 import { localize } from '../../localize';
+import { LocalProjectTreeItem } from '../../tree/localProject/LocalProjectTreeItem';
 import { SlotTreeItemBase } from '../../tree/SlotTreeItemBase';
 import { isPathEqual, isSubpath } from '../../utils/fs';
 import * as workspaceUtil from '../../utils/workspace';
 import { getWorkspaceSetting, updateGlobalSetting } from '../../vsCodeConfig/settings';
+import { getFunctionProjectRoots, tryGetFunctionProjectRoot } from '../createNewProject/verifyIsProject';
 
-export async function getDeployFsPath(target: vscode.Uri | string | SlotTreeItemBase | undefined): Promise<string> {
-    if (target instanceof vscode.Uri) {
+export async function getDeployFsPath(target: vscode.Uri | string | SlotTreeItemBase | LocalProjectTreeItem | undefined): Promise<string> {
+    if (target instanceof LocalProjectTreeItem) {
+        return getProjectDeployFsPath(target.root.projectPath, target.root.workspacePath);
+    } else if (target instanceof vscode.Uri) {
         return await appendDeploySubpathSetting(target.fsPath);
     } else if (typeof target === 'string') {
         return await appendDeploySubpathSetting(target);
@@ -29,7 +33,32 @@ export async function getDeployFsPath(target: vscode.Uri | string | SlotTreeItem
     }
 
     const workspaceMessage: string = localize('selectZipDeployFolder', 'Select the folder to zip and deploy');
-    return await workspaceUtil.selectWorkspaceFolder(ext.ui, workspaceMessage, f => getWorkspaceSetting(deploySubpathSetting, f.uri.fsPath));
+    const deployFsPath: string = await workspaceUtil.selectWorkspaceFolder(ext.ui, workspaceMessage, f => getWorkspaceSetting(deploySubpathSetting, f.uri.fsPath));
+
+    // If the selected folder has multiple projects, make sure to only deploy one of them
+    if ((await getFunctionProjectRoots(deployFsPath)).length > 1) {
+        const projectPath: string | undefined = await tryGetFunctionProjectRoot(deployFsPath);
+        if (projectPath) {
+            return getProjectDeployFsPath(projectPath, deployFsPath);
+        }
+    }
+
+    return deployFsPath;
+}
+
+/**
+ * Uses the 'deploySubpath' setting if it points to a folder in this project (e.g. the build output). Otherwise deploys the project itself
+ */
+function getProjectDeployFsPath(projectPath: string, workspacePath: string): string {
+    const deploySubpath: string | undefined = getWorkspaceSetting(deploySubpathSetting, workspacePath);
+    if (deploySubpath) {
+        const fsPathWithSetting: string = path.join(workspacePath, deploySubpath);
+        if (isPathEqual(fsPathWithSetting, projectPath) || isSubpath(projectPath, fsPathWithSetting)) {
+            return fsPathWithSetting;
+        }
+    }
+
+    return projectPath;
 }
 
 /**
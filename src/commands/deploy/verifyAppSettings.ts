@@ -9,6 +9,7 @@ import { DialogResponses, IActionContext } from 'vscode-azureextensionui';
 import { ProjectLanguage, ProjectRuntime } from '../../constants';
 import { ext } from '../../extensionVariables';
 import { localize } from '../../localize';
+import { supportsWorkerRuntime } from '../../runtimes';
 import { SlotTreeItemBase } from '../../tree/SlotTreeItemBase';
 import { getCliFeedAppSettings } from '../../utils/getCliFeedJson';
 import { convertStringToRuntime, getFunctionsWorkerRuntime } from '../../vsCodeConfig/settings';
@@ -37,7 +38,8 @@ export async function verifyRuntimeIsCompatible(localFuncRuntime: ProjectRuntime
 
     let shouldPrompt: boolean = !!rawAzureFuncRuntime && azureFuncRuntime !== localFuncRuntime;
     let message: string = localize('incompatibleRuntimeV1', 'The remote runtime "{0}" is not compatible with your local runtime "{1}".', rawAzureFuncRuntime, localFuncRuntime);
-    if (localFuncRuntime === ProjectRuntime.v2 && localWorkerRuntime) {
+    const usesWorkerRuntime: boolean = supportsWorkerRuntime(localFuncRuntime, localWorkerRuntime);
+    if (usesWorkerRuntime) {
         shouldPrompt = shouldPrompt || (!!azureWorkerRuntime && azureWorkerRuntime !== localWorkerRuntime);
         message = localize('incompatibleRuntimeV2', 'The remote runtime "{0}" and "{1}" is not compatible with your local runtime "{2}" and "{3}".', rawAzureFuncRuntime, azureWorkerRuntime, localFuncRuntime, localWorkerRuntime);
     }
@@ -49,7 +51,7 @@ export async function verifyRuntimeIsCompatible(localFuncRuntime: ProjectRuntime
         await ext.ui.showWarningMessage(message, { modal: true, learnMoreLink }, updateRemoteRuntime);
 
         const newAppSettings: { [key: string]: string } = await getCliFeedAppSettings(localFuncRuntime);
-        if (localFuncRuntime === ProjectRuntime.v2 && localWorkerRuntime) {
+        if (usesWorkerRuntime && localWorkerRuntime) {
             newAppSettings.FUNCTIONS_WORKER_RUNTIME = localWorkerRuntime;
         }
 
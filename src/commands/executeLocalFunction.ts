@@ -0,0 +1,90 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+// tslint:disable-next-line:no-require-imports
+import request = require('request-promise');
+import { window } from 'vscode';
+import { appendExtensionUserAgent, IActionContext, IAzureQuickPickItem } from 'vscode-azureextensionui';
+import { ext } from '../extensionVariables';
+import { ensureFuncHostIsRunning } from '../funcCoreTools/ensureFuncHostIsRunning';
+import { getLocalFuncHostUrl } from '../funcCoreTools/getLocalFuncUrl';
+import { localize } from '../localize';
+import { LocalFunctionTreeItem } from '../tree/localProject/LocalFunctionTreeItem';
+
+const historyKey: string = 'azFuncExecuteLocalFunctionHistory';
+const maxHistoryLength: number = 10;
+
+export async function executeLocalFunction(this: IActionContext, node?: LocalFunctionTreeItem): Promise<void> {
+    if (!node) {
+        node = <LocalFunctionTreeItem>await ext.tree.showTreeItemPicker(/^azFuncLocalFunction(Timer|)(ReadOnly|)$/i);
+    }
+
+    if (node.config.isHttpTrigger) {
+        throw new Error(localize('executeHttp', 'HTTP triggers can not be executed directly. Use "Copy Local Function Url" and send a request instead.'));
+    }
+
+    const name: string = node.name;
+    const historyId: string = `${node.root.projectPath}/${name}`;
+    const input: string = await promptForInput(historyId, name);
+    this.properties.usedHistory = String(getHistory(historyId).indexOf(input) !== -1);
+
+    const hostUrl: string = await getLocalFuncHostUrl(node.root.workspaceFolder, node.root.projectPath);
+    await ensureFuncHostIsRunning(node.root.workspaceFolder, node.root.projectPath, hostUrl);
+
+    await node.runWithTemporaryDescription(localize('executing', 'Executing...'), async () => {
+        // https://docs.microsoft.com/azure/azure-functions/functions-manually-run-non-http
+        // The local host doesn't require a key for admin endpoints
+        await <Thenable<string>>request({
+            method: 'POST',
+            url: `${hostUrl}/admin/functions/${name}`,
+            headers: {
+                'Content-Type': 'application/json',
+                'User-Agent': appendExtensionUserAgent()
+            },
+            body: JSON.stringify({ input })
+        }).promise();
+    });
+
+    await addToHistory(historyId, input);
+    window.showInformationMessage(localize('executed', 'Executed function "{0}"', name));
+}
+
+async function promptForInput(historyId: string, functionName: string): Promise<string> {
+    const history: string[] = getHistory(historyId);
+    let input: string | undefined;
+    if (history.length > 0) {
+        const picks: IAzureQuickPickItem<string | undefined>[] = [{ label: localize('newInput', '$(plus) Enter new input'), data: undefined }];
+        picks.push(...history.map(h => { return { label: h || localize('emptyInput', '(empty)'), data: h }; }));
+        const placeHolder: string = localize('selectInput', 'Select the input for function "{0}"', functionName);
+        input = (await ext.ui.showQuickPick(picks, { placeHolder, suppressPersistence: true })).data;
+    }
+
+    if (input === undefined) {
+        input = await ext.ui.showInputBox({
+            prompt: localize('enterInput', 'Enter the input for function "{0}"', functionName),
+            // tslint:disable-next-line: strict-boolean-expressions
+            value: history[0] || ''
+        });
+    }
+
+    return input;
+}
+
+function getHistory(historyId: string): string[] {
+    // tslint:disable-next-line: strict-boolean-expressions
+    const allHistory: { [historyId: string]: string[] } = ext.context.globalState.get(historyKey) || {};
+    // tslint:disable-next-line: strict-boolean-expressions
+    return allHistory[historyId] || [];
+}
+
+async function addToHistory(historyId: string, input: string): Promise<void> {
+    // tslint:disable-next-line: strict-boolean-expressions
+    const allHistory: { [historyId: string]: string[] } = ext.context.globalState.get(historyKey) || {};
+    // Move the input to the top of the list
+    const history: string[] = getHistory(historyId).filter(h => h !== input);
+    history.unshift(input);
+    allHistory[historyId] = history.slice(0, maxHistoryLength);
+    await ext.context.globalState.update(historyKey, allHistory);
+}
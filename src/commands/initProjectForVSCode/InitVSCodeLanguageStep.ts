@@ -77,14 +77,14 @@ export async function addInitVSCodeStep(wizardContext: IProjectWizardContext, ex
             executeSteps.push(new DotnetInitVSCodeStep());
             break;
         case ProjectLanguage.Python:
-            wizardContext.runtime = ProjectRuntime.v2; // only supports v2
+            wizardContext.runtime = getRuntimeForNonV1Language(wizardContext.runtime);
             executeSteps.push(new PythonInitVSCodeStep());
             break;
         case ProjectLanguage.PowerShell:
             executeSteps.push(new PowerShellInitVSCodeStep());
             break;
         case ProjectLanguage.Java:
-            wizardContext.runtime = ProjectRuntime.v2; // only supports v2
+            wizardContext.runtime = getRuntimeForNonV1Language(wizardContext.runtime);
             executeSteps.push(new JavaInitVSCodeStep());
             break;
         case ProjectLanguage.CSharpScript:
@@ -100,3 +100,10 @@ export async function addInitVSCodeStep(wizardContext: IProjectWizardContext, ex
         wizardContext.runtime = await tryGetLocalRuntimeVersion();
     }
 }
+
+/**
+ * Some languages don't support v1, so default to v2 unless a newer runtime was already chosen
+ */
+function getRuntimeForNonV1Language(runtime: ProjectRuntime | undefined): ProjectRuntime {
+    return runtime === undefined || runtime === ProjectRuntime.v1 ? ProjectRuntime.v2 : runtime;
+}
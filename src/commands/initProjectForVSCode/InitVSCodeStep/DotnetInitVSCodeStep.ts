@@ -10,6 +10,7 @@ import { DialogResponses, parseError } from 'vscode-azureextensionui';
 import { dotnetPublishTaskLabel, func, funcWatchProblemMatcher, hostStartCommand, ProjectLanguage, ProjectRuntime } from '../../../constants';
 import { ext } from '../../../extensionVariables';
 import { localize } from "../../../localize";
+import { tryGetRuntimeFromTargetFramework } from '../../../runtimes';
 import { nonNullProp } from '../../../utils/nonNull';
 import { openUrl } from '../../../utils/openUrl';
 import { getWorkspaceSetting, updateGlobalSetting } from '../../../vsCodeConfig/settings';
@@ -58,10 +59,9 @@ export class DotnetInitVSCodeStep extends InitVSCodeStepBase {
             throw new Error(localize('unrecognizedTargetFramework', 'Unrecognized target framework in project file "{0}".', projFileName));
         } else {
             wizardContext.actionContext.properties.dotnetTargetFramework = targetFramework;
-            if (/net(standard|core)/i.test(targetFramework)) {
-                wizardContext.runtime = ProjectRuntime.v2;
-            } else {
-                wizardContext.runtime = ProjectRuntime.v1;
+            // tslint:disable-next-line: strict-boolean-expressions
+            wizardContext.runtime = tryGetRuntimeFromTargetFramework(targetFramework) || ProjectRuntime.v1;
+            if (wizardContext.runtime === ProjectRuntime.v1) {
                 const settingKey: string = 'show64BitWarning';
                 if (getWorkspaceSetting<boolean>(settingKey)) {
                     const message: string = localize('64BitWarning', 'In order to debug .NET Framework functions in VS Code, you must install a 64-bit version of the Azure Functions Core Tools.');
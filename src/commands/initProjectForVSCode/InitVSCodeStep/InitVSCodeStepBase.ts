@@ -5,19 +5,26 @@
 
 import * as fse from 'fs-extra';
 import * as path from 'path';
-import { DebugConfiguration, TaskDefinition, WorkspaceFolder } from 'vscode';
+import { DebugConfiguration, MessageItem, TaskDefinition, WorkspaceFolder } from 'vscode';
 import { AzureWizardExecuteStep } from 'vscode-azureextensionui';
 import { deploySubpathSetting, extensionPrefix, func, gitignoreFileName, launchFileName, preDeployTaskSetting, ProjectLanguage, projectLanguageSetting, ProjectRuntime, projectRuntimeSetting, settingsFileName, tasksFileName } from '../../../constants';
+import { getProjectTaskName, getTaskProjectSubpath } from '../../../debug/getFuncTaskCommand';
+import { ext } from '../../../extensionVariables';
 import { localize } from '../../../localize';
 import { confirmEditJsonFile, isPathEqual, isSubpath } from '../../../utils/fs';
 import { nonNullProp } from '../../../utils/nonNull';
 import { isMultiRootWorkspace } from '../../../utils/workspace';
 import { IExtensionsJson } from '../../../vsCodeConfig/extensions';
 import { getDebugConfigs, getLaunchVersion, ILaunchJson, isDebugConfigEqual, launchVersion, updateDebugConfigs, updateLaunchVersion } from '../../../vsCodeConfig/launch';
-import { updateWorkspaceSetting } from '../../../vsCodeConfig/settings';
+import { getFolderSetting, updateWorkspaceSetting } from '../../../vsCodeConfig/settings';
 import { getTasks, getTasksVersion, ITask, ITasksJson, tasksVersion, updateTasks, updateTasksVersion } from '../../../vsCodeConfig/tasks';
 import { IProjectWizardContext } from '../../createNewProject/IProjectWizardContext';
 
+/**
+ * Settings that are specific to a project, even though they're set for the whole folder
+ */
+const folderSettings: string[] = [projectLanguageSetting, projectRuntimeSetting, deploySubpathSetting, preDeployTaskSetting];
+
 export abstract class InitVSCodeStepBase extends AzureWizardExecuteStep<IProjectWizardContext> {
     public priority: number = 20;
 
@@ -35,11 +42,14 @@ export abstract class InitVSCodeStepBase extends AzureWizardExecuteStep<IProject
 
         wizardContext.actionContext.properties.isProjectInSubDir = String(isSubpath(wizardContext.workspacePath, wizardContext.projectPath));
 
+        // If the folder has multiple projects, each project gets its own tasks and debug config
+        const projectSubpath: string | undefined = await getTaskProjectSubpath(wizardContext.workspacePath, wizardContext.projectPath);
+
         const vscodePath: string = path.join(wizardContext.workspacePath, '.vscode');
         await fse.ensureDir(vscodePath);
-        await this.writeTasksJson(wizardContext, vscodePath);
-        await this.writeLaunchJson(wizardContext.workspaceFolder, vscodePath, runtime);
-        await this.writeSettingsJson(wizardContext.workspaceFolder, vscodePath, language, runtime);
+        await this.writeTasksJson(wizardContext, vscodePath, projectSubpath);
+        await this.writeLaunchJson(wizardContext.workspaceFolder, vscodePath, runtime, projectSubpath);
+        await this.writeSettingsJson(wizardContext.workspaceFolder, vscodePath, language, runtime, projectSubpath);
         await this.writeExtensionsJson(vscodePath, language);
 
         // Remove '.vscode' from gitignore if applicable
@@ -72,9 +82,13 @@ export abstract class InitVSCodeStepBase extends AzureWizardExecuteStep<IProject
         return path.posix.join(subDir, fsPath);
     }
 
-    private async writeTasksJson(wizardContext: IProjectWizardContext, vscodePath: string): Promise<void> {
+    private async writeTasksJson(wizardContext: IProjectWizardContext, vscodePath: string, projectSubpath: string | undefined): Promise<void> {
         const newTasks: TaskDefinition[] = this.getTasks();
         for (const task of newTasks) {
+            if (projectSubpath) {
+                addProjectSubpathToTask(task, projectSubpath);
+            }
+
             // tslint:disable-next-line: strict-boolean-expressions no-unsafe-any
             let cwd: string = (task.options && task.options.cwd) || '.';
             cwd = this.addSubDir(wizardContext, cwd);
@@ -126,7 +140,7 @@ export abstract class InitVSCodeStepBase extends AzureWizardExecuteStep<IProject
             if (t1.type === t2.type) {
                 switch (t1.type) {
                     case func:
-                        return t1.command === t2.command;
+                        return t1.command === t2.command && t1.projectSubpath === t2.projectSubpath;
                     case 'shell':
                     case 'process':
                         return t1.label === t2.label && t1.identifier === t2.identifier;
@@ -143,9 +157,17 @@ export abstract class InitVSCodeStepBase extends AzureWizardExecuteStep<IProject
         return existingTasks;
     }
 
-    private async writeLaunchJson(folder: WorkspaceFolder | undefined, vscodePath: string, runtime: ProjectRuntime): Promise<void> {
+    private async writeLaunchJson(folder: WorkspaceFolder | undefined, vscodePath: string, runtime: ProjectRuntime, projectSubpath: string | undefined): Promise<void> {
         if (this.getDebugConfiguration) {
-            const newDebugConfig: DebugConfiguration = this.getDebugConfiguration(runtime);
+            let newDebugConfig: DebugConfiguration = this.getDebugConfiguration(runtime);
+            if (projectSubpath) {
+                // The debug configs are shared objects, so make a copy before changing them
+                newDebugConfig = { ...newDebugConfig, name: getProjectTaskName(newDebugConfig.name, projectSubpath) };
+                if (typeof newDebugConfig.preLaunchTask === 'string') {
+                    newDebugConfig.preLaunchTask = getProjectTaskName(newDebugConfig.preLaunchTask, projectSubpath);
+                }
+            }
+
             const versionMismatchError: Error = new Error(localize('versionMismatchError', 'The version in your {0} must be "{1}" to work with Azure Functions.', launchFileName, launchVersion));
 
             // Use VS Code api to update config if folder is open and it's not a multi-root workspace (https://github.com/Microsoft/vscode-azurefunctions/issues/1235)
@@ -187,8 +209,8 @@ export abstract class InitVSCodeStepBase extends AzureWizardExecuteStep<IProject
         return existingConfigs;
     }
 
-    private async writeSettingsJson(folder: WorkspaceFolder | undefined, vscodePath: string, language: string, runtime: ProjectRuntime): Promise<void> {
-        const settings: ISettingToAdd[] = this.settings.concat(
+    private async writeSettingsJson(folder: WorkspaceFolder | undefined, vscodePath: string, language: string, runtime: ProjectRuntime, projectSubpath: string | undefined): Promise<void> {
+        let settings: ISettingToAdd[] = this.settings.concat(
             { key: projectLanguageSetting, value: language },
             { key: projectRuntimeSetting, value: runtime },
             // We want the terminal to be open after F5, not the debug console (Since http triggers are printed in the terminal)
@@ -196,7 +218,11 @@ export abstract class InitVSCodeStepBase extends AzureWizardExecuteStep<IProject
         );
 
         if (this.preDeployTask) {
-            settings.push({ key: preDeployTaskSetting, value: this.preDeployTask });
+            settings.push({ key: preDeployTaskSetting, value: getProjectTaskName(this.preDeployTask, projectSubpath) });
+        }
+
+        if (projectSubpath) {
+            settings = await this.removeConflictingSettings(folder, vscodePath, settings, projectSubpath);
         }
 
         if (folder) { // Use VS Code api to update config if folder is open
@@ -218,6 +244,43 @@ export abstract class InitVSCodeStepBase extends AzureWizardExecuteStep<IProject
         }
     }
 
+    /**
+     * Some settings apply to the whole folder rather than a single project, so another project in the folder may have already set them
+     * Prompt before overwriting them, since that would change the language, runtime, and deploy behavior of the other project
+     */
+    private async removeConflictingSettings(folder: WorkspaceFolder | undefined, vscodePath: string, settings: ISettingToAdd[], projectSubpath: string): Promise<ISettingToAdd[]> {
+        let existingData: {} = {};
+        if (!folder) {
+            const settingsJsonPath: string = path.join(vscodePath, settingsFileName);
+            try {
+                existingData = <{}>await fse.readJson(settingsJsonPath);
+            } catch {
+                // ignore - the file doesn't exist or will be overwritten anyways
+            }
+        }
+
+        const conflictingSettings: ISettingToAdd[] = settings.filter(setting => {
+            if (setting.prefix === undefined && folderSettings.indexOf(setting.key) !== -1) {
+                const existingValue: unknown = folder ? getFolderSetting(setting.key, folder.uri.fsPath) : existingData[`${extensionPrefix}.${setting.key}`];
+                return existingValue !== undefined && existingValue !== setting.value;
+            } else {
+                return false;
+            }
+        });
+
+        if (conflictingSettings.length > 0) {
+            const keys: string = conflictingSettings.map(s => `"${extensionPrefix}.${s.key}"`).join(', ');
+            const message: string = localize('overwriteFolderSettings', 'The folder settings {0} are already set for another project. Overwrite them with the settings for project "{1}"?', keys, projectSubpath);
+            const overwrite: MessageItem = { title: localize('overwrite', 'Overwrite') };
+            const keepExisting: MessageItem = { title: localize('keepExisting', 'Keep Existing') };
+            if (await ext.ui.showWarningMessage(message, { modal: true }, overwrite, keepExisting) === keepExisting) {
+                return settings.filter(s => conflictingSettings.indexOf(s) === -1);
+            }
+        }
+
+        return settings;
+    }
+
     private async writeExtensionsJson(vscodePath: string, language: ProjectLanguage): Promise<void> {
         const extensionsJsonPath: string = path.join(vscodePath, 'extensions.json');
         await confirmEditJsonFile(
@@ -240,6 +303,25 @@ export abstract class InitVSCodeStepBase extends AzureWizardExecuteStep<IProject
     }
 }
 
+/**
+ * Makes the task unique to this project by adding the project subpath to its name and to the names of any tasks it depends on
+ */
+function addProjectSubpathToTask(task: ITask, projectSubpath: string): void {
+    if (task.type === func) {
+        task.projectSubpath = projectSubpath;
+    }
+
+    if (task.label) {
+        task.label = getProjectTaskName(task.label, projectSubpath);
+    }
+
+    if (typeof task.dependsOn === 'string') {
+        task.dependsOn = getProjectTaskName(task.dependsOn, projectSubpath);
+    } else if (Array.isArray(task.dependsOn)) {
+        task.dependsOn = task.dependsOn.map((d: string) => getProjectTaskName(d, projectSubpath));
+    }
+}
+
 interface ISettingToAdd {
     key: string;
     value: string | {};
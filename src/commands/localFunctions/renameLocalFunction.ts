@@ -0,0 +1,15 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { ext } from '../../extensionVariables';
+import { LocalFunctionTreeItem } from '../../tree/localProject/LocalFunctionTreeItem';
+
+export async function renameLocalFunction(node?: LocalFunctionTreeItem): Promise<void> {
+    if (!node) {
+        node = <LocalFunctionTreeItem>await ext.tree.showTreeItemPicker(LocalFunctionTreeItem.editableContextValue);
+    }
+
+    await node.rename();
+}
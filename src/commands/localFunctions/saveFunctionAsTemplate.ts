@@ -0,0 +1,218 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fse from 'fs-extra';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DialogResponses, IActionContext, IAzureQuickPickItem } from 'vscode-azureextensionui';
+import { customTemplatesFolderSetting, functionJsonFileName, ProjectLanguage, projectLanguageSetting } from '../../constants';
+import { ext } from '../../extensionVariables';
+import { FunctionSource } from '../../funcConfig/discoverFunctions';
+import { IFunctionBinding, IFunctionJson, ParsedFunctionJson } from '../../funcConfig/function';
+import { localize } from '../../localize';
+import { getCustomTemplatesFolder } from '../../templates/CustomTemplateRetriever';
+import { IBindingSetting, IBindingTemplate, ValueType } from '../../templates/IBindingTemplate';
+import { functionNamePlaceholder, IRawSetting, IRawTemplate } from '../../templates/parseScriptTemplates';
+import { customTemplateLanguages } from '../../templates/validateCustomTemplate';
+import { LocalFunctionTreeItem } from '../../tree/localProject/LocalFunctionTreeItem';
+import { writeFormattedJson } from '../../utils/fs';
+import { getWorkspaceSetting, updateWorkspaceSetting } from '../../vsCodeConfig/settings';
+
+/**
+ * Saves a local script function as a custom template, which is displayed in the template picker the next time a function is created
+ */
+export async function saveFunctionAsTemplate(this: IActionContext, node?: LocalFunctionTreeItem): Promise<void> {
+    if (!node) {
+        node = <LocalFunctionTreeItem>await ext.tree.showTreeItemPicker(LocalFunctionTreeItem.editableContextValue);
+    }
+
+    if (node.func.source !== FunctionSource.functionJson) {
+        throw new Error(localize('onlyScriptTemplates', 'Only functions defined by a "{0}" file can be saved as templates.', functionJsonFileName));
+    }
+
+    const projectPath: string = node.root.projectPath;
+    const language: string = await getTemplateLanguage(projectPath);
+    this.properties.language = language;
+
+    const templateName: string = await ext.ui.showInputBox({
+        prompt: localize('templateNamePrompt', 'Enter a name for the template'),
+        value: node.name,
+        validateInput: validateTemplateName
+    });
+    const templateId: string = getTemplateId(templateName, language);
+
+    const functionJson: IFunctionJson = <IFunctionJson>JSON.parse(addFunctionNamePlaceholder(JSON.stringify(node.config.data), node.name));
+    const triggerBinding: IFunctionBinding | undefined = new ParsedFunctionJson(functionJson).triggerBinding;
+    if (!triggerBinding) {
+        throw new Error(localize('noTriggerBinding', 'Function "{0}" must have a trigger binding to be saved as a template.', node.name));
+    }
+
+    const rawSettings: IRawSetting[] = await promptForUserPromptedSettings(triggerBinding);
+    this.properties.userPromptCount = String(rawSettings.length);
+
+    const rawTemplate: IRawTemplate = {
+        id: templateId,
+        function: functionJson,
+        metadata: {
+            defaultFunctionName: node.name,
+            name: templateName.trim(),
+            language: <ProjectLanguage>language,
+            userPrompt: rawSettings.map(s => s.name),
+            settings: rawSettings.length > 0 ? rawSettings : undefined,
+            category: []
+        },
+        files: await getTemplateFiles(node.functionPath, node.name)
+    };
+
+    const folderPath: string = getCustomTemplatesFolder(projectPath) || await promptForTemplatesFolder(projectPath);
+    await saveTemplate(folderPath, rawTemplate);
+
+    const message: string = localize('savedTemplate', 'Saved template "{0}" to "{1}". It will be displayed the next time you create a function.', templateName.trim(), folderPath);
+    ext.outputChannel.appendLine(message);
+    // don't wait
+    vscode.window.showInformationMessage(message);
+}
+
+export function validateTemplateName(value: string): string | undefined {
+    if (!value.trim()) {
+        return localize('templateNameEmpty', 'The template name cannot be empty.');
+    } else if (!sanitizeTemplateName(value)) {
+        return localize('templateNameInvalid', 'The template name must contain at least one letter, number, underscore, or period.');
+    } else {
+        return undefined;
+    }
+}
+
+/**
+ * The id only keeps the characters allowed in the ids of the script templates, followed by the language like "HttpTrigger-JavaScript"
+ */
+export function getTemplateId(templateName: string, language: string): string {
+    return `${sanitizeTemplateName(templateName)}-${language}`;
+}
+
+function sanitizeTemplateName(templateName: string): string {
+    return templateName.trim().replace(/[^a-z0-9_.]+/gi, '');
+}
+
+async function getTemplateLanguage(projectPath: string): Promise<string> {
+    let language: string | undefined = getWorkspaceSetting(projectLanguageSetting, projectPath);
+    if (!language) {
+        const picks: IAzureQuickPickItem<string>[] = customTemplateLanguages.map(l => { return { label: l, description: '', data: l }; });
+        language = (await ext.ui.showQuickPick(picks, { placeHolder: localize('selectTemplateLanguage', 'Select the language of the template') })).data;
+    } else if (customTemplateLanguages.indexOf(language) === -1) {
+        throw new Error(localize('unsupportedTemplateLanguage', 'Templates are not supported for language "{0}".', language));
+    }
+
+    return language;
+}
+
+/**
+ * Only settings of the trigger binding are prompted for when creating a function from a template
+ */
+async function promptForUserPromptedSettings(triggerBinding: IFunctionBinding): Promise<IRawSetting[]> {
+    const ignoredProperties: string[] = ['type', 'direction', 'name'];
+    // The script bindings are undefined if the script templates failed to load
+    const scriptBindings: IBindingTemplate[] | undefined = <IBindingTemplate[] | undefined>ext.scriptBindings;
+    const bindingTemplate: IBindingTemplate | undefined = scriptBindings ? scriptBindings.find(b => b.type === triggerBinding.type) : undefined;
+    const picks: IAzureQuickPickItem<string>[] = Object.keys(triggerBinding)
+        .filter(p => ignoredProperties.indexOf(p) === -1 && typeof triggerBinding[p] === 'string')
+        .map(p => { return { label: p, description: triggerBinding[p], data: p }; });
+
+    const rawSettings: IRawSetting[] = [];
+    if (picks.length > 0) {
+        const placeHolder: string = localize('selectUserPrompts', 'Select the trigger properties to prompt for when creating a function from this template');
+        for (const property of (await ext.ui.showQuickPick(picks, { placeHolder, canPickMany: true, suppressPersistence: true })).map(p => p.data)) {
+            const setting: IBindingSetting | undefined = bindingTemplate ? bindingTemplate.settings.find(s => s.name === property) : undefined;
+            const rawSetting: IRawSetting = await promptForSetting(property, triggerBinding[property], setting);
+            // The value in the trigger binding is used as the default when creating a function
+            triggerBinding[property] = rawSetting.defaultValue;
+            rawSettings.push(rawSetting);
+        }
+    }
+
+    return rawSettings;
+}
+
+async function promptForSetting(property: string, currentValue: string | undefined, setting: IBindingSetting | undefined): Promise<IRawSetting> {
+    const label: string = await ext.ui.showInputBox({
+        prompt: localize('settingLabelPrompt', 'Enter the prompt to display for "{0}"', property),
+        value: setting ? setting.label : property
+    });
+
+    const valueTypes: ValueType[] = [ValueType.string, ValueType.boolean, ValueType.int];
+    if (setting && setting.enums.length > 0) {
+        valueTypes.push(ValueType.enum);
+    }
+    const currentType: ValueType | undefined = setting ? setting.valueType : undefined;
+    const typePicks: IAzureQuickPickItem<ValueType>[] = valueTypes.map(t => {
+        return { label: t, description: t === currentType ? localize('currentValueType', '(Current)') : '', data: t };
+    });
+    const valueType: ValueType = (await ext.ui.showQuickPick(typePicks, { placeHolder: localize('selectValueType', 'Select the type of "{0}"', property), suppressPersistence: true })).data;
+
+    const defaultValue: string = await ext.ui.showInputBox({
+        prompt: localize('settingDefaultPrompt', 'Enter the default value for "{0}"', property),
+        value: currentValue
+    });
+
+    const rawSetting: IRawSetting = { name: property, value: valueType, label, defaultValue };
+    if (setting) {
+        rawSetting.help = setting.description;
+        rawSetting.required = setting.required;
+        rawSetting.resource = valueType === ValueType.string ? setting.resourceType : undefined;
+        if (valueType === ValueType.enum) {
+            rawSetting.enum = setting.enums.map(e => { return { value: e.value, display: e.displayName }; });
+        }
+    }
+    return rawSetting;
+}
+
+/**
+ * Reads the files at the root of the function's folder, replacing the function name with a placeholder
+ */
+async function getTemplateFiles(functionPath: string, functionName: string): Promise<{ [fileName: string]: string }> {
+    const files: { [fileName: string]: string } = {};
+    for (const fileName of await fse.readdir(functionPath)) {
+        const filePath: string = path.join(functionPath, fileName);
+        if (fileName !== functionJsonFileName && (await fse.stat(filePath)).isFile()) {
+            files[addFunctionNamePlaceholder(fileName, functionName)] = addFunctionNamePlaceholder((await fse.readFile(filePath)).toString(), functionName);
+        }
+    }
+    return files;
+}
+
+/**
+ * The reverse of `replaceFunctionName`, which only replaces whole words so that the function name isn't replaced within other names
+ */
+export function addFunctionNamePlaceholder(value: string, functionName: string): string {
+    const escapedName: string = functionName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return value.replace(new RegExp(`\\b${escapedName}\\b`, 'g'), functionNamePlaceholder);
+}
+
+async function promptForTemplatesFolder(projectPath: string): Promise<string> {
+    const folderPath: string = (await ext.ui.showOpenDialog({
+        canSelectFiles: false,
+        canSelectFolders: true,
+        canSelectMany: false,
+        openLabel: localize('selectTemplatesFolder', 'Select templates folder')
+    }))[0].fsPath;
+    await updateWorkspaceSetting(customTemplatesFolderSetting, folderPath, projectPath);
+    return folderPath;
+}
+
+async function saveTemplate(folderPath: string, rawTemplate: IRawTemplate): Promise<void> {
+    const templatesPath: string = path.join(folderPath, 'templates', 'templates.json');
+    const rawTemplates: IRawTemplate[] = await fse.pathExists(templatesPath) ? <IRawTemplate[]>await fse.readJSON(templatesPath) : [];
+    const index: number = rawTemplates.findIndex(t => t.id === rawTemplate.id);
+    if (index === -1) {
+        rawTemplates.push(rawTemplate);
+    } else {
+        const message: string = localize('overwriteTemplate', 'Template "{0}" already exists. Overwrite?', rawTemplate.id);
+        await ext.ui.showWarningMessage(message, { modal: true }, DialogResponses.yes, DialogResponses.cancel);
+        rawTemplates[index] = rawTemplate;
+    }
+
+    await fse.ensureDir(path.dirname(templatesPath));
+    await writeFormattedJson(templatesPath, rawTemplates);
+}
@@ -0,0 +1,15 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { ext } from '../../extensionVariables';
+import { LocalSettingTreeItem } from '../../tree/localProject/LocalSettingTreeItem';
+
+export async function editLocalSetting(node?: LocalSettingTreeItem): Promise<void> {
+    if (!node) {
+        node = <LocalSettingTreeItem>await ext.tree.showTreeItemPicker(LocalSettingTreeItem.contextValue);
+    }
+
+    await node.edit();
+}
@@ -0,0 +1,270 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { WebSiteManagementModels } from 'azure-arm-website';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { AppSettingsTreeItem, SiteClient } from 'vscode-azureappservice';
+import { IActionContext, IAzureQuickPickItem } from 'vscode-azureextensionui';
+import { localSettingsFileName } from '../../constants';
+import { ext } from '../../extensionVariables';
+import { discoverLocalFunctions, FunctionSource, getLocalFunctionConfig, ILocalFunction } from '../../funcConfig/discoverFunctions';
+import { ParsedFunctionJson } from '../../funcConfig/function';
+import { getLocalSettingsJson, getLocalSettingsProfileFileName, getLocalSettingsProfiles, ILocalSettingsJson } from '../../funcConfig/local.settings';
+import { localize } from '../../localize';
+import { validateLocalSettingKey } from '../../tree/localProject/LocalSettingsTreeItem';
+import { LocalSettingTreeItem } from '../../tree/localProject/LocalSettingTreeItem';
+import { isPathEqual, writeFormattedJson } from '../../utils/fs';
+import { getConnectionStringValues, listRemoteConnectionStrings, setConnectionStringValues, updateRemoteConnectionStrings } from '../appSettings/connectionStrings';
+import { bindingAttributeFileExtensions, findSettingReferences, getBindingSettingReferences, ISettingReference, renameBindingReferences, settingReferenceFileExtensions } from './settingReferences';
+import { selectSettingsProjectPath, settingUsageExcludePattern } from './settingUsages';
+
+interface ICodeReference extends ISettingReference {
+    uri: vscode.Uri;
+    range: vscode.Range;
+    lineText: string;
+}
+
+interface IBindingReference {
+    func: ILocalFunction;
+    config: ParsedFunctionJson;
+    properties: string[];
+}
+
+/**
+ * Renames a setting in the local settings (including profiles), the bindings and code that reference it, and optionally a Function App in Azure
+ */
+export async function renameSettingEverywhere(this: IActionContext, node?: LocalSettingTreeItem): Promise<void> {
+    const projectPath: string | undefined = node ? node.root.projectPath : await selectSettingsProjectPath(this);
+    if (!projectPath) {
+        return;
+    }
+
+    const localSettingsPaths: string[] = [path.join(projectPath, localSettingsFileName)];
+    localSettingsPaths.push(...(await getLocalSettingsProfiles(projectPath)).map(p => path.join(projectPath, getLocalSettingsProfileFileName(p))));
+    const settings: ILocalSettingsJson = await getLocalSettingsJson(localSettingsPaths[0]);
+    const existingKeys: { [key: string]: string } = { ...settings.Values, ...settings.ConnectionStrings };
+
+    let oldKey: string;
+    if (node) {
+        oldKey = node.key;
+    } else {
+        const picks: IAzureQuickPickItem<string>[] = Object.keys(existingKeys).map(k => { return { label: k, description: '', data: k }; });
+        if (picks.length === 0) {
+            throw new Error(localize('noLocalSettings', 'No settings found in "{0}".', localSettingsFileName));
+        }
+        oldKey = (await ext.ui.showQuickPick(picks, { placeHolder: localize('selectSettingToRename', 'Select the setting to rename') })).data;
+    }
+
+    const newKey: string = (await ext.ui.showInputBox({
+        prompt: localize('enterNewName', 'Enter a new name for "{0}"', oldKey),
+        value: oldKey,
+        validateInput: (v: string): string | undefined => validateLocalSettingKey(existingKeys, v, oldKey)
+    })).trim();
+
+    const functions: ILocalFunction[] = await discoverLocalFunctions(projectPath);
+    const bindingReferences: IBindingReference[] = await getBindingReferences(functions, oldKey, newKey);
+    const codeReferences: ICodeReference[] = await selectCodeReferences(projectPath, oldKey, newKey);
+    const unhandledFunctions: ILocalFunction[] = await getUnhandledFunctions(functions, oldKey, codeReferences);
+    const remoteNode: AppSettingsTreeItem | undefined = await selectRemoteNode();
+    this.properties.bindingReferenceCount = String(bindingReferences.length);
+    this.properties.codeReferenceCount = String(codeReferences.length);
+    this.properties.unhandledFunctionCount = String(unhandledFunctions.length);
+    this.properties.renameRemote = String(!!remoteNode);
+
+    ext.outputChannel.show(true);
+    ext.outputChannel.appendLine(localize('renamingSetting', 'Renaming setting "{0}" to "{1}"...', oldKey, newKey));
+    for (const localSettingsPath of localSettingsPaths) {
+        await renameKeyInLocalSettings(localSettingsPath, oldKey, newKey);
+    }
+
+    for (const reference of bindingReferences) {
+        await writeFormattedJson(reference.func.fsPath, reference.config.data);
+        ext.outputChannel.appendLine(localize('renamedBinding', 'Updated "{0}" in the bindings of function "{1}".', reference.properties.join(', '), reference.func.name));
+    }
+
+    await renameCodeReferences(codeReferences, newKey);
+
+    if (remoteNode) {
+        await renameRemoteSetting(remoteNode, oldKey, newKey);
+    }
+
+    if (node) {
+        await node.parent.refresh();
+    }
+
+    if (unhandledFunctions.length > 0) {
+        ext.outputChannel.appendLine(localize('unhandledFunctions', 'WARNING: The bindings of the following functions reference "{0}", but were not renamed:', oldKey));
+        for (const func of unhandledFunctions) {
+            ext.outputChannel.appendLine(`  ${func.name} (${func.fsPath})`);
+        }
+        // don't wait
+        vscode.window.showWarningMessage(localize('renamedSettingWithWarnings', 'Renamed setting "{0}" to "{1}", but the bindings of {2} function(s) still reference "{0}". See output for details.', oldKey, newKey, unhandledFunctions.length));
+    } else {
+        // don't wait
+        vscode.window.showInformationMessage(localize('renamedSetting', 'Successfully renamed setting "{0}" to "{1}".', oldKey, newKey));
+    }
+}
+
+async function getBindingReferences(functions: ILocalFunction[], oldKey: string, newKey: string): Promise<IBindingReference[]> {
+    const result: IBindingReference[] = [];
+    // Only 'function.json' files in the project can be edited. The bindings of compiled functions are renamed with the code references if their attributes or annotations can be found
+    for (const func of functions.filter(f => f.source === FunctionSource.functionJson)) {
+        try {
+            const config: ParsedFunctionJson = await getLocalFunctionConfig(func);
+            const properties: string[] = renameBindingReferences(config.bindings, oldKey, newKey);
+            if (properties.length > 0) {
+                result.push({ func, config, properties });
+            }
+        } catch {
+            // ignore invalid functions
+        }
+    }
+    return result;
+}
+
+/**
+ * Finds compiled functions with bindings that reference the setting, but whose source file isn't in the selected code references
+ * This includes functions only found in the build output and references the code references couldn't find (e.g. a constant used as the connection)
+ * Bindings that use the default storage connection are always included, since there's no attribute or annotation property to rename
+ */
+async function getUnhandledFunctions(functions: ILocalFunction[], oldKey: string, codeReferences: ICodeReference[]): Promise<ILocalFunction[]> {
+    const result: ILocalFunction[] = [];
+    for (const func of functions.filter(f => f.source !== FunctionSource.functionJson)) {
+        try {
+            const config: ParsedFunctionJson = await getLocalFunctionConfig(func);
+            const isImplicitlyReferenced: boolean = config.bindings.some(b => getBindingSettingReferences(b).some(r => r.key === oldKey && !!r.isImplicit));
+            const isReferenced: boolean = config.bindings.some(b => getBindingSettingReferences(b).some(r => r.key === oldKey && !r.isImplicit));
+            if (isImplicitlyReferenced || (isReferenced && !codeReferences.some(r => isPathEqual(r.uri.fsPath, func.fsPath)))) {
+                result.push(func);
+            }
+        } catch {
+            // ignore invalid functions
+        }
+    }
+    return result;
+}
+
+/**
+ * Finds code that reads the setting as an environment variable (or binding attributes and annotations that reference it) and lets the user preview and select which references to rename
+ */
+async function selectCodeReferences(projectPath: string, oldKey: string, newKey: string): Promise<ICodeReference[]> {
+    const pattern: vscode.RelativePattern = new vscode.RelativePattern(projectPath, `**/*.{${settingReferenceFileExtensions.join(',')}}`);
+    const uris: vscode.Uri[] = await vscode.workspace.findFiles(pattern, settingUsageExcludePattern);
+    const references: ICodeReference[] = [];
+    for (const uri of uris) {
+        const document: vscode.TextDocument = await vscode.workspace.openTextDocument(uri);
+        const includeBindingAttributes: boolean = bindingAttributeFileExtensions.indexOf(path.extname(uri.fsPath).slice(1)) !== -1;
+        for (const reference of findSettingReferences(document.getText(), oldKey, includeBindingAttributes)) {
+            const range: vscode.Range = new vscode.Range(document.positionAt(reference.offset), document.positionAt(reference.offset + reference.length));
+            references.push({ ...reference, uri, range, lineText: document.lineAt(range.start.line).text });
+        }
+    }
+
+    if (references.length === 0) {
+        return [];
+    }
+
+    const picks: IAzureQuickPickItem<ICodeReference>[] = references.map(r => {
+        const start: number = r.range.start.character;
+        const newLineText: string = r.lineText.slice(0, start) + newKey + r.lineText.slice(start + r.length);
+        return {
+            label: `${path.relative(projectPath, r.uri.fsPath)}:${r.range.start.line + 1}`,
+            description: '',
+            detail: newLineText.trim(),
+            data: r,
+            picked: true
+        };
+    });
+    const placeHolder: string = localize('previewCodeEdits', 'Select the code references to rename from "{0}" to "{1}"', oldKey, newKey);
+    return (await ext.ui.showQuickPick(picks, { placeHolder, canPickMany: true, suppressPersistence: true })).map(p => p.data);
+}
+
+async function selectRemoteNode(): Promise<AppSettingsTreeItem | undefined> {
+    const picks: IAzureQuickPickItem<boolean>[] = [
+        { label: localize('renameLocalOnly', 'Rename locally only'), description: '', data: false },
+        { label: localize('renameRemote', 'Also rename in a Function App in Azure...'), description: '', data: true }
+    ];
+    const placeHolder: string = localize('selectRenameRemote', 'Rename the setting in Azure?');
+    if ((await ext.ui.showQuickPick(picks, { placeHolder, suppressPersistence: true })).data) {
+        return <AppSettingsTreeItem>await ext.tree.showTreeItemPicker(AppSettingsTreeItem.contextValue);
+    } else {
+        return undefined;
+    }
+}
+
+/**
+ * Renames the key in the "Values" and "ConnectionStrings" sections, preserving the order of the keys
+ */
+async function renameKeyInLocalSettings(localSettingsPath: string, oldKey: string, newKey: string): Promise<void> {
+    // Keys are never encrypted, so the value can be moved as-is
+    const settings: ILocalSettingsJson = await getLocalSettingsJson(localSettingsPath);
+    let renamed: boolean = false;
+    for (const section of <('Values' | 'ConnectionStrings')[]>['Values', 'ConnectionStrings']) {
+        const sectionSettings: { [key: string]: string } | undefined = settings[section];
+        if (sectionSettings && sectionSettings[oldKey] !== undefined) {
+            const newSectionSettings: { [key: string]: string } = {};
+            for (const key of Object.keys(sectionSettings)) {
+                newSectionSettings[key === oldKey ? newKey : key] = sectionSettings[key];
+            }
+            settings[section] = newSectionSettings;
+            renamed = true;
+        }
+    }
+
+    if (renamed) {
+        await writeFormattedJson(localSettingsPath, settings);
+        ext.outputChannel.appendLine(localize('renamedLocal', 'Updated "{0}".', path.basename(localSettingsPath)));
+    }
+}
+
+async function renameCodeReferences(references: ICodeReference[], newKey: string): Promise<void> {
+    if (references.length > 0) {
+        const edit: vscode.WorkspaceEdit = new vscode.WorkspaceEdit();
+        for (const reference of references) {
+            edit.replace(reference.uri, reference.range, newKey);
+        }
+
+        if (!await vscode.workspace.applyEdit(edit)) {
+            throw new Error(localize('failedToRenameCode', 'Failed to rename the references in code.'));
+        }
+
+        const uris: vscode.Uri[] = references.map(r => r.uri).filter((uri, index, array) => array.findIndex(u => u.toString() === uri.toString()) === index);
+        for (const uri of uris) {
+            await (await vscode.workspace.openTextDocument(uri)).save();
+            ext.outputChannel.appendLine(localize('renamedCode', 'Updated "{0}".', uri.fsPath));
+        }
+    }
+}
+
+async function renameRemoteSetting(node: AppSettingsTreeItem, oldKey: string, newKey: string): Promise<void> {
+    const client: SiteClient = node.root.client;
+    let renamed: boolean = false;
+
+    const appSettings: WebSiteManagementModels.StringDictionary = await client.listApplicationSettings();
+    if (appSettings.properties && appSettings.properties[oldKey] !== undefined) {
+        appSettings.properties[newKey] = appSettings.properties[oldKey];
+        delete appSettings.properties[oldKey];
+        await client.updateApplicationSettings(appSettings);
+        renamed = true;
+    }
+
+    const connectionStrings: WebSiteManagementModels.ConnectionStringDictionary = await listRemoteConnectionStrings(node.root);
+    const connectionStringValues: { [key: string]: string } = getConnectionStringValues(connectionStrings);
+    if (connectionStringValues[oldKey] !== undefined) {
+        connectionStringValues[newKey] = connectionStringValues[oldKey];
+        delete connectionStringValues[oldKey];
+        setConnectionStringValues(connectionStrings, connectionStringValues);
+        await updateRemoteConnectionStrings(node.root, connectionStrings);
+        renamed = true;
+    }
+
+    if (renamed) {
+        ext.outputChannel.appendLine(localize('renamedRemote', 'Updated "{0}".', client.fullName));
+        await node.refresh();
+    } else {
+        ext.outputChannel.appendLine(localize('remoteSettingNotFound', 'WARNING: Setting "{0}" was not found in "{1}".', oldKey, client.fullName));
+    }
+}
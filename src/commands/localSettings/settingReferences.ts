@@ -0,0 +1,166 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IFunctionBinding } from '../../funcConfig/function';
+import { azureWebJobsStorageKey } from '../../funcConfig/local.settings';
+
+/**
+ * The location of a setting's key in a source file
+ */
+export interface ISettingReference {
+    offset: number;
+    length: number;
+}
+
+/**
+ * A binding property that references a setting
+ */
+export interface IBindingSettingReference {
+    key: string;
+    property: string;
+    /**
+     * True if the setting is referenced through a '%name%' expression rather than as the value of a connection property
+     */
+    isExpression: boolean;
+    /**
+     * True if the binding doesn't specify the property and the runtime uses this setting by default
+     */
+    isImplicit?: boolean;
+}
+
+/**
+ * The code used to read an environment variable in each language, as the source of a regular expression before and after the key
+ */
+const envVarPatterns: [string, string][] = [
+    // process.env.KEY
+    ['process\\.env\\.', '(?![\\w$])'],
+    // process.env['KEY']
+    ['process\\.env\\[\\s*[\'"`]', '[\'"`]'],
+    // os.environ['KEY']
+    ['os\\.environ\\[\\s*[\'"]', '[\'"]'],
+    // os.environ.get('KEY')
+    ['os\\.environ\\.get\\(\\s*[\'"]', '[\'"]'],
+    // os.getenv('KEY')
+    ['os\\.getenv\\(\\s*[\'"]', '[\'"]'],
+    // Environment.GetEnvironmentVariable("KEY")
+    ['Environment\\.GetEnvironmentVariable\\(\\s*@?"', '"'],
+    // System.getenv("KEY")
+    ['System\\.getenv\\(\\s*"', '"'],
+    // $env:KEY
+    ['\\$env:', '(?!\\w)']
+];
+
+/**
+ * The attributes (C# and F#) and annotations (Java) that define the bindings of compiled functions, as the source of a regular expression before and after the key
+ */
+const bindingAttributePatterns: [string, string][] = [
+    // [QueueTrigger("myqueue", Connection = "KEY")] or @QueueTrigger(name = "msg", connection = "KEY")
+    ['\\b\\w*[Cc]onnection\\w*\\s*=\\s*@?"', '"'],
+    // [QueueTrigger("%KEY%")] or @QueueTrigger(name = "msg", queueName = "%KEY%")
+    ['"[^"\\r\\n]*%', '%']
+];
+
+/**
+ * Settings read by the Functions runtime itself, which don't need to be referenced by bindings or code
+ */
+export const runtimeSettingPatterns: string[] = [
+    'AzureWebJobs*',
+    'FUNCTIONS_*',
+    'APPINSIGHTS_*',
+    'APPLICATIONINSIGHTS_*'
+];
+
+/**
+ * The file extensions of source code that may reference settings as environment variables
+ */
+export const settingReferenceFileExtensions: string[] = ['js', 'ts', 'py', 'cs', 'csx', 'fs', 'fsx', 'java', 'ps1'];
+
+/**
+ * The file extensions of compiled functions, whose bindings are defined by attributes or annotations in source code
+ */
+export const bindingAttributeFileExtensions: string[] = ['cs', 'fs', 'java'];
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Finds the places where the text reads the setting as an environment variable, sorted by offset
+ * @param includeBindingAttributes Also find the binding attributes and annotations of compiled functions that reference the setting
+ */
+export function findSettingReferences(text: string, key: string, includeBindingAttributes: boolean = false): ISettingReference[] {
+    const result: ISettingReference[] = [];
+    for (const [prefix, suffix] of includeBindingAttributes ? envVarPatterns.concat(bindingAttributePatterns) : envVarPatterns) {
+        const regExp: RegExp = new RegExp(`(${prefix})${escapeRegExp(key)}(?=${suffix})`, 'g');
+        let match: RegExpExecArray | null = regExp.exec(text);
+        while (match) {
+            result.push({ offset: match.index + match[1].length, length: key.length });
+            match = regExp.exec(text);
+        }
+    }
+    return result.sort((a, b) => a.offset - b.offset);
+}
+
+/**
+ * Finds the settings referenced by a binding, either through a connection property, a '%name%' expression, or the default storage connection
+ */
+export function getBindingSettingReferences(binding: IFunctionBinding): IBindingSettingReference[] {
+    const result: IBindingSettingReference[] = [];
+    for (const property of Object.keys(binding)) {
+        const value: string | undefined = binding[property];
+        if (typeof value === 'string') {
+            if (/connection/i.test(property) && value) {
+                result.push({ key: value, property, isExpression: false });
+            }
+
+            const expressions: RegExpMatchArray | null = value.match(/%[^%]+%/g);
+            if (expressions) {
+                result.push(...expressions.map(e => { return { key: e.slice(1, -1), property, isExpression: true }; }));
+            }
+        }
+    }
+
+    // Storage bindings use AzureWebJobsStorage if they don't specify a connection
+    // tslint:disable-next-line: strict-boolean-expressions
+    const bindingType: string = (binding.type || '').toLowerCase();
+    if (/^(blob|queue|table)(trigger)?$/.test(bindingType) && !binding.connection) {
+        result.push({ key: azureWebJobsStorageKey, property: 'connection', isExpression: false, isImplicit: true });
+    }
+
+    return result;
+}
+
+/**
+ * Renames references to the setting in the bindings, either through a connection property or a '%name%' expression
+ * Bindings that use the default storage connection get an explicit connection, so that they keep using the renamed setting
+ * @returns The names of the binding properties that were changed
+ */
+export function renameBindingReferences(bindings: IFunctionBinding[], oldKey: string, newKey: string): string[] {
+    const result: string[] = [];
+    const expression: RegExp = new RegExp(`%${escapeRegExp(oldKey)}%`, 'g');
+    for (const binding of bindings) {
+        if (getBindingSettingReferences(binding).some(r => r.key === oldKey && !!r.isImplicit)) {
+            binding.connection = newKey;
+            result.push('connection');
+            continue;
+        }
+
+        for (const property of Object.keys(binding)) {
+            const value: string | undefined = binding[property];
+            if (typeof value === 'string') {
+                let newValue: string = value.replace(expression, `%${newKey}%`);
+                if (/connection/i.test(property) && value === oldKey) {
+                    newValue = newKey;
+                }
+
+                if (newValue !== value) {
+                    binding[property] = newValue;
+                    result.push(property);
+                }
+            }
+        }
+    }
+    return result;
+}
@@ -0,0 +1,138 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { IActionContext, UserCancelledError } from 'vscode-azureextensionui';
+import { NoWorkspaceError } from '../../errors';
+import { discoverLocalFunctions, getLocalFunctionConfig, ILocalFunction } from '../../funcConfig/discoverFunctions';
+import { ParsedFunctionJson } from '../../funcConfig/function';
+import { localize } from '../../localize';
+import { verifyAndPromptToCreateProject } from '../createNewProject/verifyIsProject';
+import { findSettingReferences, getBindingSettingReferences, IBindingSettingReference, settingReferenceFileExtensions } from './settingReferences';
+
+export enum SettingUsageKind {
+    binding = 'binding',
+    expression = 'expression',
+    code = 'code'
+}
+
+export interface ISettingUsage {
+    key: string;
+    kind: SettingUsageKind;
+    uri: vscode.Uri;
+    range: vscode.Range;
+    /**
+     * A description of the usage, e.g. the binding property or line of code
+     */
+    description: string;
+}
+
+/**
+ * Source files in these folders are dependencies or build output, not part of the project
+ */
+export const settingUsageExcludePattern: string = '**/{node_modules,bin,obj,target,.venv,.git}/**';
+
+export async function selectSettingsProjectPath(actionContext: IActionContext): Promise<string | undefined> {
+    if (!vscode.workspace.workspaceFolders || vscode.workspace.workspaceFolders.length === 0) {
+        throw new NoWorkspaceError();
+    }
+
+    const placeHolder: string = localize('selectSettingsFolder', 'Select the folder containing your function project');
+    const folder: vscode.WorkspaceFolder | undefined = await vscode.window.showWorkspaceFolderPick({ placeHolder });
+    if (!folder) {
+        throw new UserCancelledError();
+    }
+
+    return await verifyAndPromptToCreateProject(actionContext, folder.uri.fsPath);
+}
+
+/**
+ * Finds the bindings, binding expressions, and code in the project that reference any of the settings. Keys are matched case-insensitively for bindings, like the runtime does
+ */
+export async function getSettingUsages(projectPath: string, keys: string[]): Promise<ISettingUsage[]> {
+    const result: ISettingUsage[] = [];
+    const lowerCaseKeys: string[] = keys.map(k => k.toLowerCase());
+
+    for (const func of await discoverLocalFunctions(projectPath)) {
+        let config: ParsedFunctionJson;
+        try {
+            config = await getLocalFunctionConfig(func);
+        } catch {
+            // ignore invalid functions
+            continue;
+        }
+
+        let document: vscode.TextDocument | undefined;
+        for (const binding of config.bindings) {
+            for (const reference of getBindingSettingReferences(binding)) {
+                const index: number = lowerCaseKeys.indexOf(reference.key.toLowerCase());
+                if (index !== -1) {
+                    if (!document) {
+                        document = await vscode.workspace.openTextDocument(func.fsPath);
+                    }
+                    result.push({
+                        key: keys[index],
+                        kind: reference.isExpression ? SettingUsageKind.expression : SettingUsageKind.binding,
+                        uri: document.uri,
+                        range: getBindingReferenceRange(document, reference, binding.name),
+                        description: getBindingReferenceDescription(func, reference)
+                    });
+                }
+            }
+        }
+    }
+
+    const pattern: vscode.RelativePattern = new vscode.RelativePattern(projectPath, `**/*.{${settingReferenceFileExtensions.join(',')}}`);
+    for (const uri of await vscode.workspace.findFiles(pattern, settingUsageExcludePattern)) {
+        const document: vscode.TextDocument = await vscode.workspace.openTextDocument(uri);
+        const text: string = document.getText();
+        for (const key of keys) {
+            for (const reference of findSettingReferences(text, key)) {
+                const range: vscode.Range = new vscode.Range(document.positionAt(reference.offset), document.positionAt(reference.offset + reference.length));
+                result.push({ key, kind: SettingUsageKind.code, uri, range, description: document.lineAt(range.start.line).text.trim() });
+            }
+        }
+    }
+
+    return result;
+}
+
+export function getSettingUsageLocation(projectPath: string, usage: ISettingUsage): string {
+    return `${path.relative(projectPath, usage.uri.fsPath)}:${usage.range.start.line + 1}`;
+}
+
+function getBindingReferenceDescription(func: ILocalFunction, reference: IBindingSettingReference): string {
+    if (reference.isExpression) {
+        return localize('expressionReference', 'Binding expression in "{0}" of function "{1}"', reference.property, func.name);
+    } else if (reference.isImplicit) {
+        return localize('implicitReference', 'Default "{0}" of a storage binding in function "{1}"', reference.property, func.name);
+    } else {
+        return localize('bindingReference', 'Binding "{0}" of function "{1}"', reference.property, func.name);
+    }
+}
+
+/**
+ * Finds the text of the reference in the file that defines the function, falling back to the binding's name (for default references) or the start of the file
+ */
+function getBindingReferenceRange(document: vscode.TextDocument, reference: IBindingSettingReference, bindingName: string | undefined): vscode.Range {
+    const text: string = document.getText();
+    const searchValues: string[] = [];
+    if (!reference.isImplicit) {
+        searchValues.push(reference.isExpression ? `%${reference.key}%` : `"${reference.key}"`);
+    }
+    if (bindingName) {
+        searchValues.push(`"${bindingName}"`);
+    }
+
+    for (const value of searchValues) {
+        const offset: number = text.indexOf(value);
+        if (offset !== -1) {
+            return new vscode.Range(document.positionAt(offset), document.positionAt(offset + value.length));
+        }
+    }
+
+    return new vscode.Range(0, 0, 0, 0);
+}
@@ -0,0 +1,51 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { AppSettingTreeItem } from 'vscode-azureappservice';
+import { IActionContext, IAzureQuickPickItem } from 'vscode-azureextensionui';
+import { ext } from '../../extensionVariables';
+import { localize } from '../../localize';
+import { LocalSettingTreeItem } from '../../tree/localProject/LocalSettingTreeItem';
+import { getSettingUsageLocation, getSettingUsages, ISettingUsage, selectSettingsProjectPath } from './settingUsages';
+
+/**
+ * Lists the bindings, binding expressions, and code in the local project that reference a local or remote setting
+ */
+export async function showSettingReferences(this: IActionContext, node?: LocalSettingTreeItem | AppSettingTreeItem): Promise<void> {
+    if (!node) {
+        node = <LocalSettingTreeItem | AppSettingTreeItem>await ext.tree.showTreeItemPicker([LocalSettingTreeItem.contextValue, AppSettingTreeItem.contextValue]);
+    }
+
+    // The id of a remote setting is its key
+    const key: string = node instanceof LocalSettingTreeItem ? node.key : node.id;
+    const projectPath: string | undefined = node instanceof LocalSettingTreeItem ? node.root.projectPath : await selectSettingsProjectPath(this);
+    if (!projectPath) {
+        return;
+    }
+
+    const usages: ISettingUsage[] = await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: localize('findingReferences', 'Finding references to "{0}"...', key) }, async () => {
+        return await getSettingUsages(projectPath, [key]);
+    });
+    this.properties.referenceCount = String(usages.length);
+
+    if (usages.length === 0) {
+        // don't wait
+        vscode.window.showInformationMessage(localize('noReferences', 'No bindings or code in "{0}" reference setting "{1}".', projectPath, key));
+        return;
+    }
+
+    const picks: IAzureQuickPickItem<ISettingUsage>[] = usages.map(u => {
+        return {
+            label: getSettingUsageLocation(projectPath, u),
+            description: u.kind,
+            detail: u.description,
+            data: u
+        };
+    });
+    const placeHolder: string = localize('selectReference', 'Found {0} reference(s) to "{1}". Select a reference to open it', usages.length, key);
+    const usage: ISettingUsage = (await ext.ui.showQuickPick(picks, { placeHolder, suppressPersistence: true })).data;
+    await vscode.window.showTextDocument(await vscode.workspace.openTextDocument(usage.uri), { selection: usage.range });
+}
@@ -0,0 +1,81 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { WebSiteManagementModels } from 'azure-arm-website';
+import * as os from 'os';
+import * as vscode from 'vscode';
+import { AppSettingsTreeItem } from 'vscode-azureappservice';
+import { IActionContext } from 'vscode-azureextensionui';
+import { localSettingsFileName } from '../../constants';
+import { ext } from '../../extensionVariables';
+import { getLocalSettingsJson, ILocalSettingsJson } from '../../funcConfig/local.settings';
+import { localize } from '../../localize';
+import { LocalSettingsTreeItem } from '../../tree/localProject/LocalSettingsTreeItem';
+import { setReadOnlyContent } from '../../utils/readOnlyContent';
+import { getConnectionStringValues, listRemoteConnectionStrings } from '../appSettings/connectionStrings';
+import { matchesSettingPattern, platformAppSettingPatterns } from '../appSettings/filterAppSettings';
+import { runtimeSettingPatterns } from './settingReferences';
+import { getSettingUsageLocation, getSettingUsages, ISettingUsage, selectSettingsProjectPath } from './settingUsages';
+
+/**
+ * Shows a report of the local or remote settings that aren't referenced by any bindings or code in the local project
+ */
+export async function showUnusedSettings(this: IActionContext, node?: LocalSettingsTreeItem | AppSettingsTreeItem): Promise<void> {
+    if (!node) {
+        node = <LocalSettingsTreeItem | AppSettingsTreeItem>await ext.tree.showTreeItemPicker([LocalSettingsTreeItem.contextValue, AppSettingsTreeItem.contextValue]);
+    }
+
+    const projectPath: string | undefined = node instanceof LocalSettingsTreeItem ? node.root.projectPath : await selectSettingsProjectPath(this);
+    if (!projectPath) {
+        return;
+    }
+
+    let keys: string[];
+    let settingsName: string;
+    if (node instanceof LocalSettingsTreeItem) {
+        const settings: ILocalSettingsJson = await getLocalSettingsJson(node.localSettingsPath);
+        keys = Object.keys({ ...settings.Values, ...settings.ConnectionStrings });
+        settingsName = localSettingsFileName;
+    } else {
+        const appSettings: WebSiteManagementModels.StringDictionary = await node.root.client.listApplicationSettings();
+        const connectionStrings: { [key: string]: string } = getConnectionStringValues(await listRemoteConnectionStrings(node.root));
+        keys = Object.keys({ ...appSettings.properties, ...connectionStrings });
+        settingsName = node.root.client.fullName;
+    }
+
+    const usages: ISettingUsage[] = await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: localize('findingUnused', 'Finding unused settings...') }, async () => {
+        return await getSettingUsages(projectPath, keys);
+    });
+
+    const runtimeKeys: string[] = keys.filter(k => runtimeSettingPatterns.concat(platformAppSettingPatterns).some(p => matchesSettingPattern(k, p)));
+    const usedKeys: string[] = keys.filter(k => runtimeKeys.indexOf(k) === -1 && usages.some(u => u.key === k));
+    const unusedKeys: string[] = keys.filter(k => runtimeKeys.indexOf(k) === -1 && usedKeys.indexOf(k) === -1);
+    this.properties.settingCount = String(keys.length);
+    this.properties.unusedCount = String(unusedKeys.length);
+
+    const lines: string[] = [
+        `# ${localize('unusedSettingsTitle', 'Unused settings in "{0}"', settingsName)}`,
+        '',
+        localize('unusedSettingsDescription', 'Compared against the bindings, binding expressions, and code in "{0}".', projectPath),
+        '',
+        `## ${localize('unusedSettingsHeader', 'Not referenced ({0})', unusedKeys.length)}`,
+        ''
+    ];
+    lines.push(...(unusedKeys.length > 0 ? unusedKeys.map(k => `- \`${k}\``) : [localize('noUnusedSettings', 'All settings are referenced.')]));
+
+    lines.push('', `## ${localize('usedSettingsHeader', 'Referenced ({0})', usedKeys.length)}`, '');
+    for (const key of usedKeys) {
+        lines.push(`- \`${key}\``);
+        lines.push(...usages.filter(u => u.key === key).map(u => `    - ${getSettingUsageLocation(projectPath, u)}: ${u.description}`));
+    }
+
+    if (runtimeKeys.length > 0) {
+        lines.push('', `## ${localize('runtimeSettingsHeader', 'Used by the Functions runtime or platform ({0})', runtimeKeys.length)}`, '');
+        lines.push(...runtimeKeys.map(k => `- \`${k}\``));
+    }
+
+    const uri: vscode.Uri = setReadOnlyContent(node.fullId, localize('unusedSettingsFileName', 'Unused Settings.md'), lines.join(os.EOL) + os.EOL);
+    await vscode.window.showTextDocument(await vscode.workspace.openTextDocument(uri));
+}
@@ -0,0 +1,18 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IHostJsonV2 } from '../../funcConfig/host';
+import { IProjectWizardContext } from '../createNewProject/IProjectWizardContext';
+
+export interface IMigrateProjectWizardContext extends IProjectWizardContext {
+    /**
+     * The new contents of 'host.json', set once the user confirms the migration report
+     */
+    hostJson?: IHostJsonV2;
+    /**
+     * The value to add for "FUNCTIONS_WORKER_RUNTIME" in 'local.settings.json', if any
+     */
+    workerRuntime?: string;
+}
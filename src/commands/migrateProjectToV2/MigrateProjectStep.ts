@@ -0,0 +1,38 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import { AzureWizardExecuteStep } from 'vscode-azureextensionui';
+import { hostFileName, localSettingsFileName } from '../../constants';
+import { ILocalSettingsJson } from '../../funcConfig/local.settings';
+import { confirmEditJsonFile, writeFormattedJson } from '../../utils/fs';
+import { nonNullProp } from '../../utils/nonNull';
+import { IMigrateProjectWizardContext } from './IMigrateProjectWizardContext';
+
+/**
+ * Writes the project files. The VS Code config is regenerated by the InitVSCodeStep for the project's language
+ */
+export class MigrateProjectStep extends AzureWizardExecuteStep<IMigrateProjectWizardContext> {
+    // Run before the InitVSCodeStep
+    public priority: number = 10;
+
+    public async execute(wizardContext: IMigrateProjectWizardContext): Promise<void> {
+        await writeFormattedJson(path.join(wizardContext.projectPath, hostFileName), nonNullProp(wizardContext, 'hostJson'));
+
+        const workerRuntime: string | undefined = wizardContext.workerRuntime;
+        if (workerRuntime) {
+            await confirmEditJsonFile(path.join(wizardContext.projectPath, localSettingsFileName), (data: ILocalSettingsJson): ILocalSettingsJson => {
+                // tslint:disable-next-line: strict-boolean-expressions
+                data.Values = data.Values || {};
+                data.Values.FUNCTIONS_WORKER_RUNTIME = workerRuntime;
+                return data;
+            });
+        }
+    }
+
+    public shouldExecute(wizardContext: IMigrateProjectWizardContext): boolean {
+        return !!wizardContext.hostJson;
+    }
+}
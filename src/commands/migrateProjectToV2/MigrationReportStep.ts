@@ -0,0 +1,121 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fse from 'fs-extra';
+import * as path from 'path';
+import { MessageItem } from 'vscode';
+import { AzureWizardPromptStep, parseError } from 'vscode-azureextensionui';
+import { hostFileName, localSettingsFileName, ProjectLanguage, ProjectRuntime, projectRuntimeSetting, tasksFileName } from '../../constants';
+import { ext } from '../../extensionVariables';
+import { discoverLocalFunctions, getLocalFunctionConfig, ILocalFunction } from '../../funcConfig/discoverFunctions';
+import { ParsedFunctionJson } from '../../funcConfig/function';
+import { getLocalSettingsJson, ILocalSettingsJson } from '../../funcConfig/local.settings';
+import { localize } from '../../localize';
+import { tryGetRuntimeFromTargetFramework } from '../../runtimes';
+import { nonNullProp } from '../../utils/nonNull';
+import { getFunctionsWorkerRuntime } from '../../vsCodeConfig/settings';
+import { tryGetCsprojFile, tryGetFsprojFile, tryGetTargetFramework } from '../initProjectForVSCode/InitVSCodeStep/DotnetInitVSCodeStep';
+import { convertHostJsonToV2, IHostJsonConversion } from './convertHostJsonToV2';
+import { getBindingMigrationNotes, getLanguageMigrationNote, requiresBindingExtensions } from './getBindingMigrationNotes';
+import { IMigrateProjectWizardContext } from './IMigrateProjectWizardContext';
+
+/**
+ * Writes a report of every change to the output window and asks the user to confirm before anything is written
+ */
+export class MigrationReportStep extends AzureWizardPromptStep<IMigrateProjectWizardContext> {
+    public async prompt(wizardContext: IMigrateProjectWizardContext): Promise<void> {
+        const language: ProjectLanguage = nonNullProp(wizardContext, 'language');
+        if (language === ProjectLanguage.CSharp || language === ProjectLanguage.FSharp) {
+            await verifyDotnetTargetFramework(wizardContext.projectPath, language);
+        }
+
+        const hostJsonPath: string = path.join(wizardContext.projectPath, hostFileName);
+        let conversion: IHostJsonConversion;
+        try {
+            conversion = convertHostJsonToV2(<{}>await fse.readJSON(hostJsonPath));
+        } catch (error) {
+            throw new Error(localize('failedToParseHostJson', 'Failed to parse {0}: {1}', hostFileName, parseError(error).message));
+        }
+
+        const warnings: string[] = [];
+        const languageNote: string | undefined = getLanguageMigrationNote(language);
+        if (languageNote) {
+            warnings.push(languageNote);
+        }
+
+        let needsExtensions: boolean = false;
+        const functions: ILocalFunction[] = await discoverLocalFunctions(wizardContext.projectPath);
+        for (const func of functions) {
+            try {
+                const config: ParsedFunctionJson = await getLocalFunctionConfig(func);
+                warnings.push(...getBindingMigrationNotes(func.name, config.bindings));
+                needsExtensions = needsExtensions || requiresBindingExtensions(config.bindings);
+            } catch (error) {
+                warnings.push(localize('failedToParseFunction', 'Function "{0}": Failed to parse config: {1}', func.name, parseError(error).message));
+            }
+        }
+
+        // C# and F# specify extensions as dependencies in their proj file instead of using a bundle
+        if (needsExtensions && !conversion.hostJson.extensionBundle && language !== ProjectLanguage.CSharp && language !== ProjectLanguage.FSharp) {
+            conversion.hostJson.extensionBundle = { id: 'Microsoft.Azure.Functions.ExtensionBundle', version: '[1.*, 2.0.0)' };
+            conversion.changes.push(localize('addExtensionBundle', 'Add "extensionBundle" so that the binding extensions are installed'));
+        }
+
+        const localSettingsChanges: string[] = [];
+        const workerRuntime: string | undefined = getFunctionsWorkerRuntime(language);
+        if (workerRuntime) {
+            const localSettings: ILocalSettingsJson = await getLocalSettingsJson(path.join(wizardContext.projectPath, localSettingsFileName));
+            if (!localSettings.Values || localSettings.Values.FUNCTIONS_WORKER_RUNTIME !== workerRuntime) {
+                wizardContext.workerRuntime = workerRuntime;
+                localSettingsChanges.push(localize('setWorkerRuntime', 'Set "FUNCTIONS_WORKER_RUNTIME" to "{0}"', workerRuntime));
+            }
+        }
+
+        ext.outputChannel.show(true);
+        ext.outputChannel.appendLine(localize('reportHeader', 'Migration report for project "{0}" from runtime "{1}" to "{2}":', wizardContext.projectPath, ProjectRuntime.v1, ProjectRuntime.v2));
+        appendSection(hostFileName, conversion.changes);
+        appendSection(localSettingsFileName, localSettingsChanges);
+        appendSection(localize('vscodeSettings', 'VS Code settings'), [
+            localize('updateRuntimeSetting', 'Set "{0}" to "{1}"', projectRuntimeSetting, ProjectRuntime.v2),
+            localize('regenerateTasks', 'Regenerate the Azure Functions tasks in "{0}" and debug configuration', tasksFileName)
+        ]);
+        appendSection(localize('manualChanges', 'Changes that must be made manually'), warnings);
+
+        const message: string = warnings.length > 0 ?
+            localize('confirmMigrationWithWarnings', 'Migrate project to runtime "{0}"? {1} change(s) must be made manually after migrating. See output window for details.', ProjectRuntime.v2, warnings.length) :
+            localize('confirmMigration', 'Migrate project to runtime "{0}"? See output window for details.', ProjectRuntime.v2);
+        const migrate: MessageItem = { title: localize('migrate', 'Migrate') };
+        await ext.ui.showWarningMessage(message, { modal: true }, migrate);
+
+        wizardContext.actionContext.properties.migrationWarnings = String(warnings.length);
+        wizardContext.hostJson = conversion.hostJson;
+    }
+
+    public shouldPrompt(wizardContext: IMigrateProjectWizardContext): boolean {
+        return !wizardContext.hostJson;
+    }
+}
+
+/**
+ * The runtime of a compiled .NET project is determined by its target framework, which we don't change automatically
+ */
+async function verifyDotnetTargetFramework(projectPath: string, language: ProjectLanguage): Promise<void> {
+    const projFileName: string | undefined = language === ProjectLanguage.FSharp ? await tryGetFsprojFile(projectPath) : await tryGetCsprojFile(projectPath);
+    if (projFileName) {
+        const targetFramework: string | undefined = await tryGetTargetFramework(path.join(projectPath, projFileName));
+        if (targetFramework && tryGetRuntimeFromTargetFramework(targetFramework) === ProjectRuntime.v1) {
+            throw new Error(localize('updateTargetFramework', 'Change the target framework in "{0}" from "{1}" to .NET Core (e.g. "netcoreapp2.1") and update the "Microsoft.NET.Sdk.Functions" package before migrating.', projFileName, targetFramework));
+        }
+    }
+}
+
+function appendSection(header: string, changes: string[]): void {
+    if (changes.length > 0) {
+        ext.outputChannel.appendLine(`  ${header}:`);
+        for (const change of changes) {
+            ext.outputChannel.appendLine(`    - ${change}`);
+        }
+    }
+}
@@ -0,0 +1,92 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { defaultLogCategory, IHostJsonV1, IHostJsonV2 } from '../../funcConfig/host';
+import { localize } from '../../localize';
+
+export interface IHostJsonConversion {
+    hostJson: IHostJsonV2;
+    /**
+     * A description of each change, for display in the migration report
+     */
+    changes: string[];
+}
+
+/**
+ * Properties with the same name and shape in both runtimes
+ */
+const unchangedProperties: string[] = ['functionTimeout', 'healthMonitor', 'singleton', 'functions', 'watchDirectories', 'id'];
+
+/**
+ * Properties that are under "extensions" in v2, keyed by the v1 name
+ */
+const extensionProperties: { [v1Name: string]: string } = {
+    http: 'http',
+    queues: 'queues',
+    durableTask: 'durableTask'
+};
+
+/**
+ * Converts the contents of a v1 'host.json' file to v2
+ * https://docs.microsoft.com/azure/azure-functions/functions-host-json-v1
+ */
+export function convertHostJsonToV2(data: {}): IHostJsonConversion {
+    const v1: IHostJsonV1 & { [key: string]: unknown } = <IHostJsonV1 & { [key: string]: unknown }>data;
+    const hostJson: IHostJsonV2 & { [key: string]: unknown } = { version: '2.0' };
+    const changes: string[] = [localize('addVersion', 'Add "version": "2.0"')];
+    const extensions: { [key: string]: unknown } = {};
+
+    for (const key of Object.keys(v1)) {
+        const value: unknown = v1[key];
+        if (unchangedProperties.indexOf(key) !== -1) {
+            hostJson[key] = value;
+        } else if (extensionProperties[key] !== undefined) {
+            extensions[extensionProperties[key]] = value;
+            changes.push(localize('moveToExtensions', 'Move "{0}" to "extensions.{1}"', key, extensionProperties[key]));
+        } else if (key === 'logger' && v1.logger) {
+            // tslint:disable-next-line: strict-boolean-expressions
+            const categoryFilter: NonNullable<NonNullable<IHostJsonV1['logger']>['categoryFilter']> = v1.logger.categoryFilter || {};
+            const logLevel: { [category: string]: string | undefined } = { ...categoryFilter.categoryLevels };
+            if (categoryFilter.defaultLevel !== undefined) {
+                logLevel[defaultLogCategory] = categoryFilter.defaultLevel;
+            }
+            hostJson.logging = { ...hostJson.logging, logLevel };
+            changes.push(localize('moveLogger', 'Move "logger.categoryFilter" to "logging.logLevel"'));
+        } else if (key === 'applicationInsights' && v1.applicationInsights) {
+            hostJson.logging = { ...hostJson.logging, applicationInsights: { samplingSettings: v1.applicationInsights.sampling } };
+            changes.push(localize('moveSampling', 'Move "applicationInsights.sampling" to "logging.applicationInsights.samplingSettings"'));
+        } else if (key === 'serviceBus' && v1.serviceBus) {
+            extensions.serviceBus = {
+                prefetchCount: v1.serviceBus.prefetchCount,
+                messageHandlerOptions: {
+                    maxConcurrentCalls: v1.serviceBus.maxConcurrentCalls,
+                    maxAutoRenewDuration: v1.serviceBus.autoRenewTimeout
+                }
+            };
+            changes.push(localize('moveServiceBus', 'Move "serviceBus" to "extensions.serviceBus" ("autoRenewTimeout" is renamed to "maxAutoRenewDuration")'));
+        } else if (key === 'eventHub' && v1.eventHub) {
+            extensions.eventHubs = {
+                batchCheckpointFrequency: v1.eventHub.batchCheckpointFrequency,
+                eventProcessorOptions: {
+                    maxBatchSize: v1.eventHub.maxBatchSize,
+                    prefetchCount: v1.eventHub.prefetchCount
+                }
+            };
+            changes.push(localize('moveEventHub', 'Move "eventHub" to "extensions.eventHubs"'));
+        } else if (key === 'tracing') {
+            changes.push(localize('removeTracing', 'Remove "tracing", which is replaced by "logging" in v2'));
+        } else {
+            hostJson[key] = value;
+            changes.push(localize('unknownHostProperty', 'Keep unrecognized property "{0}", which may not be supported in v2', key));
+        }
+    }
+
+    if (Object.keys(extensions).length > 0) {
+        hostJson.extensions = extensions;
+    }
+
+    // Remove properties that were undefined in v1 so they aren't written as empty objects
+    return { hostJson: <IHostJsonV2>JSON.parse(JSON.stringify(hostJson)), changes };
+}
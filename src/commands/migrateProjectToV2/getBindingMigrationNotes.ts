@@ -0,0 +1,97 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { ProjectLanguage } from '../../constants';
+import { IFunctionBinding } from '../../funcConfig/function';
+import { localize } from '../../localize';
+
+/**
+ * Binding types that were renamed in v2, keyed by the lower case v1 type
+ */
+const renamedBindingTypes: { [v1Type: string]: string } = {
+    documentdb: 'cosmosDB',
+    documentdbtrigger: 'cosmosDBTrigger'
+};
+
+/**
+ * Binding properties that were renamed in v2, keyed by the lower case binding type and then the lower case v1 property
+ */
+const renamedBindingProperties: { [bindingType: string]: { [v1Property: string]: string } } = {
+    documentdb: { connection: 'connectionStringSetting' },
+    documentdbtrigger: { connection: 'connectionStringSetting' },
+    eventhub: { path: 'eventHubName' },
+    eventhubtrigger: { path: 'eventHubName' }
+};
+
+/**
+ * Binding properties that are no longer supported in v2, keyed by the lower case binding type
+ */
+const removedBindingProperties: { [bindingType: string]: string[] } = {
+    servicebus: ['accessrights'],
+    servicebustrigger: ['accessrights']
+};
+
+const unsupportedBindingTypes: string[] = ['apihubfile', 'apihubfiletrigger', 'apihubtable', 'notificationhub'];
+
+/**
+ * Bindings other than these require an extension to be installed in v2
+ */
+const builtInBindingTypes: string[] = ['http', 'httptrigger', 'timertrigger'];
+
+/**
+ * Languages that have templates in v1, but not in v2
+ */
+const unsupportedLanguages: ProjectLanguage[] = [ProjectLanguage.Bash, ProjectLanguage.Batch, ProjectLanguage.FSharpScript, ProjectLanguage.PHP];
+
+/**
+ * Returns a description of each change needed for the bindings of a function to work in v2
+ */
+export function getBindingMigrationNotes(functionName: string, bindings: IFunctionBinding[]): string[] {
+    const notes: string[] = [];
+    for (const binding of bindings) {
+        // tslint:disable-next-line: strict-boolean-expressions
+        const bindingType: string = (binding.type || '').toLowerCase();
+        const bindingName: string = binding.name || bindingType;
+        if (unsupportedBindingTypes.indexOf(bindingType) !== -1) {
+            notes.push(localize('unsupportedBinding', 'Function "{0}": Binding "{1}" of type "{2}" is not supported in v2.', functionName, bindingName, binding.type));
+            continue;
+        }
+
+        if (renamedBindingTypes[bindingType] !== undefined) {
+            notes.push(localize('renamedBindingType', 'Function "{0}": Binding type "{1}" is renamed to "{2}".', functionName, binding.type, renamedBindingTypes[bindingType]));
+        }
+
+        for (const key of Object.keys(binding)) {
+            const property: string = key.toLowerCase();
+            const renamedProperties: { [v1Property: string]: string } | undefined = <{ [v1Property: string]: string } | undefined>renamedBindingProperties[bindingType];
+            const removedProperties: string[] | undefined = <string[] | undefined>removedBindingProperties[bindingType];
+            if (renamedProperties && renamedProperties[property] !== undefined) {
+                notes.push(localize('renamedBindingProperty', 'Function "{0}": Property "{1}" of binding "{2}" is renamed to "{3}".', functionName, key, bindingName, renamedProperties[property]));
+            } else if (removedProperties && removedProperties.indexOf(property) !== -1) {
+                notes.push(localize('removedBindingProperty', 'Function "{0}": Property "{1}" of binding "{2}" is no longer supported.', functionName, key, bindingName));
+            }
+        }
+    }
+    return notes;
+}
+
+/**
+ * Returns true if any of the bindings require an extension in v2
+ */
+export function requiresBindingExtensions(bindings: IFunctionBinding[]): boolean {
+    // tslint:disable-next-line: strict-boolean-expressions
+    return bindings.some(b => builtInBindingTypes.indexOf((b.type || '').toLowerCase()) === -1);
+}
+
+/**
+ * Returns a description of the template changes for this language in v2, if any
+ */
+export function getLanguageMigrationNote(language: ProjectLanguage): string | undefined {
+    if (unsupportedLanguages.indexOf(language) !== -1) {
+        return localize('unsupportedLanguage', 'Language "{0}" is not supported in v2 and there are no v2 templates for it. Existing functions will need to be rewritten in a supported language.', language);
+    } else {
+        return undefined;
+    }
+}
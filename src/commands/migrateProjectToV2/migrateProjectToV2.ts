@@ -0,0 +1,70 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fse from 'fs-extra';
+import * as path from 'path';
+import { window, workspace, WorkspaceFolder } from 'vscode';
+import { AzureWizard, IActionContext, UserCancelledError } from 'vscode-azureextensionui';
+import { hostFileName, ProjectLanguage, projectLanguageSetting, ProjectRuntime, projectRuntimeSetting } from '../../constants';
+import { NoWorkspaceError } from '../../errors';
+import { IHostJsonV2 } from '../../funcConfig/host';
+import { localize } from '../../localize';
+import { LocalProjectTreeItem } from '../../tree/localProject/LocalProjectTreeItem';
+import { convertStringToRuntime, getWorkspaceSetting } from '../../vsCodeConfig/settings';
+import { verifyAndPromptToCreateProject } from '../createNewProject/verifyIsProject';
+import { detectProjectLanguage } from '../initProjectForVSCode/detectProjectLanguage';
+import { InitVSCodeLanguageStep } from '../initProjectForVSCode/InitVSCodeLanguageStep';
+import { IMigrateProjectWizardContext } from './IMigrateProjectWizardContext';
+import { MigrateProjectStep } from './MigrateProjectStep';
+import { MigrationReportStep } from './MigrationReportStep';
+
+export async function migrateProjectToV2(this: IActionContext, node?: LocalProjectTreeItem): Promise<void> {
+    let projectPath: string | undefined;
+    let workspacePath: string;
+    let workspaceFolder: WorkspaceFolder | undefined;
+    if (node) {
+        ({ projectPath, workspacePath, workspaceFolder } = node.root);
+    } else {
+        if (!workspace.workspaceFolders || workspace.workspaceFolders.length === 0) {
+            throw new NoWorkspaceError();
+        }
+
+        const placeHolder: string = localize('selectFolderToMigrate', 'Select the folder containing the project to migrate');
+        workspaceFolder = await window.showWorkspaceFolderPick({ placeHolder });
+        if (!workspaceFolder) {
+            throw new UserCancelledError();
+        }
+
+        workspacePath = workspaceFolder.uri.fsPath;
+        projectPath = await verifyAndPromptToCreateProject(this, workspacePath);
+        if (!projectPath) {
+            return;
+        }
+    }
+
+    const hostJsonPath: string = path.join(projectPath, hostFileName);
+    const hostJson: IHostJsonV2 | undefined = await fse.pathExists(hostJsonPath) ? <IHostJsonV2>await fse.readJSON(hostJsonPath) : undefined;
+    const runtime: ProjectRuntime | undefined = convertStringToRuntime(getWorkspaceSetting(projectRuntimeSetting, projectPath));
+    this.properties.projectRuntime = String(runtime);
+    if (runtime !== undefined && runtime !== ProjectRuntime.v1 && hostJson && hostJson.version !== undefined) {
+        // don't wait
+        window.showInformationMessage(localize('alreadyV2', 'Project "{0}" already uses runtime "{1}".', path.basename(projectPath), runtime));
+        return;
+    }
+
+    // tslint:disable-next-line: strict-boolean-expressions
+    const language: ProjectLanguage | undefined = getWorkspaceSetting(projectLanguageSetting, projectPath) || await detectProjectLanguage(projectPath);
+    const wizardContext: IMigrateProjectWizardContext = { actionContext: this, projectPath, workspacePath, workspaceFolder, language, runtime: ProjectRuntime.v2 };
+    const wizard: AzureWizard<IMigrateProjectWizardContext> = new AzureWizard(wizardContext, {
+        promptSteps: [new InitVSCodeLanguageStep(), new MigrationReportStep()],
+        executeSteps: [new MigrateProjectStep()],
+        title: localize('migrateProjectTitle', 'Migrate project to runtime "{0}"', ProjectRuntime.v2)
+    });
+    await wizard.prompt(this);
+    await wizard.execute(this);
+
+    // don't wait
+    window.showInformationMessage(localize('finishedMigrating', 'Finished migrating project "{0}" to runtime "{1}".', path.basename(projectPath), ProjectRuntime.v2));
+}
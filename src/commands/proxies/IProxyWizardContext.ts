@@ -0,0 +1,23 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IProxy } from '../../funcConfig/proxies';
+
+export interface IProxyWizardContext {
+    /**
+     * Used to make sure a new proxy has a unique name
+     */
+    existingProxyNames: string[];
+    proxyName?: string;
+    /**
+     * Defined if editing a proxy that already exists. Used to pre-fill prompts
+     */
+    existingProxy?: IProxy;
+    route?: string;
+    methods?: string[];
+    backendUri?: string;
+    requestOverrides?: { [key: string]: string };
+    responseOverrides?: { [key: string]: string };
+}
@@ -0,0 +1,35 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { AzureWizardPromptStep } from 'vscode-azureextensionui';
+import { ext } from '../../extensionVariables';
+import { localize } from '../../localize';
+import { IProxyWizardContext } from './IProxyWizardContext';
+
+export class ProxyBackendUriStep extends AzureWizardPromptStep<IProxyWizardContext> {
+    public async prompt(wizardContext: IProxyWizardContext): Promise<void> {
+        const existingUri: string | undefined = wizardContext.existingProxy && wizardContext.existingProxy.backendUri;
+        wizardContext.backendUri = (await ext.ui.showInputBox({
+            prompt: localize('backendUriPrompt', 'Provide the backend URI to proxy requests to, or leave empty to only override the response'),
+            placeHolder: 'https://%BACKEND_HOST%/api/{restOfPath}',
+            value: existingUri,
+            validateInput: validateBackendUri
+        })).trim();
+    }
+
+    public shouldPrompt(wizardContext: IProxyWizardContext): boolean {
+        return wizardContext.backendUri === undefined;
+    }
+}
+
+function validateBackendUri(uri: string | undefined): string | undefined {
+    uri = uri ? uri.trim() : '';
+    // The host may be an app setting surrounded by percent signs, e.g. 'https://%BACKEND_HOST%/api'
+    if (uri && !/^(https?:\/\/|%)/i.test(uri)) {
+        return localize('invalidBackendUri', 'The backend URI must start with "http://" or "https://".');
+    } else {
+        return undefined;
+    }
+}
@@ -0,0 +1,27 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { QuickPickItem } from 'vscode';
+import { AzureWizardPromptStep } from 'vscode-azureextensionui';
+import { ext } from '../../extensionVariables';
+import { IProxy } from '../../funcConfig/proxies';
+import { localize } from '../../localize';
+import { IProxyWizardContext } from './IProxyWizardContext';
+
+const httpMethods: string[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS', 'TRACE'];
+
+export class ProxyMethodsStep extends AzureWizardPromptStep<IProxyWizardContext> {
+    public async prompt(wizardContext: IProxyWizardContext): Promise<void> {
+        const matchCondition: IProxy['matchCondition'] = wizardContext.existingProxy && wizardContext.existingProxy.matchCondition;
+        const existingMethods: string[] = matchCondition && matchCondition.methods ? matchCondition.methods.map(m => m.toUpperCase()) : [];
+        const picks: QuickPickItem[] = httpMethods.map(m => { return { label: m, picked: existingMethods.indexOf(m) !== -1 }; });
+        const placeHolder: string = localize('selectMethods', 'Select the HTTP methods to match (leave empty to match all methods)');
+        wizardContext.methods = (await ext.ui.showQuickPick(picks, { placeHolder, canPickMany: true, suppressPersistence: true })).map(p => p.label);
+    }
+
+    public shouldPrompt(wizardContext: IProxyWizardContext): boolean {
+        return !wizardContext.methods;
+    }
+}
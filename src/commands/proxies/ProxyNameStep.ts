@@ -0,0 +1,33 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { AzureWizardPromptStep } from 'vscode-azureextensionui';
+import { ext } from '../../extensionVariables';
+import { localize } from '../../localize';
+import { IProxyWizardContext } from './IProxyWizardContext';
+
+export class ProxyNameStep extends AzureWizardPromptStep<IProxyWizardContext> {
+    public async prompt(wizardContext: IProxyWizardContext): Promise<void> {
+        wizardContext.proxyName = (await ext.ui.showInputBox({
+            prompt: localize('proxyNamePrompt', 'Provide a proxy name'),
+            validateInput: (s: string): string | undefined => this.validateProxyName(wizardContext, s)
+        })).trim();
+    }
+
+    public shouldPrompt(wizardContext: IProxyWizardContext): boolean {
+        return !wizardContext.proxyName;
+    }
+
+    private validateProxyName(wizardContext: IProxyWizardContext, value: string | undefined): string | undefined {
+        const name: string = value ? value.trim() : '';
+        if (!name) {
+            return localize('emptyProxyName', 'The proxy name cannot be empty.');
+        } else if (wizardContext.existingProxyNames.find(n => n.toLowerCase() === name.toLowerCase())) {
+            return localize('existingProxy', 'A proxy with the name "{0}" already exists.', name);
+        } else {
+            return undefined;
+        }
+    }
+}
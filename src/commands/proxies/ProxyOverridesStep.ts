@@ -0,0 +1,96 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { AzureWizardPromptStep, IAzureQuickPickItem } from 'vscode-azureextensionui';
+import { ext } from '../../extensionVariables';
+import { localize } from '../../localize';
+import { IProxyWizardContext } from './IProxyWizardContext';
+
+type OverrideType = 'requestOverrides' | 'responseOverrides';
+
+/**
+ * Prompts to add, change, or remove overrides in a loop until the user selects "Done"
+ * https://docs.microsoft.com/azure/azure-functions/functions-proxies#modify-requests-responses
+ */
+export class ProxyOverridesStep extends AzureWizardPromptStep<IProxyWizardContext> {
+    private readonly _overrideType: OverrideType;
+
+    public constructor(overrideType: OverrideType) {
+        super();
+        this._overrideType = overrideType;
+    }
+
+    private get keyPrefix(): string {
+        return this._overrideType === 'requestOverrides' ? 'backend.request.' : 'response.';
+    }
+
+    public async prompt(wizardContext: IProxyWizardContext): Promise<void> {
+        const existingOverrides: { [key: string]: string } | undefined = wizardContext.existingProxy && wizardContext.existingProxy[this._overrideType];
+        const overrides: { [key: string]: string } = { ...existingOverrides };
+
+        let key: string | undefined;
+        do {
+            // A proxy without a backend uri doesn't do anything unless it overrides the response
+            const mustAddOverride: boolean = this._overrideType === 'responseOverrides' && !wizardContext.backendUri && Object.keys(overrides).length === 0;
+            const picks: IAzureQuickPickItem<string | undefined>[] = [];
+            if (!mustAddOverride) {
+                picks.push({ label: localize('done', '$(check) Done'), data: undefined });
+            }
+            picks.push({ label: localize('addOverride', '$(plus) Add override'), data: '' });
+            picks.push(...Object.keys(overrides).map(k => { return { label: k, description: overrides[k], data: k }; }));
+
+            const placeHolder: string = mustAddOverride ?
+                localize('mustOverrideResponse', 'A proxy without a backend URI must override the response') :
+                this._overrideType === 'requestOverrides' ?
+                    localize('requestOverrides', 'Add or select a request override to edit') :
+                    localize('responseOverrides', 'Add or select a response override to edit');
+            key = (await ext.ui.showQuickPick(picks, { placeHolder, suppressPersistence: true })).data;
+            if (key === '') {
+                const newKey: string = await this.promptForKey(overrides);
+                overrides[newKey] = await this.promptForValue(newKey, undefined, false);
+            } else if (key !== undefined) {
+                const newValue: string = await this.promptForValue(key, overrides[key], true);
+                if (newValue) {
+                    overrides[key] = newValue;
+                } else {
+                    delete overrides[key];
+                }
+            }
+        } while (key !== undefined);
+
+        wizardContext[this._overrideType] = overrides;
+    }
+
+    public shouldPrompt(wizardContext: IProxyWizardContext): boolean {
+        return !wizardContext[this._overrideType];
+    }
+
+    private async promptForKey(overrides: { [key: string]: string }): Promise<string> {
+        return (await ext.ui.showInputBox({
+            prompt: localize('overrideKeyPrompt', 'Provide the property to override (e.g. "{0}")', this._overrideType === 'requestOverrides' ? 'backend.request.headers.Accept' : 'response.statusCode'),
+            value: this.keyPrefix,
+            validateInput: (s: string): string | undefined => {
+                s = s.trim();
+                if (!s.startsWith(this.keyPrefix) || s.length === this.keyPrefix.length) {
+                    return localize('invalidOverrideKey', 'The property must start with "{0}".', this.keyPrefix);
+                } else if (overrides[s] !== undefined) {
+                    return localize('existingOverride', 'An override for "{0}" already exists.', s);
+                } else {
+                    return undefined;
+                }
+            }
+        })).trim();
+    }
+
+    private async promptForValue(key: string, value: string | undefined, allowEmpty: boolean): Promise<string> {
+        return await ext.ui.showInputBox({
+            prompt: allowEmpty ?
+                localize('overrideValuePromptEdit', 'Provide the value for "{0}", or leave empty to remove the override', key) :
+                localize('overrideValuePrompt', 'Provide the value for "{0}"', key),
+            value,
+            validateInput: (s: string): string | undefined => allowEmpty || s ? undefined : localize('emptyOverrideValue', 'The value cannot be empty.')
+        });
+    }
+}
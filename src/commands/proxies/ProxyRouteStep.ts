@@ -0,0 +1,25 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { AzureWizardPromptStep } from 'vscode-azureextensionui';
+import { ext } from '../../extensionVariables';
+import { localize } from '../../localize';
+import { IProxyWizardContext } from './IProxyWizardContext';
+
+export class ProxyRouteStep extends AzureWizardPromptStep<IProxyWizardContext> {
+    public async prompt(wizardContext: IProxyWizardContext): Promise<void> {
+        const existingRoute: string | undefined = wizardContext.existingProxy && wizardContext.existingProxy.matchCondition && wizardContext.existingProxy.matchCondition.route;
+        wizardContext.route = (await ext.ui.showInputBox({
+            prompt: localize('proxyRoutePrompt', 'Provide the route template to match (e.g. "/api/{*restOfPath}")'),
+            // tslint:disable-next-line: strict-boolean-expressions
+            value: existingRoute || '/api/',
+            validateInput: (s: string): string | undefined => s.trim() ? undefined : localize('emptyRoute', 'The route cannot be empty.')
+        })).trim();
+    }
+
+    public shouldPrompt(wizardContext: IProxyWizardContext): boolean {
+        return !wizardContext.route;
+    }
+}
@@ -0,0 +1,58 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { AzureWizard } from 'vscode-azureextensionui';
+import { IProxy } from '../../funcConfig/proxies';
+import { localize } from '../../localize';
+import { IProxyWizardContext } from './IProxyWizardContext';
+import { ProxyBackendUriStep } from './ProxyBackendUriStep';
+import { ProxyMethodsStep } from './ProxyMethodsStep';
+import { ProxyNameStep } from './ProxyNameStep';
+import { ProxyOverridesStep } from './ProxyOverridesStep';
+import { ProxyRouteStep } from './ProxyRouteStep';
+
+/**
+ * Creates a wizard that only prompts. The caller is responsible for saving the result of `getProxy` to the appropriate 'proxies.json' file
+ * If `wizardContext.existingProxy` is defined, the name is not prompted and the current values are used as defaults
+ */
+export function createProxyWizard(wizardContext: IProxyWizardContext): AzureWizard<IProxyWizardContext> {
+    return new AzureWizard(wizardContext, {
+        promptSteps: [
+            new ProxyNameStep(),
+            new ProxyRouteStep(),
+            new ProxyMethodsStep(),
+            new ProxyBackendUriStep(),
+            new ProxyOverridesStep('requestOverrides'),
+            new ProxyOverridesStep('responseOverrides')
+        ],
+        title: wizardContext.existingProxy ?
+            localize('editProxy', 'Edit proxy "{0}"', wizardContext.proxyName) :
+            localize('createProxy', 'Create new proxy')
+    });
+}
+
+export function getProxy(wizardContext: IProxyWizardContext): IProxy {
+    // Keep any properties we don't prompt for (e.g. 'disabled')
+    const proxy: IProxy = { ...wizardContext.existingProxy };
+    proxy.matchCondition = { ...proxy.matchCondition, route: wizardContext.route };
+    if (wizardContext.methods && wizardContext.methods.length > 0) {
+        proxy.matchCondition.methods = wizardContext.methods;
+    } else {
+        delete proxy.matchCondition.methods;
+    }
+
+    setOrDelete(proxy, 'backendUri', wizardContext.backendUri);
+    setOrDelete(proxy, 'requestOverrides', wizardContext.requestOverrides && Object.keys(wizardContext.requestOverrides).length > 0 ? wizardContext.requestOverrides : undefined);
+    setOrDelete(proxy, 'responseOverrides', wizardContext.responseOverrides && Object.keys(wizardContext.responseOverrides).length > 0 ? wizardContext.responseOverrides : undefined);
+    return proxy;
+}
+
+function setOrDelete<TKey extends keyof IProxy>(proxy: IProxy, key: TKey, value: IProxy[TKey] | undefined): void {
+    if (value) {
+        proxy[key] = value;
+    } else {
+        delete proxy[key];
+    }
+}
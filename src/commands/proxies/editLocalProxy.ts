@@ -0,0 +1,16 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IActionContext } from 'vscode-azureextensionui';
+import { ext } from '../../extensionVariables';
+import { LocalProxyTreeItem } from '../../tree/localProject/LocalProxyTreeItem';
+
+export async function editLocalProxy(this: IActionContext, node?: LocalProxyTreeItem): Promise<void> {
+    if (!node) {
+        node = <LocalProxyTreeItem>await ext.tree.showTreeItemPicker(LocalProxyTreeItem.contextValue);
+    }
+
+    await node.edit(this);
+}
@@ -0,0 +1,16 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IActionContext } from 'vscode-azureextensionui';
+import { ext } from '../../extensionVariables';
+import { ProxyTreeItem } from '../../tree/ProxyTreeItem';
+
+export async function editProxy(this: IActionContext, node?: ProxyTreeItem): Promise<void> {
+    if (!node) {
+        node = <ProxyTreeItem>await ext.tree.showTreeItemPicker(ProxyTreeItem.contextValue);
+    }
+
+    await node.edit(this);
+}
@@ -0,0 +1,85 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import { window, workspace, WorkspaceFolder } from 'vscode';
+import { IActionContext, IAzureQuickPickItem, UserCancelledError } from 'vscode-azureextensionui';
+import { localSettingsFileName, localSettingsProfileSetting } from '../constants';
+import { NoWorkspaceError } from '../errors';
+import { ext } from '../extensionVariables';
+import { addLocalSettingsProfileIgnorePatterns, getActiveLocalSettingsProfile, getLocalSettingsProfileFileName, getLocalSettingsProfiles, ILocalSettingsJson } from '../funcConfig/local.settings';
+import { getStatusBarProjectPath } from '../funcConfig/localSettingsProfileStatusBar';
+import { localize } from '../localize';
+import { LocalProjectTreeItem } from '../tree/localProject/LocalProjectTreeItem';
+import { writeFormattedJson } from '../utils/fs';
+import { updateWorkspaceSetting } from '../vsCodeConfig/settings';
+import { verifyAndPromptToCreateProject } from './createNewProject/verifyIsProject';
+
+const createProfile: string = '$createProfile';
+
+export async function selectLocalSettingsProfile(this: IActionContext, node?: LocalProjectTreeItem): Promise<void> {
+    let projectPath: string | undefined = node ? node.root.projectPath : getStatusBarProjectPath();
+    if (!projectPath) {
+        if (!workspace.workspaceFolders || workspace.workspaceFolders.length === 0) {
+            throw new NoWorkspaceError();
+        }
+
+        const folderPlaceHolder: string = localize('selectProfileFolder', 'Select the folder containing your function project');
+        const folder: WorkspaceFolder | undefined = await window.showWorkspaceFolderPick({ placeHolder: folderPlaceHolder });
+        if (!folder) {
+            throw new UserCancelledError();
+        }
+
+        projectPath = await verifyAndPromptToCreateProject(this, folder.uri.fsPath);
+        if (!projectPath) {
+            return;
+        }
+    }
+
+    const activeProfile: string | undefined = getActiveLocalSettingsProfile(projectPath);
+    const profiles: string[] = await getLocalSettingsProfiles(projectPath);
+    this.properties.profileCount = String(profiles.length);
+
+    const activeDescription: string = localize('active', '(active)');
+    const picks: IAzureQuickPickItem<string | undefined>[] = [
+        { label: localize('defaultSettings', 'Default settings'), description: activeProfile === undefined ? activeDescription : localSettingsFileName, data: undefined },
+        ...profiles.map(p => { return { label: p, description: p === activeProfile ? activeDescription : getLocalSettingsProfileFileName(p), data: p }; }),
+        { label: localize('createProfile', '$(plus) Create new profile...'), description: '', data: createProfile }
+    ];
+    const placeHolder: string = localize('selectProfile', 'Select the local settings profile used by the Functions host');
+    let profile: string | undefined = (await ext.ui.showQuickPick(picks, { placeHolder, suppressPersistence: true })).data;
+
+    if (profile === createProfile) {
+        profile = await ext.ui.showInputBox({
+            prompt: localize('enterProfileName', 'Enter the name of the new profile'),
+            validateInput: (value: string): string | undefined => validateProfileName(profiles, value)
+        });
+        profile = profile.trim();
+
+        const profilePath: string = path.join(projectPath, getLocalSettingsProfileFileName(profile));
+        const profileSettings: ILocalSettingsJson = { Values: {} };
+        await writeFormattedJson(profilePath, profileSettings);
+        await addLocalSettingsProfileIgnorePatterns(projectPath);
+        await window.showTextDocument(await workspace.openTextDocument(profilePath));
+    }
+
+    await updateWorkspaceSetting(localSettingsProfileSetting, profile, projectPath);
+    ext.outputChannel.appendLine(profile === undefined ?
+        localize('usingDefaultSettings', 'The Functions host will use the default local settings.') :
+        localize('usingProfile', 'The Functions host will use local settings profile "{0}".', profile));
+}
+
+function validateProfileName(existingProfiles: string[], value: string): string | undefined {
+    value = value.trim();
+    if (!value) {
+        return localize('profileNameEmpty', 'The profile name cannot be empty.');
+    } else if (!/^[a-z0-9\-_]+$/i.test(value)) {
+        return localize('profileNameInvalid', 'The profile name can only contain letters, numbers, hyphens, and underscores.');
+    } else if (existingProfiles.some(p => p.toLowerCase() === value.toLowerCase())) {
+        return localize('profileExists', 'Profile "{0}" already exists.', value);
+    } else {
+        return undefined;
+    }
+}
@@ -0,0 +1,55 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fse from 'fs-extra';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { IActionContext, UserCancelledError } from 'vscode-azureextensionui';
+import { ProjectRuntime } from '../../constants';
+import { ext } from '../../extensionVariables';
+import { localize } from '../../localize';
+import { DotnetTemplateRetriever } from '../../templates/DotnetTemplateRetriever';
+import { ScriptTemplateRetriever } from '../../templates/ScriptTemplateRetriever';
+import { ITemplateBundle, templateBundleExtension } from '../../templates/templateBundle';
+import { ITemplateCache, TemplateRetriever } from '../../templates/TemplateRetriever';
+
+/**
+ * Exports the cached templates for all runtimes and template types to a single file, which can be imported on machines without access to the cli-feed
+ */
+export async function exportTemplateBundle(this: IActionContext): Promise<void> {
+    const bundle: ITemplateBundle = { createdOn: new Date().toISOString(), caches: [] };
+    const templateRetrievers: TemplateRetriever[] = [new ScriptTemplateRetriever(), new DotnetTemplateRetriever()];
+    for (const templateRetriever of templateRetrievers) {
+        for (const key of Object.keys(ProjectRuntime)) {
+            const cache: ITemplateCache | undefined = await templateRetriever.exportCache(<ProjectRuntime>ProjectRuntime[key]);
+            if (cache) {
+                bundle.caches.push(cache);
+            }
+        }
+    }
+
+    this.properties.cacheCount = String(bundle.caches.length);
+    if (bundle.caches.length === 0) {
+        throw new Error(localize('noCachedTemplates', 'There are no cached templates to export. Create a function to download the templates and try again.'));
+    }
+
+    const uri: vscode.Uri | undefined = await vscode.window.showSaveDialog({
+        defaultUri: vscode.workspace.workspaceFolders ? vscode.Uri.file(path.join(vscode.workspace.workspaceFolders[0].uri.fsPath, `azureFunctionsTemplates.${templateBundleExtension}`)) : undefined,
+        filters: { [localize('templateBundle', 'Template bundle')]: [templateBundleExtension] },
+        saveLabel: localize('export', 'Export')
+    });
+    if (!uri) {
+        throw new UserCancelledError();
+    }
+
+    await fse.writeFile(uri.fsPath, JSON.stringify(bundle));
+
+    ext.outputChannel.appendLine(localize('exportedBundle', 'Exported templates to "{0}":', uri.fsPath));
+    for (const cache of bundle.caches) {
+        ext.outputChannel.appendLine(localize('exportedCache', '  {0} templates for runtime "{1}" (version "{2}")', cache.templateType, cache.runtime, cache.templateVersion));
+    }
+    // don't wait
+    vscode.window.showInformationMessage(localize('exportedBundleMessage', 'Successfully exported {0} set(s) of templates to "{1}".', bundle.caches.length, uri.fsPath));
+}
@@ -0,0 +1,53 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fse from 'fs-extra';
+import * as vscode from 'vscode';
+import { IActionContext } from 'vscode-azureextensionui';
+import { ext } from '../../extensionVariables';
+import { localize } from '../../localize';
+import { DotnetTemplateRetriever } from '../../templates/DotnetTemplateRetriever';
+import { ScriptTemplateRetriever } from '../../templates/ScriptTemplateRetriever';
+import { ITemplateBundle, parseTemplateBundle, templateBundleExtension } from '../../templates/templateBundle';
+import { getTemplateProvider } from '../../templates/TemplateProvider';
+import { TemplateRetriever } from '../../templates/TemplateRetriever';
+
+/**
+ * Imports a template bundle created by `exportTemplateBundle`, replacing the cached templates
+ */
+export async function importTemplateBundle(this: IActionContext): Promise<void> {
+    const uri: vscode.Uri = (await ext.ui.showOpenDialog({
+        canSelectFiles: true,
+        canSelectFolders: false,
+        canSelectMany: false,
+        filters: { [localize('templateBundle', 'Template bundle')]: [templateBundleExtension] },
+        openLabel: localize('import', 'Import')
+    }))[0];
+
+    const bundle: ITemplateBundle = parseTemplateBundle((await fse.readFile(uri.fsPath)).toString());
+    this.properties.cacheCount = String(bundle.caches.length);
+
+    const message: string = localize('confirmImport', 'Import {0} set(s) of templates from "{1}"? This will replace your cached templates for the same runtimes.', bundle.caches.length, uri.fsPath);
+    const importButton: vscode.MessageItem = { title: localize('import', 'Import') };
+    // No need to check result - cancel will throw a UserCancelledError
+    await ext.ui.showWarningMessage(message, { modal: true }, importButton);
+
+    const templateRetrievers: TemplateRetriever[] = [new ScriptTemplateRetriever(), new DotnetTemplateRetriever()];
+    ext.outputChannel.appendLine(localize('importingBundle', 'Importing templates from "{0}"...', uri.fsPath));
+    for (const cache of bundle.caches) {
+        const templateRetriever: TemplateRetriever | undefined = templateRetrievers.find(r => r.templateType === cache.templateType);
+        if (templateRetriever) {
+            await templateRetriever.importCache(cache);
+            ext.outputChannel.appendLine(localize('importedCache', '  {0} templates for runtime "{1}" (version "{2}")', cache.templateType, cache.runtime, cache.templateVersion));
+        }
+    }
+
+    // Reload the templates so that the imported templates are used without restarting VS Code
+    ext.templateProviderTask = getTemplateProvider();
+    await ext.templateProviderTask;
+
+    // don't wait
+    vscode.window.showInformationMessage(localize('importedBundle', 'Successfully imported templates from "{0}".', uri.fsPath));
+}
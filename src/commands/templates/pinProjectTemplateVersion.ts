@@ -0,0 +1,81 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fse from 'fs-extra';
+import * as vscode from 'vscode';
+import { IActionContext, IAzureQuickPickItem, UserCancelledError } from 'vscode-azureextensionui';
+import { ProjectRuntime, projectRuntimeSetting, templateVersionLockFileName } from '../../constants';
+import { NoWorkspaceError } from '../../errors';
+import { ext } from '../../extensionVariables';
+import { localize } from '../../localize';
+import { TemplateProvider } from '../../templates/TemplateProvider';
+import { getPinnedTemplateVersion, getTemplateVersionLockPath, pinTemplateVersion } from '../../templates/templateVersionLock';
+import { LocalProjectTreeItem } from '../../tree/localProject/LocalProjectTreeItem';
+import { convertStringToRuntime, getWorkspaceSetting, promptForProjectRuntime } from '../../vsCodeConfig/settings';
+import { verifyAndPromptToCreateProject } from '../createNewProject/verifyIsProject';
+
+export async function pinProjectTemplateVersion(this: IActionContext, node?: LocalProjectTreeItem): Promise<void> {
+    let projectPath: string | undefined;
+    if (node) {
+        projectPath = node.root.projectPath;
+    } else {
+        if (!vscode.workspace.workspaceFolders || vscode.workspace.workspaceFolders.length === 0) {
+            throw new NoWorkspaceError();
+        }
+
+        const workspaceFolder: vscode.WorkspaceFolder | undefined = await vscode.window.showWorkspaceFolderPick({ placeHolder: localize('selectFolderToPin', 'Select the folder containing the project to pin') });
+        if (!workspaceFolder) {
+            throw new UserCancelledError();
+        }
+
+        projectPath = await verifyAndPromptToCreateProject(this, workspaceFolder.uri.fsPath);
+        if (!projectPath) {
+            return;
+        }
+    }
+
+    let runtime: ProjectRuntime | undefined = convertStringToRuntime(getWorkspaceSetting(projectRuntimeSetting, projectPath));
+    if (runtime === undefined) {
+        runtime = await promptForProjectRuntime();
+    }
+    this.properties.projectRuntime = runtime;
+
+    let pinnedVersion: string | undefined;
+    try {
+        pinnedVersion = await getPinnedTemplateVersion(projectPath);
+    } catch {
+        // an invalid lock file will be overwritten
+    }
+
+    const templateProvider: TemplateProvider = await ext.templateProviderTask;
+    const currentVersion: string | undefined = templateProvider.getTemplateVersion(runtime);
+    const picks: IAzureQuickPickItem<string | undefined>[] = templateProvider.getAvailableTemplateVersions(runtime).map(version => {
+        let description: string | undefined;
+        if (version === pinnedVersion) {
+            description = localize('pinnedVersion', '(Pinned)');
+        } else if (version === currentVersion) {
+            description = localize('currentVersion', '(Used by other projects)');
+        }
+        return { label: version, description, data: version };
+    });
+
+    if (pinnedVersion) {
+        picks.push({ label: localize('removePin', '$(circle-slash) Remove pin'), description: localize('removePinDescription', 'Delete "{0}"', templateVersionLockFileName), data: undefined, suppressPersistence: true });
+    }
+
+    const placeHolder: string = localize('selectTemplateVersion', 'Select the template version to use for this project');
+    const templateVersion: string | undefined = (await ext.ui.showQuickPick(picks, { placeHolder, suppressPersistence: true })).data;
+    if (templateVersion) {
+        this.properties.templateVersion = templateVersion;
+        await pinTemplateVersion(projectPath, templateVersion);
+        // don't wait
+        vscode.window.showInformationMessage(localize('pinnedTemplateVersion', 'Pinned template version "{0}" in "{1}".', templateVersion, templateVersionLockFileName));
+    } else {
+        this.properties.templateVersion = 'removePin';
+        await fse.remove(getTemplateVersionLockPath(projectPath));
+        // don't wait
+        vscode.window.showInformationMessage(localize('removedTemplateVersionPin', 'Removed the template version pin from "{0}".', projectPath));
+    }
+}
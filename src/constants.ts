@@ -14,6 +14,11 @@ export const templateVersionSetting: string = 'templateVersion';
 export const preDeployTaskSetting: string = 'preDeployTask';
 export const pythonVenvSetting: string = 'pythonVenv';
 export const projectOpenBehaviorSetting: string = 'projectOpenBehavior';
+export const localSettingsProfileSetting: string = 'localSettingsProfile';
+export const downloadSettingsIncludeSetting: string = 'downloadSettingsInclude';
+export const downloadSettingsExcludeSetting: string = 'downloadSettingsExclude';
+export const downloadSettingsExcludePlatformSetting: string = 'downloadSettingsExcludePlatform';
+export const customTemplatesFolderSetting: string = 'customTemplatesFolder';
 
 export enum ProjectLanguage {
     Bash = 'Bash',
@@ -32,7 +37,8 @@ export enum ProjectLanguage {
 
 export enum ProjectRuntime {
     v1 = '~1',
-    v2 = '~2'
+    v2 = '~2',
+    v3 = '~3'
 }
 
 export enum TemplateFilter {
@@ -56,6 +62,8 @@ export const launchFileName: string = 'launch.json';
 export const settingsFileName: string = 'settings.json';
 export const vscodeFolderName: string = '.vscode';
 export const gitignoreFileName: string = '.gitignore';
+export const funcignoreFileName: string = '.funcignore';
+export const templateVersionLockFileName: string = 'templates.lock.json';
 
 export enum PackageManager {
     npm = 'npm',
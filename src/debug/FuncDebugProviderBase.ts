@@ -5,7 +5,7 @@
 
 import { CancellationToken, DebugConfiguration, DebugConfigurationProvider, ShellExecution, WorkspaceFolder } from 'vscode';
 import { callWithTelemetryAndErrorHandling, IActionContext } from 'vscode-azureextensionui';
-import { isFunctionProject } from '../commands/createNewProject/verifyIsProject';
+import { getFunctionProjectRoots } from '../commands/createNewProject/verifyIsProject';
 import { hostStartTaskName } from '../constants';
 import { IPreDebugValidateResult, preDebugValidate } from './validatePreDebug';
 
@@ -27,7 +27,7 @@ export abstract class FuncDebugProviderBase implements DebugConfigurationProvide
 
             const result: DebugConfiguration[] = [];
             if (folder) {
-                if (await isFunctionProject(folder.uri.fsPath)) {
+                if ((await getFunctionProjectRoots(folder.uri.fsPath)).length > 0) {
                     result.push(me.debugConfig);
                 }
             }
@@ -50,7 +50,9 @@ export abstract class FuncDebugProviderBase implements DebugConfigurationProvide
             this.suppressTelemetry = true;
 
             me._debugPorts.set(folder, <number | undefined>debugConfiguration.port);
-            if (debugConfiguration.preLaunchTask === hostStartTaskName) {
+            // If the folder has multiple projects, the task name will have the project subpath appended (e.g. "func: host start (ProjectA)")
+            const preLaunchTask: string | undefined = <string | undefined>debugConfiguration.preLaunchTask;
+            if (preLaunchTask && (preLaunchTask === hostStartTaskName || preLaunchTask.startsWith(`${hostStartTaskName} (`))) {
                 const preDebugResult: IPreDebugValidateResult = await preDebugValidate(debugConfiguration);
                 if (!preDebugResult.shouldContinue) {
                     // Stop debugging only in this case
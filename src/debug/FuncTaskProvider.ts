@@ -4,13 +4,14 @@
  *--------------------------------------------------------------------------------------------*/
 
 import { isNullOrUndefined } from 'util';
-import { CancellationToken, ShellExecution, Task, TaskProvider, workspace, WorkspaceFolder } from 'vscode';
+import { CancellationToken, ShellExecution, Task, TaskDefinition, TaskProvider, workspace, WorkspaceFolder } from 'vscode';
 import { callWithTelemetryAndErrorHandling, IActionContext } from 'vscode-azureextensionui';
-import { tryGetFunctionProjectRoot } from '../commands/createNewProject/verifyIsProject';
+import { getFunctionProjectRoots } from '../commands/createNewProject/verifyIsProject';
 import { extInstallCommand, func, funcExtInstallCommand, funcWatchProblemMatcher, hostStartCommand, ProjectLanguage, projectLanguageSetting } from '../constants';
+import { getLocalSettingsProfileEnv } from '../funcConfig/local.settings';
 import { getWorkspaceSetting } from '../vsCodeConfig/settings';
 import { FuncDebugProviderBase } from './FuncDebugProviderBase';
-import { getFuncTaskCommand, IFuncTaskCommand } from './getFuncTaskCommand';
+import { getFuncTaskCommand, getProjectTaskName, getTaskProjectSubpath, IFuncTaskCommand } from './getFuncTaskCommand';
 import { getPythonTasks } from './getPythonTasks';
 import { JavaDebugProvider } from './JavaDebugProvider';
 import { NodeDebugProvider } from './NodeDebugProvider';
@@ -44,16 +45,17 @@ export class FuncTaskProvider implements TaskProvider {
                 let lastError: unknown;
                 for (const folder of workspace.workspaceFolders) {
                     try {
-                        const projectRoot: string | undefined = await tryGetFunctionProjectRoot(folder.uri.fsPath, true /* suppressPrompt */);
-                        if (projectRoot) {
-                            result.push(getExtensionInstallTask(folder, projectRoot));
+                        for (const projectRoot of await getFunctionProjectRoots(folder.uri.fsPath)) {
+                            const projectSubpath: string | undefined = await getTaskProjectSubpath(folder.uri.fsPath, projectRoot);
+                            result.push(getExtensionInstallTask(folder, projectRoot, projectSubpath));
                             const language: string | undefined = getWorkspaceSetting(projectLanguageSetting, folder.uri.fsPath);
-                            const hostStartTask: Task | undefined = await me.getHostStartTask(folder, projectRoot, language);
+                            const hostStartTask: Task | undefined = await me.getHostStartTask(folder, projectRoot, projectSubpath, language);
                             if (hostStartTask) {
                                 result.push(hostStartTask);
                             }
 
-                            if (language === ProjectLanguage.Python) {
+                            // Python tasks are only supported for a single project per folder
+                            if (language === ProjectLanguage.Python && !projectSubpath) {
                                 result.push(...getPythonTasks(folder, projectRoot));
                             }
                         }
@@ -86,7 +88,7 @@ export class FuncTaskProvider implements TaskProvider {
         return undefined;
     }
 
-    private async getHostStartTask(folder: WorkspaceFolder, projectRoot: string, language: string | undefined): Promise<Task | undefined> {
+    private async getHostStartTask(folder: WorkspaceFolder, projectRoot: string, projectSubpath: string | undefined, language: string | undefined): Promise<Task | undefined> {
         let debugProvider: FuncDebugProviderBase | undefined;
         switch (language) {
             case ProjectLanguage.Python:
@@ -105,18 +107,22 @@ export class FuncTaskProvider implements TaskProvider {
             default:
         }
 
-        const funcCommand: IFuncTaskCommand = getFuncTaskCommand(folder, hostStartCommand, /^\s*(host )?start/i);
+        const funcCommand: IFuncTaskCommand = getFuncTaskCommand(folder, hostStartCommand, /^\s*(host )?start/i, projectSubpath);
         const shellExecution: ShellExecution = debugProvider ? await debugProvider.getShellExecution(folder, funcCommand.commandLine) : new ShellExecution(funcCommand.commandLine);
         if (!shellExecution.options) {
             shellExecution.options = {};
         }
 
         shellExecution.options.cwd = projectRoot;
+
+        // Apply the active local settings profile (if any) as environment variables, which take precedence over "local.settings.json"
+        const profileEnv: { [key: string]: string } | undefined = await getLocalSettingsProfileEnv(projectRoot);
+        if (profileEnv) {
+            shellExecution.options.env = { ...profileEnv, ...shellExecution.options.env };
+        }
+
         return new Task(
-            {
-                type: func,
-                command: funcCommand.taskName
-            },
+            getTaskDefinition(funcCommand.command, projectSubpath),
             folder,
             funcCommand.taskName,
             func,
@@ -126,15 +132,20 @@ export class FuncTaskProvider implements TaskProvider {
     }
 }
 
-function getExtensionInstallTask(folder: WorkspaceFolder, projectRoot: string): Task {
+function getExtensionInstallTask(folder: WorkspaceFolder, projectRoot: string, projectSubpath: string | undefined): Task {
     return new Task(
-        {
-            type: func,
-            command: extInstallCommand
-        },
+        getTaskDefinition(extInstallCommand, projectSubpath),
         folder,
-        extInstallCommand,
+        getProjectTaskName(extInstallCommand, projectSubpath),
         func,
         new ShellExecution(funcExtInstallCommand, { cwd: projectRoot })
     );
 }
+
+function getTaskDefinition(command: string, projectSubpath: string | undefined): TaskDefinition {
+    const definition: TaskDefinition = { type: func, command };
+    if (projectSubpath) {
+        definition.projectSubpath = projectSubpath;
+    }
+    return definition;
+}
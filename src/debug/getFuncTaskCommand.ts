@@ -3,18 +3,21 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
+import * as path from 'path';
 import { WorkspaceFolder } from 'vscode';
+import { getFunctionProjectRoots } from '../commands/createNewProject/verifyIsProject';
 import { func } from '../constants';
 import { getTasks, ITask } from '../vsCodeConfig/tasks';
 
 /**
  * Gets the exact command line (aka with any user-specified args) to be used in our provided task
+ * @param projectSubpath Only defined if the folder has multiple projects. See `getTaskProjectSubpath` for more info
  */
-export function getFuncTaskCommand(folder: WorkspaceFolder, defaultCommand: string, commandsToMatch: RegExp): IFuncTaskCommand {
+export function getFuncTaskCommand(folder: WorkspaceFolder, defaultCommand: string, commandsToMatch: RegExp, projectSubpath?: string): IFuncTaskCommand {
     let command: string = defaultCommand;
     try {
         const tasks: ITask[] = getTasks(folder);
-        const funcTask: ITask | undefined = tasks.find(t => t.type === func && !!t.command && commandsToMatch.test(t.command));
+        const funcTask: ITask | undefined = tasks.find(t => t.type === func && !!t.command && commandsToMatch.test(t.command) && t.projectSubpath === projectSubpath);
         if (funcTask && funcTask.command) {
             command = funcTask.command;
         }
@@ -22,14 +25,37 @@ export function getFuncTaskCommand(folder: WorkspaceFolder, defaultCommand: stri
         // ignore and use default
     }
     return {
-        taskName: command,
-        commandLine: `func ${command}`
+        taskName: getProjectTaskName(command, projectSubpath),
+        commandLine: `func ${command}`,
+        command,
+        projectSubpath
     };
 }
 
+/**
+ * Tasks for a folder with a single project keep their original names for backwards compatibility
+ * If the folder has multiple projects, returns the project's path relative to the folder so that each project gets distinct tasks
+ */
+export async function getTaskProjectSubpath(folderPath: string, projectPath: string): Promise<string | undefined> {
+    const projectRoots: string[] = await getFunctionProjectRoots(folderPath);
+    if (projectRoots.length > 1) {
+        // always use posix so that the name is the same on every OS
+        return path.relative(folderPath, projectPath).replace(/\\/g, '/');
+    } else {
+        return undefined;
+    }
+}
+
+/**
+ * Appends the project subpath (if any) to a task name or label, e.g. "host start (ProjectA)"
+ */
+export function getProjectTaskName(name: string, projectSubpath: string | undefined): string {
+    return projectSubpath ? `${name} (${projectSubpath})` : name;
+}
+
 export interface IFuncTaskCommand {
     /**
-     * Used to identify the task. It matches the command as defined in the task by the user and is the same as commandLine, except without 'func' at the beginning.
+     * Used to identify the task. It matches the command as defined in the task by the user, followed by the project subpath if the folder has multiple projects (e.g. 'host start (ProjectA)')
      */
     taskName: string;
 
@@ -37,4 +63,11 @@ export interface IFuncTaskCommand {
      * The actual command line to run
      */
     commandLine: string;
+
+    /**
+     * The command as defined in the task, without the project subpath
+     */
+    command: string;
+
+    projectSubpath: string | undefined;
 }
@@ -4,12 +4,13 @@
  *--------------------------------------------------------------------------------------------*/
 
 import * as azureStorage from "azure-storage";
+import * as path from 'path';
 import * as vscode from 'vscode';
 import { parseError } from "vscode-azureextensionui";
 import { tryGetFunctionProjectRoot } from '../commands/createNewProject/verifyIsProject';
-import { isWindows, localEmulatorConnectionString, localSettingsFileName } from "../constants";
+import { hostStartTaskName, isWindows, localEmulatorConnectionString, localSettingsFileName } from "../constants";
 import { ext } from "../extensionVariables";
-import { azureWebJobsStorageKey, getAzureWebJobsStorage } from "../funcConfig/local.settings";
+import { getLocalConnectionStrings } from "../funcConfig/local.settings";
 import { validateFuncCoreToolsInstalled } from '../funcCoreTools/validateFuncCoreToolsInstalled';
 import { localize } from '../localize';
 import { getDebugConfigs, isDebugConfigEqual } from '../vsCodeConfig/launch';
@@ -23,7 +24,8 @@ export async function preDebugValidate(debugConfig: vscode.DebugConfiguration):
     const workspace: vscode.WorkspaceFolder = getMatchingWorkspace(debugConfig);
     let shouldContinue: boolean = await validateFuncCoreToolsInstalled();
     if (shouldContinue) {
-        const projectPath: string | undefined = await tryGetFunctionProjectRoot(workspace.uri.fsPath, true /* suppressPrompt */);
+        const projectSubpath: string | undefined = getProjectSubpathFromTask(<string | undefined>debugConfig.preLaunchTask);
+        const projectPath: string | undefined = projectSubpath ? path.join(workspace.uri.fsPath, projectSubpath) : await tryGetFunctionProjectRoot(workspace.uri.fsPath, true /* suppressPrompt */);
         if (projectPath) {
             shouldContinue = await validateEmulatorIsRunning(projectPath);
         }
@@ -32,6 +34,18 @@ export async function preDebugValidate(debugConfig: vscode.DebugConfiguration):
     return { workspace, shouldContinue };
 }
 
+/**
+ * If the folder has multiple projects, the task name will end with the project subpath (e.g. "func: host start (ProjectA)")
+ */
+function getProjectSubpathFromTask(preLaunchTask: string | undefined): string | undefined {
+    const prefix: string = `${hostStartTaskName} (`;
+    if (preLaunchTask && preLaunchTask.startsWith(prefix) && preLaunchTask.endsWith(')')) {
+        return preLaunchTask.slice(prefix.length, -1);
+    } else {
+        return undefined;
+    }
+}
+
 function getMatchingWorkspace(debugConfig: vscode.DebugConfiguration): vscode.WorkspaceFolder {
     if (vscode.workspace.workspaceFolders) {
         for (const workspace of vscode.workspace.workspaceFolders) {
@@ -50,13 +64,14 @@ function getMatchingWorkspace(debugConfig: vscode.DebugConfiguration): vscode.Wo
 }
 
 /**
- * If AzureWebJobsStorage is set, pings the emulator to make sure it's actually running
+ * If AzureWebJobsStorage or any of the "ConnectionStrings" use the emulator, pings the emulator to make sure it's actually running
  */
 async function validateEmulatorIsRunning(projectPath: string): Promise<boolean> {
-    const azureWebJobsStorage: string | undefined = await getAzureWebJobsStorage(projectPath);
-    if (azureWebJobsStorage && azureWebJobsStorage.toLowerCase() === localEmulatorConnectionString.toLowerCase()) {
+    const connectionStrings: { [key: string]: string } = await getLocalConnectionStrings(projectPath);
+    const emulatorKey: string | undefined = Object.keys(connectionStrings).find(key => typeof connectionStrings[key] === 'string' && connectionStrings[key].toLowerCase() === localEmulatorConnectionString.toLowerCase());
+    if (emulatorKey !== undefined) {
         try {
-            const client: azureStorage.BlobService = azureStorage.createBlobService(azureWebJobsStorage);
+            const client: azureStorage.BlobService = azureStorage.createBlobService(connectionStrings[emulatorKey]);
             await new Promise((resolve, reject): void => {
                 // Checking against a common container for functions, but doesn't really matter what call we make here
                 client.doesContainerExist('azure-webjob-hosts', (err: Error | undefined) => {
@@ -65,7 +80,7 @@ async function validateEmulatorIsRunning(projectPath: string): Promise<boolean>
                 });
             });
         } catch (error) {
-            const message: string = localize('failedToConnectEmulator', 'Failed to verify "{0}" connection specified in "{1}". Is the local emulator installed and running?', azureWebJobsStorageKey, localSettingsFileName);
+            const message: string = localize('failedToConnectEmulator', 'Failed to verify "{0}" connection specified in "{1}". Is the local emulator installed and running?', emulatorKey, localSettingsFileName);
             const learnMoreLink: string = isWindows ? 'https://aka.ms/AA4ym56' : 'https://aka.ms/AA4yef8';
 
             const debugAnyway: vscode.MessageItem = { title: localize('debugAnyway', 'Debug anyway') };
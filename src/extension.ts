@@ -11,6 +11,7 @@ import { AzureParentTreeItem, AzureTreeDataProvider, AzureTreeItem, AzureUserInp
 // tslint:disable-next-line:no-submodule-imports
 import { AzureExtensionApiProvider } from 'vscode-azureextensionui/api';
 import { addBinding } from './commands/addBinding/addBinding';
+import { editBinding } from './commands/addBinding/editBinding';
 import { decryptLocalSettings } from './commands/appSettings/decryptLocalSettings';
 import { downloadAppSettings } from './commands/appSettings/downloadAppSettings';
 import { encryptLocalSettings } from './commands/appSettings/encryptLocalSettings';
@@ -18,7 +19,9 @@ import { setAzureWebJobsStorage } from './commands/appSettings/setAzureWebJobsSt
 import { toggleSlotSetting } from './commands/appSettings/toggleSlotSetting';
 import { uploadAppSettings } from './commands/appSettings/uploadAppSettings';
 import { configureDeploymentSource } from './commands/configureDeploymentSource';
+import { configureHostJson } from './commands/configureHostJson/configureHostJson';
 import { copyFunctionUrl } from './commands/copyFunctionUrl';
+import { copyLocalFunctionUrl } from './commands/copyLocalFunctionUrl';
 import { createChildNode } from './commands/createChildNode';
 import { createFunction } from './commands/createFunction/createFunction';
 import { runPostFunctionCreateStepsFromCache } from './commands/createFunction/FunctionCreateStepBase';
@@ -33,24 +36,44 @@ import { viewCommitInGitHub } from './commands/deployments/viewCommitInGitHub';
 import { viewDeploymentLogs } from './commands/deployments/viewDeploymentLogs';
 import { editAppSetting } from './commands/editAppSetting';
 import { executeFunction } from './commands/executeFunction';
+import { executeLocalFunction } from './commands/executeLocalFunction';
 import { initProjectForVSCode } from './commands/initProjectForVSCode/initProjectForVSCode';
+import { duplicateLocalFunction } from './commands/localFunctions/duplicateLocalFunction';
+import { renameLocalFunction } from './commands/localFunctions/renameLocalFunction';
+import { saveFunctionAsTemplate } from './commands/localFunctions/saveFunctionAsTemplate';
+import { editLocalSetting } from './commands/localSettings/editLocalSetting';
+import { renameLocalSetting } from './commands/localSettings/renameLocalSetting';
+import { renameSettingEverywhere } from './commands/localSettings/renameSettingEverywhere';
+import { showSettingReferences } from './commands/localSettings/showSettingReferences';
+import { showUnusedSettings } from './commands/localSettings/showUnusedSettings';
 import { startStreamingLogs } from './commands/logstream/startStreamingLogs';
 import { stopStreamingLogs } from './commands/logstream/stopStreamingLogs';
+import { migrateProjectToV2 } from './commands/migrateProjectToV2/migrateProjectToV2';
 import { openInPortal } from './commands/openInPortal';
 import { pickFuncProcess } from './commands/pickFuncProcess';
+import { editLocalProxy } from './commands/proxies/editLocalProxy';
+import { editProxy } from './commands/proxies/editProxy';
 import { remoteDebugFunctionApp } from './commands/remoteDebugFunctionApp';
 import { renameAppSetting } from './commands/renameAppSetting';
 import { restartFunctionApp } from './commands/restartFunctionApp';
+import { selectLocalSettingsProfile } from './commands/selectLocalSettingsProfile';
 import { startFunctionApp } from './commands/startFunctionApp';
 import { stopFunctionApp } from './commands/stopFunctionApp';
 import { swapSlot } from './commands/swapSlot';
-import { func, ProjectLanguage } from './constants';
+import { exportTemplateBundle } from './commands/templates/exportTemplateBundle';
+import { importTemplateBundle } from './commands/templates/importTemplateBundle';
+import { pinProjectTemplateVersion } from './commands/templates/pinProjectTemplateVersion';
+import { func, functionJsonFileName, ProjectLanguage } from './constants';
 import { FuncTaskProvider } from './debug/FuncTaskProvider';
 import { JavaDebugProvider } from './debug/JavaDebugProvider';
 import { NodeDebugProvider } from './debug/NodeDebugProvider';
 import { PowerShellDebugProvider } from './debug/PowerShellDebugProvider';
 import { PythonDebugProvider } from './debug/PythonDebugProvider';
 import { ext } from './extensionVariables';
+import { FunctionJsonCompletionProvider } from './funcConfig/FunctionJsonCompletionProvider';
+import { registerFunctionJsonDiagnostics } from './funcConfig/functionJsonDiagnostics';
+import { FunctionJsonHoverProvider } from './funcConfig/FunctionJsonHoverProvider';
+import { registerLocalSettingsProfileStatusBar } from './funcConfig/localSettingsProfileStatusBar';
 import { registerFuncHostTaskEvents } from './funcCoreTools/funcHostTask';
 import { installOrUpdateFuncCoreTools } from './funcCoreTools/installOrUpdateFuncCoreTools';
 import { uninstallFuncCoreTools } from './funcCoreTools/uninstallFuncCoreTools';
@@ -58,9 +81,18 @@ import { validateFuncCoreToolsIsLatest } from './funcCoreTools/validateFuncCoreT
 import { getTemplateProvider } from './templates/TemplateProvider';
 import { FunctionAppProvider } from './tree/FunctionAppProvider';
 import { getProjectTreeItems } from './tree/localProject/getProjectTreeItems';
+import { LocalBindingTreeItem } from './tree/localProject/LocalBindingTreeItem';
+import { LocalFunctionTreeItem } from './tree/localProject/LocalFunctionTreeItem';
+import { LocalProjectTreeItem } from './tree/localProject/LocalProjectTreeItem';
+import { LocalProxiesTreeItem } from './tree/localProject/LocalProxiesTreeItem';
+import { LocalProxyTreeItem } from './tree/localProject/LocalProxyTreeItem';
+import { LocalSettingsTreeItem } from './tree/localProject/LocalSettingsTreeItem';
+import { LocalSettingTreeItem } from './tree/localProject/LocalSettingTreeItem';
 import { ProductionSlotTreeItem } from './tree/ProductionSlotTreeItem';
+import { ProxiesTreeItem } from './tree/ProxiesTreeItem';
 import { ProxyTreeItem } from './tree/ProxyTreeItem';
 import { SlotsTreeItem } from './tree/SlotsTreeItem';
+import { registerReadOnlyContentProvider } from './utils/readOnlyContent';
 import { verifyVSCodeConfigOnActivate } from './vsCodeConfig/verifyVSCodeConfigOnActivate';
 
 export async function activateInternal(context: vscode.ExtensionContext, perfStats: { loadStartTime: number; loadEndTime: number }): Promise<AzureExtensionApiProvider> {
@@ -97,54 +129,15 @@ export async function activateInternal(context: vscode.ExtensionContext, perfSta
 
         ext.templateProviderTask = getTemplateProvider();
 
-        registerCommand('azureFunctions.selectSubscriptions', () => vscode.commands.executeCommand('azure-account.selectSubscriptions'));
-        registerCommand('azureFunctions.refresh', async (node?: AzureTreeItem) => await ext.tree.refresh(node));
-        registerCommand('azureFunctions.pickProcess', pickFuncProcess);
-        registerCommand('azureFunctions.loadMore', async (node: AzureTreeItem) => await ext.tree.loadMore(node));
-        registerCommand('azureFunctions.openInPortal', openInPortal);
-        registerCommand('azureFunctions.createFunction', async function (this: IActionContext, functionAppPath?: string, templateId?: string, functionName?: string, triggerSettings?: {}): Promise<void> {
-            await createFunction(this, functionAppPath, templateId, functionName, triggerSettings);
-        });
-        registerCommand('azureFunctions.createNewProject', async function (this: IActionContext, functionAppPath?: string, language?: ProjectLanguage, runtime?: string, openFolder?: boolean | undefined, templateId?: string, functionName?: string, triggerSettings?: {}): Promise<void> {
-            await createNewProject(this, functionAppPath, language, runtime, openFolder, templateId, functionName, triggerSettings);
-        });
-        registerCommand('azureFunctions.initProjectForVSCode', async function (this: IActionContext): Promise<void> { await initProjectForVSCode(this); });
-        registerCommand('azureFunctions.createFunctionApp', createFunctionApp);
-        registerCommand('azureFunctions.startFunctionApp', startFunctionApp);
-        registerCommand('azureFunctions.stopFunctionApp', stopFunctionApp);
-        registerCommand('azureFunctions.restartFunctionApp', restartFunctionApp);
-        registerCommand('azureFunctions.deleteFunctionApp', async (node?: AzureParentTreeItem) => await deleteNode(ProductionSlotTreeItem.contextValue, node));
-        registerCommand('azureFunctions.deploy', deploy);
-        registerCommand('azureFunctions.configureDeploymentSource', configureDeploymentSource);
-        registerCommand('azureFunctions.copyFunctionUrl', copyFunctionUrl);
-        registerCommand('azureFunctions.executeFunction', executeFunction);
-        registerCommand('azureFunctions.startStreamingLogs', startStreamingLogs);
-        registerCommand('azureFunctions.stopStreamingLogs', stopStreamingLogs);
-        registerCommand('azureFunctions.deleteFunction', async (node?: AzureTreeItem) => await deleteNode(/^azFuncFunction(Http|Timer|)$/i, node));
-        registerCommand('azureFunctions.appSettings.add', async (node?: AzureParentTreeItem) => await createChildNode(AppSettingsTreeItem.contextValue, node));
-        registerCommand('azureFunctions.appSettings.download', downloadAppSettings);
-        registerCommand('azureFunctions.appSettings.upload', uploadAppSettings);
-        registerCommand('azureFunctions.appSettings.edit', editAppSetting);
-        registerCommand('azureFunctions.appSettings.rename', renameAppSetting);
-        registerCommand('azureFunctions.appSettings.decrypt', decryptLocalSettings);
-        registerCommand('azureFunctions.appSettings.encrypt', encryptLocalSettings);
-        registerCommand('azureFunctions.appSettings.delete', async (node?: AppSettingTreeItem) => await deleteNode(AppSettingTreeItem.contextValue, node));
-        registerCommand('azureFunctions.appSettings.toggleSlotSetting', toggleSlotSetting);
-        registerCommand('azureFunctions.debugFunctionAppOnAzure', remoteDebugFunctionApp);
-        registerCommand('azureFunctions.deleteProxy', async (node?: AzureTreeItem) => await deleteNode(ProxyTreeItem.contextValue, node));
-        registerCommand('azureFunctions.installOrUpdateFuncCoreTools', installOrUpdateFuncCoreTools);
-        registerCommand('azureFunctions.uninstallFuncCoreTools', uninstallFuncCoreTools);
-        registerCommand('azureFunctions.redeploy', redeployDeployment);
-        registerCommand('azureFunctions.viewDeploymentLogs', viewDeploymentLogs);
-        registerCommand('azureFunctions.viewCommitInGitHub', viewCommitInGitHub);
-        registerCommand('azureFunctions.connectToGitHub', connectToGitHub);
-        registerCommand('azureFunctions.disconnectRepo', disconnectRepo);
-        registerCommand('azureFunctions.swapSlot', swapSlot);
-        registerCommand('azureFunctions.addBinding', addBinding);
-        registerCommand('azureFunctions.setAzureWebJobsStorage', setAzureWebJobsStorage);
-        registerCommand('azureFunctions.createSlot', async (node?: AzureParentTreeItem) => await createChildNode(SlotsTreeItem.contextValue, node));
-        registerCommand('azureFunctions.toggleAppSettingVisibility', async (node: AppSettingTreeItem) => { await node.toggleValueVisibility(); }, 250);
+        registerCommands();
         registerFuncHostTaskEvents();
+        registerFunctionJsonDiagnostics();
+        registerLocalSettingsProfileStatusBar();
+        registerReadOnlyContentProvider();
+
+        const functionJsonSelector: vscode.DocumentSelector = { language: 'json', scheme: 'file', pattern: `**/${functionJsonFileName}` };
+        context.subscriptions.push(vscode.languages.registerCompletionItemProvider(functionJsonSelector, new FunctionJsonCompletionProvider(), '"'));
+        context.subscriptions.push(vscode.languages.registerHoverProvider(functionJsonSelector, new FunctionJsonHoverProvider()));
 
         const nodeDebugProvider: NodeDebugProvider = new NodeDebugProvider();
         const pythonDebugProvider: PythonDebugProvider = new PythonDebugProvider();
@@ -162,6 +155,86 @@ export async function activateInternal(context: vscode.ExtensionContext, perfSta
     return createApiProvider([]);
 }
 
+function registerCommands(): void {
+    registerCommand('azureFunctions.selectSubscriptions', () => vscode.commands.executeCommand('azure-account.selectSubscriptions'));
+    registerCommand('azureFunctions.refresh', async (node?: AzureTreeItem) => await ext.tree.refresh(node));
+    registerCommand('azureFunctions.pickProcess', pickFuncProcess);
+    registerCommand('azureFunctions.loadMore', async (node: AzureTreeItem) => await ext.tree.loadMore(node));
+    registerCommand('azureFunctions.openInPortal', openInPortal);
+    registerCommand('azureFunctions.createFunction', async function (this: IActionContext, functionAppPath?: string | LocalProjectTreeItem, templateId?: string, functionName?: string, triggerSettings?: {}): Promise<void> {
+        if (functionAppPath instanceof LocalProjectTreeItem) {
+            functionAppPath = functionAppPath.root.projectPath;
+        }
+        await createFunction(this, functionAppPath, templateId, functionName, triggerSettings);
+    });
+    registerCommand('azureFunctions.createNewProject', async function (this: IActionContext, functionAppPath?: string, language?: ProjectLanguage, runtime?: string, openFolder?: boolean | undefined, templateId?: string, functionName?: string, triggerSettings?: {}): Promise<void> {
+        await createNewProject(this, functionAppPath, language, runtime, openFolder, templateId, functionName, triggerSettings);
+    });
+    registerCommand('azureFunctions.initProjectForVSCode', async function (this: IActionContext): Promise<void> { await initProjectForVSCode(this); });
+    registerCommand('azureFunctions.createFunctionApp', createFunctionApp);
+    registerCommand('azureFunctions.startFunctionApp', startFunctionApp);
+    registerCommand('azureFunctions.stopFunctionApp', stopFunctionApp);
+    registerCommand('azureFunctions.restartFunctionApp', restartFunctionApp);
+    registerCommand('azureFunctions.deleteFunctionApp', async (node?: AzureParentTreeItem) => await deleteNode(ProductionSlotTreeItem.contextValue, node));
+    registerCommand('azureFunctions.deploy', deploy);
+    registerCommand('azureFunctions.configureDeploymentSource', configureDeploymentSource);
+    registerCommand('azureFunctions.copyFunctionUrl', copyFunctionUrl);
+    registerCommand('azureFunctions.copyLocalFunctionUrl', copyLocalFunctionUrl);
+    registerCommand('azureFunctions.executeFunction', executeFunction);
+    registerCommand('azureFunctions.executeLocalFunction', executeLocalFunction);
+    registerCommand('azureFunctions.renameLocalFunction', renameLocalFunction);
+    registerCommand('azureFunctions.duplicateLocalFunction', duplicateLocalFunction);
+    registerCommand('azureFunctions.saveFunctionAsTemplate', saveFunctionAsTemplate);
+    registerCommand('azureFunctions.deleteLocalFunction', async (node?: AzureTreeItem) => await deleteNode(LocalFunctionTreeItem.editableContextValue, node));
+    registerCommand('azureFunctions.startStreamingLogs', startStreamingLogs);
+    registerCommand('azureFunctions.stopStreamingLogs', stopStreamingLogs);
+    registerCommand('azureFunctions.deleteFunction', async (node?: AzureTreeItem) => await deleteNode(/^azFuncFunction(Http|Timer|)$/i, node));
+    registerCommand('azureFunctions.appSettings.add', async (node?: AzureParentTreeItem) => await createChildNode(AppSettingsTreeItem.contextValue, node));
+    registerCommand('azureFunctions.appSettings.download', downloadAppSettings);
+    registerCommand('azureFunctions.appSettings.upload', uploadAppSettings);
+    registerCommand('azureFunctions.appSettings.mirror', async (node?: AppSettingsTreeItem) => await uploadAppSettings(node, undefined, true /* mirror */));
+    registerCommand('azureFunctions.appSettings.edit', editAppSetting);
+    registerCommand('azureFunctions.appSettings.rename', renameAppSetting);
+    registerCommand('azureFunctions.appSettings.decrypt', decryptLocalSettings);
+    registerCommand('azureFunctions.appSettings.encrypt', encryptLocalSettings);
+    registerCommand('azureFunctions.appSettings.delete', async (node?: AppSettingTreeItem) => await deleteNode(AppSettingTreeItem.contextValue, node));
+    registerCommand('azureFunctions.appSettings.toggleSlotSetting', toggleSlotSetting);
+    registerCommand('azureFunctions.localSettings.add', async (node?: AzureParentTreeItem) => await createChildNode(LocalSettingsTreeItem.contextValue, node));
+    registerCommand('azureFunctions.localSettings.edit', editLocalSetting);
+    registerCommand('azureFunctions.localSettings.rename', renameLocalSetting);
+    registerCommand('azureFunctions.localSettings.renameEverywhere', renameSettingEverywhere);
+    registerCommand('azureFunctions.appSettings.findReferences', showSettingReferences);
+    registerCommand('azureFunctions.appSettings.showUnused', showUnusedSettings);
+    registerCommand('azureFunctions.localSettings.delete', async (node?: AzureTreeItem) => await deleteNode(LocalSettingTreeItem.contextValue, node));
+    registerCommand('azureFunctions.debugFunctionAppOnAzure', remoteDebugFunctionApp);
+    registerCommand('azureFunctions.createProxy', async (node?: AzureParentTreeItem) => await createChildNode(ProxiesTreeItem.contextValue, node));
+    registerCommand('azureFunctions.editProxy', editProxy);
+    registerCommand('azureFunctions.deleteProxy', async (node?: AzureTreeItem) => await deleteNode(ProxyTreeItem.contextValue, node));
+    registerCommand('azureFunctions.localProxies.add', async (node?: AzureParentTreeItem) => await createChildNode(LocalProxiesTreeItem.contextValue, node));
+    registerCommand('azureFunctions.localProxies.edit', editLocalProxy);
+    registerCommand('azureFunctions.localProxies.delete', async (node?: AzureTreeItem) => await deleteNode(LocalProxyTreeItem.contextValue, node));
+    registerCommand('azureFunctions.installOrUpdateFuncCoreTools', installOrUpdateFuncCoreTools);
+    registerCommand('azureFunctions.uninstallFuncCoreTools', uninstallFuncCoreTools);
+    registerCommand('azureFunctions.redeploy', redeployDeployment);
+    registerCommand('azureFunctions.viewDeploymentLogs', viewDeploymentLogs);
+    registerCommand('azureFunctions.viewCommitInGitHub', viewCommitInGitHub);
+    registerCommand('azureFunctions.connectToGitHub', connectToGitHub);
+    registerCommand('azureFunctions.disconnectRepo', disconnectRepo);
+    registerCommand('azureFunctions.swapSlot', swapSlot);
+    registerCommand('azureFunctions.addBinding', addBinding);
+    registerCommand('azureFunctions.editBinding', editBinding);
+    registerCommand('azureFunctions.deleteBinding', async (node?: AzureTreeItem) => await deleteNode(LocalBindingTreeItem.contextValue, node));
+    registerCommand('azureFunctions.setAzureWebJobsStorage', setAzureWebJobsStorage);
+    registerCommand('azureFunctions.configureHostJson', configureHostJson);
+    registerCommand('azureFunctions.migrateProjectToV2', migrateProjectToV2);
+    registerCommand('azureFunctions.exportTemplates', exportTemplateBundle);
+    registerCommand('azureFunctions.importTemplates', importTemplateBundle);
+    registerCommand('azureFunctions.pinTemplateVersion', pinProjectTemplateVersion);
+    registerCommand('azureFunctions.selectLocalSettingsProfile', selectLocalSettingsProfile);
+    registerCommand('azureFunctions.createSlot', async (node?: AzureParentTreeItem) => await createChildNode(SlotsTreeItem.contextValue, node));
+    registerCommand('azureFunctions.toggleAppSettingVisibility', async (node: AppSettingTreeItem | LocalSettingTreeItem) => { await node.toggleValueVisibility(); }, 250);
+}
+
 // tslint:disable-next-line:no-empty
 export function deactivateInternal(): void {
 }
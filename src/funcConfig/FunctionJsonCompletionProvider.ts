@@ -0,0 +1,166 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { callWithTelemetryAndErrorHandling, IActionContext } from 'vscode-azureextensionui';
+import { localSettingsFileName } from '../constants';
+import { ext } from '../extensionVariables';
+import { localize } from '../localize';
+import { IBindingSetting, IBindingTemplate, ValueType } from '../templates/IBindingTemplate';
+import { FunctionJsonLocator, IBindingCursor } from './FunctionJsonLocator';
+import { getLocalSettingsJson, ILocalSettingsJson } from './local.settings';
+import { getFunctionJsonDirection } from './validateFunctionJson';
+
+const defaultDirections: string[] = ['in', 'out', 'inout'];
+const typeKey: string = 'type';
+const directionKey: string = 'direction';
+const nameKey: string = 'name';
+
+/**
+ * Provides completions for the bindings in a 'function.json' file based on the binding templates
+ */
+export class FunctionJsonCompletionProvider implements vscode.CompletionItemProvider {
+    public async provideCompletionItems(document: vscode.TextDocument, position: vscode.Position, _token: vscode.CancellationToken): Promise<vscode.CompletionItem[] | undefined> {
+        return await callWithTelemetryAndErrorHandling('provideFunctionJsonCompletionItems', async function (this: IActionContext): Promise<vscode.CompletionItem[] | undefined> {
+            this.suppressErrorDisplay = true;
+            this.suppressTelemetry = true;
+
+            const cursor: IBindingCursor | undefined = new FunctionJsonLocator(document.getText()).getBindingCursor(document.offsetAt(position));
+            if (!cursor) {
+                return undefined;
+            }
+
+            // tslint:disable-next-line: strict-boolean-expressions
+            const range: vscode.Range = cursor.text === undefined ? document.getWordRangeAtPosition(position) || cursor.range : cursor.range;
+            if (cursor.valueKey === undefined) {
+                // Only add the colon if it's not already there
+                const hasColon: boolean = /^\s*:/.test(document.getText(new vscode.Range(range.end, document.lineAt(range.end.line).range.end)));
+                return getKeyCompletions(cursor, range, hasColon);
+            } else {
+                return await getValueCompletions(document, cursor, cursor.valueKey, range);
+            }
+        });
+    }
+}
+
+/**
+ * Returns the templates matching the binding's type, with templates matching the binding's direction first
+ */
+export function getBindingTemplates(properties: { [key: string]: string }): IBindingTemplate[] {
+    // The bindings are loaded with the templates, so they may not be available yet
+    // tslint:disable-next-line: strict-boolean-expressions
+    const bindingTemplates: IBindingTemplate[] = <IBindingTemplate[] | undefined>ext.scriptBindings || [];
+    const bindingType: string = getProperty(properties, typeKey).toLowerCase();
+    const direction: string = getProperty(properties, directionKey).toLowerCase();
+    const templates: IBindingTemplate[] = bindingTemplates.filter(b => b.type.toLowerCase() === bindingType);
+    return templates.filter(t => getFunctionJsonDirection(t).toLowerCase() === direction).concat(templates.filter(t => getFunctionJsonDirection(t).toLowerCase() !== direction));
+}
+
+/**
+ * Returns the setting matching the key from the first template that has it
+ */
+export function getBindingSetting(templates: IBindingTemplate[], key: string): IBindingSetting | undefined {
+    for (const template of templates) {
+        const setting: IBindingSetting | undefined = template.settings.find(s => s.name.toLowerCase() === key.toLowerCase());
+        if (setting) {
+            return setting;
+        }
+    }
+
+    return undefined;
+}
+
+function getProperty(properties: { [key: string]: string }, key: string): string {
+    const actualKey: string | undefined = Object.keys(properties).find(k => k.toLowerCase() === key);
+    return actualKey === undefined ? '' : properties[actualKey];
+}
+
+function getKeyCompletions(cursor: IBindingCursor, range: vscode.Range, hasColon: boolean): vscode.CompletionItem[] {
+    const existingKeys: string[] = Object.keys(cursor.properties).map(k => k.toLowerCase());
+    const templates: IBindingTemplate[] = getBindingTemplates(cursor.properties);
+    const result: vscode.CompletionItem[] = [];
+    const addKey: (key: string, detail: string | undefined, documentation: string | undefined) => void = (key: string, detail: string | undefined, documentation: string | undefined): void => {
+        // Allow the key the cursor is on, since that's the one being replaced
+        const isCurrentKey: boolean = cursor.text !== undefined && key.toLowerCase() === cursor.text.toLowerCase();
+        if ((existingKeys.indexOf(key.toLowerCase()) === -1 || isCurrentKey) && !result.some(r => r.label === key)) {
+            const item: vscode.CompletionItem = new vscode.CompletionItem(key, vscode.CompletionItemKind.Property);
+            item.detail = detail;
+            item.documentation = documentation;
+            item.insertText = hasColon ? `"${key}"` : `"${key}": `;
+            item.filterText = `"${key}"`;
+            item.range = range;
+            result.push(item);
+        }
+    };
+
+    addKey(typeKey, localize('bindingType', 'Binding type'), undefined);
+    addKey(directionKey, localize('bindingDirection', 'Binding direction'), undefined);
+    addKey(nameKey, localize('bindingName', 'Binding name'), undefined);
+    for (const template of templates) {
+        for (const setting of template.settings) {
+            addKey(setting.name, setting.label, setting.description);
+        }
+    }
+
+    return result;
+}
+
+async function getValueCompletions(document: vscode.TextDocument, cursor: IBindingCursor, key: string, range: vscode.Range): Promise<vscode.CompletionItem[]> {
+    const templates: IBindingTemplate[] = getBindingTemplates(cursor.properties);
+    const values: { value: string; detail?: string; kind: vscode.CompletionItemKind; isString: boolean }[] = [];
+    switch (key.toLowerCase()) {
+        case typeKey:
+            // tslint:disable-next-line: strict-boolean-expressions
+            for (const template of <IBindingTemplate[] | undefined>ext.scriptBindings || []) {
+                if (!values.some(v => v.value === template.type)) {
+                    values.push({ value: template.type, detail: template.displayName, kind: vscode.CompletionItemKind.EnumMember, isString: true });
+                }
+            }
+            break;
+        case directionKey:
+            const directions: string[] = templates.length > 0 ? templates.map(getFunctionJsonDirection) : defaultDirections;
+            for (const direction of directions) {
+                if (!values.some(v => v.value === direction)) {
+                    values.push({ value: direction, kind: vscode.CompletionItemKind.EnumMember, isString: true });
+                }
+            }
+            break;
+        default:
+            const setting: IBindingSetting | undefined = getBindingSetting(templates, key);
+            if (setting) {
+                if (setting.enums.length > 0) {
+                    values.push(...setting.enums.map(e => { return { value: e.value, detail: e.displayName, kind: vscode.CompletionItemKind.EnumMember, isString: true }; }));
+                } else if (setting.valueType === ValueType.boolean) {
+                    // Booleans should not be quoted, unless the user already started a string
+                    values.push(...['true', 'false'].map(v => { return { value: v, kind: vscode.CompletionItemKind.Value, isString: cursor.text !== undefined }; }));
+                } else if (setting.resourceType !== undefined) {
+                    const appSettingDetail: string = localize('localAppSetting', 'Local app setting');
+                    values.push(...(await getLocalAppSettingNames(document)).map(v => { return { value: v, detail: appSettingDetail, kind: vscode.CompletionItemKind.Variable, isString: true }; }));
+                }
+            }
+    }
+
+    return values.map(v => {
+        const item: vscode.CompletionItem = new vscode.CompletionItem(v.value, v.kind);
+        item.detail = v.detail;
+        item.insertText = v.isString ? `"${v.value}"` : v.value;
+        item.filterText = v.isString ? `"${v.value}"` : v.value;
+        item.range = range;
+        return item;
+    });
+}
+
+async function getLocalAppSettingNames(document: vscode.TextDocument): Promise<string[]> {
+    // 'function.json' is in a sub folder of the project
+    const projectPath: string = path.dirname(path.dirname(document.uri.fsPath));
+    try {
+        const settings: ILocalSettingsJson = await getLocalSettingsJson(path.join(projectPath, localSettingsFileName));
+        return settings.Values ? Object.keys(settings.Values) : [];
+    } catch {
+        // ignore and don't suggest any settings
+        return [];
+    }
+}
@@ -0,0 +1,49 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { callWithTelemetryAndErrorHandling, IActionContext } from 'vscode-azureextensionui';
+import { IBindingSetting, IBindingTemplate, IEnumValue } from '../templates/IBindingTemplate';
+import { getBindingSetting, getBindingTemplates } from './FunctionJsonCompletionProvider';
+import { FunctionJsonLocator, IBindingCursor } from './FunctionJsonLocator';
+
+/**
+ * Shows the label and description of binding settings in a 'function.json' file
+ */
+export class FunctionJsonHoverProvider implements vscode.HoverProvider {
+    public async provideHover(document: vscode.TextDocument, position: vscode.Position, _token: vscode.CancellationToken): Promise<vscode.Hover | undefined> {
+        return await callWithTelemetryAndErrorHandling('provideFunctionJsonHover', async function (this: IActionContext): Promise<vscode.Hover | undefined> {
+            this.suppressErrorDisplay = true;
+            this.suppressTelemetry = true;
+
+            const cursor: IBindingCursor | undefined = new FunctionJsonLocator(document.getText()).getBindingCursor(document.offsetAt(position));
+            if (!cursor || cursor.text === undefined) {
+                return undefined;
+            }
+
+            const templates: IBindingTemplate[] = getBindingTemplates(cursor.properties);
+            if (cursor.valueKey === undefined) {
+                const setting: IBindingSetting | undefined = getBindingSetting(templates, cursor.text);
+                if (setting) {
+                    const contents: vscode.MarkdownString = new vscode.MarkdownString(`**${setting.label}**`);
+                    if (setting.description) {
+                        contents.appendMarkdown(`\n\n${setting.description}`);
+                    }
+                    return new vscode.Hover(contents, cursor.range);
+                }
+            } else {
+                // Show the display name for enum values, e.g. "Function" for an auth level of "function"
+                const setting: IBindingSetting | undefined = getBindingSetting(templates, cursor.valueKey);
+                const text: string = cursor.text.toLowerCase();
+                const enumValue: IEnumValue | undefined = setting && setting.enums.find(e => e.value.toLowerCase() === text);
+                if (enumValue) {
+                    return new vscode.Hover(new vscode.MarkdownString(`**${enumValue.displayName}**`), cursor.range);
+                }
+            }
+
+            return undefined;
+        });
+    }
+}
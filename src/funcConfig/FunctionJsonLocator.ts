@@ -0,0 +1,210 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+
+interface IOffsetRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * Describes the binding at a position in a 'function.json' file
+ */
+export interface IBindingCursor {
+    /**
+     * The string properties of the binding (e.g. "type" and "direction"), keyed by the property name as written in the file
+     */
+    properties: { [key: string]: string };
+    /**
+     * If the cursor is on a value, the key of that value. Undefined if the cursor is on a key
+     */
+    valueKey: string | undefined;
+    /**
+     * The range of the quoted string the cursor is in (including quotes), or an empty range at the cursor if it's not in a string
+     */
+    range: vscode.Range;
+    /**
+     * The text of the string the cursor is in, without quotes. Undefined if the cursor is not in a string
+     */
+    text: string | undefined;
+}
+
+/**
+ * Finds the position of bindings and properties in the raw text of a 'function.json' file
+ * The text may be invalid json (e.g. while the user is typing), so this only does a basic scan of strings and brackets
+ */
+export class FunctionJsonLocator {
+    private _text: string;
+    private _bindingsKeyOffset: number | undefined;
+    private _bindingOffsets: IOffsetRange[] = [];
+
+    public constructor(text: string) {
+        this._text = text;
+        this.parse();
+    }
+
+    public getRange(bindingIndex: number | undefined, property: string | undefined): vscode.Range {
+        const binding: IOffsetRange | undefined = bindingIndex === undefined ? undefined : this._bindingOffsets[bindingIndex];
+        if (binding) {
+            const bindingText: string = this._text.slice(binding.start, binding.end);
+            // Default to the "type" property so that the problem is highlighted on a single line
+            for (const key of [property, 'type']) {
+                const keyOffset: number | undefined = findKey(bindingText, key);
+                if (key !== undefined && keyOffset !== undefined) {
+                    return this.getKeyRange(binding.start + keyOffset, key);
+                }
+            }
+            return this.getOffsetRange(binding.start, binding.start + 1);
+        } else if (this._bindingsKeyOffset !== undefined) {
+            return this.getKeyRange(this._bindingsKeyOffset, 'bindings');
+        } else {
+            return new vscode.Range(0, 0, 0, 0);
+        }
+    }
+
+    /**
+     * Returns undefined if the offset is not directly inside a binding object
+     */
+    public getBindingCursor(offset: number): IBindingCursor | undefined {
+        const binding: IOffsetRange | undefined = this._bindingOffsets.find(b => b.start < offset && offset < b.end);
+        if (!binding) {
+            return undefined;
+        }
+
+        const properties: { [key: string]: string } = {};
+        let cursor: IBindingCursor | undefined;
+        let depth: number = 0;
+        let lastString: IOffsetRange | undefined;
+        let currentKey: string | undefined;
+        for (let i: number = binding.start + 1; i < binding.end; i += 1) {
+            if (!cursor && i >= offset) {
+                if (depth !== 0) {
+                    // Nested objects and arrays aren't supported
+                    return undefined;
+                }
+                cursor = { properties, valueKey: currentKey, range: this.getOffsetRange(offset, offset), text: undefined };
+            }
+
+            const char: string = this._text[i];
+            if (char === '"') {
+                const stringRange: IOffsetRange = this.readString(i);
+                const value: string = this.getStringValue(stringRange);
+                if (depth === 0) {
+                    if (currentKey !== undefined) {
+                        properties[currentKey] = value;
+                    }
+
+                    if (!cursor && stringRange.start < offset && offset <= stringRange.end) {
+                        cursor = { properties, valueKey: currentKey, range: this.getOffsetRange(stringRange.start, stringRange.end), text: value };
+                    }
+                }
+                lastString = stringRange;
+                i = stringRange.end - 1;
+            } else if (char === '{' || char === '[') {
+                depth += 1;
+            } else if (char === '}' || char === ']') {
+                depth -= 1;
+            } else if (depth === 0) {
+                if (char === ':' && lastString) {
+                    currentKey = this.getStringValue(lastString);
+                } else if (char === ',') {
+                    currentKey = undefined;
+                }
+            }
+        }
+
+        return cursor;
+    }
+
+    /**
+     * Returns the range of the string starting at the offset, including quotes. Strings can't span multiple lines, so an unterminated string ends at the end of the line
+     */
+    private readString(start: number): IOffsetRange {
+        let i: number = start + 1;
+        while (i < this._text.length && this._text[i] !== '"' && this._text[i] !== '\n' && this._text[i] !== '\r') {
+            i += this._text[i] === '\\' ? 2 : 1;
+        }
+        return { start, end: this._text[i] === '"' ? i + 1 : i };
+    }
+
+    private getStringValue(stringRange: IOffsetRange): string {
+        const isTerminated: boolean = stringRange.end - stringRange.start > 1 && this._text[stringRange.end - 1] === '"';
+        return this._text.slice(stringRange.start + 1, isTerminated ? stringRange.end - 1 : stringRange.end);
+    }
+
+    private getKeyRange(offset: number, key: string): vscode.Range {
+        // Include the quotes around the key
+        return this.getOffsetRange(offset, offset + key.length + 2);
+    }
+
+    private getOffsetRange(start: number, end: number): vscode.Range {
+        return new vscode.Range(this.getPosition(start), this.getPosition(end));
+    }
+
+    private getPosition(offset: number): vscode.Position {
+        const lines: string[] = this._text.slice(0, offset).split(/\r?\n/);
+        return new vscode.Position(lines.length - 1, lines[lines.length - 1].length);
+    }
+
+    /**
+     * Records the offsets of the "bindings" key and each object in the "bindings" array
+     */
+    private parse(): void {
+        const stack: { char: string; key: string | undefined }[] = [];
+        let lastString: IOffsetRange | undefined;
+        let pendingKey: string | undefined;
+        for (let i: number = 0; i < this._text.length; i += 1) {
+            const char: string = this._text[i];
+            switch (char) {
+                case '"':
+                    lastString = this.readString(i);
+                    i = lastString.end - 1;
+                    break;
+                case ':':
+                    pendingKey = lastString && this.getStringValue(lastString);
+                    if (stack.length === 1 && pendingKey === 'bindings' && lastString) {
+                        this._bindingsKeyOffset = lastString.start;
+                    }
+                    break;
+                case '{':
+                case '[':
+                    if (char === '{' && stack.length === 2 && stack[1].char === '[' && stack[1].key === 'bindings') {
+                        // The end is updated once the object is closed
+                        this._bindingOffsets.push({ start: i, end: this._text.length });
+                    }
+                    stack.push({ char, key: pendingKey });
+                    pendingKey = undefined;
+                    break;
+                case '}':
+                case ']':
+                    stack.pop();
+                    if (char === '}' && stack.length === 2 && stack[1].key === 'bindings' && this._bindingOffsets.length > 0) {
+                        this._bindingOffsets[this._bindingOffsets.length - 1].end = i + 1;
+                    }
+                    break;
+                case ',':
+                    pendingKey = undefined;
+                    break;
+                default:
+            }
+        }
+    }
+}
+
+function findKey(text: string, key: string | undefined): number | undefined {
+    if (key) {
+        const match: RegExpExecArray | null = new RegExp(`"${escapeRegExp(key)}"\\s*:`, 'i').exec(text);
+        if (match) {
+            return match.index;
+        }
+    }
+
+    return undefined;
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
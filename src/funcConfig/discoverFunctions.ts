@@ -0,0 +1,141 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fse from 'fs-extra';
+import * as path from 'path';
+import { functionJsonFileName } from '../constants';
+import { IFunctionJson, ParsedFunctionJson } from './function';
+import { ISourceFunction, parseCSharpFunctions, parseJavaFunctions } from './parseFunctionSource';
+
+export enum FunctionSource {
+    /**
+     * A script function defined by a 'function.json' file in the project (the only kind that can be edited)
+     */
+    functionJson = 'functionJson',
+    /**
+     * A compiled function defined by attributes/annotations in source code
+     */
+    sourceCode = 'sourceCode',
+    /**
+     * A 'function.json' file generated when building a compiled project
+     */
+    buildOutput = 'buildOutput'
+}
+
+export interface ILocalFunction {
+    name: string;
+    source: FunctionSource;
+    /**
+     * The path to the 'function.json' file or source file that defines this function
+     */
+    fsPath: string;
+    /**
+     * The data detected from source code. Only defined if `source` is `FunctionSource.sourceCode`
+     */
+    functionJson?: IFunctionJson;
+}
+
+const sourceParsers: { [extension: string]: (source: string) => ISourceFunction[] } = {
+    '.cs': parseCSharpFunctions,
+    '.java': parseJavaFunctions
+};
+
+const ignoredFolders: string[] = ['bin', 'obj', 'target', 'node_modules', '.git', '.vscode'];
+const buildOutputFolders: string[] = ['bin', 'target'];
+const maxSearchDepth: number = 6;
+
+/**
+ * Finds all functions in a local project, checking (in order) for:
+ * 1. Script functions with a 'function.json' file in a sub folder of the project
+ * 2. Compiled functions defined in C# or Java source code
+ * 3. Compiled functions with a 'function.json' file in the build output
+ */
+export async function discoverLocalFunctions(projectPath: string): Promise<ILocalFunction[]> {
+    let result: ILocalFunction[] = await getScriptFunctions(projectPath);
+
+    if (result.length === 0) {
+        result = await getSourceCodeFunctions(projectPath);
+    }
+
+    if (result.length === 0) {
+        result = await getBuildOutputFunctions(projectPath);
+    }
+
+    return result;
+}
+
+/**
+ * Reads the 'function.json' file for this function (or uses the data detected from source code). Throws if the file is invalid
+ */
+export async function getLocalFunctionConfig(func: ILocalFunction): Promise<ParsedFunctionJson> {
+    return new ParsedFunctionJson(func.functionJson || await fse.readJSON(func.fsPath));
+}
+
+async function getScriptFunctions(projectPath: string): Promise<ILocalFunction[]> {
+    const result: ILocalFunction[] = [];
+    const subpaths: string[] = await fse.readdir(projectPath);
+    await Promise.all(subpaths.map(async s => {
+        const functionJsonPath: string = path.join(projectPath, s, functionJsonFileName);
+        if (await fse.pathExists(functionJsonPath)) {
+            result.push({ name: s, source: FunctionSource.functionJson, fsPath: functionJsonPath });
+        }
+    }));
+    return result;
+}
+
+async function getSourceCodeFunctions(projectPath: string): Promise<ILocalFunction[]> {
+    const result: ILocalFunction[] = [];
+    const extensions: string[] = Object.keys(sourceParsers);
+    const sourceFiles: string[] = await findFiles(projectPath, (fsPath: string) => extensions.indexOf(path.extname(fsPath).toLowerCase()) !== -1, ignoredFolders);
+    for (const sourceFile of sourceFiles) {
+        const contents: string = (await fse.readFile(sourceFile)).toString();
+        const functions: ISourceFunction[] = sourceParsers[path.extname(sourceFile).toLowerCase()](contents);
+        for (const func of functions) {
+            result.push({ name: func.name, source: FunctionSource.sourceCode, fsPath: sourceFile, functionJson: func.functionJson });
+        }
+    }
+    return result;
+}
+
+/**
+ * There may be multiple build outputs (e.g. 'bin/Debug' and 'bin/Release'), so we use the most recently modified file for each function
+ */
+async function getBuildOutputFunctions(projectPath: string): Promise<ILocalFunction[]> {
+    const functions: { [name: string]: { func: ILocalFunction; modified: number } } = {};
+    for (const folder of buildOutputFolders) {
+        const folderPath: string = path.join(projectPath, folder);
+        if (await fse.pathExists(folderPath)) {
+            const functionJsonPaths: string[] = await findFiles(folderPath, (fsPath: string) => path.basename(fsPath) === functionJsonFileName);
+            for (const functionJsonPath of functionJsonPaths) {
+                const name: string = path.basename(path.dirname(functionJsonPath));
+                const modified: number = (await fse.stat(functionJsonPath)).mtime.getTime();
+                const existing: { modified: number } | undefined = <{ modified: number } | undefined>functions[name];
+                if (!existing || existing.modified < modified) {
+                    functions[name] = { func: { name, source: FunctionSource.buildOutput, fsPath: functionJsonPath }, modified };
+                }
+            }
+        }
+    }
+
+    return Object.keys(functions).map(key => functions[key].func);
+}
+
+async function findFiles(folderPath: string, isMatch: (fsPath: string) => boolean, foldersToSkip: string[] = [], depth: number = 0): Promise<string[]> {
+    const result: string[] = [];
+    if (depth <= maxSearchDepth) {
+        for (const subpath of await fse.readdir(folderPath)) {
+            const fullPath: string = path.join(folderPath, subpath);
+            const stats: fse.Stats = await fse.lstat(fullPath);
+            if (stats.isDirectory()) {
+                if (foldersToSkip.indexOf(subpath.toLowerCase()) === -1) {
+                    result.push(...await findFiles(fullPath, isMatch, foldersToSkip, depth + 1));
+                }
+            } else if (isMatch(fullPath)) {
+                result.push(fullPath);
+            }
+        }
+    }
+    return result;
+}
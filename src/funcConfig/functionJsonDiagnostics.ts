@@ -0,0 +1,124 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fse from 'fs-extra';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { callWithTelemetryAndErrorHandling, IActionContext, parseError, registerEvent } from 'vscode-azureextensionui';
+import { isFunctionProject } from '../commands/createNewProject/verifyIsProject';
+import { functionJsonFileName } from '../constants';
+import { ext } from '../extensionVariables';
+import { localize } from '../localize';
+import { IBindingTemplate } from '../templates/IBindingTemplate';
+import { FunctionJsonLocator } from './FunctionJsonLocator';
+import { IFunctionJsonProblem, validateFunctionJson } from './validateFunctionJson';
+
+const diagnosticSource: string = 'Azure Functions';
+let diagnosticCollection: vscode.DiagnosticCollection;
+
+/**
+ * Reports problems with every 'function.json' file in the open function projects to the "Problems" panel
+ * Open documents are validated as they change, and all other files are validated based on their contents on disk
+ */
+export function registerFunctionJsonDiagnostics(): void {
+    diagnosticCollection = vscode.languages.createDiagnosticCollection(functionJsonFileName);
+    ext.context.subscriptions.push(diagnosticCollection);
+
+    const watcher: vscode.FileSystemWatcher = vscode.workspace.createFileSystemWatcher(`**/${functionJsonFileName}`);
+    ext.context.subscriptions.push(watcher);
+    registerFunctionJsonEvent('azureFunctions.onDidCreateFunctionJson', watcher.onDidCreate, async (uri: vscode.Uri) => await validateFile(uri));
+    registerFunctionJsonEvent('azureFunctions.onDidChangeFunctionJson', watcher.onDidChange, async (uri: vscode.Uri) => await validateFile(uri));
+    registerFunctionJsonEvent('azureFunctions.onDidDeleteFunctionJson', watcher.onDidDelete, async (uri: vscode.Uri) => { diagnosticCollection.delete(uri); });
+    registerFunctionJsonEvent('azureFunctions.onDidChangeFunctionJsonDocument', vscode.workspace.onDidChangeTextDocument, async (e: vscode.TextDocumentChangeEvent) => await validateDocument(e.document));
+    // Revert to the contents on disk in case the document was closed without saving
+    registerFunctionJsonEvent('azureFunctions.onDidCloseFunctionJsonDocument', vscode.workspace.onDidCloseTextDocument, async (document: vscode.TextDocument) => await validateFile(document.uri));
+
+    // tslint:disable-next-line: no-floating-promises
+    callWithTelemetryAndErrorHandling('azureFunctions.validateFunctionJsonFiles', async function (this: IActionContext): Promise<void> {
+        this.properties.isActivationEvent = 'true';
+        this.suppressErrorDisplay = true;
+
+        try {
+            // Wait for the binding templates to be loaded so that the initial validation is complete
+            await ext.templateProviderTask;
+        } catch {
+            // ignore and validate without templates
+        }
+
+        const uris: vscode.Uri[] = await vscode.workspace.findFiles(`**/${functionJsonFileName}`, '**/{bin,obj,target,node_modules}/**');
+        this.measurements.functionJsonCount = uris.length;
+        for (const uri of uris) {
+            await validateFile(uri);
+        }
+    });
+}
+
+function registerFunctionJsonEvent<T>(eventId: string, event: vscode.Event<T>, callback: (e: T) => Promise<void>): void {
+    registerEvent(eventId, event, async function (this: IActionContext, e: T): Promise<void> {
+        this.suppressErrorDisplay = true;
+        this.suppressTelemetry = true;
+        await callback(e);
+    });
+}
+
+/**
+ * Script functions are defined by a 'function.json' file in a sub folder of the project. Any other 'function.json' files (e.g. in the build output) are ignored
+ */
+async function isProjectFunctionJson(uri: vscode.Uri): Promise<boolean> {
+    return uri.scheme === 'file' && path.basename(uri.fsPath) === functionJsonFileName && await isFunctionProject(path.dirname(path.dirname(uri.fsPath)));
+}
+
+async function validateFile(uri: vscode.Uri): Promise<void> {
+    const openDocument: vscode.TextDocument | undefined = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+    if (openDocument && !openDocument.isClosed) {
+        await validateDocument(openDocument);
+    } else if (await fse.pathExists(uri.fsPath)) {
+        if (await isProjectFunctionJson(uri)) {
+            setDiagnostics(uri, (await fse.readFile(uri.fsPath)).toString());
+        }
+    } else {
+        diagnosticCollection.delete(uri);
+    }
+}
+
+async function validateDocument(document: vscode.TextDocument): Promise<void> {
+    if (await isProjectFunctionJson(document.uri)) {
+        setDiagnostics(document.uri, document.getText());
+    }
+}
+
+function setDiagnostics(uri: vscode.Uri, text: string): void {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (error) {
+        const message: string = localize('invalidJson', 'Failed to parse "{0}": {1}', functionJsonFileName, parseError(error).message);
+        diagnosticCollection.set(uri, [createDiagnostic(new vscode.Range(0, 0, 0, 0), message, vscode.DiagnosticSeverity.Error)]);
+        return;
+    }
+
+    // The bindings are loaded with the templates, so they may not be available yet
+    // tslint:disable-next-line: strict-boolean-expressions
+    const bindingTemplates: IBindingTemplate[] = <IBindingTemplate[] | undefined>ext.scriptBindings || [];
+    const problems: IFunctionJsonProblem[] = validateFunctionJson(data, bindingTemplates);
+    const locator: FunctionJsonLocator = new FunctionJsonLocator(text);
+    diagnosticCollection.set(uri, problems.map(p => {
+        const severity: vscode.DiagnosticSeverity = p.isWarning ? vscode.DiagnosticSeverity.Warning : vscode.DiagnosticSeverity.Error;
+        return createDiagnostic(locator.getRange(p.bindingIndex, p.property), p.message, severity);
+    }));
+}
+
+function createDiagnostic(range: vscode.Range, message: string, severity: vscode.DiagnosticSeverity): vscode.Diagnostic {
+    const diagnostic: vscode.Diagnostic = new vscode.Diagnostic(range, message, severity);
+    diagnostic.source = diagnosticSource;
+    return diagnostic;
+}
+
+/**
+ * Returns the errors reported for a 'function.json' file, excluding warnings
+ */
+export function getFunctionJsonErrors(fsPath: string): vscode.Diagnostic[] {
+    return vscode.languages.getDiagnostics(vscode.Uri.file(fsPath)).filter(d => d.source === diagnosticSource && d.severity === vscode.DiagnosticSeverity.Error);
+}
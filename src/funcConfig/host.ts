@@ -4,9 +4,64 @@
  *--------------------------------------------------------------------------------------------*/
 
 import { ProjectRuntime } from "../constants";
+import { localize } from "../localize";
+
+export interface IQueuesSettings {
+    maxPollingInterval?: string | number;
+    visibilityTimeout?: string;
+    batchSize?: number;
+    maxDequeueCount?: number;
+    newBatchThreshold?: number;
+}
+
+export interface IHealthMonitorSettings {
+    enabled?: boolean;
+    healthCheckInterval?: string;
+    healthCheckWindow?: string;
+    healthCheckThreshold?: number;
+    counterThreshold?: number;
+}
+
+export interface ISingletonSettings {
+    lockPeriod?: string;
+    listenerLockPeriod?: string;
+    listenerLockRecoveryPollingInterval?: string;
+    lockAcquisitionTimeout?: string;
+    lockAcquisitionPollingInterval?: string;
+}
+
+export interface ISamplingSettings {
+    isEnabled?: boolean;
+    maxTelemetryItemsPerSecond?: number;
+}
+
+/**
+ * The service bus settings common to all runtimes, even though they are stored differently in each runtime
+ */
+export interface IServiceBusSettings {
+    prefetchCount?: number;
+    maxConcurrentCalls?: number;
+    maxAutoRenewDuration?: string;
+}
+
+/**
+ * The event hubs settings common to all runtimes, even though they are stored differently in each runtime
+ */
+export interface IEventHubsSettings {
+    maxBatchSize?: number;
+    prefetchCount?: number;
+    batchCheckpointFrequency?: number;
+}
 
 export interface IHostJsonV2 {
     version?: string;
+    functionTimeout?: string;
+    logging?: {
+        logLevel?: { [category: string]: string | undefined };
+        applicationInsights?: {
+            samplingSettings?: ISamplingSettings;
+        };
+    };
     managedDependency?: {
         enabled?: boolean;
     };
@@ -18,34 +73,197 @@ export interface IHostJsonV2 {
         http?: {
             routePrefix?: string;
         };
+        queues?: IQueuesSettings;
+        serviceBus?: {
+            prefetchCount?: number;
+            messageHandlerOptions?: {
+                autoComplete?: boolean;
+                maxConcurrentCalls?: number;
+                maxAutoRenewDuration?: string;
+            };
+        };
+        eventHubs?: {
+            batchCheckpointFrequency?: number;
+            eventProcessorOptions?: {
+                maxBatchSize?: number;
+                prefetchCount?: number;
+            };
+        };
     };
+    healthMonitor?: IHealthMonitorSettings;
+    singleton?: ISingletonSettings;
 }
 
 export interface IHostJsonV1 {
     http?: {
         routePrefix?: string;
     };
+    functionTimeout?: string;
+    logger?: {
+        categoryFilter?: {
+            defaultLevel?: string;
+            categoryLevels?: { [category: string]: string | undefined };
+        };
+    };
+    applicationInsights?: {
+        sampling?: ISamplingSettings;
+    };
+    queues?: IQueuesSettings;
+    serviceBus?: {
+        maxConcurrentCalls?: number;
+        prefetchCount?: number;
+        autoRenewTimeout?: string;
+    };
+    eventHub?: IEventHubsSettings;
+    healthMonitor?: IHealthMonitorSettings;
+    singleton?: ISingletonSettings;
 }
 
 export interface IParsedHostJson {
     readonly routePrefix: string;
+    readonly functionTimeout: string | undefined;
+    /**
+     * The log level for each category, where the default level uses the category "default"
+     */
+    readonly logLevels: { [category: string]: string | undefined };
+    readonly samplingSettings: ISamplingSettings;
+    readonly queues: IQueuesSettings;
+    readonly serviceBus: IServiceBusSettings;
+    readonly eventHubs: IEventHubsSettings;
+    readonly healthMonitor: IHealthMonitorSettings;
+    readonly singleton: ISingletonSettings;
+
+    /**
+     * Returns a message for each problem with the data, including properties that aren't supported by the runtime
+     */
+    validate(): string[];
 }
 
+export enum HostJsonValueType {
+    timeSpan = 'timeSpan',
+    integer = 'integer',
+    number = 'number',
+    boolean = 'boolean',
+    logLevel = 'logLevel'
+}
+
+export const logLevels: string[] = ['Trace', 'Debug', 'Information', 'Warning', 'Error', 'Critical', 'None'];
+export const defaultLogCategory: string = 'default';
+
 const defaultRoutePrefix: string = 'api';
+const v1OnlyProperties: string[] = ['http', 'logger', 'tracing', 'applicationInsights', 'queues', 'serviceBus', 'eventHub'];
+const v2OnlyProperties: string[] = ['version', 'logging', 'extensions', 'extensionBundle', 'managedDependency'];
 
-class ParsedHostJsonV2 implements IParsedHostJson {
-    public data: IHostJsonV2;
+/**
+ * Validates a single value in 'host.json'. Returns undefined if the value is valid (or not set)
+ * @param name The name of the property to use in the error message
+ */
+export function validateHostJsonValue(name: string, value: unknown, valueType: HostJsonValueType, min?: number, max?: number): string | undefined {
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+
+    switch (valueType) {
+        case HostJsonValueType.timeSpan:
+            return typeof value === 'string' && /^(\d+\.)?\d{1,2}:\d{2}:\d{2}(\.\d+)?$/.test(value) ? undefined : localize('invalidTimeSpan', 'Property "{0}" must be a time span in the format "hh:mm:ss" or "d.hh:mm:ss".', name);
+        case HostJsonValueType.boolean:
+            return typeof value === 'boolean' ? undefined : localize('invalidBoolean', 'Property "{0}" must be true or false.', name);
+        case HostJsonValueType.logLevel:
+            return typeof value === 'string' && logLevels.indexOf(value) !== -1 ? undefined : localize('invalidLogLevel', 'Property "{0}" must be one of: {1}.', name, logLevels.join(', '));
+        default:
+            if (typeof value !== 'number' || (valueType === HostJsonValueType.integer && !Number.isInteger(value))) {
+                const typeName: string = valueType === HostJsonValueType.integer ? localize('integer', 'an integer') : localize('number', 'a number');
+                return localize('invalidNumber', 'Property "{0}" must be {1}.', name, typeName);
+            } else if (min !== undefined && value < min) {
+                return localize('numberTooSmall', 'Property "{0}" must be greater than or equal to {1}.', name, min);
+            } else if (max !== undefined && value > max) {
+                return localize('numberTooLarge', 'Property "{0}" must be less than or equal to {1}.', name, max);
+            } else {
+                return undefined;
+            }
+    }
+}
+
+/**
+ * Validates 'functionTimeout', which can also be "-1" (unbounded, only allowed in dedicated plans) for runtimes after v1
+ */
+export function validateFunctionTimeout(value: unknown, runtime: ProjectRuntime | undefined): string | undefined {
+    return runtime !== ProjectRuntime.v1 && value === '-1' ? undefined : validateHostJsonValue('functionTimeout', value, HostJsonValueType.timeSpan);
+}
+
+abstract class ParsedHostJsonBase<T extends {}> implements IParsedHostJson {
+    public data: T;
+    protected abstract runtime: ProjectRuntime;
+    protected abstract unsupportedProperties: string[];
 
     // tslint:disable-next-line:no-any
     public constructor(data: any) {
         // tslint:disable-next-line:no-unsafe-any
         if (typeof data === 'object' && data !== null) {
-            this.data = <IHostJsonV2>data;
+            this.data = <T>data;
         } else {
-            this.data = {};
+            this.data = <T>{};
         }
     }
 
+    public abstract get routePrefix(): string;
+    public abstract get functionTimeout(): string | undefined;
+    public abstract get logLevels(): { [category: string]: string | undefined };
+    public abstract get samplingSettings(): ISamplingSettings;
+    public abstract get queues(): IQueuesSettings;
+    public abstract get serviceBus(): IServiceBusSettings;
+    public abstract get eventHubs(): IEventHubsSettings;
+    public abstract get healthMonitor(): IHealthMonitorSettings;
+    public abstract get singleton(): ISingletonSettings;
+
+    public validate(): string[] {
+        const problems: (string | undefined)[] = [];
+        for (const key of Object.keys(this.data)) {
+            if (this.unsupportedProperties.indexOf(key) !== -1) {
+                problems.push(localize('unsupportedProperty', 'Property "{0}" is not supported by runtime "{1}".', key, this.runtime));
+            }
+        }
+
+        problems.push(validateFunctionTimeout(this.functionTimeout, this.runtime));
+
+        const levels: { [category: string]: string | undefined } = this.logLevels;
+        for (const category of Object.keys(levels)) {
+            problems.push(validateHostJsonValue(category, levels[category], HostJsonValueType.logLevel));
+        }
+
+        problems.push(
+            validateHostJsonValue('isEnabled', this.samplingSettings.isEnabled, HostJsonValueType.boolean),
+            validateHostJsonValue('maxTelemetryItemsPerSecond', this.samplingSettings.maxTelemetryItemsPerSecond, HostJsonValueType.integer, 1),
+            validateHostJsonValue('visibilityTimeout', this.queues.visibilityTimeout, HostJsonValueType.timeSpan),
+            validateHostJsonValue('batchSize', this.queues.batchSize, HostJsonValueType.integer, 1, 32),
+            validateHostJsonValue('maxDequeueCount', this.queues.maxDequeueCount, HostJsonValueType.integer, 1),
+            validateHostJsonValue('newBatchThreshold', this.queues.newBatchThreshold, HostJsonValueType.integer, 0),
+            validateHostJsonValue('prefetchCount', this.serviceBus.prefetchCount, HostJsonValueType.integer, 0),
+            validateHostJsonValue('maxConcurrentCalls', this.serviceBus.maxConcurrentCalls, HostJsonValueType.integer, 1),
+            validateHostJsonValue('maxAutoRenewDuration', this.serviceBus.maxAutoRenewDuration, HostJsonValueType.timeSpan),
+            validateHostJsonValue('maxBatchSize', this.eventHubs.maxBatchSize, HostJsonValueType.integer, 1),
+            validateHostJsonValue('prefetchCount', this.eventHubs.prefetchCount, HostJsonValueType.integer, 0),
+            validateHostJsonValue('batchCheckpointFrequency', this.eventHubs.batchCheckpointFrequency, HostJsonValueType.integer, 1),
+            validateHostJsonValue('enabled', this.healthMonitor.enabled, HostJsonValueType.boolean),
+            validateHostJsonValue('healthCheckInterval', this.healthMonitor.healthCheckInterval, HostJsonValueType.timeSpan),
+            validateHostJsonValue('healthCheckWindow', this.healthMonitor.healthCheckWindow, HostJsonValueType.timeSpan),
+            validateHostJsonValue('healthCheckThreshold', this.healthMonitor.healthCheckThreshold, HostJsonValueType.integer, 1),
+            validateHostJsonValue('counterThreshold', this.healthMonitor.counterThreshold, HostJsonValueType.number, 0, 1)
+        );
+
+        const singleton: ISingletonSettings = this.singleton;
+        for (const key of Object.keys(singleton)) {
+            problems.push(validateHostJsonValue(key, singleton[key], HostJsonValueType.timeSpan));
+        }
+
+        return <string[]>problems.filter(p => p !== undefined);
+    }
+}
+
+class ParsedHostJsonV2 extends ParsedHostJsonBase<IHostJsonV2> {
+    protected runtime: ProjectRuntime = ProjectRuntime.v2;
+    protected unsupportedProperties: string[] = v1OnlyProperties;
+
     public get routePrefix(): string {
         // NOTE: Explicitly checking against undefined (an empty string _is_ a valid route prefix)
         if (this.data.extensions && this.data.extensions.http && this.data.extensions.http.routePrefix !== undefined) {
@@ -54,20 +272,64 @@ class ParsedHostJsonV2 implements IParsedHostJson {
             return defaultRoutePrefix;
         }
     }
-}
 
-class ParsedHostJsonV1 implements IParsedHostJson {
-    public data: IHostJsonV1;
+    public get functionTimeout(): string | undefined {
+        return this.data.functionTimeout;
+    }
 
-    // tslint:disable-next-line:no-any
-    public constructor(data: any) {
-        // tslint:disable-next-line:no-unsafe-any
-        if (typeof data === 'object' && data !== null) {
-            this.data = <IHostJsonV1>data;
-        } else {
-            this.data = {};
+    public get logLevels(): { [category: string]: string | undefined } {
+        // tslint:disable-next-line: strict-boolean-expressions
+        return (this.data.logging && this.data.logging.logLevel) || {};
+    }
+
+    public get samplingSettings(): ISamplingSettings {
+        // tslint:disable-next-line: strict-boolean-expressions
+        return (this.data.logging && this.data.logging.applicationInsights && this.data.logging.applicationInsights.samplingSettings) || {};
+    }
+
+    public get queues(): IQueuesSettings {
+        // tslint:disable-next-line: strict-boolean-expressions
+        return (this.data.extensions && this.data.extensions.queues) || {};
+    }
+
+    public get serviceBus(): IServiceBusSettings {
+        // tslint:disable-next-line: strict-boolean-expressions
+        const serviceBus: NonNullable<NonNullable<IHostJsonV2['extensions']>['serviceBus']> = (this.data.extensions && this.data.extensions.serviceBus) || {};
+        // tslint:disable-next-line: strict-boolean-expressions
+        const options: NonNullable<typeof serviceBus.messageHandlerOptions> = serviceBus.messageHandlerOptions || {};
+        return { prefetchCount: serviceBus.prefetchCount, maxConcurrentCalls: options.maxConcurrentCalls, maxAutoRenewDuration: options.maxAutoRenewDuration };
+    }
+
+    public get eventHubs(): IEventHubsSettings {
+        // tslint:disable-next-line: strict-boolean-expressions
+        const eventHubs: NonNullable<NonNullable<IHostJsonV2['extensions']>['eventHubs']> = (this.data.extensions && this.data.extensions.eventHubs) || {};
+        // tslint:disable-next-line: strict-boolean-expressions
+        const options: NonNullable<typeof eventHubs.eventProcessorOptions> = eventHubs.eventProcessorOptions || {};
+        return { maxBatchSize: options.maxBatchSize, prefetchCount: options.prefetchCount, batchCheckpointFrequency: eventHubs.batchCheckpointFrequency };
+    }
+
+    public get healthMonitor(): IHealthMonitorSettings {
+        // tslint:disable-next-line: strict-boolean-expressions
+        return this.data.healthMonitor || {};
+    }
+
+    public get singleton(): ISingletonSettings {
+        // tslint:disable-next-line: strict-boolean-expressions
+        return this.data.singleton || {};
+    }
+
+    public validate(): string[] {
+        const problems: string[] = super.validate();
+        if (this.data.version !== '2.0') {
+            problems.unshift(localize('invalidVersion', 'Property "{0}" must be "{1}" for runtime "{2}".', 'version', '2.0', this.runtime));
         }
+        return problems;
     }
+}
+
+class ParsedHostJsonV1 extends ParsedHostJsonBase<IHostJsonV1> {
+    protected runtime: ProjectRuntime = ProjectRuntime.v1;
+    protected unsupportedProperties: string[] = v2OnlyProperties;
 
     public get routePrefix(): string {
         // NOTE: Explicitly checking against undefined (an empty string _is_ a valid route prefix)
@@ -77,9 +339,92 @@ class ParsedHostJsonV1 implements IParsedHostJson {
             return defaultRoutePrefix;
         }
     }
+
+    public get functionTimeout(): string | undefined {
+        return this.data.functionTimeout;
+    }
+
+    public get logLevels(): { [category: string]: string | undefined } {
+        const categoryFilter: NonNullable<NonNullable<IHostJsonV1['logger']>['categoryFilter']> | undefined = this.data.logger && this.data.logger.categoryFilter;
+        if (categoryFilter) {
+            const result: { [category: string]: string | undefined } = { ...categoryFilter.categoryLevels };
+            if (categoryFilter.defaultLevel !== undefined) {
+                result[defaultLogCategory] = categoryFilter.defaultLevel;
+            }
+            return result;
+        } else {
+            return {};
+        }
+    }
+
+    public get samplingSettings(): ISamplingSettings {
+        // tslint:disable-next-line: strict-boolean-expressions
+        return (this.data.applicationInsights && this.data.applicationInsights.sampling) || {};
+    }
+
+    public get queues(): IQueuesSettings {
+        // tslint:disable-next-line: strict-boolean-expressions
+        return this.data.queues || {};
+    }
+
+    public get serviceBus(): IServiceBusSettings {
+        // tslint:disable-next-line: strict-boolean-expressions
+        const serviceBus: NonNullable<IHostJsonV1['serviceBus']> = this.data.serviceBus || {};
+        return { prefetchCount: serviceBus.prefetchCount, maxConcurrentCalls: serviceBus.maxConcurrentCalls, maxAutoRenewDuration: serviceBus.autoRenewTimeout };
+    }
+
+    public get eventHubs(): IEventHubsSettings {
+        // tslint:disable-next-line: strict-boolean-expressions
+        return this.data.eventHub || {};
+    }
+
+    public get healthMonitor(): IHealthMonitorSettings {
+        // tslint:disable-next-line: strict-boolean-expressions
+        return this.data.healthMonitor || {};
+    }
+
+    public get singleton(): ISingletonSettings {
+        // tslint:disable-next-line: strict-boolean-expressions
+        return this.data.singleton || {};
+    }
 }
 
 // tslint:disable-next-line:no-any
 export function parseHostJson(data: any, runtime: ProjectRuntime | undefined): IParsedHostJson {
     return runtime === ProjectRuntime.v1 ? new ParsedHostJsonV1(data) : new ParsedHostJsonV2(data);
 }
+
+export interface IHostJsonDisplayValue {
+    name: string;
+    value: string;
+}
+
+/**
+ * Returns the values that are set (plus the route prefix, which always has a value), named by their section like "queues.batchSize" regardless of the runtime
+ */
+export function getHostJsonDisplayValues(hostJson: IParsedHostJson): IHostJsonDisplayValue[] {
+    const result: IHostJsonDisplayValue[] = [{ name: 'routePrefix', value: hostJson.routePrefix }];
+    if (hostJson.functionTimeout !== undefined) {
+        result.push({ name: 'functionTimeout', value: hostJson.functionTimeout });
+    }
+
+    const sections: [string, {}][] = [
+        ['logLevel', hostJson.logLevels],
+        ['samplingSettings', hostJson.samplingSettings],
+        ['queues', hostJson.queues],
+        ['serviceBus', hostJson.serviceBus],
+        ['eventHubs', hostJson.eventHubs],
+        ['healthMonitor', hostJson.healthMonitor],
+        ['singleton', hostJson.singleton]
+    ];
+    for (const [sectionName, section] of sections) {
+        for (const key of Object.keys(section)) {
+            const value: {} | undefined = <{} | undefined>section[key];
+            if (value !== undefined && value !== null) {
+                result.push({ name: `${sectionName}.${key}`, value: typeof value === 'object' ? JSON.stringify(value) : String(value) });
+            }
+        }
+    }
+
+    return result;
+}
@@ -7,17 +7,31 @@ import * as fse from 'fs-extra';
 import * as path from 'path';
 import * as vscode from 'vscode';
 import { DialogResponses, parseError } from 'vscode-azureextensionui';
-import { localSettingsFileName } from '../constants';
+import { funcignoreFileName, gitignoreFileName, localSettingsFileName, localSettingsProfileSetting } from '../constants';
 import { ext } from '../extensionVariables';
 import { localize } from '../localize';
 import * as fsUtil from '../utils/fs';
+import { getWorkspaceSetting } from '../vsCodeConfig/settings';
 
 export interface ILocalSettingsJson {
     IsEncrypted?: boolean;
     Values?: { [key: string]: string };
+    Host?: ILocalSettingsHost;
     ConnectionStrings?: { [key: string]: string };
 }
 
+/**
+ * The "Host" section read by the func cli when running the host locally
+ */
+export interface ILocalSettingsHost {
+    LocalHttpPort?: number;
+    /**
+     * A comma-separated list of allowed origins, e.g. "http://localhost:8080,https://contoso.com"
+     */
+    CORS?: string;
+    CORSCredentials?: boolean;
+}
+
 export const azureWebJobsStorageKey: string = 'AzureWebJobsStorage';
 
 export async function getAzureWebJobsStorage(projectPath: string): Promise<string | undefined> {
@@ -26,10 +40,28 @@ export async function getAzureWebJobsStorage(projectPath: string): Promise<strin
         return process.env[azureWebJobsStorageKey];
     }
 
-    const settings: ILocalSettingsJson = await getLocalSettingsJson(path.join(projectPath, localSettingsFileName));
+    const settings: ILocalSettingsJson = await getEffectiveLocalSettingsJson(projectPath);
+    // Mimics the func host, where "ConnectionStrings" takes precedence over "Values"
+    if (settings.ConnectionStrings && settings.ConnectionStrings[azureWebJobsStorageKey]) {
+        return settings.ConnectionStrings[azureWebJobsStorageKey];
+    }
+
     return settings.Values && settings.Values[azureWebJobsStorageKey];
 }
 
+/**
+ * Returns all connection strings in the local settings, keyed by name. This includes "AzureWebJobsStorage" and any "ConnectionStrings"
+ */
+export async function getLocalConnectionStrings(projectPath: string): Promise<{ [key: string]: string }> {
+    const settings: ILocalSettingsJson = await getEffectiveLocalSettingsJson(projectPath);
+    const result: { [key: string]: string } = { ...settings.ConnectionStrings };
+    const azureWebJobsStorage: string | undefined = await getAzureWebJobsStorage(projectPath);
+    if (azureWebJobsStorage) {
+        result[azureWebJobsStorageKey] = azureWebJobsStorage;
+    }
+    return result;
+}
+
 export async function setLocalAppSetting(functionAppPath: string, key: string, value: string, suppressPrompt: boolean = false): Promise<void> {
     const localSettingsPath: string = path.join(functionAppPath, localSettingsFileName);
     const settings: ILocalSettingsJson = await getLocalSettingsJson(localSettingsPath);
@@ -74,3 +106,131 @@ export async function getLocalSettingsJson(localSettingsPath: string, allowOverw
         Values: {}
     };
 }
+
+/**
+ * Matches the file names of all profiles. Profiles contain secrets just like "local.settings.json", so they should be excluded from source control and deployment
+ */
+export const localSettingsProfilePattern: string = 'local.settings.*.json';
+
+/**
+ * Adds the profile pattern to the project's ".gitignore" and ".funcignore" (if they exist), which is needed for projects created before profiles were supported
+ */
+export async function addLocalSettingsProfileIgnorePatterns(projectPath: string): Promise<void> {
+    for (const fileName of [gitignoreFileName, funcignoreFileName]) {
+        const filePath: string = path.join(projectPath, fileName);
+        if (await fse.pathExists(filePath)) {
+            const contents: string = (await fse.readFile(filePath)).toString();
+            if (!contents.split(/\r?\n/).some(line => line.trim() === localSettingsProfilePattern)) {
+                const eol: string = contents.indexOf('\r\n') !== -1 ? '\r\n' : '\n';
+                const separator: string = contents && !contents.endsWith('\n') ? eol : '';
+                await fse.writeFile(filePath, `${contents}${separator}${localSettingsProfilePattern}${eol}`);
+                ext.outputChannel.appendLine(localize('addedProfileIgnore', 'Added "{0}" to "{1}".', localSettingsProfilePattern, filePath));
+            }
+        }
+    }
+}
+
+export function getLocalSettingsProfileFileName(profile: string): string {
+    return `local.settings.${profile}.json`;
+}
+
+/**
+ * Returns the names of the profiles in the project, based on files named like "local.settings.<profile>.json"
+ */
+export async function getLocalSettingsProfiles(projectPath: string): Promise<string[]> {
+    const result: string[] = [];
+    for (const fileName of await fse.readdir(projectPath)) {
+        const matches: RegExpMatchArray | null = fileName.match(/^local\.settings\.(.+)\.json$/i);
+        if (matches) {
+            result.push(matches[1]);
+        }
+    }
+    return result.sort();
+}
+
+export function getActiveLocalSettingsProfile(projectPath: string): string | undefined {
+    // tslint:disable-next-line: strict-boolean-expressions
+    return getWorkspaceSetting<string>(localSettingsProfileSetting, projectPath) || undefined;
+}
+
+/**
+ * Overlays the "Values" and "ConnectionStrings" sections of a profile on top of the base local settings
+ * Profiles are applied to the func host as environment variables, which can't change the "Host" section, so it always comes from the base local settings
+ */
+export function mergeLocalSettings(base: ILocalSettingsJson, profile: ILocalSettingsJson): ILocalSettingsJson {
+    const result: ILocalSettingsJson = {
+        IsEncrypted: !!base.IsEncrypted || !!profile.IsEncrypted,
+        Values: { ...base.Values, ...profile.Values },
+        ConnectionStrings: { ...base.ConnectionStrings, ...profile.ConnectionStrings }
+    };
+    if (base.Host) {
+        result.Host = base.Host;
+    }
+    return result;
+}
+
+/**
+ * Returns the local settings with the active profile (if any) applied
+ */
+export async function getEffectiveLocalSettingsJson(projectPath: string): Promise<ILocalSettingsJson> {
+    const settings: ILocalSettingsJson = await getLocalSettingsJson(path.join(projectPath, localSettingsFileName));
+    const profileSettings: ILocalSettingsJson | undefined = await getActiveProfileSettingsJson(projectPath);
+    return profileSettings ? mergeLocalSettings(settings, profileSettings) : settings;
+}
+
+/**
+ * Returns the environment variables needed to apply the active profile when running the func host, or undefined if there is no active profile
+ * The func cli gives precedence to environment variables over "local.settings.json", so only the profile needs to be provided if the base file is encrypted
+ */
+export async function getLocalSettingsProfileEnv(projectPath: string): Promise<{ [key: string]: string } | undefined> {
+    const profileSettings: ILocalSettingsJson | undefined = await getActiveProfileSettingsJson(projectPath);
+    if (!profileSettings) {
+        return undefined;
+    }
+
+    const baseSettings: ILocalSettingsJson = await getLocalSettingsJson(path.join(projectPath, localSettingsFileName));
+    const settings: ILocalSettingsJson = baseSettings.IsEncrypted ? profileSettings : mergeLocalSettings(baseSettings, profileSettings);
+    const env: { [key: string]: string } = { ...settings.Values };
+    // tslint:disable-next-line: strict-boolean-expressions
+    const connectionStrings: { [key: string]: string } = settings.ConnectionStrings || {};
+    for (const key of Object.keys(connectionStrings)) {
+        env[`ConnectionStrings__${key}`] = connectionStrings[key];
+    }
+    return env;
+}
+
+const warnedMissingProfilePaths: string[] = [];
+const warnedProfileHostPaths: string[] = [];
+
+async function getActiveProfileSettingsJson(projectPath: string): Promise<ILocalSettingsJson | undefined> {
+    const profile: string | undefined = getActiveLocalSettingsProfile(projectPath);
+    if (profile === undefined) {
+        return undefined;
+    }
+
+    const profileFileName: string = getLocalSettingsProfileFileName(profile);
+    const profilePath: string = path.join(projectPath, profileFileName);
+    if (!await fse.pathExists(profilePath)) {
+        // Fall back to the base settings so that the host start task and debugging still work if the profile was deleted
+        if (warnedMissingProfilePaths.indexOf(profilePath) === -1) {
+            warnedMissingProfilePaths.push(profilePath);
+            const message: string = localize('profileNotFound', 'Failed to find "{0}" for the active local settings profile "{1}". Using "{2}" instead.', profileFileName, profile, localSettingsFileName);
+            ext.outputChannel.appendLine(message);
+            // don't wait
+            vscode.window.showWarningMessage(message);
+        }
+        return undefined;
+    }
+
+    const profileSettings: ILocalSettingsJson = await getLocalSettingsJson(profilePath);
+    if (profileSettings.IsEncrypted) {
+        throw new Error(localize('profileEncrypted', 'Local settings profile "{0}" is encrypted. Profiles must be decrypted to be used.', profile));
+    }
+
+    if (profileSettings.Host && warnedProfileHostPaths.indexOf(profilePath) === -1) {
+        warnedProfileHostPaths.push(profilePath);
+        ext.outputChannel.appendLine(localize('profileHostIgnored', 'Ignoring the "Host" section of "{0}". Profiles only apply "Values" and "ConnectionStrings", so "Host" settings must be set in "{1}".', profileFileName, localSettingsFileName));
+    }
+
+    return profileSettings;
+}
@@ -0,0 +1,81 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { IActionContext, registerEvent } from 'vscode-azureextensionui';
+import { tryGetFunctionProjectRoot } from '../commands/createNewProject/verifyIsProject';
+import { extensionPrefix, localSettingsProfileSetting } from '../constants';
+import { ext } from '../extensionVariables';
+import { localize } from '../localize';
+import { getActiveLocalSettingsProfile, getLocalSettingsProfiles } from './local.settings';
+
+export const selectLocalSettingsProfileCommandId: string = 'azureFunctions.selectLocalSettingsProfile';
+
+let statusBarItem: vscode.StatusBarItem;
+let statusBarProjectPath: string | undefined;
+
+/**
+ * Returns the project currently shown in the status bar, if any
+ */
+export function getStatusBarProjectPath(): string | undefined {
+    return statusBarProjectPath;
+}
+
+export function registerLocalSettingsProfileStatusBar(): void {
+    statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
+    statusBarItem.command = selectLocalSettingsProfileCommandId;
+    statusBarItem.tooltip = localize('selectProfileTooltip', 'Select the local settings profile used by the Functions host');
+    ext.context.subscriptions.push(statusBarItem);
+
+    const watcher: vscode.FileSystemWatcher = vscode.workspace.createFileSystemWatcher('**/local.settings.*.json');
+    ext.context.subscriptions.push(watcher);
+    registerStatusBarEvent('azureFunctions.onDidCreateLocalSettingsProfile', watcher.onDidCreate);
+    registerStatusBarEvent('azureFunctions.onDidDeleteLocalSettingsProfile', watcher.onDidDelete);
+    registerStatusBarEvent('azureFunctions.onDidChangeActiveEditorForProfile', vscode.window.onDidChangeActiveTextEditor);
+    registerStatusBarEvent('azureFunctions.onDidChangeWorkspaceFoldersForProfile', vscode.workspace.onDidChangeWorkspaceFolders);
+    registerEvent('azureFunctions.onDidChangeLocalSettingsProfile', vscode.workspace.onDidChangeConfiguration, async function (this: IActionContext, e: vscode.ConfigurationChangeEvent): Promise<void> {
+        this.suppressErrorDisplay = true;
+        this.suppressTelemetry = true;
+        if (e.affectsConfiguration(`${extensionPrefix}.${localSettingsProfileSetting}`)) {
+            await updateStatusBar();
+        }
+    });
+
+    // tslint:disable-next-line: no-floating-promises
+    updateStatusBar();
+}
+
+function registerStatusBarEvent<T>(eventId: string, event: vscode.Event<T>): void {
+    registerEvent(eventId, event, async function (this: IActionContext): Promise<void> {
+        this.suppressErrorDisplay = true;
+        this.suppressTelemetry = true;
+        await updateStatusBar();
+    });
+}
+
+/**
+ * Shows the active profile for the project in the folder of the active editor (or the first folder if there is no active editor)
+ * The item is only shown if the project has at least one profile or a profile is selected
+ */
+async function updateStatusBar(): Promise<void> {
+    const editor: vscode.TextEditor | undefined = vscode.window.activeTextEditor;
+    let folder: vscode.WorkspaceFolder | undefined = editor && vscode.workspace.getWorkspaceFolder(editor.document.uri);
+    if (!folder && vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
+        folder = vscode.workspace.workspaceFolders[0];
+    }
+
+    statusBarProjectPath = folder ? await tryGetFunctionProjectRoot(folder.uri.fsPath, true /* suppressPrompt */) : undefined;
+    if (statusBarProjectPath) {
+        const profile: string | undefined = getActiveLocalSettingsProfile(statusBarProjectPath);
+        if (profile !== undefined || (await getLocalSettingsProfiles(statusBarProjectPath)).length > 0) {
+            // tslint:disable-next-line: strict-boolean-expressions
+            statusBarItem.text = `$(gear) ${profile || localize('defaultProfile', 'Default settings')}`;
+            statusBarItem.show();
+            return;
+        }
+    }
+
+    statusBarItem.hide();
+}
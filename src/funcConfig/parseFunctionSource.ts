@@ -0,0 +1,424 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IFunctionBinding, IFunctionJson } from './function';
+
+/**
+ * A function defined in source code (rather than a 'function.json' file), along with the bindings we were able to detect from its attributes/annotations
+ */
+export interface ISourceFunction {
+    name: string;
+    functionJson: IFunctionJson;
+}
+
+interface IAttribute {
+    name: string;
+    args: string[];
+    namedArgs: { [key: string]: string };
+}
+
+/**
+ * C# attributes that take the setting as the first positional argument, e.g. [QueueTrigger("myqueue")]
+ * The key is the binding type after converting the attribute name to camel case
+ */
+const positionalSettings: { [bindingType: string]: string } = {
+    blob: 'path',
+    blobTrigger: 'path',
+    cosmosDB: 'databaseName',
+    cosmosDBTrigger: 'databaseName',
+    eventGridTrigger: 'topicEndpointUri',
+    eventHub: 'eventHubName',
+    eventHubTrigger: 'eventHubName',
+    queue: 'queueName',
+    queueTrigger: 'queueName',
+    serviceBus: 'queueName',
+    serviceBusTrigger: 'queueName',
+    table: 'tableName',
+    timerTrigger: 'schedule'
+};
+
+/**
+ * Java annotations that aren't bindings themselves, but can be placed on a binding parameter
+ */
+const javaNonBindingAnnotations: string[] = ['BindingName', 'StorageAccount', 'Singleton', 'Override'];
+
+/**
+ * Finds all methods marked with the [FunctionName("...")] attribute in a C# file
+ */
+export function parseCSharpFunctions(source: string): ISourceFunction[] {
+    source = stripComments(source);
+    const result: ISourceFunction[] = [];
+    const regExp: RegExp = /\[\s*FunctionName\s*\(\s*@?"([^"]+)"\s*\)\s*\]/g;
+    let match: RegExpExecArray | null = regExp.exec(source);
+    while (match) {
+        const bindings: IFunctionBinding[] = [];
+        const paramsStart: number = findOutsideBrackets(source, '(', match.index + match[0].length);
+        if (paramsStart >= 0) {
+            // Return value attributes look like [return: Queue("myqueue")] and are placed between the function name and the parameters
+            const header: string = source.slice(match.index + match[0].length, paramsStart);
+            const returnRegExp: RegExp = /\[\s*return\s*:/g;
+            let returnMatch: RegExpExecArray | null = returnRegExp.exec(header);
+            while (returnMatch) {
+                const closeIndex: number = findClosing(header, returnMatch.index);
+                for (const attribute of parseCSharpAttributes(header.slice(returnMatch.index + returnMatch[0].length, closeIndex))) {
+                    bindings.push(convertCSharpAttribute(attribute, '$return', true));
+                }
+                returnMatch = returnRegExp.exec(header);
+            }
+
+            const paramsEnd: number = findClosing(source, paramsStart);
+            for (const param of splitTopLevel(source.slice(paramsStart + 1, paramsEnd), ',')) {
+                bindings.push(...parseCSharpParameter(param));
+            }
+        }
+
+        result.push({ name: match[1], functionJson: { bindings } });
+        match = regExp.exec(source);
+    }
+
+    return result;
+}
+
+/**
+ * Finds all methods marked with the @FunctionName("...") annotation in a Java file
+ */
+export function parseJavaFunctions(source: string): ISourceFunction[] {
+    source = stripComments(source);
+    const result: ISourceFunction[] = [];
+    const regExp: RegExp = /@FunctionName\s*\(\s*"([^"]+)"\s*\)/g;
+    let match: RegExpExecArray | null = regExp.exec(source);
+    while (match) {
+        const bindings: IFunctionBinding[] = [];
+        const headerStart: number = match.index + match[0].length;
+        const paramsStart: number = findOutsideBrackets(source, '(', headerStart, /@\w+(\.\w+)*\s*$/);
+        if (paramsStart >= 0) {
+            // Annotations on the method itself (other than FunctionName) describe the return value
+            for (const annotation of parseJavaAnnotations(source.slice(headerStart, paramsStart))[0]) {
+                if (javaNonBindingAnnotations.indexOf(annotation.name) === -1) {
+                    bindings.push(convertJavaAnnotation(annotation, '$return'));
+                }
+            }
+
+            const paramsEnd: number = findClosing(source, paramsStart);
+            for (const param of splitTopLevel(source.slice(paramsStart + 1, paramsEnd), ',')) {
+                const [annotations, rest]: [IAttribute[], string] = parseJavaAnnotations(param);
+                const paramName: string = getLastIdentifier(rest);
+                for (const annotation of annotations) {
+                    if (javaNonBindingAnnotations.indexOf(annotation.name) === -1) {
+                        bindings.push(convertJavaAnnotation(annotation, paramName));
+                    }
+                }
+            }
+        }
+
+        result.push({ name: match[1], functionJson: { bindings } });
+        match = regExp.exec(source);
+    }
+
+    return result;
+}
+
+function parseCSharpParameter(param: string): IFunctionBinding[] {
+    const attributes: IAttribute[] = [];
+    param = param.trim();
+    while (param.startsWith('[')) {
+        const closeIndex: number = findClosing(param, 0);
+        attributes.push(...parseCSharpAttributes(param.slice(1, closeIndex)));
+        param = param.slice(closeIndex + 1).trim();
+    }
+
+    const isOut: boolean = /^out\s/.test(param) || /^I(Async)?Collector\b/.test(param);
+    const paramName: string = getLastIdentifier(param);
+    return attributes.map(a => convertCSharpAttribute(a, paramName, isOut));
+}
+
+/**
+ * Parses the contents of a C# attribute section (the text between '[' and ']'), which may contain multiple attributes
+ */
+function parseCSharpAttributes(section: string): IAttribute[] {
+    const result: IAttribute[] = [];
+    for (const attributeText of splitTopLevel(section, ',')) {
+        const match: RegExpMatchArray | null = attributeText.trim().match(/^([\w.]+)\s*(\(([\s\S]*)\))?$/);
+        if (match) {
+            const name: string = getLastSegment(match[1]).replace(/Attribute$/, '');
+            result.push(parseAttributeArgs(name, match[3]));
+        }
+    }
+    return result;
+}
+
+/**
+ * Parses any leading annotations and returns them along with the remaining text
+ */
+function parseJavaAnnotations(text: string): [IAttribute[], string] {
+    const result: IAttribute[] = [];
+    text = text.trim();
+    let match: RegExpMatchArray | null = text.match(/^@([\w.]+)\s*/);
+    while (match) {
+        const name: string = getLastSegment(match[1]);
+        text = text.slice(match[0].length);
+        let argsText: string | undefined;
+        if (text.startsWith('(')) {
+            const closeIndex: number = findClosing(text, 0);
+            argsText = text.slice(1, closeIndex);
+            text = text.slice(closeIndex + 1);
+        }
+
+        result.push(parseAttributeArgs(name, argsText));
+        text = text.trim();
+        match = text.match(/^@([\w.]+)\s*/);
+    }
+
+    return [result, text];
+}
+
+function parseAttributeArgs(name: string, argsText: string | undefined): IAttribute {
+    const attribute: IAttribute = { name, args: [], namedArgs: {} };
+    if (argsText) {
+        for (const arg of splitTopLevel(argsText, ',')) {
+            const namedMatch: RegExpMatchArray | null = arg.trim().match(/^(\w+)\s*=(?!=)\s*([\s\S]*)$/);
+            if (namedMatch) {
+                attribute.namedArgs[namedMatch[1]] = parseValue(namedMatch[2]);
+            } else if (arg.trim()) {
+                attribute.args.push(parseValue(arg));
+            }
+        }
+    }
+    return attribute;
+}
+
+function convertCSharpAttribute(attribute: IAttribute, paramName: string, isOut: boolean): IFunctionBinding {
+    const bindingType: string = toCamelCase(attribute.name);
+    const binding: IFunctionBinding = { type: bindingType, name: paramName };
+    const isTrigger: boolean = /trigger$/i.test(bindingType);
+    const allArgs: string[] = attribute.args.concat(Object.keys(attribute.namedArgs).map(k => attribute.namedArgs[k]));
+    if (isTrigger) {
+        binding.direction = 'in';
+    } else if (isOut || allArgs.indexOf('Write') !== -1) {
+        binding.direction = 'out';
+    } else if (allArgs.indexOf('ReadWrite') !== -1) {
+        binding.direction = 'inout';
+    } else {
+        binding.direction = 'in';
+    }
+
+    const positionalSetting: string | undefined = positionalSettings[bindingType];
+    const firstArg: string | undefined = attribute.args[0];
+    if (positionalSetting && firstArg !== undefined && attribute.namedArgs[positionalSetting] === undefined) {
+        binding[positionalSetting] = firstArg;
+    }
+
+    for (const arg of attribute.args) {
+        if (/^(anonymous|function|admin|user|system)$/i.test(arg) && bindingType === 'httpTrigger') {
+            binding.authLevel = arg.toLowerCase();
+        }
+    }
+
+    addNamedArgs(binding, attribute);
+    return binding;
+}
+
+function convertJavaAnnotation(annotation: IAttribute, paramName: string): IFunctionBinding {
+    let direction: string = 'in';
+    let typeName: string = annotation.name;
+    if (/Output$/.test(typeName)) {
+        direction = 'out';
+        typeName = typeName.replace(/Output$/, '');
+    } else {
+        typeName = typeName.replace(/Input$/, '');
+    }
+
+    const binding: IFunctionBinding = { type: toCamelCase(typeName), direction, name: paramName };
+    addNamedArgs(binding, annotation);
+    if (binding.authLevel) {
+        binding.authLevel = binding.authLevel.toLowerCase();
+    }
+    return binding;
+}
+
+function addNamedArgs(binding: IFunctionBinding, attribute: IAttribute): void {
+    for (const key of Object.keys(attribute.namedArgs)) {
+        const value: string = attribute.namedArgs[key];
+        // Skip null values and arrays (e.g. the http methods), which can't be represented as a string setting
+        if (value !== 'null' && !value.startsWith('{')) {
+            binding[toCamelCase(key)] = value;
+        }
+    }
+}
+
+/**
+ * Converts string literals to their contents and enum values (e.g. 'AuthorizationLevel.Anonymous') to just the member name
+ */
+function parseValue(value: string): string {
+    value = value.trim();
+    const stringMatch: RegExpMatchArray | null = value.match(/^@?"([\s\S]*)"$/);
+    if (stringMatch) {
+        return stringMatch[1];
+    } else if (/^[\w.]+$/.test(value)) {
+        return getLastSegment(value);
+    } else {
+        return value;
+    }
+}
+
+function toCamelCase(value: string): string {
+    return value.charAt(0).toLowerCase() + value.slice(1);
+}
+
+function getLastSegment(value: string): string {
+    const segments: string[] = value.split('.');
+    return segments[segments.length - 1];
+}
+
+function getLastIdentifier(text: string): string {
+    // Remove default values, e.g. "string name = null"
+    text = text.replace(/=[\s\S]*$/, '').trim();
+    const match: RegExpMatchArray | null = text.match(/(\w+)$/);
+    return match ? match[1] : text;
+}
+
+const quotes: string = '"\'';
+
+/**
+ * Matches a C#, F#, or Java char literal, e.g. 'a', '"', '\'', or '\u0041'
+ */
+const charLiteralRegExp: RegExp = /'(?:[^'\\\r\n]|\\(?:u[0-9a-fA-F]{4}|x[0-9a-fA-F]{1,4}|.))'/y;
+
+/**
+ * Removes line and block comments, ignoring anything that looks like a comment inside of a string
+ */
+function stripComments(source: string): string {
+    let result: string = '';
+    let i: number = 0;
+    while (i < source.length) {
+        if (quotes.includes(source[i])) {
+            const end: number = skipString(source, i);
+            result += source.slice(i, end);
+            i = end;
+        } else if (source.startsWith('//', i)) {
+            const end: number = source.indexOf('\n', i);
+            i = end < 0 ? source.length : end;
+        } else if (source.startsWith('/*', i)) {
+            const end: number = source.indexOf('*/', i + 2);
+            i = end < 0 ? source.length : end + 2;
+        } else {
+            result += source[i];
+            i += 1;
+        }
+    }
+    return result;
+}
+
+/**
+ * Returns the index right after the string or char literal that starts at the specified index
+ * A single quote that doesn't start a char literal (e.g. an F# type parameter like 'T) is skipped by itself
+ */
+function skipString(text: string, index: number): number {
+    if (text[index] === '\'') {
+        charLiteralRegExp.lastIndex = index;
+        const match: RegExpExecArray | null = charLiteralRegExp.exec(text);
+        return match ? index + match[0].length : index + 1;
+    }
+
+    const isVerbatim: boolean = index > 0 && text[index - 1] === '@';
+    let i: number = index + 1;
+    while (i < text.length) {
+        if (text[i] === '\\' && !isVerbatim) {
+            i += 2;
+        } else if (text[i] === '"') {
+            return i + 1;
+        } else {
+            i += 1;
+        }
+    }
+    return text.length;
+}
+
+const openBrackets: string = '([{<';
+const closeBrackets: string = ')]}>';
+
+/**
+ * Returns the index of the bracket that closes the bracket at the specified index
+ */
+function findClosing(text: string, openIndex: number): number {
+    let depth: number = 0;
+    let i: number = openIndex;
+    while (i < text.length) {
+        const c: string = text[i];
+        if (quotes.includes(c)) {
+            i = skipString(text, i);
+            continue;
+        } else if ('([{'.includes(c)) {
+            depth += 1;
+        } else if (')]}'.includes(c)) {
+            depth -= 1;
+            if (depth === 0) {
+                return i;
+            }
+        }
+        i += 1;
+    }
+    return text.length;
+}
+
+/**
+ * Returns the index of the first occurrence of `char` that isn't inside of brackets or a string
+ * @param skipIfPreceding Optionally skip a match if the text before it matches this expression (for example a Java annotation's arguments)
+ */
+function findOutsideBrackets(text: string, char: string, startIndex: number, skipIfPreceding?: RegExp): number {
+    let i: number = startIndex;
+    while (i < text.length) {
+        const c: string = text[i];
+        if (quotes.includes(c)) {
+            i = skipString(text, i);
+            continue;
+        } else if (c === char && !(skipIfPreceding && skipIfPreceding.test(text.slice(startIndex, i)))) {
+            return i;
+        } else if ('([{'.includes(c)) {
+            i = findClosing(text, i) + 1;
+            continue;
+        } else if (c === ';' || c === '}') {
+            // Reached the end of a statement without finding the method's parameters
+            return -1;
+        }
+        i += 1;
+    }
+    return -1;
+}
+
+/**
+ * Splits the text by a separator, ignoring separators inside of brackets (including generics) or strings
+ */
+function splitTopLevel(text: string, separator: string): string[] {
+    const result: string[] = [];
+    let depth: number = 0;
+    let current: string = '';
+    let i: number = 0;
+    while (i < text.length) {
+        const c: string = text[i];
+        if (quotes.includes(c)) {
+            const end: number = skipString(text, i);
+            current += text.slice(i, end);
+            i = end;
+            continue;
+        } else if (openBrackets.includes(c)) {
+            depth += 1;
+        } else if (closeBrackets.includes(c)) {
+            depth -= 1;
+        } else if (c === separator && depth === 0) {
+            result.push(current);
+            current = '';
+            i += 1;
+            continue;
+        }
+        current += c;
+        i += 1;
+    }
+
+    if (current.trim()) {
+        result.push(current);
+    }
+    return result;
+}
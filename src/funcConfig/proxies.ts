@@ -0,0 +1,27 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+/**
+ * The contents of a 'proxies.json' file
+ * https://docs.microsoft.com/azure/azure-functions/functions-proxies
+ */
+export interface IProxiesJson {
+    $schema?: string;
+    proxies?: { [name: string]: IProxy };
+}
+
+export interface IProxy {
+    disabled?: boolean;
+    matchCondition?: {
+        route?: string;
+        methods?: string[];
+    };
+    backendUri?: string;
+    requestOverrides?: { [key: string]: string };
+    responseOverrides?: { [key: string]: string };
+}
+
+// tslint:disable-next-line:no-http-string
+export const proxiesJsonSchema: string = 'http://json.schemastore.org/proxies';
@@ -0,0 +1,138 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { localize } from '../localize';
+import { IBindingSetting, IBindingTemplate, ValueType } from '../templates/IBindingTemplate';
+import { IFunctionBinding } from './function';
+
+export interface IFunctionJsonProblem {
+    message: string;
+    /**
+     * The index of the binding with the problem. Undefined if the problem applies to the whole file
+     */
+    bindingIndex?: number;
+    /**
+     * The binding property with the problem, if any
+     */
+    property?: string;
+    /**
+     * Warnings are used for things that may be valid even though we don't recognize them (e.g. a binding type added in a newer version of the runtime)
+     */
+    isWarning?: boolean;
+}
+
+/**
+ * Unlike `ParsedFunctionJson`, this reports every problem with the data instead of silently ignoring it
+ * @param bindingTemplates Used to validate the type, direction, and settings of each binding. If empty, only the structure of the file is validated
+ */
+export function validateFunctionJson(data: unknown, bindingTemplates: IBindingTemplate[]): IFunctionJsonProblem[] {
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+        return [{ message: localize('expectedObject', 'Expected an object.') }];
+    }
+
+    const rawBindings: unknown = (<{ bindings?: unknown }>data).bindings;
+    if (rawBindings === undefined) {
+        return [{ message: localize('noBindings', 'Missing "bindings" property.') }];
+    } else if (!Array.isArray(rawBindings)) {
+        return [{ message: localize('bindingsNotArray', 'Property "bindings" must be an array.'), property: 'bindings' }];
+    }
+
+    const problems: IFunctionJsonProblem[] = [];
+    const bindings: unknown[] = <unknown[]>rawBindings;
+    const names: string[] = [];
+    let triggerCount: number = 0;
+    bindings.forEach((rawBinding: unknown, index: number) => {
+        if (typeof rawBinding !== 'object' || rawBinding === null || Array.isArray(rawBinding)) {
+            problems.push({ message: localize('bindingNotObject', 'Each binding must be an object.'), bindingIndex: index });
+            return;
+        }
+
+        const binding: IFunctionBinding = <IFunctionBinding>rawBinding;
+        if (binding.type && /trigger$/i.test(binding.type)) {
+            triggerCount += 1;
+            if (triggerCount > 1) {
+                problems.push({ message: localize('multipleTriggers', 'A function must have exactly one trigger, but found multiple.'), bindingIndex: index, property: 'type' });
+            }
+        }
+
+        if (binding.name) {
+            const name: string = binding.name.toLowerCase();
+            if (names.indexOf(name) !== -1) {
+                problems.push({ message: localize('duplicateName', 'Binding name "{0}" is used more than once.', binding.name), bindingIndex: index, property: 'name' });
+            } else {
+                names.push(name);
+            }
+        }
+
+        problems.push(...validateBinding(binding, index, bindingTemplates));
+    });
+
+    if (triggerCount === 0) {
+        problems.push({ message: localize('noTrigger', 'A function must have exactly one trigger, but none were found.'), property: 'bindings' });
+    }
+
+    return problems;
+}
+
+/**
+ * The binding templates use "trigger" as the direction of trigger bindings, but 'function.json' uses "in"
+ */
+export function getFunctionJsonDirection(template: IBindingTemplate): string {
+    return template.direction.toLowerCase() === 'trigger' ? 'in' : template.direction;
+}
+
+function validateBinding(binding: IFunctionBinding, index: number, bindingTemplates: IBindingTemplate[]): IFunctionJsonProblem[] {
+    if (!binding.type) {
+        return [{ message: localize('missingProperty', 'Missing required property "{0}".', 'type'), bindingIndex: index }];
+    }
+
+    const bindingType: string = binding.type.toLowerCase();
+    const templatesForType: IBindingTemplate[] = bindingTemplates.filter(b => b.type.toLowerCase() === bindingType);
+    if (bindingTemplates.length > 0 && templatesForType.length === 0) {
+        return [{ message: localize('unknownType', 'Unrecognized binding type "{0}".', binding.type), bindingIndex: index, property: 'type', isWarning: true }];
+    }
+
+    if (!binding.direction) {
+        return [{ message: localize('missingProperty', 'Missing required property "{0}".', 'direction'), bindingIndex: index }];
+    }
+
+    const direction: string = binding.direction.toLowerCase();
+    const template: IBindingTemplate | undefined = templatesForType.find(b => getFunctionJsonDirection(b).toLowerCase() === direction);
+    if (!template) {
+        if (templatesForType.length > 0) {
+            const validDirections: string = templatesForType.map(b => `"${getFunctionJsonDirection(b)}"`).join(', ');
+            return [{ message: localize('unknownDirection', 'Unrecognized direction "{0}" for binding type "{1}". Expected one of: {2}.', binding.direction, binding.type, validDirections), bindingIndex: index, property: 'direction', isWarning: true }];
+        } else {
+            return [];
+        }
+    }
+
+    const problems: IFunctionJsonProblem[] = [];
+    for (const setting of template.settings) {
+        const property: string | undefined = Object.keys(binding).find(k => k.toLowerCase() === setting.name.toLowerCase());
+        const rawValue: unknown = property === undefined ? undefined : binding[property];
+        if (rawValue === undefined || rawValue === null || rawValue === '') {
+            if (setting.required) {
+                problems.push({ message: localize('missingSetting', 'Missing required property "{0}" ({1}).', setting.name, setting.label), bindingIndex: index });
+            }
+        } else {
+            const error: string | undefined = validateSettingValue(setting, String(rawValue));
+            if (error) {
+                problems.push({ message: error, bindingIndex: index, property });
+            }
+        }
+    }
+
+    return problems;
+}
+
+function validateSettingValue(setting: IBindingSetting, value: string): string | undefined {
+    if (setting.valueType === ValueType.enum && setting.enums.length > 0 && !setting.enums.some(e => e.value.toLowerCase() === value.toLowerCase())) {
+        const validValues: string = setting.enums.map(e => `"${e.value}"`).join(', ');
+        return localize('invalidEnum', 'Unrecognized value "{0}" for property "{1}". Expected one of: {2}.', value, setting.name, validValues);
+    } else {
+        return setting.validateSetting(value);
+    }
+}
@@ -0,0 +1,73 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+// tslint:disable-next-line:no-require-imports
+import request = require('request-promise');
+import * as vscode from 'vscode';
+import { funcHostStartCommand } from '../constants';
+import { ext } from '../extensionVariables';
+import { localize } from '../localize';
+import { isPathEqual } from '../utils/fs';
+import { getFuncTaskCwd, isFuncHostRunning, isFuncHostTask } from './funcHostTask';
+
+const readyTimeoutInSeconds: number = 60;
+
+/**
+ * Offers to start the func host task if it's not already running, then waits until the host is ready to receive requests
+ * @param hostUrl The root url of the local host, e.g. 'http://localhost:7071'
+ */
+export async function ensureFuncHostIsRunning(folder: vscode.WorkspaceFolder, projectPath: string, hostUrl: string): Promise<void> {
+    if (!isFuncHostRunning(folder, projectPath)) {
+        const message: string = localize('hostNotRunning', 'The Functions host is not running. Start it now?');
+        const start: vscode.MessageItem = { title: localize('startHost', 'Start') };
+        // Start is the only button and cancel automatically throws, so no need to check result
+        await ext.ui.showWarningMessage(message, { modal: true }, start);
+
+        const tasks: vscode.Task[] = await vscode.tasks.fetchTasks();
+        const funcTasks: vscode.Task[] = tasks.filter(t => t.scope === folder && isFuncHostTask(t));
+        // Prefer the task for this project in case the folder has multiple projects
+        let funcTask: vscode.Task | undefined = funcTasks.find(t => isPathEqual(getFuncTaskCwd(t), projectPath));
+        if (!funcTask && funcTasks.length === 1) {
+            funcTask = funcTasks[0];
+        }
+
+        if (!funcTask) {
+            throw new Error(localize('noFuncTask', 'Failed to find "{0}" task.', funcHostStartCommand));
+        }
+
+        await vscode.tasks.executeTask(funcTask);
+    }
+
+    await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: localize('waitingForHost', 'Waiting for the Functions host to start...') }, async () => {
+        await waitForFuncHostReady(folder, projectPath, hostUrl);
+    });
+}
+
+async function waitForFuncHostReady(folder: vscode.WorkspaceFolder, projectPath: string, hostUrl: string): Promise<void> {
+    const maxTime: number = Date.now() + readyTimeoutInSeconds * 1000;
+    while (Date.now() < maxTime) {
+        try {
+            const response: string = await <Thenable<string>>request(`${hostUrl}/admin/host/status`);
+            const status: { state?: string } = <{ state?: string }>JSON.parse(response);
+            // Older versions of the host don't return a state, in which case any successful response means it's ready
+            if (!status.state || status.state.toLowerCase() === 'running') {
+                return;
+            }
+        } catch {
+            // ignore and try again until the timeout
+        }
+
+        await delay(1000);
+        if (!isFuncHostRunning(folder, projectPath)) {
+            throw new Error(localize('funcTaskStopped', 'Functions host is no longer running.'));
+        }
+    }
+
+    throw new Error(localize('hostNotReady', 'The Functions host was not ready within "{0}" seconds.', readyTimeoutInSeconds));
+}
+
+async function delay(ms: number): Promise<void> {
+    await new Promise<void>((resolve: () => void): NodeJS.Timer => setTimeout(resolve, ms));
+}
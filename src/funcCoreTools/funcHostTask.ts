@@ -6,13 +6,56 @@
 import * as vscode from 'vscode';
 import { IActionContext, registerEvent } from 'vscode-azureextensionui';
 import { localize } from '../localize';
+import { isPathEqual } from '../utils/fs';
 
 // The name of the task before we started providing it in FuncTaskProvider.ts
 export const oldFuncHostNameRegEx: RegExp = /run\s*functions\s*host/i;
 
-const isFuncHostRunningMap: Map<vscode.WorkspaceFolder | vscode.TaskScope, boolean> = new Map();
-export function isFuncHostRunning(folder: vscode.WorkspaceFolder): boolean {
-    return !!isFuncHostRunningMap.get(folder);
+/**
+ * The working directories of the func host tasks currently running in each scope
+ */
+const runningFuncHostsMap: Map<vscode.WorkspaceFolder | vscode.TaskScope, string[]> = new Map();
+
+/**
+ * @param projectPath If specified, only returns true if the host is running for that project. Otherwise returns true if any host is running in the folder
+ */
+export function isFuncHostRunning(folder: vscode.WorkspaceFolder, projectPath?: string): boolean {
+    // tslint:disable-next-line: strict-boolean-expressions
+    const cwds: string[] = runningFuncHostsMap.get(folder) || [];
+    return projectPath === undefined ? cwds.length > 0 : cwds.some(cwd => isPathEqual(cwd, projectPath));
+}
+
+const onDidChangeFuncHostStateEmitter: vscode.EventEmitter<vscode.WorkspaceFolder | vscode.TaskScope> = new vscode.EventEmitter();
+/**
+ * Fires after the func host starts or stops (aka after `isFuncHostRunning` has been updated)
+ */
+export const onDidChangeFuncHostState: vscode.Event<vscode.WorkspaceFolder | vscode.TaskScope> = onDidChangeFuncHostStateEmitter.event;
+
+function setFuncHostRunning(task: vscode.Task, isRunning: boolean): void {
+    // tslint:disable-next-line: no-non-null-assertion
+    const scope: vscode.WorkspaceFolder | vscode.TaskScope = task.scope!;
+    const cwd: string = getFuncTaskCwd(task);
+    // tslint:disable-next-line: strict-boolean-expressions
+    const cwds: string[] = (runningFuncHostsMap.get(scope) || []).filter(c => !isPathEqual(c, cwd));
+    if (isRunning) {
+        cwds.push(cwd);
+    }
+    runningFuncHostsMap.set(scope, cwds);
+    onDidChangeFuncHostStateEmitter.fire(scope);
+}
+
+/**
+ * Returns the folder the task runs in, which is the project path for the tasks we provide
+ */
+export function getFuncTaskCwd(task: vscode.Task): string {
+    const folderPath: string = typeof task.scope === 'object' ? task.scope.uri.fsPath : '';
+    const options: vscode.ShellExecutionOptions | undefined = task.execution && (<vscode.ShellExecution>task.execution).options;
+    if (options && options.cwd) {
+        // tslint:disable-next-line: no-invalid-template-strings
+        return options.cwd.replace('${workspaceFolder}', folderPath);
+    } else {
+        return folderPath;
+    }
 }
 
 const stopFuncHostPromiseMap: Map<vscode.WorkspaceFolder, Promise<void>> = new Map();
@@ -34,7 +77,7 @@ export function registerFuncHostTaskEvents(): void {
         this.suppressErrorDisplay = true;
         this.suppressTelemetry = true;
         if (e.execution.task.scope !== undefined && isFuncHostTask(e.execution.task)) {
-            isFuncHostRunningMap.set(e.execution.task.scope, true);
+            setFuncHostRunning(e.execution.task, true);
         }
     });
 
@@ -42,7 +85,7 @@ export function registerFuncHostTaskEvents(): void {
         this.suppressErrorDisplay = true;
         this.suppressTelemetry = true;
         if (e.execution.task.scope !== undefined && isFuncHostTask(e.execution.task)) {
-            isFuncHostRunningMap.set(e.execution.task.scope, false);
+            setFuncHostRunning(e.execution.task, false);
         }
     });
 
@@ -54,11 +97,13 @@ async function stopFuncTaskIfRunning(this: IActionContext, debugSession: vscode.
     this.suppressTelemetry = true;
 
     if (debugSession.workspaceFolder) {
+        // If the folder has multiple projects, make sure to stop the task for this debug session
+        const preLaunchTask: string | undefined = <string | undefined>debugSession.configuration.preLaunchTask;
         const funcExecution: vscode.TaskExecution | undefined = vscode.tasks.taskExecutions.find((te: vscode.TaskExecution) => {
-            return te.task.scope === debugSession.workspaceFolder && isFuncHostTask(te.task);
+            return te.task.scope === debugSession.workspaceFolder && isFuncHostTask(te.task) && (!preLaunchTask || preLaunchTask === te.task.name || preLaunchTask === `${te.task.source}: ${te.task.name}`);
         });
 
-        if (funcExecution && isFuncHostRunning(debugSession.workspaceFolder)) {
+        if (funcExecution && isFuncHostRunning(debugSession.workspaceFolder, getFuncTaskCwd(funcExecution.task))) {
             this.suppressTelemetry = false; // only track telemetry if it's actually the func task
             const stopFuncHostPromise: Promise<void> = new Promise((resolve: () => void, reject: (e: Error) => void): void => {
                 const listener: vscode.Disposable = vscode.tasks.onDidEndTask((e: vscode.TaskEndEvent) => {
@@ -0,0 +1,69 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fse from 'fs-extra';
+import * as path from 'path';
+import { WorkspaceFolder } from 'vscode';
+import { hostFileName, hostStartCommand, localSettingsFileName, projectRuntimeSetting } from '../constants';
+import { getFuncTaskCommand, getTaskProjectSubpath, IFuncTaskCommand } from '../debug/getFuncTaskCommand';
+import { ParsedFunctionJson } from '../funcConfig/function';
+import { IParsedHostJson, parseHostJson } from '../funcConfig/host';
+import { getLocalSettingsJson, ILocalSettingsJson } from '../funcConfig/local.settings';
+import { convertStringToRuntime, getWorkspaceSetting } from '../vsCodeConfig/settings';
+
+export const defaultFuncPort: string = '7071';
+
+/**
+ * Mimics the func cli, where the "--port" argument takes precedence over "Host.LocalHttpPort" in the local settings
+ */
+export async function getLocalFuncPort(folder: WorkspaceFolder, projectPath: string): Promise<string> {
+    const projectSubpath: string | undefined = await getTaskProjectSubpath(folder.uri.fsPath, projectPath);
+    const funcCommand: IFuncTaskCommand = getFuncTaskCommand(folder, hostStartCommand, /^\s*(host )?start/i, projectSubpath);
+    const matches: RegExpMatchArray | null = funcCommand.commandLine.match(/(?:--port|-p)\s+(\d+)/i);
+    if (matches) {
+        return matches[1];
+    }
+
+    try {
+        const localSettings: ILocalSettingsJson = await getLocalSettingsJson(path.join(projectPath, localSettingsFileName));
+        if (localSettings.Host && localSettings.Host.LocalHttpPort !== undefined) {
+            return String(localSettings.Host.LocalHttpPort);
+        }
+    } catch {
+        // ignore and use default
+    }
+
+    return defaultFuncPort;
+}
+
+export async function getLocalHostJson(projectPath: string): Promise<IParsedHostJson> {
+    let data: {} | undefined;
+    try {
+        data = <{}>await fse.readJSON(path.join(projectPath, hostFileName));
+    } catch {
+        // ignore and use defaults
+    }
+
+    return parseHostJson(data, convertStringToRuntime(getWorkspaceSetting(projectRuntimeSetting, projectPath)));
+}
+
+/**
+ * Returns the root url of the local func host, e.g. 'http://localhost:7071'
+ */
+export async function getLocalFuncHostUrl(folder: WorkspaceFolder, projectPath: string): Promise<string> {
+    return `http://localhost:${await getLocalFuncPort(folder, projectPath)}`;
+}
+
+/**
+ * Returns the url for an http trigger when run with the local func host
+ */
+export async function getLocalFunctionUrl(folder: WorkspaceFolder, projectPath: string, functionName: string, config: ParsedFunctionJson): Promise<string> {
+    const hostUrl: string = await getLocalFuncHostUrl(folder, projectPath);
+    const hostJson: IParsedHostJson = await getLocalHostJson(projectPath);
+    // tslint:disable-next-line: strict-boolean-expressions
+    const route: string = (config.triggerBinding && config.triggerBinding.route) || functionName;
+    const urlPath: string = [hostJson.routePrefix, route].filter(p => !!p).join('/');
+    return `${hostUrl}/${urlPath}`;
+}
@@ -8,6 +8,7 @@ import request = require('request-promise');
 import * as semver from 'semver';
 import { ProjectRuntime } from '../constants';
 import { localize } from '../localize';
+import { getRuntimeInfo } from '../runtimes';
 
 const npmRegistryUri: string = 'https://aka.ms/AA2qmnu';
 
@@ -19,17 +20,7 @@ interface IPackageMetadata {
 
 export async function getNpmDistTag(runtime: ProjectRuntime): Promise<INpmDistTag> {
     const packageMetadata: IPackageMetadata = <IPackageMetadata>JSON.parse(await <Thenable<string>>request(npmRegistryUri));
-    let majorVersion: string;
-    switch (runtime) {
-        case ProjectRuntime.v1:
-            majorVersion = '1';
-            break;
-        case ProjectRuntime.v2:
-            majorVersion = '2';
-            break;
-        default:
-            throw new RangeError(localize('invalidRuntime', 'Invalid runtime "{0}".', runtime));
-    }
+    const majorVersion: string = getRuntimeInfo(runtime).majorVersion;
 
     const validVersions: string[] = Object.keys(packageMetadata.versions).filter((v: string) => !!semver.valid(v));
     const maxVersion: string | null = semver.maxSatisfying(validVersions, majorVersion);
@@ -8,18 +8,16 @@ import { convertStringToRuntime } from '../vsCodeConfig/settings';
 import { getLocalFuncCoreToolsVersion } from './getLocalFuncCoreToolsVersion';
 
 export async function tryGetLocalRuntimeVersion(): Promise<ProjectRuntime | undefined> {
-    if (!isWindows) {
-        return ProjectRuntime.v2;
-    } else {
-        try {
-            const version: string | null = await getLocalFuncCoreToolsVersion();
-            if (version) {
-                return convertStringToRuntime(version);
-            }
-        } catch (err) {
-            // swallow errors and return undefined
+    let runtime: ProjectRuntime | undefined;
+    try {
+        const version: string | null = await getLocalFuncCoreToolsVersion();
+        if (version) {
+            runtime = convertStringToRuntime(version);
         }
-
-        return undefined;
+    } catch (err) {
+        // swallow errors and return undefined
     }
+
+    // v1 is only supported on Windows, so default to v2 on other platforms
+    return !isWindows && (runtime === undefined || runtime === ProjectRuntime.v1) ? ProjectRuntime.v2 : runtime;
 }
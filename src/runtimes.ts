@@ -0,0 +1,121 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { ProjectRuntime } from './constants';
+import { localize } from './localize';
+
+/**
+ * Describes everything that differs between major versions of the Azure Functions runtime
+ * To add a new runtime, add a value to `ProjectRuntime` and an entry to `runtimes`
+ */
+export interface IRuntimeInfo {
+    runtime: ProjectRuntime;
+    majorVersion: string;
+    label: string;
+    description: string;
+    /**
+     * The tag for this runtime in the cli-feed, not including the "-prerelease" suffix
+     */
+    feedTag: string;
+    /**
+     * The version of the templates shipped in 'resources' for use when the cli-feed is unavailable. Undefined if no templates are shipped for this runtime
+     */
+    backupTemplateVersion: string | undefined;
+    /**
+     * Used for "WEBSITE_NODE_DEFAULT_VERSION" if the cli-feed is unavailable
+     */
+    defaultNodeVersion: string;
+    /**
+     * The values of "FUNCTIONS_WORKER_RUNTIME" supported by this runtime. Empty if the runtime doesn't use that setting
+     */
+    workerRuntimes: string[];
+    /**
+     * Matches the "TargetFramework" of a .NET project that uses this runtime
+     */
+    targetFrameworkRegExp: RegExp;
+    /**
+     * Other values of "FUNCTIONS_EXTENSION_VERSION" that should be treated as this runtime
+     */
+    aliases: string[];
+}
+
+/**
+ * Ordered from newest to oldest
+ */
+const runtimes: IRuntimeInfo[] = [
+    {
+        runtime: ProjectRuntime.v3,
+        majorVersion: '3',
+        label: 'Azure Functions v3',
+        description: localize('v3Description', '(.NET Core 3) (Preview)'),
+        feedTag: 'v3',
+        backupTemplateVersion: undefined,
+        defaultNodeVersion: '~12',
+        workerRuntimes: ['dotnet', 'node', 'java', 'python', 'powershell'],
+        targetFrameworkRegExp: /netcoreapp3/i,
+        aliases: []
+    },
+    {
+        runtime: ProjectRuntime.v2,
+        majorVersion: '2',
+        label: 'Azure Functions v2',
+        description: '(.NET Standard)',
+        feedTag: 'v2',
+        backupTemplateVersion: '2.18.1',
+        defaultNodeVersion: '8.11.1',
+        workerRuntimes: ['dotnet', 'node', 'java', 'python', 'powershell'],
+        targetFrameworkRegExp: /net(standard|coreapp[12])/i,
+        // We have to support 'beta' as 'v2' since it's so commonly used (https://github.com/Microsoft/vscode-azurefunctions/issues/562)
+        aliases: ['beta']
+    },
+    {
+        runtime: ProjectRuntime.v1,
+        majorVersion: '1',
+        label: 'Azure Functions v1',
+        description: '(.NET Framework)',
+        feedTag: 'v1',
+        backupTemplateVersion: '1.8.0',
+        defaultNodeVersion: '6.5.0',
+        workerRuntimes: [],
+        targetFrameworkRegExp: /^net\d/i,
+        aliases: []
+    }
+];
+
+export function getRuntimes(): IRuntimeInfo[] {
+    return runtimes;
+}
+
+export function getRuntimeInfo(runtime: ProjectRuntime): IRuntimeInfo {
+    const info: IRuntimeInfo | undefined = runtimes.find(r => r.runtime === runtime);
+    if (!info) {
+        throw new RangeError(localize('invalidRuntime', 'Invalid runtime "{0}".', runtime));
+    }
+    return info;
+}
+
+/**
+ * Returns the runtime for a "FUNCTIONS_EXTENSION_VERSION" value (e.g. "~2" or "2.0.12345") or undefined if we don't recognize it
+ */
+export function tryGetRuntimeFromVersion(rawRuntime: string): ProjectRuntime | undefined {
+    rawRuntime = rawRuntime.toLowerCase();
+    const info: IRuntimeInfo | undefined = runtimes.find(r => new RegExp(`^~?${r.majorVersion}(\\.|$)`).test(rawRuntime) || r.aliases.indexOf(rawRuntime) !== -1);
+    return info ? info.runtime : undefined;
+}
+
+/**
+ * Returns the runtime for the "TargetFramework" of a .NET project or undefined if we don't recognize it
+ */
+export function tryGetRuntimeFromTargetFramework(targetFramework: string): ProjectRuntime | undefined {
+    const info: IRuntimeInfo | undefined = runtimes.find(r => r.targetFrameworkRegExp.test(targetFramework));
+    return info ? info.runtime : undefined;
+}
+
+/**
+ * Returns true if this runtime uses "FUNCTIONS_WORKER_RUNTIME" and supports the given value
+ */
+export function supportsWorkerRuntime(runtime: ProjectRuntime, workerRuntime: string | undefined): boolean {
+    return workerRuntime !== undefined && getRuntimeInfo(runtime).workerRuntimes.indexOf(workerRuntime) !== -1;
+}
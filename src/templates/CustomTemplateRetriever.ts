@@ -0,0 +1,186 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fse from 'fs-extra';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { IActionContext, parseError, TelemetryProperties } from 'vscode-azureextensionui';
+import { customTemplatesFolderSetting, ProjectRuntime } from '../constants';
+import { ext } from '../extensionVariables';
+import { localize } from '../localize';
+import { cliFeedJsonResponse } from '../utils/getCliFeedJson';
+import { getWorkspaceSetting } from '../vsCodeConfig/settings';
+import { IBindingSetting, IBindingTemplate } from './IBindingTemplate';
+import { IFunctionTemplate, TemplateCategory } from './IFunctionTemplate';
+import { IConfig, IRawTemplate, IResources, parseScriptBindings, parseScriptTemplate } from './parseScriptTemplates';
+import { getResourcesPath } from './ScriptTemplateRetriever';
+import { TemplateRetriever, TemplateType } from './TemplateRetriever';
+import { validateCustomTemplate } from './validateCustomTemplate';
+
+/**
+ * Retrieves templates from the folder specified by the "customTemplatesFolder" setting, which uses the same layout as the templateApiZip:
+ * 1. "templates/templates.json" (required)
+ * 2. "bindings/bindings.json" (optional - merged with the bindings of the script templates, taking precedence for settings with the same name)
+ * 3. "resources/Resources.json" (optional - only needed if the templates reference resources like "$name")
+ *
+ * Unlike the other sources, these templates are read every time they're requested so that changes are picked up without reloading
+ * They depend on the project rather than the runtime, so they're never cached, downloaded from the cli feed, or included in a template bundle
+ */
+export class CustomTemplateRetriever extends TemplateRetriever {
+    public templateType: TemplateType = TemplateType.Custom;
+    private _lastErrors: string | undefined;
+
+    /**
+     * Returns the valid templates in the custom templates folder for this project (if any). Problems are reported in the output channel instead of thrown, so that they don't block the other templates
+     */
+    public async tryGetTemplates(projectPath: string, telemetryProperties?: TelemetryProperties): Promise<IFunctionTemplate[]> {
+        const folderPath: string | undefined = getCustomTemplatesFolder(projectPath);
+        if (!folderPath) {
+            return [];
+        }
+
+        const errors: string[] = [];
+        let templates: IFunctionTemplate[] = [];
+        try {
+            templates = await this.getTemplates(folderPath, errors);
+        } catch (error) {
+            errors.push(parseError(error).message);
+        }
+
+        if (telemetryProperties) {
+            telemetryProperties.customTemplateCount = String(templates.length);
+            telemetryProperties.customTemplateErrorCount = String(errors.length);
+        }
+
+        this.reportErrors(folderPath, errors);
+        return templates;
+    }
+
+    protected async getTemplatesFromCache(_runtime: ProjectRuntime): Promise<IFunctionTemplate[] | undefined> {
+        return undefined;
+    }
+
+    protected async getTemplatesFromCliFeed(_cliFeedJson: cliFeedJsonResponse, _templateVersion: string, _runtime: ProjectRuntime, _context: IActionContext): Promise<IFunctionTemplate[]> {
+        throw new Error(localize('customTemplatesNotInFeed', 'Custom templates are not available from the cli feed.'));
+    }
+
+    protected async getTemplatesFromBackup(_runtime: ProjectRuntime): Promise<IFunctionTemplate[]> {
+        throw new Error(localize('noBackupCustomTemplates', 'There are no backup custom templates.'));
+    }
+
+    protected async cacheTemplates(_runtime: ProjectRuntime): Promise<void> {
+        // Custom templates are read every time they're requested
+    }
+
+    protected getCacheKeys(): string[] {
+        return [];
+    }
+
+    private async getTemplates(folderPath: string, errors: string[]): Promise<IFunctionTemplate[]> {
+        if (!await fse.pathExists(folderPath)) {
+            throw new Error(localize('customFolderNotFound', 'Custom templates folder "{0}" does not exist.', folderPath));
+        }
+
+        const rawTemplates: {} | undefined = await readJsonFile(path.join(folderPath, 'templates', 'templates.json'));
+        if (!Array.isArray(rawTemplates)) {
+            throw new Error(localize('templatesNotArray', '"{0}" must contain an array of templates.', 'templates/templates.json'));
+        }
+
+        // The script bindings are undefined if the script templates failed to load
+        let bindingTemplates: IBindingTemplate[] | undefined = <IBindingTemplate[] | undefined>ext.scriptBindings;
+        const resourcesPath: string = await getResourcesPath(folderPath);
+        const resources: IResources = await fse.pathExists(resourcesPath) ? <IResources>await readJsonFile(resourcesPath) : { en: {} };
+        const bindingsPath: string = path.join(folderPath, 'bindings', 'bindings.json');
+        if (await fse.pathExists(bindingsPath)) {
+            // tslint:disable-next-line: strict-boolean-expressions
+            bindingTemplates = mergeBindingTemplates(parseScriptBindings(<IConfig>await readJsonFile(bindingsPath), resources), bindingTemplates || []);
+        }
+
+        const templates: IFunctionTemplate[] = [];
+        rawTemplates.forEach((rawTemplate: IRawTemplate, index: number) => {
+            // tslint:disable-next-line: strict-boolean-expressions
+            const templateName: string = rawTemplate && typeof rawTemplate.id === 'string' ? rawTemplate.id : String(index);
+            const problems: string[] = validateCustomTemplate(rawTemplate);
+            if (problems.length === 0) {
+                try {
+                    // tslint:disable-next-line: strict-boolean-expressions
+                    const template: IFunctionTemplate = parseScriptTemplate(rawTemplate, resources, bindingTemplates || []);
+                    // tslint:disable-next-line: strict-boolean-expressions
+                    template.categories = (template.categories || []).concat(TemplateCategory.Custom);
+                    templates.push(template);
+                } catch (error) {
+                    problems.push(parseError(error).message);
+                }
+            }
+
+            errors.push(...problems.map(p => localize('invalidCustomTemplate', 'Invalid template "{0}": {1}', templateName, p)));
+        });
+        return templates;
+    }
+
+    private reportErrors(folderPath: string, errors: string[]): void {
+        // Templates are requested several times while creating a function, so only notify once for the same errors
+        const errorsKey: string = errors.join();
+        if (errors.length > 0 && errorsKey !== this._lastErrors) {
+            ext.outputChannel.appendLine(localize('customTemplateErrors', 'Some custom templates in "{0}" could not be loaded:', folderPath));
+            for (const error of errors) {
+                ext.outputChannel.appendLine(`  ${error}`);
+            }
+
+            const viewOutput: vscode.MessageItem = { title: localize('viewOutput', 'View output') };
+            // don't wait
+            vscode.window.showWarningMessage(localize('customTemplatesWarning', 'Some custom templates could not be loaded.'), viewOutput).then(result => {
+                if (result === viewOutput) {
+                    ext.outputChannel.show();
+                }
+            });
+        }
+        this._lastErrors = errorsKey;
+    }
+}
+
+/**
+ * Relative paths are resolved against the workspace folder containing the project
+ */
+export function getCustomTemplatesFolder(projectPath: string): string | undefined {
+    const folderPath: string | undefined = getWorkspaceSetting<string>(customTemplatesFolderSetting, projectPath);
+    if (!folderPath) {
+        return undefined;
+    } else if (path.isAbsolute(folderPath)) {
+        return folderPath;
+    } else {
+        const workspaceFolder: vscode.WorkspaceFolder | undefined = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(projectPath));
+        return path.join(workspaceFolder ? workspaceFolder.uri.fsPath : projectPath, folderPath);
+    }
+}
+
+/**
+ * Custom bindings only need to define the settings that differ from the script bindings of the same type
+ */
+function mergeBindingTemplates(customBindings: IBindingTemplate[], scriptBindings: IBindingTemplate[]): IBindingTemplate[] {
+    const result: IBindingTemplate[] = customBindings.map(customBinding => {
+        const scriptBinding: IBindingTemplate | undefined = scriptBindings.find(b => b.type === customBinding.type);
+        if (scriptBinding) {
+            const settings: IBindingSetting[] = customBinding.settings.concat(scriptBinding.settings.filter(s => !customBinding.settings.some(cs => cs.name === s.name)));
+            return { ...scriptBinding, ...customBinding, settings };
+        } else {
+            return customBinding;
+        }
+    });
+
+    return result.concat(scriptBindings.filter(b => !customBindings.some(cb => cb.type === b.type)));
+}
+
+async function readJsonFile(fsPath: string): Promise<{} | undefined> {
+    if (!await fse.pathExists(fsPath)) {
+        throw new Error(localize('customFileNotFound', 'Failed to find "{0}".', fsPath));
+    }
+
+    try {
+        return <{} | undefined>await fse.readJSON(fsPath);
+    } catch (error) {
+        throw new Error(localize('failedToParseCustom', 'Failed to parse "{0}": {1}', fsPath, parseError(error).message));
+    }
+}
@@ -8,7 +8,7 @@ import * as path from 'path';
 import { IActionContext } from 'vscode-azureextensionui';
 import { ProjectRuntime } from '../constants';
 import { ext } from '../extensionVariables';
-import { localize } from '../localize';
+import { getRuntimeInfo } from '../runtimes';
 import { downloadFile } from '../utils/fs';
 import { cliFeedJsonResponse } from '../utils/getCliFeedJson';
 import { executeDotnetTemplateCommand, getDotnetItemTemplatePath, getDotnetProjectTemplatePath, getDotnetTemplatesPath } from './executeDotnetTemplateCommand';
@@ -55,6 +55,14 @@ export class DotnetTemplateRetriever extends TemplateRetriever {
         ext.context.globalState.update(this.getCacheKey(this._dotnetTemplatesKey, runtime), this._rawTemplates);
     }
 
+    protected getCacheKeys(): string[] {
+        return [this._dotnetTemplatesKey];
+    }
+
+    protected getCacheFilePaths(runtime: ProjectRuntime): string[] {
+        return [getDotnetProjectTemplatePath(runtime), getDotnetItemTemplatePath(runtime)];
+    }
+
     private async parseTemplates(runtime: ProjectRuntime): Promise<IFunctionTemplate[]> {
         this._rawTemplates = <object[]>JSON.parse(await executeDotnetTemplateCommand(runtime, undefined, 'list'));
         return parseDotnetTemplates(this._rawTemplates, runtime);
@@ -86,15 +94,6 @@ export function getDotnetVerifiedTemplateIds(runtime: string): string[] {
         ]);
     }
 
-    return verifiedTemplateIds.map((id: string) => {
-        id = `Azure.Function.CSharp.${id}`;
-        switch (runtime) {
-            case ProjectRuntime.v1:
-                return `${id}.1.x`;
-            case ProjectRuntime.v2:
-                return `${id}.2.x`;
-            default:
-                throw new RangeError(localize('invalidRuntime', 'Invalid runtime "{0}".', runtime));
-        }
-    });
+    const majorVersion: string = getRuntimeInfo(<ProjectRuntime>runtime).majorVersion;
+    return verifiedTemplateIds.map((id: string) => `Azure.Function.CSharp.${id}.${majorVersion}.x`);
 }
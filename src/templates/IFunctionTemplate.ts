@@ -6,7 +6,11 @@
 import { IBindingSetting } from './IBindingTemplate';
 
 export enum TemplateCategory {
-    Core = '$temp_category_core'
+    Core = '$temp_category_core',
+    /**
+     * Added to templates loaded from the "customTemplatesFolder" setting
+     */
+    Custom = '$temp_category_custom'
 }
 
 /**
@@ -15,10 +19,22 @@ export enum TemplateCategory {
 export interface IFunctionTemplate {
     id: string;
     name: string;
+    /**
+     * A short explanation of what the function does, if provided by the template
+     */
+    description?: string;
     defaultFunctionName: string;
     language: string;
     isHttpTrigger: boolean;
     isTimerTrigger: boolean;
+    /**
+     * The binding type of the trigger (i.e. "httpTrigger"), if known
+     */
+    triggerType?: string;
+    /**
+     * The binding types used by the function, starting with the trigger (i.e. ["blobTrigger", "queue"])
+     */
+    bindingTypes: string[];
     userPromptedSettings: IBindingSetting[];
     categories: TemplateCategory[];
 }
@@ -11,8 +11,10 @@ import * as vscode from 'vscode';
 import { IActionContext } from 'vscode-azureextensionui';
 import { ProjectRuntime } from '../constants';
 import { ext } from '../extensionVariables';
+import { localize } from '../localize';
 import { downloadFile } from '../utils/fs';
 import { cliFeedJsonResponse } from '../utils/getCliFeedJson';
+import { IBindingTemplate } from './IBindingTemplate';
 import { IFunctionTemplate } from './IFunctionTemplate';
 import { parseScriptTemplates } from './parseScriptTemplates';
 import { TemplateRetriever, TemplateType } from './TemplateRetriever';
@@ -26,10 +28,60 @@ export class ScriptTemplateRetriever extends TemplateRetriever {
     private _rawTemplates: object[];
     private _rawConfig: object;
 
+    /**
+     * Gets a specific version of the templates without updating the cache or the bindings used by all projects, so that multiple versions can be used side by side
+     * Each version is cached separately, so it only has to be downloaded once
+     * @param cliFeedJson Undefined if the cli-feed isn't available, in which case only cached templates can be used
+     * @returns Undefined if the version isn't cached and can't be downloaded
+     */
+    public async getTemplatesForVersion(cliFeedJson: cliFeedJsonResponse | undefined, templateVersion: string, runtime: ProjectRuntime): Promise<IFunctionTemplate[] | undefined> {
+        const scriptBindings: IBindingTemplate[] = ext.scriptBindings;
+        try {
+            let templates: IFunctionTemplate[] | undefined = this.getCachedTemplates(runtime, templateVersion);
+            // tslint:disable-next-line: strict-boolean-expressions
+            if (!templates && cliFeedJson && cliFeedJson.releases[templateVersion]) {
+                ext.outputChannel.appendLine(localize('downloadingTemplateVersion', 'Downloading {0} templates for runtime "{1}" version "{2}"...', this.templateType, runtime, templateVersion));
+                templates = await this.downloadTemplates(cliFeedJson, templateVersion);
+                this.updateCache(runtime, templateVersion);
+            }
+            return templates;
+        } finally {
+            ext.scriptBindings = scriptBindings;
+        }
+    }
+
     protected async getTemplatesFromCache(runtime: ProjectRuntime): Promise<IFunctionTemplate[] | undefined> {
-        const cachedResources: object | undefined = ext.context.globalState.get<object>(this.getCacheKey(this._resourcesKey, runtime));
-        const cachedTemplates: object[] | undefined = ext.context.globalState.get<object[]>(this.getCacheKey(this._templatesKey, runtime));
-        const cachedConfig: object | undefined = ext.context.globalState.get<object>(this.getCacheKey(this._configKey, runtime));
+        return this.getCachedTemplates(runtime);
+    }
+
+    protected async getTemplatesFromCliFeed(cliFeedJson: cliFeedJsonResponse, templateVersion: string, _runtime: ProjectRuntime, _context: IActionContext): Promise<IFunctionTemplate[]> {
+        return await this.downloadTemplates(cliFeedJson, templateVersion);
+    }
+
+    protected async getTemplatesFromBackup(runtime: ProjectRuntime): Promise<IFunctionTemplate[]> {
+        const backupTemplatesPath: string = ext.context.asAbsolutePath(path.join('resources', 'backupScriptTemplates', runtime));
+        return await this.parseTemplates(backupTemplatesPath);
+    }
+
+    protected async cacheTemplates(runtime: ProjectRuntime): Promise<void> {
+        this.updateCache(runtime);
+    }
+
+    protected getCacheKeys(): string[] {
+        return [this._templatesKey, this._configKey, this._resourcesKey];
+    }
+
+    /**
+     * @param templateVersion Only defined for versions pinned by a project, which are cached separately from the templates used by all projects
+     */
+    private getVersionCacheKey(key: string, runtime: ProjectRuntime, templateVersion: string | undefined): string {
+        return this.getCacheKey(templateVersion ? `${key}.${templateVersion}` : key, runtime);
+    }
+
+    private getCachedTemplates(runtime: ProjectRuntime, templateVersion?: string): IFunctionTemplate[] | undefined {
+        const cachedResources: object | undefined = ext.context.globalState.get<object>(this.getVersionCacheKey(this._resourcesKey, runtime, templateVersion));
+        const cachedTemplates: object[] | undefined = ext.context.globalState.get<object[]>(this.getVersionCacheKey(this._templatesKey, runtime, templateVersion));
+        const cachedConfig: object | undefined = ext.context.globalState.get<object>(this.getVersionCacheKey(this._configKey, runtime, templateVersion));
         if (cachedResources && cachedTemplates && cachedConfig) {
             return parseScriptTemplates(cachedResources, cachedTemplates, cachedConfig);
         } else {
@@ -37,7 +89,13 @@ export class ScriptTemplateRetriever extends TemplateRetriever {
         }
     }
 
-    protected async getTemplatesFromCliFeed(cliFeedJson: cliFeedJsonResponse, templateVersion: string, _runtime: ProjectRuntime, _context: IActionContext): Promise<IFunctionTemplate[]> {
+    private updateCache(runtime: ProjectRuntime, templateVersion?: string): void {
+        ext.context.globalState.update(this.getVersionCacheKey(this._templatesKey, runtime, templateVersion), this._rawTemplates);
+        ext.context.globalState.update(this.getVersionCacheKey(this._configKey, runtime, templateVersion), this._rawConfig);
+        ext.context.globalState.update(this.getVersionCacheKey(this._resourcesKey, runtime, templateVersion), this._rawResources);
+    }
+
+    private async downloadTemplates(cliFeedJson: cliFeedJsonResponse, templateVersion: string): Promise<IFunctionTemplate[]> {
         const templatesPath: string = path.join(os.tmpdir(), 'vscode-azurefunctions-templates');
         try {
             const filePath: string = path.join(templatesPath, `templates-${templateVersion}.zip`);
@@ -62,17 +120,6 @@ export class ScriptTemplateRetriever extends TemplateRetriever {
         }
     }
 
-    protected async getTemplatesFromBackup(runtime: ProjectRuntime): Promise<IFunctionTemplate[]> {
-        const backupTemplatesPath: string = ext.context.asAbsolutePath(path.join('resources', 'backupScriptTemplates', runtime));
-        return await this.parseTemplates(backupTemplatesPath);
-    }
-
-    protected async cacheTemplates(runtime: ProjectRuntime): Promise<void> {
-        ext.context.globalState.update(this.getCacheKey(this._templatesKey, runtime), this._rawTemplates);
-        ext.context.globalState.update(this.getCacheKey(this._configKey, runtime), this._rawConfig);
-        ext.context.globalState.update(this.getCacheKey(this._resourcesKey, runtime), this._rawResources);
-    }
-
     private async parseTemplates(templatesPath: string): Promise<IFunctionTemplate[]> {
         this._rawResources = <object>await fse.readJSON(await getResourcesPath(templatesPath));
         this._rawTemplates = <object[]>await fse.readJSON(path.join(templatesPath, 'templates', 'templates.json'));
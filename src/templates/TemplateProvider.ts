@@ -3,34 +3,75 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
+import * as semver from 'semver';
 import * as vscode from 'vscode';
 import { callWithTelemetryAndErrorHandling, IActionContext, parseError, TelemetryProperties } from 'vscode-azureextensionui';
-import { ProjectLanguage, ProjectRuntime, TemplateFilter, templateVersionSetting } from '../constants';
+import { extensionPrefix, ProjectLanguage, ProjectRuntime, TemplateFilter, templateVersionLockFileName, templateVersionSetting } from '../constants';
 import { ext, TemplateSource } from '../extensionVariables';
 import { localize } from '../localize';
 import { dotnetUtils } from '../utils/dotnetUtils';
 import { cliFeedJsonResponse, getFeedRuntime, tryGetCliFeedJson } from '../utils/getCliFeedJson';
 import { getWorkspaceSetting, updateGlobalSetting } from '../vsCodeConfig/settings';
+import { CustomTemplateRetriever } from './CustomTemplateRetriever';
 import { DotnetTemplateRetriever, getDotnetVerifiedTemplateIds } from './DotnetTemplateRetriever';
 import { IBindingSetting } from './IBindingTemplate';
 import { IFunctionTemplate, TemplateCategory } from './IFunctionTemplate';
 import { parseJavaTemplates } from './parseJavaTemplates';
 import { getScriptVerifiedTemplateIds, ScriptTemplateRetriever } from './ScriptTemplateRetriever';
-import { TemplateRetriever } from './TemplateRetriever';
+import { TemplateRetriever, TemplateType } from './TemplateRetriever';
 
 export class TemplateProvider {
     private readonly _templatesMap: { [runtime: string]: IFunctionTemplate[] | undefined } = {};
+    private readonly _templateVersions: { [runtime: string]: string | undefined } = {};
+    // Templates for versions pinned by a project that differ from the version used by all other projects, keyed by runtime and version
+    private readonly _pinnedTemplatesMap: { [runtimeAndVersion: string]: IFunctionTemplate[] | undefined } = {};
+    private readonly _cliFeedJson: cliFeedJsonResponse | undefined;
+    private readonly _warnedPinnedVersions: string[] = [];
     // if there are no templates, then there is likely no internet or a problem with the clifeed url
     private readonly _noInternetErrMsg: string = localize('retryInternet', 'There was an error in retrieving the templates.  Recheck your internet connection and try again.');
     private _javaTemplates: IFunctionTemplate[] | undefined;
+    private readonly _customTemplateRetriever: CustomTemplateRetriever = new CustomTemplateRetriever();
 
-    constructor(templatesMap: { [runtime: string]: IFunctionTemplate[] | undefined }) {
+    constructor(templatesMap: { [runtime: string]: IFunctionTemplate[] | undefined }, templateVersions: { [runtime: string]: string | undefined }, cliFeedJson: cliFeedJsonResponse | undefined) {
         this._templatesMap = templatesMap;
+        this._templateVersions = templateVersions;
+        this._cliFeedJson = cliFeedJson;
         this.copyCSharpSettingsFromJS();
     }
 
-    public async getTemplates(language: string, runtime: string, functionAppPath: string, templateFilter?: string, telemetryProperties?: TelemetryProperties): Promise<IFunctionTemplate[]> {
-        const templates: IFunctionTemplate[] | undefined = this._templatesMap[runtime];
+    /**
+     * The version of the templates used for all projects that don't pin a different version
+     */
+    public getTemplateVersion(runtime: string): string | undefined {
+        return this._templateVersions[runtime];
+    }
+
+    /**
+     * The template versions that can be pinned for this runtime, newest first
+     */
+    public getAvailableTemplateVersions(runtime: string): string[] {
+        const versions: string[] = [];
+        if (this._cliFeedJson) {
+            for (const version of Object.keys(this._cliFeedJson.releases)) {
+                if (this._cliFeedJson.releases[version].FUNCTIONS_EXTENSION_VERSION === runtime) {
+                    versions.push(version);
+                }
+            }
+        }
+
+        const templateVersion: string | undefined = this._templateVersions[runtime];
+        if (templateVersion && versions.indexOf(templateVersion) === -1) {
+            versions.push(templateVersion);
+        }
+
+        return versions.sort((a: string, b: string) => semver.valid(a) && semver.valid(b) ? semver.rcompare(a, b) : b.localeCompare(a));
+    }
+
+    /**
+     * @param templateVersion The version pinned by the project (if any). Only applies to script templates, since Java templates don't come from the cli-feed and .NET templates are installed for all projects
+     */
+    public async getTemplates(language: string, runtime: string, functionAppPath: string, templateFilter?: string, telemetryProperties?: TelemetryProperties, templateVersion?: string): Promise<IFunctionTemplate[]> {
+        let templates: IFunctionTemplate[] | undefined = this._templatesMap[runtime];
         if (!templates) {
             throw new Error(this._noInternetErrMsg);
         }
@@ -41,6 +82,14 @@ export class TemplateProvider {
             }
             return this._javaTemplates;
         } else {
+            if (templateVersion && templateVersion !== this._templateVersions[runtime]) {
+                if (language === ProjectLanguage.CSharp || language === ProjectLanguage.FSharp) {
+                    this.warnDotnetPinIgnored(runtime, templateVersion, telemetryProperties);
+                } else {
+                    templates = await this.getPinnedTemplates(runtime, templateVersion, templates, telemetryProperties);
+                }
+            }
+
             let filterTemplates: IFunctionTemplate[] = templates.filter((t: IFunctionTemplate) => t.language.toLowerCase() === language.toLowerCase());
             switch (templateFilter) {
                 case TemplateFilter.All:
@@ -54,10 +103,70 @@ export class TemplateProvider {
                     filterTemplates = filterTemplates.filter((t: IFunctionTemplate) => verifiedTemplateIds.find((vt: string) => vt === t.id));
             }
 
-            return filterTemplates;
+            // Custom templates were explicitly configured by the user, so they're always included regardless of the filter
+            const customTemplates: IFunctionTemplate[] = await this._customTemplateRetriever.tryGetTemplates(functionAppPath, telemetryProperties);
+            return filterTemplates.concat(customTemplates.filter((t: IFunctionTemplate) => t.language.toLowerCase() === language.toLowerCase()));
         }
     }
 
+    /**
+     * .NET templates are installed for all projects, so a pinned version can't be used side by side. The pin is ignored rather than blocking function creation
+     */
+    private warnDotnetPinIgnored(runtime: string, templateVersion: string, telemetryProperties?: TelemetryProperties): void {
+        if (telemetryProperties) {
+            telemetryProperties.pinnedTemplateVersion = templateVersion;
+            telemetryProperties.ignoredPinnedTemplateVersion = 'true';
+        }
+
+        // Templates are requested several times while creating a function, so only warn once per version
+        const key: string = `${runtime}/${templateVersion}`;
+        if (this._warnedPinnedVersions.indexOf(key) === -1) {
+            this._warnedPinnedVersions.push(key);
+            const message: string = localize('pinnedDotnetVersion', 'Ignoring template version "{0}" pinned in "{1}" because .NET templates can only use one version for all projects. Using version "{2}" instead. To use the pinned version, set "{3}" to "{0}" and reload the window.', templateVersion, templateVersionLockFileName, String(this._templateVersions[runtime]), `${extensionPrefix}.${templateVersionSetting}`);
+            ext.outputChannel.appendLine(message);
+            // don't wait
+            vscode.window.showWarningMessage(message);
+        }
+    }
+
+    /**
+     * If the pinned version isn't cached and can't be downloaded (e.g. the cli-feed isn't available), falls back to the loaded templates rather than blocking function creation
+     */
+    private async getPinnedTemplates(runtime: string, templateVersion: string, loadedTemplates: IFunctionTemplate[], telemetryProperties?: TelemetryProperties): Promise<IFunctionTemplate[]> {
+        if (telemetryProperties) {
+            telemetryProperties.pinnedTemplateVersion = templateVersion;
+        }
+
+        const key: string = `${runtime}/${templateVersion}`;
+        let templates: IFunctionTemplate[] | undefined = this._pinnedTemplatesMap[key];
+        if (!templates) {
+            let errorMessage: string | undefined;
+            try {
+                templates = await new ScriptTemplateRetriever().getTemplatesForVersion(this._cliFeedJson, templateVersion, <ProjectRuntime>runtime);
+            } catch (error) {
+                errorMessage = parseError(error).message;
+                ext.outputChannel.appendLine(errorMessage);
+            }
+
+            if (!templates) {
+                if (telemetryProperties) {
+                    telemetryProperties.pinnedTemplateVersionError = errorMessage === undefined ? 'notFound' : errorMessage;
+                }
+
+                // Only warn once per version, since the fallback is used for the rest of the session
+                const message: string = localize('pinnedVersionNotFound', 'Failed to retrieve template version "{0}" pinned in "{1}". Using version "{2}" instead. Recheck your internet connection and the version in "{1}", then reload the window.', templateVersion, templateVersionLockFileName, String(this._templateVersions[runtime]));
+                ext.outputChannel.appendLine(message);
+                // don't wait
+                vscode.window.showWarningMessage(message);
+                templates = loadedTemplates;
+            }
+
+            this._pinnedTemplatesMap[key] = templates;
+        }
+
+        return templates;
+    }
+
     /**
      * The dotnet templates do not provide the validation and resourceType information that we desire
      * As a workaround, we can check for the exact same JavaScript template/setting and leverage that information
@@ -99,6 +208,7 @@ function normalizeName(name: string): string {
 
 export async function getTemplateProvider(): Promise<TemplateProvider> {
     const templatesMap: { [runtime: string]: IFunctionTemplate[] | undefined } = {};
+    const templateVersions: { [runtime: string]: string | undefined } = {};
     const cliFeedJson: cliFeedJsonResponse | undefined = await tryGetCliFeedJson();
 
     const templateRetrievers: TemplateRetriever[] = [new ScriptTemplateRetriever()];
@@ -149,6 +259,9 @@ export async function getTemplateProvider(): Promise<TemplateProvider> {
                 if (templates) {
                     // tslint:disable-next-line:strict-boolean-expressions
                     templatesMap[runtime] = (templatesMap[runtime] || []).concat(templates);
+                    if (templateRetriever.templateType === TemplateType.Script) {
+                        templateVersions[runtime] = ext.context.globalState.get<string>(templateRetriever.getCacheKey(TemplateRetriever.templateVersionKey, runtime));
+                    }
                 } else {
                     // Failed to get templates for this runtime
                     this.properties.templateSource = 'None';
@@ -157,7 +270,7 @@ export async function getTemplateProvider(): Promise<TemplateProvider> {
         }
     }
 
-    return new TemplateProvider(templatesMap);
+    return new TemplateProvider(templatesMap, templateVersions, cliFeedJson);
 }
 
 export function removeLanguageFromId(id: string): string {
@@ -172,7 +285,8 @@ async function tryGetTemplateVersionSetting(context: IActionContext, cliFeedJson
             context.properties.userTemplateVersion = userTemplateVersion;
         }
         let templateVersion: string;
-        if (cliFeedJson) {
+        // tslint:disable-next-line:strict-boolean-expressions
+        if (cliFeedJson && (userTemplateVersion || cliFeedJson.tags[feedRuntime])) {
             templateVersion = userTemplateVersion ? userTemplateVersion : cliFeedJson.tags[feedRuntime].release;
             // tslint:disable-next-line:strict-boolean-expressions
             if (!cliFeedJson.releases[templateVersion]) {
@@ -198,7 +312,8 @@ async function tryGetTemplateVersionSetting(context: IActionContext, cliFeedJson
                 }
             }
         } else {
-            return undefined;
+            // Without the cli-feed, the user's version can still match cached templates (e.g. templates imported from a bundle on a machine without internet)
+            return userTemplateVersion;
         }
 
         return templateVersion;
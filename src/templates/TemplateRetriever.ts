@@ -3,20 +3,38 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
+import * as fse from 'fs-extra';
+import * as path from 'path';
 import * as vscode from 'vscode';
 import { IActionContext, parseError } from 'vscode-azureextensionui';
 import { ProjectRuntime } from '../constants';
 import { ext } from '../extensionVariables';
 import { localize } from '../localize';
+import { getRuntimeInfo } from '../runtimes';
 import { cliFeedJsonResponse } from '../utils/getCliFeedJson';
 import { IFunctionTemplate } from './IFunctionTemplate';
 
-const v2BackupTemplatesVersion: string = '2.18.1';
-const v1BackupTemplatesVersion: string = '1.8.0';
-
 export enum TemplateType {
     Script = 'Script',
-    Dotnet = '.NET'
+    Dotnet = '.NET',
+    Custom = 'Custom'
+}
+
+/**
+ * The cached templates for one runtime and template type, as stored in a template bundle
+ */
+export interface ITemplateCache {
+    templateType: TemplateType;
+    runtime: ProjectRuntime;
+    templateVersion: string;
+    /**
+     * Global state values, keyed by the key before it's passed to `getCacheKey`
+     */
+    state: { [key: string]: {} };
+    /**
+     * The base64-encoded contents of cached files, keyed by file name
+     */
+    files: { [fileName: string]: string };
 }
 
 export abstract class TemplateRetriever {
@@ -87,19 +105,81 @@ export abstract class TemplateRetriever {
         return key;
     }
 
+    /**
+     * Returns the cached templates for this runtime, or undefined if the cache is incomplete
+     */
+    public async exportCache(runtime: ProjectRuntime): Promise<ITemplateCache | undefined> {
+        const templateVersion: string | undefined = ext.context.globalState.get<string>(this.getCacheKey(TemplateRetriever.templateVersionKey, runtime));
+        if (!templateVersion) {
+            return undefined;
+        }
+
+        const state: { [key: string]: {} } = {};
+        for (const key of this.getCacheKeys()) {
+            const value: {} | undefined = ext.context.globalState.get<{}>(this.getCacheKey(key, runtime));
+            if (value === undefined) {
+                return undefined;
+            }
+            state[key] = value;
+        }
+
+        const files: { [fileName: string]: string } = {};
+        for (const filePath of this.getCacheFilePaths(runtime)) {
+            if (!await fse.pathExists(filePath)) {
+                return undefined;
+            }
+            files[path.basename(filePath)] = (await fse.readFile(filePath)).toString('base64');
+        }
+
+        return { templateType: this.templateType, runtime, templateVersion, state, files };
+    }
+
+    /**
+     * Replaces the cached templates with templates from another machine
+     * The cache keys are based on this machine (e.g. its display language) and the template version is updated last, so that the imported templates are only treated as a matching cache once they're complete
+     */
+    public async importCache(cache: ITemplateCache): Promise<void> {
+        for (const filePath of this.getCacheFilePaths(cache.runtime)) {
+            const contents: string | undefined = cache.files[path.basename(filePath)];
+            if (contents === undefined) {
+                throw new Error(localize('missingCacheFile', 'The {0} templates for runtime "{1}" are missing file "{2}".', this.templateType, cache.runtime, path.basename(filePath)));
+            }
+            await fse.ensureDir(path.dirname(filePath));
+            await fse.writeFile(filePath, Buffer.from(contents, 'base64'));
+        }
+
+        for (const key of this.getCacheKeys()) {
+            const value: {} | undefined = <{} | undefined>cache.state[key];
+            if (value === undefined) {
+                throw new Error(localize('missingCacheKey', 'The {0} templates for runtime "{1}" are missing "{2}".', this.templateType, cache.runtime, key));
+            }
+            await ext.context.globalState.update(this.getCacheKey(key, cache.runtime), value);
+        }
+
+        await ext.context.globalState.update(this.getCacheKey(TemplateRetriever.templateVersionKey, cache.runtime), cache.templateVersion);
+    }
+
     protected abstract getTemplatesFromCache(runtime: ProjectRuntime): Promise<IFunctionTemplate[] | undefined>;
     protected abstract getTemplatesFromCliFeed(cliFeedJson: cliFeedJsonResponse, templateVersion: string, runtime: ProjectRuntime, context: IActionContext): Promise<IFunctionTemplate[]>;
     protected abstract getTemplatesFromBackup(runtime: ProjectRuntime): Promise<IFunctionTemplate[]>;
     protected abstract cacheTemplates(runtime: ProjectRuntime): Promise<void>;
+    /**
+     * The global state keys (before they're passed to `getCacheKey`) used to cache templates
+     */
+    protected abstract getCacheKeys(): string[];
+
+    /**
+     * Files cached outside of global state, which are included when exporting the cache
+     */
+    protected getCacheFilePaths(_runtime: ProjectRuntime): string[] {
+        return [];
+    }
 
     protected getBackupVersion(runtime: ProjectRuntime): string {
-        switch (runtime) {
-            case ProjectRuntime.v1:
-                return v1BackupTemplatesVersion;
-            case ProjectRuntime.v2:
-                return v2BackupTemplatesVersion;
-            default:
-                throw new RangeError(localize('invalidRuntime', 'Invalid runtime "{0}".', runtime));
+        const backupTemplateVersion: string | undefined = getRuntimeInfo(runtime).backupTemplateVersion;
+        if (backupTemplateVersion === undefined) {
+            throw new Error(localize('noBackupTemplates', 'There are no backup {0} templates for runtime "{1}".', this.templateType, runtime));
         }
+        return backupTemplateVersion;
     }
 }
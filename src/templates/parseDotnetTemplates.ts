@@ -4,6 +4,7 @@
  *--------------------------------------------------------------------------------------------*/
 
 import { ProjectLanguage, ProjectRuntime } from '../constants';
+import { getRuntimeInfo } from '../runtimes';
 import { IBindingSetting, ValueType } from './IBindingTemplate';
 import { IFunctionTemplate, TemplateCategory } from './IFunctionTemplate';
 
@@ -13,6 +14,7 @@ import { IFunctionTemplate, TemplateCategory } from './IFunctionTemplate';
 interface IRawTemplate {
     DefaultName: string;
     Name: string;
+    Description?: string;
     Identity: string;
     Parameters: {}[];
 }
@@ -54,11 +56,16 @@ function parseDotnetTemplate(rawTemplate: IRawTemplate): IFunctionTemplate {
         }
     }
 
+    const triggerType: string | undefined = getDotnetTriggerType(rawTemplate.Identity);
     return {
         isHttpTrigger: /^http/i.test(rawTemplate.Name) || /webhook$/i.test(rawTemplate.Name),
         isTimerTrigger: /^timer/i.test(rawTemplate.Name),
+        triggerType,
+        // Dotnet templates only give us information about the trigger
+        bindingTypes: triggerType ? [triggerType] : [],
         id: rawTemplate.Identity,
         name: rawTemplate.Name,
+        description: rawTemplate.Description,
         defaultFunctionName: rawTemplate.DefaultName,
         language: /FSharp/i.test(rawTemplate.Identity) ? ProjectLanguage.FSharp : ProjectLanguage.CSharp,
         userPromptedSettings: userPromptedSettings,
@@ -66,17 +73,25 @@ function parseDotnetTemplate(rawTemplate: IRawTemplate): IFunctionTemplate {
     };
 }
 
+/**
+ * Converts ids like "Azure.Function.CSharp.QueueTrigger.2.x" to "queueTrigger", matching the binding type used in function.json
+ */
+export function getDotnetTriggerType(id: string): string | undefined {
+    const match: RegExpMatchArray | null = id.match(/\.([a-z]+Trigger)\./i);
+    return match ? match[1].charAt(0).toLowerCase() + match[1].slice(1) : undefined;
+}
+
 /**
  * Parses templates used by the .NET CLI
  * This basically converts the 'raw' templates in the externally defined JSON format to a common and understood format (IFunctionTemplate) used by this extension
  */
 export function parseDotnetTemplates(rawTemplates: object[], runtime: ProjectRuntime): IFunctionTemplate[] {
     const templates: IFunctionTemplate[] = [];
+    const runtimeSuffix: string = `.${getRuntimeInfo(runtime).majorVersion}.x`;
     for (const rawTemplate of rawTemplates) {
         try {
             const template: IFunctionTemplate = parseDotnetTemplate(<IRawTemplate>rawTemplate);
-            if (/^Azure\.Function\.(F|C)Sharp\./i.test(template.id) &&
-                ((runtime === ProjectRuntime.v1 && template.id.includes('1')) || (runtime === ProjectRuntime.v2 && template.id.includes('2')))) {
+            if (/^Azure\.Function\.(F|C)Sharp\./i.test(template.id) && template.id.endsWith(runtimeSuffix)) {
                 templates.push(template);
             }
         } catch (error) {
@@ -20,8 +20,13 @@ export interface IRawTemplate {
     metadata: {
         defaultFunctionName: string;
         name: string;
+        description?: string;
         language: ProjectLanguage;
         userPrompt?: string[];
+        /**
+         * Only used by custom templates. Settings for this template that take precedence over the trigger binding's settings with the same name
+         */
+        settings?: IRawSetting[];
         category: TemplateCategory[];
     };
     files: { [filename: string]: string };
@@ -30,7 +35,7 @@ export interface IRawTemplate {
 /**
  * Describes a script template setting before it has been parsed
  */
-interface IRawSetting {
+export interface IRawSetting {
     name: string;
     value: ValueType;
     label: string;
@@ -49,7 +54,7 @@ interface IRawSetting {
     }[];
 }
 
-interface IRawBinding {
+export interface IRawBinding {
     // tslint:disable-next-line:no-reserved-keywords
     type: string;
     documentation: string;
@@ -173,33 +178,49 @@ export function parseScriptTemplate(rawTemplate: IRawTemplate, resources: IResou
         default:
     }
 
+    // tslint:disable-next-line: strict-boolean-expressions
+    const templateSettings: IBindingSetting[] = (rawTemplate.metadata.settings || []).map(s => parseScriptSetting(s, resources, {}));
     const userPromptedSettings: IBindingSetting[] = [];
     if (rawTemplate.metadata.userPrompt) {
         for (const settingName of rawTemplate.metadata.userPrompt) {
             if (functionJson.triggerBinding) {
                 const triggerBinding: IFunctionBinding = functionJson.triggerBinding;
                 const bindingTemplate: IBindingTemplate | undefined = bindingTemplates.find(b => b.type === triggerBinding.type);
-                if (bindingTemplate) {
-                    const setting: IBindingSetting | undefined = bindingTemplate.settings.find((bs: IBindingSetting) => bs.name === settingName);
-                    if (setting) {
-                        const functionSpecificDefaultValue: string | undefined = triggerBinding[setting.name];
-                        if (functionSpecificDefaultValue) {
-                            // overwrite common default value with the function-specific default value
-                            setting.defaultValue = functionSpecificDefaultValue;
-                        }
-                        userPromptedSettings.push(setting);
+                let setting: IBindingSetting | undefined = templateSettings.find((ts: IBindingSetting) => ts.name === settingName);
+                if (!setting && bindingTemplate) {
+                    setting = bindingTemplate.settings.find((bs: IBindingSetting) => bs.name === settingName);
+                }
+
+                if (setting) {
+                    const functionSpecificDefaultValue: string | undefined = triggerBinding[setting.name];
+                    if (functionSpecificDefaultValue) {
+                        // overwrite common default value with the function-specific default value
+                        setting.defaultValue = functionSpecificDefaultValue;
                     }
+                    userPromptedSettings.push(setting);
                 }
             }
         }
     }
 
+    const triggerType: string | undefined = functionJson.triggerBinding && functionJson.triggerBinding.type;
+    const bindingTypes: string[] = [];
+    for (const binding of functionJson.bindings) {
+        if (binding.type && bindingTypes.indexOf(binding.type) === -1) {
+            bindingTypes.push(binding.type);
+        }
+    }
+
     return {
         functionJson,
         isHttpTrigger: functionJson.isHttpTrigger,
         isTimerTrigger: functionJson.isTimerTrigger,
+        triggerType,
+        // Put the trigger first, regardless of its position in function.json
+        bindingTypes: triggerType ? [triggerType].concat(bindingTypes.filter(t => t !== triggerType)) : bindingTypes,
         id: rawTemplate.id,
         name: getResourceValue(resources, rawTemplate.metadata.name),
+        description: rawTemplate.metadata.description ? getResourceValue(resources, rawTemplate.metadata.description) : undefined,
         defaultFunctionName: rawTemplate.metadata.defaultFunctionName,
         language,
         userPromptedSettings,
@@ -208,6 +229,11 @@ export function parseScriptTemplate(rawTemplate: IRawTemplate, resources: IResou
     };
 }
 
+/**
+ * Replaced with the name of the new function in a template's file names, file contents, and 'function.json'
+ */
+export const functionNamePlaceholder: string = '__FunctionName__';
+
 export interface IScriptFunctionTemplate extends IFunctionTemplate {
     templateFiles: { [filename: string]: string };
     functionJson: ParsedFunctionJson;
@@ -0,0 +1,62 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { ProjectRuntime } from '../constants';
+import { localize } from '../localize';
+import { ITemplateCache, TemplateType } from './TemplateRetriever';
+
+/**
+ * A single file containing the cached templates for all runtimes and template types, so that templates can be used on machines without access to the cli-feed
+ */
+export interface ITemplateBundle {
+    createdOn: string;
+    caches: ITemplateCache[];
+}
+
+export const templateBundleExtension: string = 'json';
+
+/**
+ * Parses the contents of a template bundle, throwing a readable error if it's invalid
+ */
+export function parseTemplateBundle(contents: string): ITemplateBundle {
+    let data: { caches?: {} };
+    try {
+        data = <{ caches?: {} }>JSON.parse(contents);
+    } catch (error) {
+        throw new Error(localize('bundleNotJson', 'The template bundle is not valid JSON.'));
+    }
+
+    if (typeof data !== 'object' || data === null || !Array.isArray(data.caches) || data.caches.length === 0) {
+        throw new Error(localize('bundleNoCaches', 'The template bundle does not contain any templates.'));
+    }
+
+    const runtimes: string[] = Object.keys(ProjectRuntime).map(k => <string>ProjectRuntime[k]);
+    const templateTypes: string[] = [TemplateType.Script, TemplateType.Dotnet];
+    data.caches.forEach((cache: Partial<ITemplateCache> | undefined, index: number) => {
+        const problems: string[] = [];
+        if (!cache || typeof cache !== 'object') {
+            problems.push(localize('cacheNotObject', 'must be an object'));
+        } else {
+            if (templateTypes.indexOf(<string>cache.templateType) === -1) {
+                problems.push(localize('invalidTemplateType', 'unsupported template type "{0}"', String(cache.templateType)));
+            }
+            if (runtimes.indexOf(<string>cache.runtime) === -1) {
+                problems.push(localize('invalidRuntime', 'unsupported runtime "{0}"', String(cache.runtime)));
+            }
+            if (typeof cache.templateVersion !== 'string' || !cache.templateVersion) {
+                problems.push(localize('invalidTemplateVersion', 'missing template version'));
+            }
+            if (typeof cache.state !== 'object' || cache.state === null || typeof cache.files !== 'object' || cache.files === null) {
+                problems.push(localize('invalidCacheContents', 'missing cached data'));
+            }
+        }
+
+        if (problems.length > 0) {
+            throw new Error(localize('invalidCache', 'Entry {0} of the template bundle is invalid: {1}.', index, problems.join(', ')));
+        }
+    });
+
+    return <ITemplateBundle>data;
+}
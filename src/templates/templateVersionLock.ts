@@ -0,0 +1,54 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fse from 'fs-extra';
+import * as path from 'path';
+import { parseError } from 'vscode-azureextensionui';
+import { templateVersionLockFileName } from '../constants';
+import { localize } from '../localize';
+import { writeFormattedJson } from '../utils/fs';
+
+/**
+ * Pins the template version for a project, so that everyone working on the project generates the same code regardless of the "templateVersion" setting on their machine
+ */
+export interface ITemplateVersionLock {
+    templateVersion: string;
+}
+
+export function getTemplateVersionLockPath(projectPath: string): string {
+    return path.join(projectPath, templateVersionLockFileName);
+}
+
+/**
+ * Returns the template version pinned in the project's lock file, or undefined if the project doesn't have a lock file
+ */
+export async function getPinnedTemplateVersion(projectPath: string): Promise<string | undefined> {
+    const lockPath: string = getTemplateVersionLockPath(projectPath);
+    if (!await fse.pathExists(lockPath)) {
+        return undefined;
+    }
+
+    let lock: Partial<ITemplateVersionLock> | undefined;
+    try {
+        lock = <Partial<ITemplateVersionLock> | undefined>await fse.readJSON(lockPath);
+    } catch (error) {
+        throw new Error(localize('failedToParseLock', 'Failed to parse "{0}": {1}', templateVersionLockFileName, parseError(error).message));
+    }
+
+    return parseTemplateVersionLock(lock);
+}
+
+export function parseTemplateVersionLock(lock: Partial<ITemplateVersionLock> | undefined): string {
+    if (!lock || typeof lock.templateVersion !== 'string' || !lock.templateVersion.trim()) {
+        throw new Error(localize('invalidLock', '"{0}" must specify a "templateVersion".', templateVersionLockFileName));
+    }
+
+    return lock.templateVersion.trim();
+}
+
+export async function pinTemplateVersion(projectPath: string, templateVersion: string): Promise<void> {
+    const lock: ITemplateVersionLock = { templateVersion };
+    await writeFormattedJson(getTemplateVersionLockPath(projectPath), lock);
+}
@@ -0,0 +1,138 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { isString } from 'util';
+import { ProjectLanguage } from '../constants';
+import { localize } from '../localize';
+
+/**
+ * Custom templates are created with the script function steps, so only script languages are supported
+ * NOTE: 'C#' and 'F#' are converted to 'C#Script' and 'F#Script' when parsed, just like the templateApiZip
+ */
+export const customTemplateLanguages: string[] = [
+    ProjectLanguage.CSharp,
+    ProjectLanguage.CSharpScript,
+    ProjectLanguage.FSharp,
+    ProjectLanguage.FSharpScript,
+    ProjectLanguage.JavaScript,
+    ProjectLanguage.PowerShell,
+    ProjectLanguage.Python,
+    ProjectLanguage.TypeScript
+];
+
+type RawObject = { [key: string]: {} | undefined };
+
+function isObject(value: {} | undefined): boolean {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: {} | undefined): value is string {
+    return isString(value) && value.trim().length > 0;
+}
+
+function isStringArray(value: {} | undefined): boolean {
+    return Array.isArray(value) && value.every(isString);
+}
+
+/**
+ * Validates a custom template has the shape expected by `parseScriptTemplate`
+ * @returns A list of readable problems, or an empty list if the template is valid
+ */
+export function validateCustomTemplate(rawTemplate: {} | undefined): string[] {
+    if (!isObject(rawTemplate)) {
+        return [localize('templateNotObject', 'Template must be an object.')];
+    }
+
+    const template: RawObject = <RawObject>rawTemplate;
+    const problems: string[] = [];
+    if (!isNonEmptyString(template.id)) {
+        problems.push(localize('missingProperty', 'Property "{0}" must be a non-empty string.', 'id'));
+    }
+
+    if (!isObject(template.metadata)) {
+        problems.push(localize('missingObject', 'Property "{0}" must be an object.', 'metadata'));
+    } else {
+        const metadata: RawObject = <RawObject>template.metadata;
+        for (const key of ['name', 'defaultFunctionName', 'language']) {
+            if (!isNonEmptyString(metadata[key])) {
+                problems.push(localize('missingProperty', 'Property "{0}" must be a non-empty string.', `metadata.${key}`));
+            }
+        }
+
+        const language: {} | undefined = metadata.language;
+        if (isNonEmptyString(language) && customTemplateLanguages.indexOf(language) === -1) {
+            problems.push(localize('unsupportedLanguage', 'Language "{0}" is not supported. Supported languages are {1}.', language, customTemplateLanguages.map(l => `"${l}"`).join(', ')));
+        }
+
+        for (const key of ['category', 'userPrompt']) {
+            if (metadata[key] !== undefined && !isStringArray(metadata[key])) {
+                problems.push(localize('notStringArray', 'Property "{0}" must be an array of strings.', `metadata.${key}`));
+            }
+        }
+
+        problems.push(...validateSettings(metadata.settings));
+    }
+
+    const bindings: {} | undefined = isObject(template.function) ? (<RawObject>template.function).bindings : undefined;
+    if (!Array.isArray(bindings)) {
+        problems.push(localize('missingBindings', 'Property "{0}" must be an array.', 'function.bindings'));
+    } else {
+        bindings.forEach((binding: {} | undefined, index: number) => {
+            if (!isObject(binding)) {
+                problems.push(localize('missingObject', 'Property "{0}" must be an object.', `function.bindings[${index}]`));
+            } else {
+                for (const key of ['type', 'direction', 'name']) {
+                    if (!isNonEmptyString((<RawObject>binding)[key])) {
+                        problems.push(localize('missingProperty', 'Property "{0}" must be a non-empty string.', `function.bindings[${index}].${key}`));
+                    }
+                }
+            }
+        });
+
+        const triggerCount: number = bindings.filter((b: {} | undefined) => isObject(b) && isNonEmptyString((<RawObject>b).type) && /trigger$/i.test(<string>(<RawObject>b).type)).length;
+        if (triggerCount !== 1) {
+            problems.push(localize('oneTrigger', 'Property "{0}" must have exactly one trigger binding, but found {1}.', 'function.bindings', triggerCount));
+        }
+    }
+
+    const files: RawObject | undefined = isObject(template.files) ? <RawObject>template.files : undefined;
+    if (!files || Object.keys(files).length === 0) {
+        problems.push(localize('missingFiles', 'Property "{0}" must be an object with at least one file.', 'files'));
+    } else {
+        for (const fileName of Object.keys(files)) {
+            if (!isString(files[fileName])) {
+                problems.push(localize('fileNotString', 'The contents of file "{0}" must be a string.', fileName));
+            }
+        }
+    }
+
+    return problems;
+}
+
+/**
+ * Validates the settings defined in a template's metadata, which are optional
+ */
+function validateSettings(settings: {} | undefined): string[] {
+    const problems: string[] = [];
+    if (settings !== undefined) {
+        if (!Array.isArray(settings)) {
+            problems.push(localize('notArray', 'Property "{0}" must be an array.', 'metadata.settings'));
+        } else {
+            settings.forEach((setting: {} | undefined, index: number) => {
+                if (!isObject(setting)) {
+                    problems.push(localize('missingObject', 'Property "{0}" must be an object.', `metadata.settings[${index}]`));
+                } else {
+                    for (const key of ['name', 'value', 'label']) {
+                        if (!isNonEmptyString((<RawObject>setting)[key])) {
+                            problems.push(localize('missingProperty', 'Property "{0}" must be a non-empty string.', `metadata.settings[${index}].${key}`));
+                        }
+                    }
+                }
+            });
+        }
+    }
+
+    return problems;
+}
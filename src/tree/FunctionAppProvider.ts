@@ -11,6 +11,7 @@ import { extensionPrefix, ProjectLanguage, projectLanguageSetting, ProjectRuntim
 import { ext } from '../extensionVariables';
 import { tryGetLocalRuntimeVersion } from '../funcCoreTools/tryGetLocalRuntimeVersion';
 import { localize } from "../localize";
+import { supportsWorkerRuntime } from '../runtimes';
 import { getCliFeedAppSettings } from '../utils/getCliFeedJson';
 import { nonNullProp } from '../utils/nonNull';
 import { convertStringToRuntime, getFunctionsWorkerRuntime, getWorkspaceSetting, getWorkspaceSettingFromAnyFolder, updateGlobalSetting } from '../vsCodeConfig/settings';
@@ -226,7 +227,8 @@ async function createFunctionAppSettings(context: IAppSettingsContext, projectRu
         });
     }
 
-    if (context.runtime) {
+    // v1 doesn't use a worker runtime
+    if (context.runtime && supportsWorkerRuntime(projectRuntime, context.runtime)) {
         appSettings.push({
             name: 'FUNCTIONS_WORKER_RUNTIME',
             value: context.runtime
@@ -0,0 +1,26 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { ISiteTreeRoot } from 'vscode-azureappservice';
+import { AzureTreeItem } from 'vscode-azureextensionui';
+import { HostSettingsTreeItem } from './HostSettingsTreeItem';
+
+export class HostSettingTreeItem extends AzureTreeItem<ISiteTreeRoot> {
+    public static contextValue: string = 'azFuncHostSetting';
+    public readonly contextValue: string = HostSettingTreeItem.contextValue;
+    public readonly parent: HostSettingsTreeItem;
+    public readonly label: string;
+    public readonly description: string;
+
+    public constructor(parent: HostSettingsTreeItem, name: string, value: string) {
+        super(parent);
+        this.label = name;
+        this.description = value;
+    }
+
+    public get id(): string {
+        return this.label;
+    }
+}
@@ -0,0 +1,44 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { ISiteTreeRoot } from 'vscode-azureappservice';
+import { AzureParentTreeItem, AzureTreeItem } from 'vscode-azureextensionui';
+import { hostFileName } from '../constants';
+import { getHostJsonDisplayValues, IHostJsonDisplayValue } from '../funcConfig/host';
+import { localize } from '../localize';
+import { nodeUtils } from '../utils/nodeUtils';
+import { HostSettingTreeItem } from './HostSettingTreeItem';
+import { SlotTreeItemBase } from './SlotTreeItemBase';
+
+/**
+ * Displays the values in the remote 'host.json' file, which are read when the parent is refreshed
+ */
+export class HostSettingsTreeItem extends AzureParentTreeItem<ISiteTreeRoot> {
+    public static contextValue: string = 'azFuncHostSettings';
+    public readonly contextValue: string = HostSettingsTreeItem.contextValue;
+    public readonly label: string = localize('hostSettings', 'Host Settings');
+    public readonly childTypeLabel: string = localize('hostSetting', 'Host Setting');
+    public readonly parent: SlotTreeItemBase;
+
+    public get id(): string {
+        return 'hostSettings';
+    }
+
+    public get description(): string {
+        return hostFileName;
+    }
+
+    public get iconPath(): nodeUtils.IThemedIconPath {
+        return nodeUtils.getThemedIconPath('BulletList');
+    }
+
+    public hasMoreChildrenImpl(): boolean {
+        return false;
+    }
+
+    public async loadMoreChildrenImpl(): Promise<AzureTreeItem<ISiteTreeRoot>[]> {
+        return getHostJsonDisplayValues(this.parent.hostJson).map((v: IHostJsonDisplayValue) => new HostSettingTreeItem(this, v.name, v.value));
+    }
+}
@@ -4,10 +4,14 @@
  *--------------------------------------------------------------------------------------------*/
 
 import { getFile, IFileResult, ISiteTreeRoot, putFile } from 'vscode-azureappservice';
-import { AzureParentTreeItem, AzureTreeItem, DialogResponses, parseError } from 'vscode-azureextensionui';
+import { AzureParentTreeItem, AzureTreeItem, DialogResponses, IActionContext, parseError } from 'vscode-azureextensionui';
+import { createProxyWizard, getProxy } from '../commands/proxies/createProxyWizard';
+import { IProxyWizardContext } from '../commands/proxies/IProxyWizardContext';
 import { ext } from '../extensionVariables';
+import { IProxiesJson, IProxy, proxiesJsonSchema } from '../funcConfig/proxies';
 import { localize } from '../localize';
 import { nodeUtils } from '../utils/nodeUtils';
+import { nonNullProp } from '../utils/nonNull';
 import { ProxyTreeItem } from './ProxyTreeItem';
 import { SlotTreeItemBase } from './SlotTreeItemBase';
 
@@ -20,8 +24,8 @@ export class ProxiesTreeItem extends AzureParentTreeItem<ISiteTreeRoot> {
 
     private readonly _proxiesJsonPath: string = 'site/wwwroot/proxies.json';
     private _proxyConfig: IProxyConfig;
-    private _etag: string;
-    private _deletingProxy: boolean = false;
+    private _etag: string | undefined;
+    private _updatingProxy: boolean = false;
     private _readOnly: boolean;
 
     private constructor(parent: SlotTreeItemBase) {
@@ -60,6 +64,78 @@ export class ProxiesTreeItem extends AzureParentTreeItem<ISiteTreeRoot> {
     }
 
     public async loadMoreChildrenImpl(): Promise<AzureTreeItem<ISiteTreeRoot>[]> {
+        await this.loadProxyConfig();
+        return Object.keys(this._proxyConfig.proxies).map((name: string) => new ProxyTreeItem(this, name, this._proxyConfig.proxies[name]));
+    }
+
+    public async createChildImpl(showCreatingTreeItem: (label: string) => void): Promise<ProxyTreeItem> {
+        this.throwIfReadOnly();
+        if (!<IProxyConfig | undefined>this._proxyConfig) {
+            await this.loadProxyConfig();
+        }
+
+        // https://github.com/Microsoft/vscode-azuretools/issues/120
+        const actionContext: IActionContext = { properties: {}, measurements: {} };
+        const wizardContext: IProxyWizardContext = { existingProxyNames: Object.keys(this._proxyConfig.proxies) };
+        await createProxyWizard(wizardContext).prompt(actionContext);
+
+        const name: string = nonNullProp(wizardContext, 'proxyName');
+        const proxy: IProxy = getProxy(wizardContext);
+        showCreatingTreeItem(name);
+        await this.updateProxyConfig(
+            localize('creatingProxy', 'Creating proxy "{0}"...', name),
+            localize('createProxySucceeded', 'Successfully created proxy "{0}".', name),
+            () => { this._proxyConfig.proxies[name] = proxy; }
+        );
+        return new ProxyTreeItem(this, name, proxy);
+    }
+
+    public async editProxy(actionContext: IActionContext, name: string): Promise<IProxy> {
+        this.throwIfReadOnly();
+        const wizardContext: IProxyWizardContext = { existingProxyNames: Object.keys(this._proxyConfig.proxies), proxyName: name, existingProxy: this._proxyConfig.proxies[name] };
+        await createProxyWizard(wizardContext).prompt(actionContext);
+
+        const proxy: IProxy = getProxy(wizardContext);
+        await this.updateProxyConfig(
+            localize('updatingProxy', 'Updating proxy "{0}"...', name),
+            localize('updateProxySucceeded', 'Successfully updated proxy "{0}".', name),
+            () => { this._proxyConfig.proxies[name] = proxy; }
+        );
+        return proxy;
+    }
+
+    public async deleteProxy(name: string): Promise<void> {
+        const message: string = localize('azFunc.ConfirmDelete', 'Are you sure you want to delete proxy "{0}"?', name);
+        await ext.ui.showWarningMessage(message, { modal: true }, DialogResponses.deleteResponse, DialogResponses.cancel);
+        await this.updateProxyConfig(
+            localize('DeletingProxy', 'Deleting proxy "{0}"...', name),
+            localize('DeleteProxySucceeded', 'Successfully deleted proxy "{0}".', name),
+            () => { delete this._proxyConfig.proxies[name]; }
+        );
+    }
+
+    /**
+     * Uses the etag from when the config was loaded, so that we don't overwrite changes made elsewhere since then
+     */
+    private async updateProxyConfig(startMessage: string, succeededMessage: string, update: () => void): Promise<void> {
+        if (this._updatingProxy) {
+            throw new Error(localize('multipleProxyOperations', 'An operation on the proxy config is already in progress. Wait until it has finished and try again.'));
+        } else {
+            this._updatingProxy = true;
+            try {
+                ext.outputChannel.show(true);
+                ext.outputChannel.appendLine(startMessage);
+                update();
+                const data: string = JSON.stringify(this._proxyConfig);
+                this._etag = await putFile(this.root.client, data, this._proxiesJsonPath, this._etag);
+                ext.outputChannel.appendLine(succeededMessage);
+            } finally {
+                this._updatingProxy = false;
+            }
+        }
+    }
+
+    private async loadProxyConfig(): Promise<void> {
         let proxiesJson: string;
         try {
             const result: IFileResult = await getFile(this.root.client, this._proxiesJsonPath);
@@ -67,46 +143,29 @@ export class ProxiesTreeItem extends AzureParentTreeItem<ISiteTreeRoot> {
             this._etag = result.etag;
         } catch (err) {
             // if the proxies.json file does not exist, that means there are no proxies
-            return [];
+            this._proxyConfig = { $schema: proxiesJsonSchema, proxies: {} };
+            this._etag = undefined;
+            return;
         }
 
         try {
-            const rawProxyConfig: IRawProxyConfig = <IRawProxyConfig>JSON.parse(proxiesJson);
+            const rawProxyConfig: IProxiesJson = <IProxiesJson>JSON.parse(proxiesJson);
             if (!rawProxyConfig.proxies) {
                 rawProxyConfig.proxies = {};
             }
             this._proxyConfig = <IProxyConfig>rawProxyConfig;
-            return Object.keys(this._proxyConfig.proxies).map((name: string) => new ProxyTreeItem(this, name));
         } catch (err) {
             throw new Error(localize('failedToParseProxyConfig', 'Failed to parse "proxies.json" file: {0}', parseError(err).message));
         }
     }
 
-    public async deleteProxy(name: string): Promise<void> {
-        const message: string = localize('azFunc.ConfirmDelete', 'Are you sure you want to delete proxy "{0}"?', name);
-        await ext.ui.showWarningMessage(message, { modal: true }, DialogResponses.deleteResponse, DialogResponses.cancel);
-        if (this._deletingProxy) {
-            throw new Error(localize('multipleProxyOperations', 'An operation on the proxy config is already in progress. Wait until it has finished and try again.'));
-        } else {
-            this._deletingProxy = true;
-            try {
-                ext.outputChannel.show(true);
-                ext.outputChannel.appendLine(localize('DeletingProxy', 'Deleting proxy "{0}"...', name));
-                delete this._proxyConfig.proxies[name];
-                const data: string = JSON.stringify(this._proxyConfig);
-                this._etag = await putFile(this.root.client, data, this._proxiesJsonPath, this._etag);
-                ext.outputChannel.appendLine(localize('DeleteProxySucceeded', 'Successfully deleted proxy "{0}".', name));
-            } finally {
-                this._deletingProxy = false;
-            }
+    private throwIfReadOnly(): void {
+        if (this._readOnly) {
+            throw new Error(localize('readOnlyProxies', 'Proxies for this function app are read only because it is running from a package.'));
         }
     }
 }
 
-interface IRawProxyConfig {
-    proxies?: { [name: string]: {} };
-}
-
-interface IProxyConfig {
-    proxies: { [name: string]: {} };
+interface IProxyConfig extends IProxiesJson {
+    proxies: { [name: string]: IProxy };
 }
@@ -4,7 +4,8 @@
  *--------------------------------------------------------------------------------------------*/
 
 import { ISiteTreeRoot } from 'vscode-azureappservice';
-import { AzureTreeItem } from 'vscode-azureextensionui';
+import { AzureTreeItem, IActionContext } from 'vscode-azureextensionui';
+import { IProxy } from '../funcConfig/proxies';
 import { nodeUtils } from '../utils/nodeUtils';
 import { ProxiesTreeItem } from './ProxiesTreeItem';
 
@@ -13,16 +14,22 @@ export class ProxyTreeItem extends AzureTreeItem<ISiteTreeRoot> {
     public static readOnlyContextValue: string = 'azFuncProxyReadOnly';
     public readonly parent: ProxiesTreeItem;
     private readonly _name: string;
+    private _proxy: IProxy;
 
-    public constructor(parent: ProxiesTreeItem, name: string) {
+    public constructor(parent: ProxiesTreeItem, name: string, proxy: IProxy) {
         super(parent);
         this._name = name;
+        this._proxy = proxy;
     }
 
     public get label(): string {
         return this._name;
     }
 
+    public get description(): string | undefined {
+        return this._proxy.matchCondition && this._proxy.matchCondition.route;
+    }
+
     public get contextValue(): string {
         return this.parent.readOnly ? ProxyTreeItem.readOnlyContextValue : ProxyTreeItem.contextValue;
     }
@@ -31,6 +38,11 @@ export class ProxyTreeItem extends AzureTreeItem<ISiteTreeRoot> {
         return nodeUtils.getIconPath(ProxyTreeItem.contextValue);
     }
 
+    public async edit(actionContext: IActionContext): Promise<void> {
+        this._proxy = await this.parent.editProxy(actionContext, this._name);
+        await this.refresh();
+    }
+
     public async deleteTreeItemImpl(): Promise<void> {
         await this.parent.deleteProxy(this._name);
     }
@@ -13,6 +13,8 @@ import { nodeUtils } from '../utils/nodeUtils';
 import { convertStringToRuntime } from '../vsCodeConfig/settings';
 import { FunctionsTreeItem } from './FunctionsTreeItem';
 import { FunctionTreeItem } from './FunctionTreeItem';
+import { HostSettingsTreeItem } from './HostSettingsTreeItem';
+import { HostSettingTreeItem } from './HostSettingTreeItem';
 import { ProxiesTreeItem } from './ProxiesTreeItem';
 import { ProxyTreeItem } from './ProxyTreeItem';
 
@@ -31,6 +33,7 @@ export abstract class SlotTreeItemBase extends AzureParentTreeItem<ISiteTreeRoot
     private _state?: string;
     private _functionsTreeItem: FunctionsTreeItem | undefined;
     private _proxiesTreeItem: ProxiesTreeItem | undefined;
+    private _hostSettingsTreeItem: HostSettingsTreeItem | undefined;
 
     public constructor(parent: AzureParentTreeItem, client: SiteClient) {
         super(parent);
@@ -115,6 +118,8 @@ export abstract class SlotTreeItemBase extends AzureParentTreeItem<ISiteTreeRoot
         const siteConfig: WebSiteManagementModels.SiteConfig = await this.root.client.getSiteConfig();
         const sourceControl: WebSiteManagementModels.SiteSourceControl = await this.root.client.getSourceControl();
         this.deploymentsNode = new DeploymentsTreeItem(this, siteConfig, sourceControl, 'azureFunctions.connectToGitHub');
+        // Recreated every time since the host settings are read when this item is refreshed
+        this._hostSettingsTreeItem = new HostSettingsTreeItem(this);
 
         if (!this._functionsTreeItem) {
             this._functionsTreeItem = await FunctionsTreeItem.createFunctionsTreeItem(this);
@@ -124,7 +129,7 @@ export abstract class SlotTreeItemBase extends AzureParentTreeItem<ISiteTreeRoot
             this._proxiesTreeItem = await ProxiesTreeItem.createProxiesTreeItem(this);
         }
 
-        return [this._functionsTreeItem, this.appSettingsTreeItem, this._proxiesTreeItem, this.deploymentsNode];
+        return [this._functionsTreeItem, this.appSettingsTreeItem, this._hostSettingsTreeItem, this._proxiesTreeItem, this.deploymentsNode];
     }
 
     public pickTreeItemImpl(expectedContextValue: string | RegExp): AzureTreeItem<ISiteTreeRoot> | undefined {
@@ -134,6 +139,9 @@ export abstract class SlotTreeItemBase extends AzureParentTreeItem<ISiteTreeRoot
             case AppSettingsTreeItem.contextValue:
             case AppSettingTreeItem.contextValue:
                 return this.appSettingsTreeItem;
+            case HostSettingsTreeItem.contextValue:
+            case HostSettingTreeItem.contextValue:
+                return this._hostSettingsTreeItem;
             case ProxiesTreeItem.contextValue:
             case ProxyTreeItem.contextValue:
             case ProxyTreeItem.readOnlyContextValue:
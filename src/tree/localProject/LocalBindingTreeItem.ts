@@ -3,15 +3,23 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { AzureTreeItem } from 'vscode-azureextensionui';
-import { IFunctionBinding } from '../../funcConfig/function';
+import * as fse from 'fs-extra';
+import { AzureTreeItem, AzureWizard, DialogResponses, IActionContext } from 'vscode-azureextensionui';
+import { createEditBindingWizard } from '../../commands/addBinding/createBindingWizard';
+import { IBindingWizardContext } from '../../commands/addBinding/IBindingWizardContext';
+import { ext } from '../../extensionVariables';
+import { IFunctionBinding, IFunctionJson, ParsedFunctionJson } from '../../funcConfig/function';
+import { localize } from '../../localize';
+import { confirmEditJsonFile } from '../../utils/fs';
 import { nonNullProp } from '../../utils/nonNull';
 import { IProjectRoot } from './IProjectRoot';
 import { LocalBindingsTreeItem } from './LocalBindingsTreeItem';
 
 export class LocalBindingTreeItem extends AzureTreeItem<IProjectRoot> {
     public static contextValue: string = 'azFuncLocalBinding';
-    public readonly contextValue: string = LocalBindingTreeItem.contextValue;
+    public static readOnlyContextValue: string = 'azFuncLocalBindingReadOnly';
+    public readonly contextValue: string;
+    public readonly parent: LocalBindingsTreeItem;
 
     private _binding: IFunctionBinding;
     private _name: string;
@@ -20,6 +28,7 @@ export class LocalBindingTreeItem extends AzureTreeItem<IProjectRoot> {
         super(parent);
         this._binding = binding;
         this._name = nonNullProp(binding, 'name');
+        this.contextValue = parent.isReadOnly ? LocalBindingTreeItem.readOnlyContextValue : LocalBindingTreeItem.contextValue;
     }
 
     public get id(): string {
@@ -33,4 +42,44 @@ export class LocalBindingTreeItem extends AzureTreeItem<IProjectRoot> {
     public get description(): string | undefined {
         return this._binding.direction;
     }
+
+    public async edit(actionContext: IActionContext): Promise<void> {
+        this.parent.throwIfReadOnly();
+
+        const wizardContext: IBindingWizardContext = {
+            actionContext,
+            functionJsonPath: this.parent.functionJsonPath,
+            workspacePath: this.root.workspacePath,
+            projectPath: this.root.projectPath,
+            workspaceFolder: this.root.workspaceFolder,
+            existingBinding: this._binding
+        };
+
+        const wizard: AzureWizard<IBindingWizardContext> = await createEditBindingWizard(wizardContext);
+        await wizard.prompt(actionContext);
+        await wizard.execute(actionContext);
+
+        this._binding = nonNullProp(wizardContext, 'binding');
+        this._name = nonNullProp(this._binding, 'name');
+        await this.refresh();
+    }
+
+    public async deleteTreeItemImpl(): Promise<void> {
+        this.parent.throwIfReadOnly();
+
+        const functionJsonPath: string = this.parent.functionJsonPath;
+        const config: ParsedFunctionJson = new ParsedFunctionJson(await fse.readJSON(functionJsonPath));
+        const trigger: IFunctionBinding | undefined = config.triggerBinding;
+        if (trigger && trigger.name === this._name) {
+            throw new Error(localize('cantDeleteTrigger', 'Binding "{0}" can\'t be deleted because it is the trigger for this function. A function must have exactly one trigger.', this._name));
+        }
+
+        const message: string = localize('confirmDelete', 'Are you sure you want to delete binding "{0}"?', this._name);
+        await ext.ui.showWarningMessage(message, { modal: true }, DialogResponses.deleteResponse, DialogResponses.cancel);
+        await confirmEditJsonFile(functionJsonPath, (functionJson: IFunctionJson) => {
+            // tslint:disable-next-line: strict-boolean-expressions
+            functionJson.bindings = (functionJson.bindings || []).filter(b => b.name !== this._name);
+            return functionJson;
+        });
+    }
 }
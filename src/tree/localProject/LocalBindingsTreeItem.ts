@@ -6,6 +6,7 @@
 import { AzureParentTreeItem, AzureWizard, IActionContext } from 'vscode-azureextensionui';
 import { createBindingWizard } from '../../commands/addBinding/createBindingWizard';
 import { IBindingWizardContext } from '../../commands/addBinding/IBindingWizardContext';
+import { FunctionSource, ILocalFunction } from '../../funcConfig/discoverFunctions';
 import { ParsedFunctionJson } from '../../funcConfig/function';
 import { localize } from '../../localize';
 import { nodeUtils } from '../../utils/nodeUtils';
@@ -16,17 +17,36 @@ import { LocalFunctionTreeItem } from './LocalFunctionTreeItem';
 
 export class LocalBindingsTreeItem extends AzureParentTreeItem<IProjectRoot> {
     public static contextValue: string = 'azFuncLocalBindings';
-    public readonly contextValue: string = LocalBindingsTreeItem.contextValue;
+    public static readOnlyContextValue: string = 'azFuncLocalBindingsReadOnly';
+    public readonly contextValue: string;
     public readonly label: string = localize('bindings', 'Bindings');
     public readonly childTypeLabel: string = localize('binding', 'binding');
-    public functionJsonPath: string;
+    public readonly func: ILocalFunction;
 
     private readonly _config: ParsedFunctionJson;
 
-    public constructor(parent: LocalFunctionTreeItem, config: ParsedFunctionJson, functionJsonPath: string) {
+    public constructor(parent: LocalFunctionTreeItem, config: ParsedFunctionJson, func: ILocalFunction) {
         super(parent);
         this._config = config;
-        this.functionJsonPath = functionJsonPath;
+        this.func = func;
+        this.contextValue = this.isReadOnly ? LocalBindingsTreeItem.readOnlyContextValue : LocalBindingsTreeItem.contextValue;
+    }
+
+    /**
+     * Bindings for compiled functions are defined in source code, so we can only edit script functions
+     */
+    public get isReadOnly(): boolean {
+        return this.func.source !== FunctionSource.functionJson;
+    }
+
+    public get functionJsonPath(): string {
+        return this.func.fsPath;
+    }
+
+    public throwIfReadOnly(): void {
+        if (this.isReadOnly) {
+            throw new Error(localize('readOnlyBindings', 'Bindings for function "{0}" are defined in "{1}" and must be edited there.', this.func.name, this.func.fsPath));
+        }
     }
 
     public get id(): string {
@@ -46,6 +66,8 @@ export class LocalBindingsTreeItem extends AzureParentTreeItem<IProjectRoot> {
     }
 
     public async createChildImpl(_showCreatingTreeItem: (label: string) => void): Promise<LocalBindingTreeItem> {
+        this.throwIfReadOnly();
+
         // https://github.com/Microsoft/vscode-azuretools/issues/120
         const actionContext: IActionContext = { properties: {}, measurements: {} };
         const wizardContext: IBindingWizardContext = {
@@ -3,8 +3,20 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { AzureParentTreeItem, AzureTreeItem } from 'vscode-azureextensionui';
-import { ParsedFunctionJson } from '../../funcConfig/function';
+import * as fse from 'fs-extra';
+import * as path from 'path';
+import { AzureParentTreeItem, AzureTreeItem, DialogResponses } from 'vscode-azureextensionui';
+import { validateFunctionNameFormat } from '../../commands/createFunction/FunctionNameStepBase';
+import { validateScriptFunctionFolder } from '../../commands/createFunction/scriptSteps/ScriptFunctionNameStep';
+import { functionJsonFileName } from '../../constants';
+import { ext } from '../../extensionVariables';
+import { FunctionSource, ILocalFunction } from '../../funcConfig/discoverFunctions';
+import { IFunctionJson, ParsedFunctionJson } from '../../funcConfig/function';
+import { getFunctionJsonErrors } from '../../funcConfig/functionJsonDiagnostics';
+import { isFuncHostRunning } from '../../funcCoreTools/funcHostTask';
+import { getLocalFunctionUrl } from '../../funcCoreTools/getLocalFuncUrl';
+import { localize } from '../../localize';
+import { confirmEditJsonFile, copyFolder, getUniqueFsPath } from '../../utils/fs';
 import { nodeUtils } from '../../utils/nodeUtils';
 import { FunctionTreeItem } from '../FunctionTreeItem';
 import { IProjectRoot } from './IProjectRoot';
@@ -12,29 +24,104 @@ import { LocalBindingsTreeItem } from './LocalBindingsTreeItem';
 import { LocalFunctionsTreeItem } from './LocalFunctionsTreeItem';
 
 export class LocalFunctionTreeItem extends AzureParentTreeItem<IProjectRoot> {
-    public static contextValue: string = 'azFuncLocalFunction';
-    public contextValue: string = LocalFunctionTreeItem.contextValue;
-    private readonly _name: string;
+    public static contextValueBase: string = 'azFuncLocalFunction';
+    /**
+     * Matches functions defined by a 'function.json' file in the project, which are the only ones that can be renamed, duplicated, or deleted
+     */
+    public static editableContextValue: RegExp = /^azFuncLocalFunction(Http|Timer|)$/i;
+    public readonly func: ILocalFunction;
+    public readonly config: ParsedFunctionJson;
+    public readonly name: string;
     private _bindingsNode: LocalBindingsTreeItem;
+    private _triggerUrl: string | undefined;
+    private _errorCount: number = 0;
 
-    public constructor(parent: LocalFunctionsTreeItem, name: string, config: ParsedFunctionJson, functionJsonPath: string) {
+    private constructor(parent: LocalFunctionsTreeItem, func: ILocalFunction, config: ParsedFunctionJson) {
         super(parent);
-        this._name = name;
-        this._bindingsNode = new LocalBindingsTreeItem(this, config, functionJsonPath);
+        this.func = func;
+        this.config = config;
+        this.name = func.name;
+        this._bindingsNode = new LocalBindingsTreeItem(this, config, func);
+    }
+
+    public static async createLocalFunctionTreeItem(parent: LocalFunctionsTreeItem, func: ILocalFunction, config: ParsedFunctionJson): Promise<LocalFunctionTreeItem> {
+        const ti: LocalFunctionTreeItem = new LocalFunctionTreeItem(parent, func, config);
+        // initialize
+        await ti.refreshImpl();
+        return ti;
     }
 
     public get id(): string {
-        return this._name;
+        return this.name;
     }
 
     public get label(): string {
-        return this._name;
+        return this.name;
+    }
+
+    public get contextValue(): string {
+        let contextValue: string = LocalFunctionTreeItem.contextValueBase;
+        if (this.config.isHttpTrigger) {
+            contextValue += 'Http';
+        } else if (this.config.isTimerTrigger) {
+            contextValue += 'Timer';
+        }
+
+        if (this.func.source !== FunctionSource.functionJson) {
+            contextValue += 'ReadOnly';
+        }
+
+        return contextValue;
+    }
+
+    public get description(): string | undefined {
+        const descriptions: string[] = [];
+        if (this._errorCount > 0) {
+            descriptions.push(localize('invalidFunction', 'Invalid ({0} problem(s))', this._errorCount));
+        }
+
+        if (this._triggerUrl) {
+            descriptions.push(this._triggerUrl);
+        }
+
+        switch (this.func.source) {
+            case FunctionSource.sourceCode:
+                descriptions.push(path.basename(this.func.fsPath));
+                break;
+            case FunctionSource.buildOutput:
+                descriptions.push(localize('buildOutput', 'Build output'));
+                break;
+            default:
+        }
+
+        return descriptions.length > 0 ? descriptions.join(' - ') : undefined;
     }
 
     public get iconPath(): string {
         return nodeUtils.getIconPath(FunctionTreeItem.contextValueBase);
     }
 
+    /**
+     * Only defined while the func host is running
+     */
+    public get triggerUrl(): string | undefined {
+        return this._triggerUrl;
+    }
+
+    public async getTriggerUrl(): Promise<string> {
+        return await getLocalFunctionUrl(this.root.workspaceFolder, this.root.projectPath, this.name, this.config);
+    }
+
+    public async refreshImpl(): Promise<void> {
+        this._errorCount = this.func.source === FunctionSource.functionJson ? getFunctionJsonErrors(this.func.fsPath).length : 0;
+
+        if (this.config.isHttpTrigger && isFuncHostRunning(this.root.workspaceFolder, this.root.projectPath)) {
+            this._triggerUrl = await this.getTriggerUrl();
+        } else {
+            this._triggerUrl = undefined;
+        }
+    }
+
     public hasMoreChildrenImpl(): boolean {
         return false;
     }
@@ -46,4 +133,68 @@ export class LocalFunctionTreeItem extends AzureParentTreeItem<IProjectRoot> {
     public pickTreeItemImpl(): AzureTreeItem<IProjectRoot> {
         return this._bindingsNode;
     }
+
+    /**
+     * The folder containing 'function.json'. Only valid for script functions
+     */
+    public get functionPath(): string {
+        return path.dirname(this.func.fsPath);
+    }
+
+    public async rename(): Promise<void> {
+        this.throwIfReadOnly();
+        const newName: string = await this.promptForName(localize('renamePrompt', 'Provide a new name for function "{0}"', this.name), this.name);
+        const newPath: string = path.join(this.root.projectPath, newName);
+        await fse.rename(this.functionPath, newPath);
+        await this.updateScriptFile(newPath, newName);
+    }
+
+    public async duplicate(): Promise<void> {
+        this.throwIfReadOnly();
+        const defaultName: string | undefined = await getUniqueFsPath(this.root.projectPath, this.name);
+        const newName: string = await this.promptForName(localize('duplicatePrompt', 'Provide a name for the copy of function "{0}"', this.name), defaultName);
+        const newPath: string = path.join(this.root.projectPath, newName);
+        await fse.ensureDir(newPath);
+        await copyFolder(this.functionPath, newPath);
+        await this.updateScriptFile(newPath, newName);
+    }
+
+    public async deleteTreeItemImpl(): Promise<void> {
+        this.throwIfReadOnly();
+        const message: string = localize('confirmDelete', 'Are you sure you want to delete function "{0}"? This will delete the folder "{1}".', this.name, this.functionPath);
+        await ext.ui.showWarningMessage(message, { modal: true }, DialogResponses.deleteResponse, DialogResponses.cancel);
+        await fse.remove(this.functionPath);
+    }
+
+    private throwIfReadOnly(): void {
+        if (this.func.source !== FunctionSource.functionJson) {
+            throw new Error(localize('readOnlyFunction', 'Function "{0}" is defined in "{1}" and must be modified there.', this.name, this.func.fsPath));
+        }
+    }
+
+    private async promptForName(prompt: string, value: string | undefined): Promise<string> {
+        return await ext.ui.showInputBox({
+            placeHolder: localize('funcNamePlaceholder', 'Function name'),
+            prompt,
+            value,
+            validateInput: async (s: string): Promise<string | undefined> => validateFunctionNameFormat(s) || await validateScriptFunctionFolder(this.root.projectPath, s)
+        });
+    }
+
+    /**
+     * TypeScript functions point to the compiled output (e.g. '../dist/HttpTrigger/index.js'), which is based on the name of the function's folder
+     * Paths relative to the function's own folder don't need to change
+     */
+    private async updateScriptFile(newPath: string, newName: string): Promise<void> {
+        const scriptFile: string | undefined = this.config.data.scriptFile;
+        if (scriptFile) {
+            const segments: string[] = scriptFile.split(/[\\\/]/);
+            if (segments[0] === '..') {
+                await confirmEditJsonFile(path.join(newPath, functionJsonFileName), (functionJson: IFunctionJson) => {
+                    functionJson.scriptFile = segments.map(s => s === this.name ? newName : s).join('/');
+                    return functionJson;
+                });
+            }
+        }
+    }
 }
@@ -3,10 +3,8 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import * as fse from 'fs-extra';
-import * as path from 'path';
 import { AzureParentTreeItem, AzureTreeItem, createTreeItemsWithErrorHandling } from 'vscode-azureextensionui';
-import { functionJsonFileName } from '../../constants';
+import { discoverLocalFunctions, getLocalFunctionConfig, ILocalFunction } from '../../funcConfig/discoverFunctions';
 import { ParsedFunctionJson } from '../../funcConfig/function';
 import { localize } from '../../localize';
 import { nodeUtils } from '../../utils/nodeUtils';
@@ -32,25 +30,17 @@ export class LocalFunctionsTreeItem extends AzureParentTreeItem<IProjectRoot> {
     }
 
     public async loadMoreChildrenImpl(_clearCache: boolean): Promise<AzureTreeItem<IProjectRoot>[]> {
-        const subpaths: string[] = await fse.readdir(this.root.projectPath);
-
-        const functions: string[] = [];
-        await Promise.all(subpaths.map(async s => {
-            if (await fse.pathExists(path.join(this.root.projectPath, s, functionJsonFileName))) {
-                functions.push(s);
-            }
-        }));
+        const functions: ILocalFunction[] = await discoverLocalFunctions(this.root.projectPath);
 
         return await createTreeItemsWithErrorHandling(
             this,
             functions,
             'azFuncInvalidLocalFunction',
-            async func => {
-                const functionJsonPath: string = path.join(this.root.projectPath, func, functionJsonFileName);
-                const config: ParsedFunctionJson = new ParsedFunctionJson(await fse.readJSON(functionJsonPath));
-                return new LocalFunctionTreeItem(this, func, config, functionJsonPath);
+            async (func: ILocalFunction) => {
+                const config: ParsedFunctionJson = await getLocalFunctionConfig(func);
+                return await LocalFunctionTreeItem.createLocalFunctionTreeItem(this, func, config);
             },
-            (func: string) => func
+            (func: ILocalFunction) => func.name
         );
     }
 }
@@ -4,13 +4,25 @@
  *--------------------------------------------------------------------------------------------*/
 
 import * as path from 'path';
-import { Disposable, FileSystemWatcher, Uri, workspace, WorkspaceFolder } from 'vscode';
+import { DiagnosticChangeEvent, Disposable, FileSystemWatcher, languages, TaskScope, Uri, workspace, WorkspaceFolder } from 'vscode';
 import { AzureTreeItem, RootTreeItem } from 'vscode-azureextensionui';
-import { functionJsonFileName } from '../../constants';
+import { functionJsonFileName, localSettingsFileName, proxiesFileName } from '../../constants';
+import { onDidChangeFuncHostState } from '../../funcCoreTools/funcHostTask';
 import { localize } from '../../localize';
+import { isPathEqual, isSubpath } from '../../utils/fs';
 import { nodeUtils } from '../../utils/nodeUtils';
 import { IProjectRoot } from './IProjectRoot';
 import { LocalFunctionsTreeItem } from './LocalFunctionsTreeItem';
+import { LocalFunctionTreeItem } from './LocalFunctionTreeItem';
+import { LocalProxiesTreeItem } from './LocalProxiesTreeItem';
+import { LocalProxyTreeItem } from './LocalProxyTreeItem';
+import { LocalSettingsTreeItem } from './LocalSettingsTreeItem';
+import { LocalSettingTreeItem } from './LocalSettingTreeItem';
+
+/**
+ * Diagnostics change on every keystroke, so wait until they've settled before refreshing the functions
+ */
+const diagnosticsRefreshDelay: number = 500;
 
 export class LocalProjectTreeItem extends RootTreeItem<IProjectRoot> implements Disposable {
     public static contextValue: string = 'azFuncLocalProject';
@@ -20,6 +32,10 @@ export class LocalProjectTreeItem extends RootTreeItem<IProjectRoot> implements
 
     private _disposables: Disposable[] = [];
     private _localFunctionsTreeItem: LocalFunctionsTreeItem;
+    private _localSettingsTreeItem: LocalSettingsTreeItem;
+    private _localProxiesTreeItem: LocalProxiesTreeItem;
+    private _diagnosticsTimer: NodeJS.Timer | undefined;
+    private _diagnosticsPaths: string[] = [];
 
     public constructor(projectPath: string, workspacePath: string, workspaceFolder: WorkspaceFolder) {
         super(<IProjectRoot>{ projectPath, workspacePath, workspaceFolder });
@@ -32,7 +48,24 @@ export class LocalProjectTreeItem extends RootTreeItem<IProjectRoot> implements
         this._disposables.push(watcher.onDidCreate(async e => await this.functionsChanged(e)));
         this._disposables.push(watcher.onDidDelete(async e => await this.functionsChanged(e)));
 
+        const settingsWatcher: FileSystemWatcher = workspace.createFileSystemWatcher(path.join(projectPath, localSettingsFileName));
+        this._disposables.push(settingsWatcher);
+        this._disposables.push(settingsWatcher.onDidChange(async e => await this.localSettingsChanged(e)));
+        this._disposables.push(settingsWatcher.onDidCreate(async e => await this.localSettingsChanged(e)));
+        this._disposables.push(settingsWatcher.onDidDelete(async e => await this.localSettingsChanged(e)));
+
+        const proxiesWatcher: FileSystemWatcher = workspace.createFileSystemWatcher(path.join(projectPath, proxiesFileName));
+        this._disposables.push(proxiesWatcher);
+        this._disposables.push(proxiesWatcher.onDidChange(async e => await this.proxiesChanged(e)));
+        this._disposables.push(proxiesWatcher.onDidCreate(async e => await this.proxiesChanged(e)));
+        this._disposables.push(proxiesWatcher.onDidDelete(async e => await this.proxiesChanged(e)));
+
+        this._disposables.push(onDidChangeFuncHostState(async scope => await this.funcHostStateChanged(scope)));
+        this._disposables.push(languages.onDidChangeDiagnostics(e => this.diagnosticsChanged(e)));
+
         this._localFunctionsTreeItem = new LocalFunctionsTreeItem(this);
+        this._localSettingsTreeItem = new LocalSettingsTreeItem(this);
+        this._localProxiesTreeItem = new LocalProxiesTreeItem(this);
     }
 
     public get iconPath(): nodeUtils.IThemedIconPath {
@@ -40,7 +73,8 @@ export class LocalProjectTreeItem extends RootTreeItem<IProjectRoot> implements
     }
 
     public get id(): string {
-        return 'localProject' + this.projectName;
+        // Use the full path since a workspace may have multiple projects with the same name
+        return 'localProject' + this.root.projectPath;
     }
 
     public get description(): string {
@@ -48,6 +82,9 @@ export class LocalProjectTreeItem extends RootTreeItem<IProjectRoot> implements
     }
 
     public dispose(): void {
+        if (this._diagnosticsTimer) {
+            clearTimeout(this._diagnosticsTimer);
+        }
         this._disposables.forEach(d => { d.dispose(); });
     }
 
@@ -56,18 +93,73 @@ export class LocalProjectTreeItem extends RootTreeItem<IProjectRoot> implements
     }
 
     public async loadMoreChildrenImpl(_clearCache: boolean): Promise<AzureTreeItem<IProjectRoot>[]> {
-        return [this._localFunctionsTreeItem];
+        return [this._localFunctionsTreeItem, this._localSettingsTreeItem, this._localProxiesTreeItem];
     }
 
     public isAncestorOfImpl(contextValue: string | RegExp): boolean {
-        return typeof contextValue === 'string' && /^azFuncLocal/.test(contextValue);
+        const value: string = typeof contextValue === 'string' ? contextValue : contextValue.source;
+        return /^\^?azFuncLocal/.test(value);
     }
 
-    public pickTreeItemImpl(): AzureTreeItem<IProjectRoot> {
-        return this._localFunctionsTreeItem;
+    public pickTreeItemImpl(expectedContextValue: string | RegExp): AzureTreeItem<IProjectRoot> {
+        switch (expectedContextValue) {
+            case LocalSettingsTreeItem.contextValue:
+            case LocalSettingTreeItem.contextValue:
+                return this._localSettingsTreeItem;
+            case LocalProxiesTreeItem.contextValue:
+            case LocalProxyTreeItem.contextValue:
+                return this._localProxiesTreeItem;
+            default:
+                return this._localFunctionsTreeItem;
+        }
     }
 
     private async functionsChanged(_uri: Uri): Promise<void> {
         await this.refresh();
     }
+
+    private async funcHostStateChanged(scope: WorkspaceFolder | TaskScope): Promise<void> {
+        // The urls for http triggers are only displayed while the host is running
+        if (scope === this.root.workspaceFolder) {
+            await this._localFunctionsTreeItem.refresh();
+        }
+    }
+
+    private diagnosticsChanged(e: DiagnosticChangeEvent): void {
+        // Invalid functions are marked in the tree
+        const fsPaths: string[] = e.uris.map(uri => uri.fsPath).filter(p => path.basename(p) === functionJsonFileName && isSubpath(this.root.projectPath, p));
+        if (fsPaths.length > 0) {
+            this._diagnosticsPaths.push(...fsPaths.filter(p => this._diagnosticsPaths.indexOf(p) === -1));
+            if (this._diagnosticsTimer) {
+                clearTimeout(this._diagnosticsTimer);
+            }
+
+            this._diagnosticsTimer = setTimeout(
+                async () => {
+                    this._diagnosticsTimer = undefined;
+                    await this.refreshFunctionDiagnostics(this._diagnosticsPaths.splice(0));
+                },
+                diagnosticsRefreshDelay
+            );
+        }
+    }
+
+    /**
+     * Only refreshes the functions defined by these files. Functions that failed to load are refreshed by the file watcher when the file is saved
+     */
+    private async refreshFunctionDiagnostics(fsPaths: string[]): Promise<void> {
+        for (const child of await this._localFunctionsTreeItem.getCachedChildren()) {
+            if (child instanceof LocalFunctionTreeItem && fsPaths.some(p => isPathEqual(p, child.func.fsPath))) {
+                await child.refresh();
+            }
+        }
+    }
+
+    private async localSettingsChanged(_uri: Uri): Promise<void> {
+        await this._localSettingsTreeItem.refresh();
+    }
+
+    private async proxiesChanged(_uri: Uri): Promise<void> {
+        await this._localProxiesTreeItem.refresh();
+    }
 }
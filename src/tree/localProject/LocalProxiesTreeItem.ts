@@ -0,0 +1,110 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fse from 'fs-extra';
+import * as path from 'path';
+import { AzureParentTreeItem, IActionContext, parseError } from 'vscode-azureextensionui';
+import { createProxyWizard, getProxy } from '../../commands/proxies/createProxyWizard';
+import { IProxyWizardContext } from '../../commands/proxies/IProxyWizardContext';
+import { proxiesFileName } from '../../constants';
+import { IProxiesJson, IProxy, proxiesJsonSchema } from '../../funcConfig/proxies';
+import { localize } from '../../localize';
+import { confirmEditJsonFile } from '../../utils/fs';
+import { nodeUtils } from '../../utils/nodeUtils';
+import { nonNullProp } from '../../utils/nonNull';
+import { IProjectRoot } from './IProjectRoot';
+import { LocalProjectTreeItem } from './LocalProjectTreeItem';
+import { LocalProxyTreeItem } from './LocalProxyTreeItem';
+
+export class LocalProxiesTreeItem extends AzureParentTreeItem<IProjectRoot> {
+    public static contextValue: string = 'azFuncLocalProxies';
+    public readonly contextValue: string = LocalProxiesTreeItem.contextValue;
+    public readonly label: string = localize('proxies', 'Proxies');
+    public readonly childTypeLabel: string = localize('proxy', 'Proxy');
+
+    public constructor(parent: LocalProjectTreeItem) {
+        super(parent);
+    }
+
+    public get id(): string {
+        return 'proxies';
+    }
+
+    public get iconPath(): nodeUtils.IThemedIconPath {
+        return nodeUtils.getThemedIconPath('BulletList');
+    }
+
+    public get proxiesJsonPath(): string {
+        return path.join(this.root.projectPath, proxiesFileName);
+    }
+
+    public hasMoreChildrenImpl(): boolean {
+        return false;
+    }
+
+    public async loadMoreChildrenImpl(_clearCache: boolean): Promise<LocalProxyTreeItem[]> {
+        const proxies: { [name: string]: IProxy } = await this.getProxies();
+        return Object.keys(proxies).map(name => new LocalProxyTreeItem(this, name, proxies[name]));
+    }
+
+    public async createChildImpl(showCreatingTreeItem: (label: string) => void): Promise<LocalProxyTreeItem> {
+        // https://github.com/Microsoft/vscode-azuretools/issues/120
+        const actionContext: IActionContext = { properties: {}, measurements: {} };
+        const wizardContext: IProxyWizardContext = { existingProxyNames: Object.keys(await this.getProxies()) };
+        await createProxyWizard(wizardContext).prompt(actionContext);
+
+        const name: string = nonNullProp(wizardContext, 'proxyName');
+        const proxy: IProxy = getProxy(wizardContext);
+        showCreatingTreeItem(name);
+        await this.setProxy(name, proxy);
+        return new LocalProxyTreeItem(this, name, proxy);
+    }
+
+    public async editProxy(actionContext: IActionContext, name: string): Promise<IProxy> {
+        const proxies: { [name: string]: IProxy } = await this.getProxies();
+        const wizardContext: IProxyWizardContext = { existingProxyNames: Object.keys(proxies), proxyName: name, existingProxy: proxies[name] };
+        await createProxyWizard(wizardContext).prompt(actionContext);
+
+        const proxy: IProxy = getProxy(wizardContext);
+        await this.setProxy(name, proxy);
+        return proxy;
+    }
+
+    public async deleteProxy(name: string): Promise<void> {
+        await confirmEditJsonFile(this.proxiesJsonPath, (data: IProxiesJson) => {
+            if (data.proxies) {
+                delete data.proxies[name];
+            }
+            return data;
+        });
+    }
+
+    private async setProxy(name: string, proxy: IProxy): Promise<void> {
+        await confirmEditJsonFile(this.proxiesJsonPath, (data: IProxiesJson) => {
+            // tslint:disable-next-line: strict-boolean-expressions
+            data.$schema = data.$schema || proxiesJsonSchema;
+            // tslint:disable-next-line: strict-boolean-expressions
+            data.proxies = data.proxies || {};
+            data.proxies[name] = proxy;
+            return data;
+        });
+    }
+
+    private async getProxies(): Promise<{ [name: string]: IProxy }> {
+        if (!await fse.pathExists(this.proxiesJsonPath)) {
+            return {};
+        }
+
+        let data: IProxiesJson;
+        try {
+            data = <IProxiesJson>await fse.readJSON(this.proxiesJsonPath);
+        } catch (err) {
+            throw new Error(localize('failedToParseProxyConfig', 'Failed to parse "proxies.json" file: {0}', parseError(err).message));
+        }
+
+        // tslint:disable-next-line: strict-boolean-expressions
+        return data.proxies || {};
+    }
+}
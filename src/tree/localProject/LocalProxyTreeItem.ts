@@ -0,0 +1,54 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { AzureTreeItem, DialogResponses, IActionContext } from 'vscode-azureextensionui';
+import { ext } from '../../extensionVariables';
+import { IProxy } from '../../funcConfig/proxies';
+import { localize } from '../../localize';
+import { nodeUtils } from '../../utils/nodeUtils';
+import { ProxyTreeItem } from '../ProxyTreeItem';
+import { IProjectRoot } from './IProjectRoot';
+import { LocalProxiesTreeItem } from './LocalProxiesTreeItem';
+
+export class LocalProxyTreeItem extends AzureTreeItem<IProjectRoot> {
+    public static contextValue: string = 'azFuncLocalProxy';
+    public readonly contextValue: string = LocalProxyTreeItem.contextValue;
+    public readonly parent: LocalProxiesTreeItem;
+    private readonly _name: string;
+    private _proxy: IProxy;
+
+    public constructor(parent: LocalProxiesTreeItem, name: string, proxy: IProxy) {
+        super(parent);
+        this._name = name;
+        this._proxy = proxy;
+    }
+
+    public get id(): string {
+        return this._name;
+    }
+
+    public get label(): string {
+        return this._name;
+    }
+
+    public get description(): string | undefined {
+        return this._proxy.matchCondition && this._proxy.matchCondition.route;
+    }
+
+    public get iconPath(): string {
+        return nodeUtils.getIconPath(ProxyTreeItem.contextValue);
+    }
+
+    public async edit(actionContext: IActionContext): Promise<void> {
+        this._proxy = await this.parent.editProxy(actionContext, this._name);
+        await this.refresh();
+    }
+
+    public async deleteTreeItemImpl(): Promise<void> {
+        const message: string = localize('confirmDelete', 'Are you sure you want to delete proxy "{0}"?', this._name);
+        await ext.ui.showWarningMessage(message, { modal: true }, DialogResponses.deleteResponse, DialogResponses.cancel);
+        await this.parent.deleteProxy(this._name);
+    }
+}
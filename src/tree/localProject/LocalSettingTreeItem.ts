@@ -0,0 +1,101 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { AzureTreeItem, DialogResponses } from 'vscode-azureextensionui';
+import { ext } from '../../extensionVariables';
+import { getLocalSettingsJson, ILocalSettingsJson } from '../../funcConfig/local.settings';
+import { localize } from '../../localize';
+import { IProjectRoot } from './IProjectRoot';
+import { LocalSettingsSection, LocalSettingsTreeItem, validateLocalSettingKey } from './LocalSettingsTreeItem';
+
+export class LocalSettingTreeItem extends AzureTreeItem<IProjectRoot> {
+    public static contextValue: string = 'azFuncLocalSetting';
+    public readonly contextValue: string = LocalSettingTreeItem.contextValue;
+    public readonly parent: LocalSettingsTreeItem;
+    public readonly commandId: string = 'azureFunctions.toggleAppSettingVisibility';
+    public readonly section: LocalSettingsSection;
+
+    private _key: string;
+    private _value: string;
+    private _isEncrypted: boolean;
+    private _hideValue: boolean = true;
+
+    public constructor(parent: LocalSettingsTreeItem, section: LocalSettingsSection, key: string, value: string, isEncrypted: boolean) {
+        super(parent);
+        this.section = section;
+        this._key = key;
+        this._value = value;
+        this._isEncrypted = isEncrypted;
+    }
+
+    public get id(): string {
+        return `${this.section}/${this._key}`;
+    }
+
+    public get key(): string {
+        return this._key;
+    }
+
+    public get label(): string {
+        return this._hideValue ? localize('hiddenValue', '{0}=Hidden value. Click to view.', this._key) : `${this._key}=${this._value}`;
+    }
+
+    public get description(): string | undefined {
+        const descriptions: string[] = [];
+        if (this.section === 'ConnectionStrings') {
+            descriptions.push(localize('connectionString', 'Connection String'));
+        }
+
+        if (this._isEncrypted) {
+            descriptions.push(localize('encrypted', 'Encrypted'));
+        }
+
+        return descriptions.length > 0 ? descriptions.join(', ') : undefined;
+    }
+
+    public async edit(): Promise<void> {
+        const settings: ILocalSettingsJson = await this.parent.getDecryptedSettings();
+        // tslint:disable-next-line: strict-boolean-expressions
+        const sectionSettings: { [key: string]: string } = settings[this.section] || {};
+        const newValue: string = await ext.ui.showInputBox({
+            prompt: localize('enterValue', 'Enter setting value for "{0}"', this._key),
+            value: sectionSettings[this._key]
+        });
+
+        await this.parent.editSettingItem(this.section, this._key, this._key, newValue);
+        this._value = newValue;
+        this._isEncrypted = false;
+        await this.refresh();
+    }
+
+    public async rename(): Promise<void> {
+        // Keys are never encrypted, so the value can be moved as-is
+        const settings: ILocalSettingsJson = await getLocalSettingsJson(this.parent.localSettingsPath);
+        const oldKey: string = this._key;
+        const newKey: string = await ext.ui.showInputBox({
+            prompt: localize('enterNewName', 'Enter a new name for "{0}"', oldKey),
+            value: oldKey,
+            validateInput: (v: string): string | undefined => validateLocalSettingKey(settings[this.section], v, oldKey)
+        });
+
+        // tslint:disable-next-line: strict-boolean-expressions
+        const sectionSettings: { [key: string]: string } = settings[this.section] || {};
+        this._value = sectionSettings[oldKey];
+        await this.parent.editSettingItem(this.section, oldKey, newKey, this._value);
+        this._key = newKey;
+        await this.refresh();
+    }
+
+    public async deleteTreeItemImpl(): Promise<void> {
+        const message: string = localize('confirmDelete', 'Are you sure you want to delete local setting "{0}"?', this._key);
+        await ext.ui.showWarningMessage(message, { modal: true }, DialogResponses.deleteResponse, DialogResponses.cancel);
+        await this.parent.deleteSettingItem(this.section, this._key);
+    }
+
+    public async toggleValueVisibility(): Promise<void> {
+        this._hideValue = !this._hideValue;
+        await this.refresh();
+    }
+}
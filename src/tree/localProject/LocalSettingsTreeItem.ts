@@ -0,0 +1,146 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import { Uri } from 'vscode';
+import { AzureParentTreeItem, IAzureQuickPickItem } from 'vscode-azureextensionui';
+import { decryptLocalSettings } from '../../commands/appSettings/decryptLocalSettings';
+import { localSettingsFileName } from '../../constants';
+import { ext } from '../../extensionVariables';
+import { getLocalSettingsJson, ILocalSettingsJson, setLocalAppSetting } from '../../funcConfig/local.settings';
+import { localize } from '../../localize';
+import { writeFormattedJson } from '../../utils/fs';
+import { nodeUtils } from '../../utils/nodeUtils';
+import { IProjectRoot } from './IProjectRoot';
+import { LocalProjectTreeItem } from './LocalProjectTreeItem';
+import { LocalSettingTreeItem } from './LocalSettingTreeItem';
+
+export type LocalSettingsSection = 'Values' | 'ConnectionStrings';
+
+export function validateLocalSettingKey(settings: { [key: string]: string } | undefined, newKey: string | undefined, oldKey?: string): string | undefined {
+    newKey = newKey ? newKey.trim() : '';
+    oldKey = oldKey ? oldKey.trim().toLowerCase() : oldKey;
+    if (newKey.length === 0) {
+        return localize('emptyKey', 'Key must have at least one non-whitespace character.');
+    }
+
+    if (settings && newKey.toLowerCase() !== oldKey) {
+        for (const key of Object.keys(settings)) {
+            if (key.toLowerCase() === newKey.toLowerCase()) {
+                return localize('settingExists', 'Setting "{0}" already exists.', newKey);
+            }
+        }
+    }
+
+    return undefined;
+}
+
+export class LocalSettingsTreeItem extends AzureParentTreeItem<IProjectRoot> {
+    public static contextValue: string = 'azFuncLocalSettings';
+    public readonly contextValue: string = LocalSettingsTreeItem.contextValue;
+    public readonly label: string = localize('localSettings', 'Local Settings');
+    public readonly childTypeLabel: string = localize('localSetting', 'local setting');
+
+    public constructor(parent: LocalProjectTreeItem) {
+        super(parent);
+    }
+
+    public get id(): string {
+        return 'localSettings';
+    }
+
+    public get iconPath(): nodeUtils.IThemedIconPath {
+        return nodeUtils.getThemedIconPath('BulletList');
+    }
+
+    public get localSettingsPath(): string {
+        return path.join(this.root.projectPath, localSettingsFileName);
+    }
+
+    public hasMoreChildrenImpl(): boolean {
+        return false;
+    }
+
+    public async loadMoreChildrenImpl(_clearCache: boolean): Promise<LocalSettingTreeItem[]> {
+        const settings: ILocalSettingsJson = await getLocalSettingsJson(this.localSettingsPath);
+        const isEncrypted: boolean = !!settings.IsEncrypted;
+        // tslint:disable-next-line: strict-boolean-expressions
+        const values: { [key: string]: string } = settings.Values || {};
+        // tslint:disable-next-line: strict-boolean-expressions
+        const connectionStrings: { [key: string]: string } = settings.ConnectionStrings || {};
+        return [
+            ...Object.keys(values).map(key => new LocalSettingTreeItem(this, 'Values', key, values[key], isEncrypted)),
+            ...Object.keys(connectionStrings).map(key => new LocalSettingTreeItem(this, 'ConnectionStrings', key, connectionStrings[key], isEncrypted))
+        ];
+    }
+
+    public async createChildImpl(showCreatingTreeItem: (label: string) => void): Promise<LocalSettingTreeItem> {
+        const settings: ILocalSettingsJson = await this.getDecryptedSettings();
+
+        const picks: IAzureQuickPickItem<LocalSettingsSection>[] = [
+            { label: localize('appSetting', 'App Setting'), description: 'Values', data: 'Values' },
+            { label: localize('connectionString', 'Connection String'), description: 'ConnectionStrings', data: 'ConnectionStrings' }
+        ];
+        const placeHolder: string = localize('selectSettingType', 'Select the type of setting to add');
+        const section: LocalSettingsSection = (await ext.ui.showQuickPick(picks, { placeHolder, suppressPersistence: true })).data;
+
+        const newKey: string = await ext.ui.showInputBox({
+            prompt: localize('enterKey', 'Enter new setting key'),
+            validateInput: (v: string): string | undefined => validateLocalSettingKey(settings[section], v)
+        });
+
+        const newValue: string = await ext.ui.showInputBox({
+            prompt: localize('enterValue', 'Enter setting value for "{0}"', newKey)
+        });
+
+        showCreatingTreeItem(newKey);
+        if (section === 'Values') {
+            await setLocalAppSetting(this.root.projectPath, newKey, newValue, true /* suppressPrompt */);
+        } else {
+            await this.editSettingItem(section, newKey, newKey, newValue);
+        }
+
+        return new LocalSettingTreeItem(this, section, newKey, newValue, false);
+    }
+
+    public async editSettingItem(section: LocalSettingsSection, oldKey: string, newKey: string, value: string): Promise<void> {
+        const settings: ILocalSettingsJson = await getLocalSettingsJson(this.localSettingsPath);
+        // tslint:disable-next-line: strict-boolean-expressions
+        const sectionSettings: { [key: string]: string } = settings[section] || {};
+        if (oldKey !== newKey) {
+            delete sectionSettings[oldKey];
+        }
+        sectionSettings[newKey] = value;
+        settings[section] = sectionSettings;
+        await writeFormattedJson(this.localSettingsPath, settings);
+    }
+
+    public async deleteSettingItem(section: LocalSettingsSection, key: string): Promise<void> {
+        // Keys are never encrypted, so there's no need to decrypt before deleting
+        const settings: ILocalSettingsJson = await getLocalSettingsJson(this.localSettingsPath);
+        const sectionSettings: { [key: string]: string } | undefined = settings[section];
+        if (sectionSettings) {
+            delete sectionSettings[key];
+        }
+        await writeFormattedJson(this.localSettingsPath, settings);
+    }
+
+    /**
+     * Values written by this extension are plain text, so we can't safely edit a file that was encrypted with the func cli
+     */
+    public async getDecryptedSettings(): Promise<ILocalSettingsJson> {
+        let settings: ILocalSettingsJson = await getLocalSettingsJson(this.localSettingsPath);
+        if (settings.IsEncrypted) {
+            const message: string = localize('encryptedSettings', 'Your local settings are encrypted and must be decrypted before they can be modified. Decrypt now?');
+            const decrypt: { title: string } = { title: localize('decrypt', 'Decrypt') };
+            // Decrypt is the only button and cancel automatically throws, so no need to check result
+            await ext.ui.showWarningMessage(message, { modal: true }, decrypt);
+            await decryptLocalSettings(Uri.file(this.localSettingsPath));
+            settings = await getLocalSettingsJson(this.localSettingsPath);
+        }
+
+        return settings;
+    }
+}
@@ -5,7 +5,7 @@
 
 import { ExtensionContext, workspace, WorkspaceFolder } from "vscode";
 import { AzureParentTreeItem } from "vscode-azureextensionui";
-import { tryGetFunctionProjectRoot } from "../../commands/createNewProject/verifyIsProject";
+import { getFunctionProjectRoots } from "../../commands/createNewProject/verifyIsProject";
 import { getWorkspaceSetting } from "../../vsCodeConfig/settings";
 import { LocalProjectTreeItem } from "./LocalProjectTreeItem";
 
@@ -19,8 +19,7 @@ export async function getProjectTreeItems(context: ExtensionContext): Promise<Az
         // tslint:disable-next-line: strict-boolean-expressions
         const folders: WorkspaceFolder[] = workspace.workspaceFolders || [];
         for (const folder of folders) {
-            const projectPath: string | undefined = await tryGetFunctionProjectRoot(folder.uri.fsPath, true /* suppressPrompt */);
-            if (projectPath) {
+            for (const projectPath of await getFunctionProjectRoots(folder.uri.fsPath)) {
                 const treeItem: LocalProjectTreeItem = new LocalProjectTreeItem(projectPath, folder.uri.fsPath, folder);
                 context.subscriptions.push(treeItem);
                 // tslint:disable-next-line: no-any
@@ -8,11 +8,9 @@ import request = require('request-promise');
 import { callWithTelemetryAndErrorHandling, IActionContext } from 'vscode-azureextensionui';
 import { ProjectRuntime } from '../constants';
 import { ext, TemplateSource } from '../extensionVariables';
-import { localize } from '../localize';
+import { getRuntimeInfo, IRuntimeInfo } from '../runtimes';
 
 const funcCliFeedUrl: string = 'https://aka.ms/V00v5v';
-const v1DefaultNodeVersion: string = '6.5.0';
-const v2DefaultNodeVersion: string = '8.11.1';
 
 export type cliFeedJsonResponse = {
     tags: {
@@ -47,18 +45,7 @@ export async function tryGetCliFeedJson(): Promise<cliFeedJsonResponse | undefin
 }
 
 export function getFeedRuntime(runtime: ProjectRuntime): string {
-    let result: string;
-    switch (runtime) {
-        case ProjectRuntime.v2:
-            result = 'v2';
-            break;
-        case ProjectRuntime.v1:
-            result = 'v1';
-            break;
-        default:
-            throw new RangeError(localize('invalidRuntime', 'Invalid runtime "{0}".', runtime));
-    }
-
+    const result: string = getRuntimeInfo(runtime).feedTag;
     return ext.templateSource === TemplateSource.StagingCliFeed ? `${result}-prerelease` : result;
 }
 
@@ -66,13 +53,16 @@ export function getFeedRuntime(runtime: ProjectRuntime): string {
  * Returns the app settings that should be used when creating or deploying to a Function App, based on runtime
  */
 export async function getCliFeedAppSettings(projectRuntime: ProjectRuntime): Promise<{ [key: string]: string }> {
-    // Use these defaults in case we can't get the cli-feed
+    // Use these defaults in case we can't get the cli-feed (or it doesn't have this runtime yet)
+    const runtimeInfo: IRuntimeInfo = getRuntimeInfo(projectRuntime);
     let funcVersion: string = projectRuntime;
-    let nodeVersion: string = projectRuntime === ProjectRuntime.v1 ? v1DefaultNodeVersion : v2DefaultNodeVersion;
+    let nodeVersion: string = runtimeInfo.defaultNodeVersion;
 
     const cliFeed: cliFeedJsonResponse | undefined = await tryGetCliFeedJson();
-    if (cliFeed) {
-        const release: string = cliFeed.tags[getFeedRuntime(projectRuntime)].release;
+    const feedRuntime: string = getFeedRuntime(projectRuntime);
+    // tslint:disable-next-line: strict-boolean-expressions
+    if (cliFeed && cliFeed.tags[feedRuntime]) {
+        const release: string = cliFeed.tags[feedRuntime].release;
         funcVersion = cliFeed.releases[release].FUNCTIONS_EXTENSION_VERSION;
         nodeVersion = cliFeed.releases[release].nodeVersion;
     }
@@ -0,0 +1,38 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { ext } from '../extensionVariables';
+
+const readOnlyScheme: string = 'azureFunctionsReadOnly';
+const contents: Map<string, string> = new Map();
+const onDidChangeEmitter: vscode.EventEmitter<vscode.Uri> = new vscode.EventEmitter();
+
+/**
+ * Provides the contents of read-only documents that don't exist on disk, e.g. for diffs and previews
+ */
+export function registerReadOnlyContentProvider(): void {
+    const provider: vscode.TextDocumentContentProvider = {
+        onDidChange: onDidChangeEmitter.event,
+        provideTextDocumentContent: (uri: vscode.Uri): string => {
+            // tslint:disable-next-line: strict-boolean-expressions
+            return contents.get(uri.toString()) || '';
+        }
+    };
+    ext.context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(readOnlyScheme, provider));
+    ext.context.subscriptions.push(onDidChangeEmitter);
+}
+
+/**
+ * Sets the contents of a read-only document, updating the document if it's already open
+ * @param id Distinguishes documents with the same file name
+ * @param fileName The name displayed for the document. The extension determines the language
+ */
+export function setReadOnlyContent(id: string, fileName: string, content: string): vscode.Uri {
+    const uri: vscode.Uri = vscode.Uri.parse(`${readOnlyScheme}:/${encodeURIComponent(id)}/${encodeURIComponent(fileName)}`);
+    contents.set(uri.toString(), content);
+    onDidChangeEmitter.fire(uri);
+    return uri;
+}
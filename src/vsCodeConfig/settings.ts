@@ -8,6 +8,7 @@ import { IAzureQuickPickItem, IAzureQuickPickOptions } from 'vscode-azureextensi
 import { extensionPrefix, ProjectLanguage, ProjectRuntime } from '../constants';
 import { ext } from '../extensionVariables';
 import { localize } from "../localize";
+import { getRuntimes, tryGetRuntimeFromVersion } from '../runtimes';
 import { openUrl } from '../utils/openUrl';
 
 /**
@@ -43,6 +44,16 @@ export function getWorkspaceSetting<T>(key: string, fsPath?: string, prefix: str
     return projectConfiguration.get<T>(key);
 }
 
+/**
+ * Unlike `getWorkspaceSetting`, this ignores the global value (aka the setting is only returned if it's set for the folder or workspace)
+ * Uses extensionPrefix 'azureFunctions' unless otherwise specified
+ */
+export function getFolderSetting<T>(key: string, fsPath: string, prefix: string = extensionPrefix): T | undefined {
+    const projectConfiguration: WorkspaceConfiguration = workspace.getConfiguration(prefix, Uri.file(fsPath));
+    const result: { workspaceValue?: T; workspaceFolderValue?: T } | undefined = projectConfiguration.inspect<T>(key);
+    return result && (result.workspaceFolderValue !== undefined ? result.workspaceFolderValue : result.workspaceValue);
+}
+
 /**
  * Searches through all open folders and gets the current workspace setting (as long as there are no conflicts)
  */
@@ -63,11 +74,10 @@ export function getWorkspaceSettingFromAnyFolder(key: string, prefix: string = e
 }
 
 export async function promptForProjectRuntime(message?: string): Promise<ProjectRuntime> {
-    const picks: IAzureQuickPickItem<ProjectRuntime | undefined>[] = [
-        { label: 'Azure Functions v2', description: '(.NET Standard)', data: ProjectRuntime.v2 },
-        { label: 'Azure Functions v1', description: '(.NET Framework)', data: ProjectRuntime.v1 },
-        { label: localize('learnMore', 'Learn more...'), description: '', data: undefined }
-    ];
+    const picks: IAzureQuickPickItem<ProjectRuntime | undefined>[] = getRuntimes().map(r => {
+        return { label: r.label, description: r.description, data: r.runtime };
+    });
+    picks.push({ label: localize('learnMore', 'Learn more...'), description: '', data: undefined });
 
     const options: IAzureQuickPickOptions = { placeHolder: message || localize('selectRuntime', 'Select a runtime'), suppressPersistence: true };
     let runtime: ProjectRuntime | undefined;
@@ -83,20 +93,13 @@ export async function promptForProjectRuntime(message?: string): Promise<Project
 
 /**
  * Special notes due to recent GA of v2 (~Sept 2018):
- * We have to support 'beta' as 'v2' since it's so commonly used. We should remove this support eventually since 'beta' will probably change meaning if there's ever a v3.
+ * We still support 'beta' as 'v2' since it's so commonly used (see the aliases in the runtime table).
  * We no longer support 'latest'. That value is not recommended, not commonly used, and is changing meaning from v1 to v2. Better to just act like we don't recognize it.
  * https://github.com/Microsoft/vscode-azurefunctions/issues/562
  */
 export function convertStringToRuntime(rawRuntime: string | undefined): ProjectRuntime | undefined {
-    rawRuntime = rawRuntime ? rawRuntime.toLowerCase() : '';
-    if (/^~?1.*/.test(rawRuntime)) {
-        return ProjectRuntime.v1;
-    } else if (/^~?2.*/.test(rawRuntime) || rawRuntime === 'beta') {
-        return ProjectRuntime.v2;
-    } else {
-        // Return undefined if we don't recognize the runtime
-        return undefined;
-    }
+    // Return undefined if we don't recognize the runtime
+    return rawRuntime ? tryGetRuntimeFromVersion(rawRuntime) : undefined;
 }
 
 export function getFunctionsWorkerRuntime(language: string | undefined): string | undefined {
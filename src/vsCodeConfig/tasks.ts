@@ -38,6 +38,10 @@ export interface ITasksJson {
 export interface ITask extends TaskDefinition {
     label?: string;
     command?: string;
+    /**
+     * Only defined for 'func' tasks in a workspace folder with multiple projects
+     */
+    projectSubpath?: string;
     options?: ITaskOptions;
 }
 
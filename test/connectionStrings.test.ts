@@ -0,0 +1,39 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { WebSiteManagementModels } from 'azure-arm-website';
+import { defaultConnectionStringType, getConnectionStringValues, setConnectionStringValues } from '../extension.bundle';
+
+suite('connectionStrings', () => {
+    test('getConnectionStringValues', () => {
+        assert.deepEqual(getConnectionStringValues({}), {});
+        assert.deepEqual(
+            getConnectionStringValues({ properties: { MyDb: { value: 'Server=test', type: 'SQLAzure' }, Other: { value: 'abc', type: 'Custom' } } }),
+            { MyDb: 'Server=test', Other: 'abc' }
+        );
+    });
+
+    test('setConnectionStringValues preserves existing types', () => {
+        const connectionStrings: WebSiteManagementModels.ConnectionStringDictionary = { properties: { MyDb: { value: 'old', type: 'SQLAzure' } } };
+        setConnectionStringValues(connectionStrings, { MyDb: 'new', Added: 'value' });
+        assert.deepEqual(connectionStrings.properties, {
+            MyDb: { value: 'new', type: 'SQLAzure' },
+            Added: { value: 'value', type: defaultConnectionStringType }
+        });
+    });
+
+    test('setConnectionStringValues removes missing connection strings', () => {
+        const connectionStrings: WebSiteManagementModels.ConnectionStringDictionary = { properties: { MyDb: { value: 'old', type: 'SQLAzure' }, Removed: { value: 'value', type: 'MySql' } } };
+        setConnectionStringValues(connectionStrings, { MyDb: 'old' });
+        assert.deepEqual(connectionStrings.properties, { MyDb: { value: 'old', type: 'SQLAzure' } });
+    });
+
+    test('setConnectionStringValues with no existing connection strings', () => {
+        const connectionStrings: WebSiteManagementModels.ConnectionStringDictionary = {};
+        setConnectionStringValues(connectionStrings, { Added: 'value' });
+        assert.deepEqual(connectionStrings.properties, { Added: { value: 'value', type: defaultConnectionStringType } });
+    });
+});
@@ -29,12 +29,17 @@ suite('convertStringToRuntime', () => {
 
     const specificThree: string = '3.0.0';
     test(specificThree, () => {
-        assert.equal(convertStringToRuntime(specificThree), undefined);
+        assert.equal(convertStringToRuntime(specificThree), ProjectRuntime.v3);
     });
 
     const genericThree: string = '~3';
     test(genericThree, () => {
-        assert.equal(convertStringToRuntime(genericThree), undefined);
+        assert.equal(convertStringToRuntime(genericThree), ProjectRuntime.v3);
+    });
+
+    const genericFour: string = '~4';
+    test(genericFour, () => {
+        assert.equal(convertStringToRuntime(genericFour), undefined);
     });
 
     const beta: string = 'beta';
@@ -0,0 +1,63 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { filterAppSettings, getBindingReferencedSettings, IFilteredAppSettings, IFunctionBinding, isKeyVaultReference, matchesSettingPattern } from '../extension.bundle';
+
+suite('filterAppSettings', () => {
+    const remoteSettings: { [key: string]: string } = {
+        AzureWebJobsStorage: 'DefaultEndpointsProtocol=https;AccountName=test',
+        FUNCTIONS_EXTENSION_VERSION: '~2',
+        FUNCTIONS_WORKER_RUNTIME: 'node',
+        WEBSITE_CONTENTSHARE: 'share',
+        WEBSITE_RUN_FROM_PACKAGE: '1',
+        MyApp_Secret: '@Microsoft.KeyVault(SecretUri=https://myvault.vault.azure.net/secrets/mysecret/)',
+        MyApp_Url: 'https://contoso.com',
+        Other: 'value'
+    };
+
+    test('matchesSettingPattern', () => {
+        assert.equal(matchesSettingPattern('WEBSITE_CONTENTSHARE', 'WEBSITE_*'), true);
+        assert.equal(matchesSettingPattern('website_contentshare', 'WEBSITE_*'), true);
+        assert.equal(matchesSettingPattern('MY_WEBSITE_URL', 'WEBSITE_*'), false);
+        assert.equal(matchesSettingPattern('MyApp.Url', 'MyApp.*'), true);
+        assert.equal(matchesSettingPattern('MyAppXUrl', 'MyApp.*'), false);
+        assert.equal(matchesSettingPattern('Other', 'Other'), true);
+    });
+
+    test('isKeyVaultReference', () => {
+        assert.equal(isKeyVaultReference('@Microsoft.KeyVault(SecretUri=https://myvault.vault.azure.net/secrets/mysecret/)'), true);
+        assert.equal(isKeyVaultReference('@microsoft.keyvault(VaultName=myvault;SecretName=mysecret)'), true);
+        assert.equal(isKeyVaultReference('https://myvault.vault.azure.net'), false);
+    });
+
+    test('Excludes platform settings by default', () => {
+        const result: IFilteredAppSettings = filterAppSettings(remoteSettings, { include: [], exclude: [], excludePlatformSettings: true });
+        assert.deepEqual(Object.keys(result.settings).sort(), ['AzureWebJobsStorage', 'FUNCTIONS_WORKER_RUNTIME', 'MyApp_Url', 'Other']);
+        assert.deepEqual(result.excludedKeys.sort(), ['FUNCTIONS_EXTENSION_VERSION', 'WEBSITE_CONTENTSHARE', 'WEBSITE_RUN_FROM_PACKAGE']);
+        assert.deepEqual(result.keyVaultKeys, ['MyApp_Secret']);
+    });
+
+    test('Include and exclude patterns', () => {
+        const result: IFilteredAppSettings = filterAppSettings(remoteSettings, { include: ['MyApp_*', 'WEBSITE_*'], exclude: ['*_Url'], excludePlatformSettings: false });
+        assert.deepEqual(Object.keys(result.settings).sort(), ['WEBSITE_CONTENTSHARE', 'WEBSITE_RUN_FROM_PACKAGE']);
+        assert.deepEqual(result.keyVaultKeys, ['MyApp_Secret']);
+    });
+
+    test('Referenced keys', () => {
+        const result: IFilteredAppSettings = filterAppSettings(remoteSettings, { include: [], exclude: [], excludePlatformSettings: true, referencedKeys: ['azurewebjobsstorage', 'Other'] });
+        assert.deepEqual(Object.keys(result.settings).sort(), ['AzureWebJobsStorage', 'Other']);
+    });
+
+    test('getBindingReferencedSettings', () => {
+        const bindings: IFunctionBinding[] = [
+            { type: 'queueTrigger', name: 'myQueueItem', queueName: '%QueueName%', connection: '' },
+            { type: 'cosmosDB', name: 'doc', connectionStringSetting: 'CosmosConnection', databaseName: 'db' },
+            { type: 'serviceBus', name: 'msg', connection: 'ServiceBusConnection', queueName: '%QueueName%' },
+            { type: 'http', name: 'res', direction: 'out' }
+        ];
+        assert.deepEqual(getBindingReferencedSettings(bindings), ['QueueName', 'AzureWebJobsStorage', 'CosmosConnection', 'ServiceBusConnection']);
+    });
+});
@@ -0,0 +1,29 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { isProtectedAppSetting } from '../extension.bundle';
+
+suite('isProtectedAppSetting', () => {
+    test('Platform settings', () => {
+        assert.equal(isProtectedAppSetting('FUNCTIONS_EXTENSION_VERSION'), true);
+        assert.equal(isProtectedAppSetting('AzureWebJobsStorage'), true);
+        assert.equal(isProtectedAppSetting('azurewebjobsstorage'), true);
+        assert.equal(isProtectedAppSetting('WEBSITE_NODE_DEFAULT_VERSION'), true);
+        assert.equal(isProtectedAppSetting('website_contentshare'), true);
+    });
+
+    test('Slot sticky settings', () => {
+        assert.equal(isProtectedAppSetting('MySetting', ['MySetting']), true);
+        assert.equal(isProtectedAppSetting('mysetting', ['MySetting']), true);
+        assert.equal(isProtectedAppSetting('OtherSetting', ['MySetting']), false);
+    });
+
+    test('Other settings', () => {
+        assert.equal(isProtectedAppSetting('MySetting'), false);
+        assert.equal(isProtectedAppSetting('FUNCTIONS_WORKER_RUNTIME'), false);
+        assert.equal(isProtectedAppSetting('MY_WEBSITE_URL'), false);
+    });
+});
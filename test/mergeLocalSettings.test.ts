@@ -0,0 +1,41 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { getLocalSettingsProfileFileName, ILocalSettingsJson, mergeLocalSettings } from '../extension.bundle';
+
+suite('mergeLocalSettings', () => {
+    test('Profile values take precedence and the base host settings are used', () => {
+        const base: ILocalSettingsJson = {
+            IsEncrypted: false,
+            Values: { AzureWebJobsStorage: 'UseDevelopmentStorage=true', FUNCTIONS_WORKER_RUNTIME: 'node' },
+            Host: { LocalHttpPort: 7071, CORS: '*' },
+            ConnectionStrings: { MyDb: 'base' }
+        };
+        const profile: ILocalSettingsJson = {
+            Values: { AzureWebJobsStorage: 'DefaultEndpointsProtocol=https;AccountName=staging', NewKey: 'value' },
+            Host: { LocalHttpPort: 7072 },
+            ConnectionStrings: { Other: 'profile' }
+        };
+        assert.deepEqual(mergeLocalSettings(base, profile), {
+            IsEncrypted: false,
+            Values: { AzureWebJobsStorage: 'DefaultEndpointsProtocol=https;AccountName=staging', FUNCTIONS_WORKER_RUNTIME: 'node', NewKey: 'value' },
+            Host: { LocalHttpPort: 7071, CORS: '*' },
+            ConnectionStrings: { MyDb: 'base', Other: 'profile' }
+        });
+    });
+
+    test('Missing sections', () => {
+        assert.deepEqual(mergeLocalSettings({}, { Values: { key: 'value' }, Host: { LocalHttpPort: 7072 } }), {
+            IsEncrypted: false,
+            Values: { key: 'value' },
+            ConnectionStrings: {}
+        });
+    });
+
+    test('getLocalSettingsProfileFileName', () => {
+        assert.equal(getLocalSettingsProfileFileName('staging'), 'local.settings.staging.json');
+    });
+});
@@ -0,0 +1,66 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { convertHostJsonToV2, getBindingMigrationNotes, getLanguageMigrationNote, IHostJsonConversion, ProjectLanguage, requiresBindingExtensions } from '../extension.bundle';
+
+// tslint:disable-next-line:max-func-body-length
+suite('migrateProjectToV2', () => {
+    test('Empty host.json', () => {
+        const conversion: IHostJsonConversion = convertHostJsonToV2({});
+        assert.deepEqual(conversion.hostJson, { version: '2.0' });
+        assert.equal(conversion.changes.length, 1);
+    });
+
+    test('Full host.json', () => {
+        const conversion: IHostJsonConversion = convertHostJsonToV2({
+            functionTimeout: '00:05:00',
+            http: { routePrefix: 'myapi', maxConcurrentRequests: 10 },
+            logger: { categoryFilter: { defaultLevel: 'Warning', categoryLevels: { Host: 'Error' } } },
+            applicationInsights: { sampling: { isEnabled: true, maxTelemetryItemsPerSecond: 5 } },
+            queues: { batchSize: 8 },
+            serviceBus: { maxConcurrentCalls: 16, prefetchCount: 100, autoRenewTimeout: '00:05:00' },
+            eventHub: { maxBatchSize: 64, prefetchCount: 256, batchCheckpointFrequency: 1 },
+            tracing: { consoleLevel: 'verbose' },
+            aggregator: { batchSize: 1000 }
+        });
+        assert.deepEqual(conversion.hostJson, {
+            version: '2.0',
+            functionTimeout: '00:05:00',
+            logging: {
+                logLevel: { Host: 'Error', default: 'Warning' },
+                applicationInsights: { samplingSettings: { isEnabled: true, maxTelemetryItemsPerSecond: 5 } }
+            },
+            extensions: {
+                http: { routePrefix: 'myapi', maxConcurrentRequests: 10 },
+                queues: { batchSize: 8 },
+                serviceBus: { prefetchCount: 100, messageHandlerOptions: { maxConcurrentCalls: 16, maxAutoRenewDuration: '00:05:00' } },
+                eventHubs: { batchCheckpointFrequency: 1, eventProcessorOptions: { maxBatchSize: 64, prefetchCount: 256 } }
+            },
+            aggregator: { batchSize: 1000 }
+        });
+        // One change for the version and one for each property except "functionTimeout"
+        assert.equal(conversion.changes.length, 9);
+    });
+
+    test('Bindings', () => {
+        assert.deepEqual(getBindingMigrationNotes('f1', [{ type: 'httpTrigger', direction: 'in', name: 'req' }, { type: 'http', direction: 'out', name: 'res' }]), []);
+        assert.equal(getBindingMigrationNotes('f1', [{ type: 'documentDB', direction: 'in', name: 'doc', connection: 'conn' }]).length, 2);
+        assert.equal(getBindingMigrationNotes('f1', [{ type: 'eventHubTrigger', direction: 'in', name: 'msg', path: 'hub' }]).length, 1);
+        assert.equal(getBindingMigrationNotes('f1', [{ type: 'serviceBusTrigger', direction: 'in', name: 'msg', accessRights: 'manage' }]).length, 1);
+        // Other properties aren't flagged for unsupported bindings
+        assert.equal(getBindingMigrationNotes('f1', [{ type: 'apiHubFile', direction: 'in', name: 'file', path: 'a' }]).length, 1);
+    });
+
+    test('Binding extensions', () => {
+        assert.equal(requiresBindingExtensions([{ type: 'timerTrigger' }, { type: 'HTTP' }]), false);
+        assert.equal(requiresBindingExtensions([{ type: 'httpTrigger' }, { type: 'queue' }]), true);
+    });
+
+    test('Languages', () => {
+        assert.equal(getLanguageMigrationNote(ProjectLanguage.JavaScript), undefined);
+        assert.notEqual(getLanguageMigrationNote(ProjectLanguage.Bash), undefined);
+    });
+});
@@ -0,0 +1,118 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { ISourceFunction, parseCSharpFunctions, parseJavaFunctions } from '../extension.bundle';
+
+// tslint:disable-next-line:max-func-body-length
+suite('parseFunctionSource', () => {
+    test('C# http trigger with return and output bindings', () => {
+        const source: string = `
+public static class HttpTriggerCSharp
+{
+    // [FunctionName("Commented")]
+    [FunctionName("HttpTriggerCSharp")]
+    [return: Queue("outqueue", Connection = "MyStorage")]
+    public static async Task<IActionResult> Run(
+        [HttpTrigger(AuthorizationLevel.Anonymous, "get", "post", Route = null)] HttpRequest req,
+        [Blob("samples/{name}", FileAccess.Write)] Stream outBlob,
+        [Queue("q2")] IAsyncCollector<string> msgs,
+        ILogger log)
+    {
+        string url = "http://localhost"; // not a comment inside the string
+    }
+}`;
+        const functions: ISourceFunction[] = parseCSharpFunctions(source);
+        assert.equal(functions.length, 1);
+        assert.equal(functions[0].name, 'HttpTriggerCSharp');
+        assert.deepEqual(functions[0].functionJson.bindings, [
+            { type: 'queue', name: '$return', direction: 'out', queueName: 'outqueue', connection: 'MyStorage' },
+            { type: 'httpTrigger', name: 'req', direction: 'in', authLevel: 'anonymous' },
+            { type: 'blob', name: 'outBlob', direction: 'out', path: 'samples/{name}' },
+            { type: 'queue', name: 'msgs', direction: 'out', queueName: 'q2' }
+        ]);
+    });
+
+    test('C# multiple functions', () => {
+        const source: string = `
+[FunctionName("Timer")]
+public static void Timer([TimerTrigger("0 */5 * * * *")]TimerInfo myTimer, out string x, ILogger log) { }
+
+[FunctionName("Queue")]
+public static void Queue([QueueTrigger("myqueue", Connection = "Conn")] string item, [Queue("out")] out string x) { }`;
+        const functions: ISourceFunction[] = parseCSharpFunctions(source);
+        assert.deepEqual(functions, [
+            { name: 'Timer', functionJson: { bindings: [{ type: 'timerTrigger', name: 'myTimer', direction: 'in', schedule: '0 */5 * * * *' }] } },
+            {
+                name: 'Queue', functionJson: {
+                    bindings: [
+                        { type: 'queueTrigger', name: 'item', direction: 'in', queueName: 'myqueue', connection: 'Conn' },
+                        { type: 'queue', name: 'x', direction: 'out', queueName: 'out' }
+                    ]
+                }
+            }
+        ]);
+    });
+
+    test('C# char literals', () => {
+        const source: string = `
+[FunctionName("First")]
+public static void First([QueueTrigger("q1")] string item)
+{
+    char quote = '"';
+    char apostrophe = '\\'';
+    char backslash = '\\\\';
+    // [FunctionName("Commented")]
+}
+
+[FunctionName("Second")]
+public static void Second([QueueTrigger("q2")] string item) { var s = item.Split(','); }`;
+        const functions: ISourceFunction[] = parseCSharpFunctions(source);
+        assert.deepEqual(functions.map(f => f.name), ['First', 'Second']);
+        assert.deepEqual(functions[1].functionJson.bindings, [{ type: 'queueTrigger', name: 'item', direction: 'in', queueName: 'q2' }]);
+    });
+
+    test('Java', () => {
+        const source: string = `
+public class Function {
+    @FunctionName("HttpTrigger-Java")
+    public HttpResponseMessage run(
+            @HttpTrigger(name = "req", methods = {HttpMethod.GET, HttpMethod.POST}, authLevel = AuthorizationLevel.ANONYMOUS) HttpRequestMessage<Optional<String>> request,
+            @QueueOutput(name = "msg", queueName = "out", connection = "AzureWebJobsStorage") OutputBinding<String> msg,
+            final ExecutionContext context) {
+    }
+
+    @FunctionName("QueueFn")
+    @BlobOutput(name = "$return", path = "out/{id}")
+    public String q(@QueueTrigger(name = "message", queueName = "myqueue", connection = "Conn") String message, @BindingName("id") String id) {
+        return "";
+    }
+}`;
+        const functions: ISourceFunction[] = parseJavaFunctions(source);
+        assert.deepEqual(functions, [
+            {
+                name: 'HttpTrigger-Java', functionJson: {
+                    bindings: [
+                        { type: 'httpTrigger', direction: 'in', name: 'req', authLevel: 'anonymous' },
+                        { type: 'queue', direction: 'out', name: 'msg', queueName: 'out', connection: 'AzureWebJobsStorage' }
+                    ]
+                }
+            },
+            {
+                name: 'QueueFn', functionJson: {
+                    bindings: [
+                        { type: 'blob', direction: 'out', name: '$return', path: 'out/{id}' },
+                        { type: 'queueTrigger', direction: 'in', name: 'message', queueName: 'myqueue', connection: 'Conn' }
+                    ]
+                }
+            }
+        ]);
+    });
+
+    test('No functions', () => {
+        assert.equal(parseCSharpFunctions('public class Foo { public void Bar() { } }').length, 0);
+        assert.equal(parseJavaFunctions('public class Foo { public void bar() { } }').length, 0);
+    });
+});
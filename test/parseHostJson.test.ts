@@ -0,0 +1,127 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { getHostJsonDisplayValues, IParsedHostJson, parseHostJson, ProjectRuntime, validateFunctionTimeout } from '../extension.bundle';
+
+// tslint:disable-next-line:max-func-body-length
+suite('parseHostJson', () => {
+    test('Defaults', () => {
+        for (const runtime of [ProjectRuntime.v1, ProjectRuntime.v2]) {
+            const hostJson: IParsedHostJson = parseHostJson(undefined, runtime);
+            assert.equal(hostJson.routePrefix, 'api');
+            assert.equal(hostJson.functionTimeout, undefined);
+            assert.equal(hostJson.serviceBus.maxConcurrentCalls, undefined);
+            assert.equal(hostJson.serviceBus.prefetchCount, undefined);
+        }
+    });
+
+    test('v1', () => {
+        const hostJson: IParsedHostJson = parseHostJson(
+            {
+                functionTimeout: '00:10:00',
+                http: { routePrefix: 'v1api' },
+                logger: { categoryFilter: { defaultLevel: 'Warning', categoryLevels: { Function: 'Trace' } } },
+                serviceBus: { maxConcurrentCalls: 16, autoRenewTimeout: '00:05:00' },
+                eventHub: { maxBatchSize: 64 }
+            },
+            ProjectRuntime.v1
+        );
+        assert.equal(hostJson.routePrefix, 'v1api');
+        assert.equal(hostJson.functionTimeout, '00:10:00');
+        assert.equal(hostJson.logLevels.default, 'Warning');
+        assert.equal(hostJson.logLevels.Function, 'Trace');
+        assert.equal(hostJson.serviceBus.maxConcurrentCalls, 16);
+        assert.equal(hostJson.serviceBus.maxAutoRenewDuration, '00:05:00');
+        assert.equal(hostJson.eventHubs.maxBatchSize, 64);
+        assert.deepEqual(hostJson.validate(), []);
+    });
+
+    test('v2', () => {
+        const hostJson: IParsedHostJson = parseHostJson(
+            {
+                version: '2.0',
+                functionTimeout: '00:10:00',
+                logging: { logLevel: { default: 'Error' }, applicationInsights: { samplingSettings: { isEnabled: false } } },
+                extensions: {
+                    http: { routePrefix: 'v2api' },
+                    queues: { batchSize: 8 },
+                    serviceBus: { prefetchCount: 100, messageHandlerOptions: { maxConcurrentCalls: 32 } },
+                    eventHubs: { batchCheckpointFrequency: 2, eventProcessorOptions: { prefetchCount: 10 } }
+                }
+            },
+            ProjectRuntime.v2
+        );
+        assert.equal(hostJson.routePrefix, 'v2api');
+        assert.equal(hostJson.logLevels.default, 'Error');
+        assert.equal(hostJson.samplingSettings.isEnabled, false);
+        assert.equal(hostJson.queues.batchSize, 8);
+        assert.equal(hostJson.serviceBus.prefetchCount, 100);
+        assert.equal(hostJson.serviceBus.maxConcurrentCalls, 32);
+        assert.equal(hostJson.eventHubs.batchCheckpointFrequency, 2);
+        assert.equal(hostJson.eventHubs.prefetchCount, 10);
+        assert.deepEqual(hostJson.validate(), []);
+    });
+
+    test('Invalid values', () => {
+        const hostJson: IParsedHostJson = parseHostJson(
+            {
+                functionTimeout: '10 minutes',
+                queues: { batchSize: 100 },
+                healthMonitor: { enabled: 'yes' }
+            },
+            ProjectRuntime.v1
+        );
+        assert.equal(hostJson.validate().length, 3);
+    });
+
+    test('Unbounded function timeout', () => {
+        assert.deepEqual(parseHostJson({ version: '2.0', functionTimeout: '-1' }, ProjectRuntime.v2).validate(), []);
+        assert.equal(parseHostJson({ functionTimeout: '-1' }, ProjectRuntime.v1).validate().length, 1);
+        assert.equal(validateFunctionTimeout('-1', ProjectRuntime.v2), undefined);
+        assert.notEqual(validateFunctionTimeout('-1', ProjectRuntime.v1), undefined);
+        assert.notEqual(validateFunctionTimeout('-2', ProjectRuntime.v2), undefined);
+    });
+
+    test('Unsupported properties', () => {
+        assert.equal(parseHostJson({ logging: {} }, ProjectRuntime.v1).validate().length, 1);
+        assert.equal(parseHostJson({ version: '2.0', queues: {} }, ProjectRuntime.v2).validate().length, 1);
+        // v2 requires a version
+        assert.equal(parseHostJson({ extensions: {} }, ProjectRuntime.v2).validate().length, 1);
+    });
+
+    test('Display values', () => {
+        assert.deepEqual(getHostJsonDisplayValues(parseHostJson(undefined, ProjectRuntime.v2)), [{ name: 'routePrefix', value: 'api' }]);
+
+        const v1Values: string[] = getHostJsonDisplayValues(parseHostJson(
+            {
+                functionTimeout: '00:10:00',
+                logger: { categoryFilter: { defaultLevel: 'Warning' } },
+                queues: { batchSize: 8 },
+                serviceBus: { autoRenewTimeout: '00:05:00' },
+                healthMonitor: { enabled: false }
+            },
+            ProjectRuntime.v1
+        )).map(v => `${v.name}=${v.value}`);
+        assert.deepEqual(v1Values, [
+            'routePrefix=api',
+            'functionTimeout=00:10:00',
+            'logLevel.default=Warning',
+            'queues.batchSize=8',
+            'serviceBus.maxAutoRenewDuration=00:05:00',
+            'healthMonitor.enabled=false'
+        ]);
+
+        const v2Values: string[] = getHostJsonDisplayValues(parseHostJson(
+            {
+                version: '2.0',
+                extensions: { http: { routePrefix: '' }, eventHubs: { eventProcessorOptions: { maxBatchSize: 64 } } },
+                singleton: { lockPeriod: '00:00:15' }
+            },
+            ProjectRuntime.v2
+        )).map(v => `${v.name}=${v.value}`);
+        assert.deepEqual(v2Values, ['routePrefix=', 'eventHubs.maxBatchSize=64', 'singleton.lockPeriod=00:00:15']);
+    });
+});
@@ -0,0 +1,50 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { getDotnetTriggerType, IRawTemplate, IScriptFunctionTemplate, parseScriptTemplate, ProjectLanguage, TemplateCategory } from '../extension.bundle';
+
+suite('parseTemplateMetadata', () => {
+    function getRawTemplate(): IRawTemplate {
+        return {
+            id: 'BlobTrigger-JavaScript',
+            function: {
+                bindings: [
+                    { type: 'queue', direction: 'out', name: 'outputQueueItem' },
+                    { type: 'blobTrigger', direction: 'in', name: 'myBlob', path: 'samples-workitems/{name}' },
+                    { type: 'queue', direction: 'out', name: 'otherQueueItem' }
+                ]
+            },
+            metadata: {
+                defaultFunctionName: 'BlobTrigger',
+                name: 'Azure Blob Storage trigger',
+                description: '$BlobTrigger_description',
+                language: ProjectLanguage.JavaScript,
+                category: [TemplateCategory.Core]
+            },
+            files: {}
+        };
+    }
+
+    test('Script template', () => {
+        const template: IScriptFunctionTemplate = parseScriptTemplate(getRawTemplate(), { en: { BlobTrigger_description: 'Runs whenever a blob is added' } }, []);
+        assert.equal(template.description, 'Runs whenever a blob is added');
+        assert.equal(template.triggerType, 'blobTrigger');
+        assert.deepEqual(template.bindingTypes, ['blobTrigger', 'queue']);
+    });
+
+    test('Script template without description', () => {
+        const rawTemplate: IRawTemplate = getRawTemplate();
+        delete rawTemplate.metadata.description;
+        const template: IScriptFunctionTemplate = parseScriptTemplate(rawTemplate, { en: {} }, []);
+        assert.equal(template.description, undefined);
+    });
+
+    test('Dotnet trigger type', () => {
+        assert.equal(getDotnetTriggerType('Azure.Function.CSharp.QueueTrigger.2.x'), 'queueTrigger');
+        assert.equal(getDotnetTriggerType('Azure.Function.FSharp.HttpTrigger.1.x'), 'httpTrigger');
+        assert.equal(getDotnetTriggerType('Azure.Function.CSharp.DurableFunctionsOrchestration.2.x'), undefined);
+    });
+});
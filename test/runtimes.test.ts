@@ -0,0 +1,31 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { getRuntimeInfo, ProjectRuntime, supportsWorkerRuntime, tryGetRuntimeFromTargetFramework } from '../extension.bundle';
+
+suite('runtimes', () => {
+    test('Every runtime has info', () => {
+        for (const key of Object.keys(ProjectRuntime)) {
+            const runtime: ProjectRuntime = <ProjectRuntime>ProjectRuntime[key];
+            assert.equal(getRuntimeInfo(runtime).runtime, runtime);
+        }
+    });
+
+    test('tryGetRuntimeFromTargetFramework', () => {
+        assert.equal(tryGetRuntimeFromTargetFramework('net461'), ProjectRuntime.v1);
+        assert.equal(tryGetRuntimeFromTargetFramework('netstandard2.0'), ProjectRuntime.v2);
+        assert.equal(tryGetRuntimeFromTargetFramework('netcoreapp2.1'), ProjectRuntime.v2);
+        assert.equal(tryGetRuntimeFromTargetFramework('netcoreapp3.0'), ProjectRuntime.v3);
+        assert.equal(tryGetRuntimeFromTargetFramework('unknown'), undefined);
+    });
+
+    test('supportsWorkerRuntime', () => {
+        assert.equal(supportsWorkerRuntime(ProjectRuntime.v1, 'node'), false);
+        assert.equal(supportsWorkerRuntime(ProjectRuntime.v2, 'node'), true);
+        assert.equal(supportsWorkerRuntime(ProjectRuntime.v3, 'node'), true);
+        assert.equal(supportsWorkerRuntime(ProjectRuntime.v3, undefined), false);
+    });
+});
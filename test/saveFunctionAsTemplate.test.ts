@@ -0,0 +1,100 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { addFunctionNamePlaceholder, getTemplateId, IBindingTemplate, IRawTemplate, IScriptFunctionTemplate, parseScriptBindings, parseScriptTemplate, ProjectLanguage, replaceFunctionName, validateCustomTemplate, validateTemplateName, ValueType } from '../extension.bundle';
+
+suite('saveFunctionAsTemplate', () => {
+    test('Function name placeholder', () => {
+        const contents: string = 'module.exports = async function (context) { context.log("HttpTrigger1 ran"); }; // HttpTrigger10, MyHttpTrigger1';
+        const templateContents: string = addFunctionNamePlaceholder(contents, 'HttpTrigger1');
+        assert.equal(templateContents, 'module.exports = async function (context) { context.log("__FunctionName__ ran"); }; // HttpTrigger10, MyHttpTrigger1');
+        assert.equal(replaceFunctionName(templateContents, 'NewFunction'), contents.replace('HttpTrigger1 ran', 'NewFunction ran'));
+    });
+
+    test('Function name placeholder with special characters', () => {
+        assert.equal(addFunctionNamePlaceholder('{"name": "my.func", "other": "myXfunc"}', 'my.func'), '{"name": "__FunctionName__", "other": "myXfunc"}');
+        assert.equal(replaceFunctionName('__FunctionName__/__FunctionName__.js', 'func$1'), 'func$1/func$1.js');
+    });
+
+    test('Template id', () => {
+        assert.equal(getTemplateId(' Http Trigger (logging) ', 'JavaScript'), 'HttpTriggerlogging-JavaScript');
+        assert.equal(getTemplateId('my_template.v2', 'Python'), 'my_template.v2-Python');
+    });
+
+    test('Template name validation', () => {
+        assert.equal(validateTemplateName('Http Trigger'), undefined);
+        assert.equal(validateTemplateName('  '), 'The template name cannot be empty.');
+        assert.equal(validateTemplateName('-- !! --'), 'The template name must contain at least one letter, number, underscore, or period.');
+    });
+
+    suite('Template settings', () => {
+        function getBindingTemplates(): IBindingTemplate[] {
+            return parseScriptBindings(
+                {
+                    variables: {},
+                    bindings: [{
+                        type: 'queueTrigger',
+                        direction: 'trigger',
+                        displayName: 'Queue trigger',
+                        documentation: '',
+                        settings: [
+                            { name: 'queueName', value: ValueType.string, label: 'Queue name', defaultValue: 'myqueue-items' },
+                            { name: 'connection', value: ValueType.string, label: 'Storage account connection' }
+                        ]
+                    }]
+                },
+                { en: {} }
+            );
+        }
+
+        function getRawTemplate(): IRawTemplate {
+            return {
+                id: 'QueueWithLogging-JavaScript',
+                function: {
+                    bindings: [{ type: 'queueTrigger', direction: 'in', name: 'myQueueItem', queueName: 'orders', connection: 'AzureWebJobsStorage' }]
+                },
+                metadata: {
+                    defaultFunctionName: 'QueueWithLogging',
+                    name: 'Queue with logging',
+                    language: ProjectLanguage.JavaScript,
+                    userPrompt: ['queueName', 'connection'],
+                    settings: [{ name: 'queueName', value: ValueType.string, label: 'Orders queue', defaultValue: 'orders' }],
+                    category: []
+                },
+                files: { 'index.js': 'module.exports = async function (context, myQueueItem) {};' }
+            };
+        }
+
+        test('Template settings take precedence over binding settings', () => {
+            const bindingTemplates: IBindingTemplate[] = getBindingTemplates();
+            const template: IScriptFunctionTemplate = parseScriptTemplate(getRawTemplate(), { en: {} }, bindingTemplates);
+            assert.deepEqual(template.userPromptedSettings.map(s => s.name), ['queueName', 'connection']);
+            assert.equal(template.userPromptedSettings[0].label, 'Orders queue');
+            assert.equal(template.userPromptedSettings[0].defaultValue, 'orders');
+            assert.equal(template.userPromptedSettings[1].label, 'Storage account connection');
+
+            // The shared binding settings are used as-is by other templates
+            assert.equal(bindingTemplates[0].settings[0].label, 'Queue name');
+            assert.equal(bindingTemplates[0].settings[0].defaultValue, 'myqueue-items');
+        });
+
+        test('Templates without settings use binding settings', () => {
+            const rawTemplate: IRawTemplate = getRawTemplate();
+            delete rawTemplate.metadata.settings;
+            const template: IScriptFunctionTemplate = parseScriptTemplate(rawTemplate, { en: {} }, getBindingTemplates());
+            assert.equal(template.userPromptedSettings[0].label, 'Queue name');
+        });
+
+        test('Invalid template settings', () => {
+            const rawTemplate: { [key: string]: {} } = <{}>getRawTemplate();
+            (<{ [key: string]: {} }>rawTemplate.metadata).settings = [{ name: 'queueName', value: 'string' }, 'connection'];
+            assert.deepEqual(validateCustomTemplate(rawTemplate), [
+                'Property "metadata.settings[0].label" must be a non-empty string.',
+                'Property "metadata.settings[1]" must be an object.'
+            ]);
+        });
+    });
+});
@@ -0,0 +1,104 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { findSettingReferences, getBindingSettingReferences, IBindingSettingReference, IFunctionBinding, ISettingReference, renameBindingReferences } from '../extension.bundle';
+
+function getReferencedText(text: string, key: string, includeBindingAttributes?: boolean): string[] {
+    return findSettingReferences(text, key, includeBindingAttributes).map((r: ISettingReference) => text.substr(r.offset, r.length));
+}
+
+suite('settingReferences', () => {
+    test('findSettingReferences', () => {
+        const cases: [string, number][] = [
+            ['const conn = process.env.MyConn;', 25],
+            ['const conn = process.env["MyConn"];', 26],
+            ['conn = os.environ[\'MyConn\']', 19],
+            ['conn = os.environ.get("MyConn")', 23],
+            ['conn = os.getenv(\'MyConn\')', 18],
+            ['var conn = Environment.GetEnvironmentVariable("MyConn");', 47],
+            ['var conn = Environment.GetEnvironmentVariable(@"MyConn");', 48],
+            ['String conn = System.getenv("MyConn");', 29],
+            ['$conn = $env:MyConn', 13]
+        ];
+        for (const [text, offset] of cases) {
+            assert.deepEqual(findSettingReferences(text, 'MyConn'), [{ offset, length: 6 }], text);
+        }
+    });
+
+    test('findSettingReferences ignores other keys', () => {
+        const text: string = 'process.env.MyConn2; process.env.MyConn_Other; process.env["MyConnX"]; $env:MyConnection; const MyConn = 1;';
+        assert.deepEqual(findSettingReferences(text, 'MyConn'), []);
+    });
+
+    test('findSettingReferences sorts multiple references', () => {
+        const text: string = 'a = process.env["My.Conn"];\nb = process.env.Other;\nc = os.environ["My.Conn"]';
+        assert.deepEqual(getReferencedText(text, 'My.Conn'), ['My.Conn', 'My.Conn']);
+        assert.deepEqual(findSettingReferences(text, 'My.Conn').map((r: ISettingReference) => r.offset), [17, 67]);
+        assert.deepEqual(findSettingReferences(text, 'MyXConn'), []);
+    });
+
+    test('findSettingReferences in binding attributes', () => {
+        const cases: [string, string[]][] = [
+            ['[QueueTrigger("myqueue", Connection = "MyConn")] string item', ['MyConn']],
+            ['[CosmosDBTrigger("db", "items", ConnectionStringSetting = @"MyConn")] IReadOnlyList<Document> docs', ['MyConn']],
+            ['[ServiceBusTrigger("%MyConn%-%Other%")] string msg', ['MyConn']],
+            ['@QueueTrigger(name = "msg", queueName = "%Other%-%MyConn%", connection = "MyConn") String message', ['MyConn', 'MyConn']],
+            ['[QueueTrigger("MyConn", Connection = "MyConn2")] string item', []],
+            ['@BlobTrigger(name = "file", path = "MyConn/{name}") byte[] content', []]
+        ];
+        for (const [text, expected] of cases) {
+            assert.deepEqual(getReferencedText(text, 'MyConn', true), expected, text);
+        }
+
+        assert.deepEqual(findSettingReferences('[QueueTrigger("q", Connection = "MyConn")]', 'MyConn'), []);
+    });
+
+    test('getBindingSettingReferences', () => {
+        const binding: IFunctionBinding = { type: 'serviceBusTrigger', direction: 'in', name: 'msg', queueName: '%Prefix%-%Suffix%', connection: 'MyConn' };
+        const expected: IBindingSettingReference[] = [
+            { key: 'Prefix', property: 'queueName', isExpression: true },
+            { key: 'Suffix', property: 'queueName', isExpression: true },
+            { key: 'MyConn', property: 'connection', isExpression: false }
+        ];
+        assert.deepEqual(getBindingSettingReferences(binding), expected);
+    });
+
+    test('getBindingSettingReferences with default storage connection', () => {
+        assert.deepEqual(getBindingSettingReferences({ type: 'blobTrigger', direction: 'in', name: 'blob', path: 'samples/{name}' }), [
+            { key: 'AzureWebJobsStorage', property: 'connection', isExpression: false, isImplicit: true }
+        ]);
+        assert.deepEqual(getBindingSettingReferences({ type: 'blob', direction: 'out', name: 'blob', path: 'out/{name}', connection: 'MyStorage' }), [
+            { key: 'MyStorage', property: 'connection', isExpression: false }
+        ]);
+        assert.deepEqual(getBindingSettingReferences({ type: 'httpTrigger', direction: 'in', name: 'req' }), []);
+    });
+
+    test('renameBindingReferences', () => {
+        const bindings: IFunctionBinding[] = [
+            { type: 'queueTrigger', direction: 'in', name: 'item', queueName: '%MyConn%-queue', connection: 'MyConn' },
+            { type: 'blob', direction: 'out', name: 'output', path: 'out/{name}', connection: 'OtherConn' },
+            { type: 'cosmosDBTrigger', direction: 'in', name: 'docs', connectionStringSetting: 'MyConn', leaseCollectionName: 'MyConn' }
+        ];
+        assert.deepEqual(renameBindingReferences(bindings, 'MyConn', 'NewConn'), ['queueName', 'connection', 'connectionStringSetting']);
+        assert.equal(bindings[0].queueName, '%NewConn%-queue');
+        assert.equal(bindings[0].connection, 'NewConn');
+        assert.equal(bindings[1].connection, 'OtherConn');
+        assert.equal(bindings[2].connectionStringSetting, 'NewConn');
+        assert.equal(bindings[2].leaseCollectionName, 'MyConn');
+    });
+
+    test('renameBindingReferences with the default storage connection', () => {
+        const bindings: IFunctionBinding[] = [
+            { type: 'queueTrigger', direction: 'in', name: 'item', queueName: 'myqueue' },
+            { type: 'blob', direction: 'out', name: 'output', path: 'out/{name}', connection: 'OtherConn' },
+            { type: 'http', direction: 'out', name: 'res' }
+        ];
+        assert.deepEqual(renameBindingReferences(bindings, 'AzureWebJobsStorage', 'NewStorage'), ['connection']);
+        assert.equal(bindings[0].connection, 'NewStorage');
+        assert.equal(bindings[1].connection, 'OtherConn');
+        assert.equal(bindings[2].connection, undefined);
+    });
+});
@@ -0,0 +1,42 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { applySettingsDiffs, formatSettingsForDiff, getSettingsDiff, ISettingDiff, maskedValue, SettingDiffState } from '../extension.bundle';
+
+suite('settingsDiff', () => {
+    const source: { [key: string]: string } = { b: 'new', a: 'added', same: 'value' };
+    const destination: { [key: string]: string } = { b: 'old', same: 'value', c: 'removed' };
+
+    test('getSettingsDiff', () => {
+        assert.deepEqual(getSettingsDiff(source, destination), [
+            { key: 'a', state: SettingDiffState.added, sourceValue: 'added', destinationValue: undefined },
+            { key: 'b', state: SettingDiffState.changed, sourceValue: 'new', destinationValue: 'old' },
+            { key: 'c', state: SettingDiffState.removed, sourceValue: undefined, destinationValue: 'removed' },
+            { key: 'same', state: SettingDiffState.identical, sourceValue: 'value', destinationValue: 'value' }
+        ]);
+    });
+
+    test('formatSettingsForDiff', () => {
+        const diffs: ISettingDiff[] = getSettingsDiff(source, destination);
+        assert.deepEqual(JSON.parse(formatSettingsForDiff(diffs, 'source', true)), { a: 'added', b: 'new', same: 'value' });
+        assert.deepEqual(JSON.parse(formatSettingsForDiff(diffs, 'destination', true)), { b: 'old', c: 'removed', same: 'value' });
+        assert.deepEqual(JSON.parse(formatSettingsForDiff(diffs, 'destination', false)), { b: maskedValue, c: maskedValue, same: maskedValue });
+
+        // Changed values are still marked when masked so that they show up in the diff
+        const maskedSource: { [key: string]: string } = <{ [key: string]: string }>JSON.parse(formatSettingsForDiff(diffs, 'source', false));
+        assert.equal(maskedSource.a, maskedValue);
+        assert.equal(maskedSource.same, maskedValue);
+        assert.notEqual(maskedSource.b, maskedValue);
+        assert.equal(maskedSource.b.indexOf('new'), -1);
+    });
+
+    test('applySettingsDiffs', () => {
+        const result: { [key: string]: string } = { ...destination };
+        const diffs: ISettingDiff[] = getSettingsDiff(source, destination).filter(d => d.key !== 'b');
+        applySettingsDiffs(diffs, result);
+        assert.deepEqual(result, { a: 'added', b: 'old', same: 'value' });
+    });
+});
@@ -0,0 +1,49 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { ITemplateBundle, parseTemplateBundle, ProjectRuntime } from '../extension.bundle';
+
+suite('parseTemplateBundle', () => {
+    function getCache(): { [key: string]: {} } {
+        return {
+            templateType: 'Script',
+            runtime: ProjectRuntime.v2,
+            templateVersion: '2.0.1',
+            state: { FunctionTemplates: [], FunctionTemplateConfig: {}, FunctionTemplateResources: {} },
+            files: {}
+        };
+    }
+
+    test('Valid bundle', () => {
+        const bundle: ITemplateBundle = parseTemplateBundle(JSON.stringify({ createdOn: '2019-01-01T00:00:00.000Z', caches: [getCache()] }));
+        assert.equal(bundle.caches.length, 1);
+        assert.equal(bundle.caches[0].templateVersion, '2.0.1');
+    });
+
+    test('Invalid JSON', () => {
+        assert.throws(() => parseTemplateBundle('{ caches: '), /not valid JSON/);
+    });
+
+    test('No caches', () => {
+        assert.throws(() => parseTemplateBundle('{}'), /does not contain any templates/);
+        assert.throws(() => parseTemplateBundle('{ "caches": [] }'), /does not contain any templates/);
+        assert.throws(() => parseTemplateBundle('[]'), /does not contain any templates/);
+    });
+
+    test('Unsupported runtime and template type', () => {
+        const cache: { [key: string]: {} } = getCache();
+        cache.runtime = '3';
+        cache.templateType = 'Custom';
+        assert.throws(() => parseTemplateBundle(JSON.stringify({ caches: [getCache(), cache] })), /Entry 1 .*unsupported template type "Custom", unsupported runtime "3"/);
+    });
+
+    test('Missing cached data', () => {
+        const cache: { [key: string]: {} } = getCache();
+        delete cache.state;
+        delete cache.templateVersion;
+        assert.throws(() => parseTemplateBundle(JSON.stringify({ caches: [cache] })), /Entry 0 .*missing template version, missing cached data/);
+    });
+});
@@ -0,0 +1,21 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { parseTemplateVersionLock } from '../extension.bundle';
+
+suite('parseTemplateVersionLock', () => {
+    test('Valid lock', () => {
+        assert.equal(parseTemplateVersionLock({ templateVersion: '2.18.1' }), '2.18.1');
+        assert.equal(parseTemplateVersionLock({ templateVersion: ' 2.18.1 ' }), '2.18.1');
+    });
+
+    test('Missing version', () => {
+        assert.throws(() => parseTemplateVersionLock(undefined), /must specify a "templateVersion"/);
+        assert.throws(() => parseTemplateVersionLock({}), /must specify a "templateVersion"/);
+        assert.throws(() => parseTemplateVersionLock({ templateVersion: '' }), /must specify a "templateVersion"/);
+        assert.throws(() => parseTemplateVersionLock(<{}>{ templateVersion: 2 }), /must specify a "templateVersion"/);
+    });
+});
@@ -0,0 +1,76 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { validateCustomTemplate } from '../extension.bundle';
+
+suite('validateCustomTemplate', () => {
+    function getTemplate(): { [key: string]: {} } {
+        return {
+            id: 'HttpTriggerWithLogging-JavaScript',
+            function: {
+                bindings: [
+                    { authLevel: 'function', type: 'httpTrigger', direction: 'in', name: 'req' },
+                    { type: 'http', direction: 'out', name: 'res' }
+                ]
+            },
+            metadata: {
+                defaultFunctionName: 'HttpTriggerWithLogging',
+                name: 'HTTP trigger with logging',
+                language: 'JavaScript',
+                category: ['$temp_category_core'],
+                userPrompt: ['authLevel']
+            },
+            files: {
+                'index.js': 'module.exports = async function (context, req) {};'
+            }
+        };
+    }
+
+    test('Valid', () => {
+        assert.deepEqual(validateCustomTemplate(getTemplate()), []);
+    });
+
+    test('Not an object', () => {
+        assert.deepEqual(validateCustomTemplate([]), ['Template must be an object.']);
+        assert.deepEqual(validateCustomTemplate('template'), ['Template must be an object.']);
+        assert.deepEqual(validateCustomTemplate(undefined), ['Template must be an object.']);
+    });
+
+    test('Missing properties', () => {
+        assert.deepEqual(validateCustomTemplate({ id: ' ' }), [
+            'Property "id" must be a non-empty string.',
+            'Property "metadata" must be an object.',
+            'Property "function.bindings" must be an array.',
+            'Property "files" must be an object with at least one file.'
+        ]);
+    });
+
+    test('Invalid metadata', () => {
+        const template: { [key: string]: {} } = getTemplate();
+        template.metadata = { name: 'Test', language: 'Java', category: 'core' };
+        assert.deepEqual(validateCustomTemplate(template), [
+            'Property "metadata.defaultFunctionName" must be a non-empty string.',
+            'Language "Java" is not supported. Supported languages are "C#", "C#Script", "F#", "F#Script", "JavaScript", "PowerShell", "Python", "TypeScript".',
+            'Property "metadata.category" must be an array of strings.'
+        ]);
+    });
+
+    test('Invalid bindings', () => {
+        const template: { [key: string]: {} } = getTemplate();
+        template.function = { bindings: [{ type: 'queue', direction: 'out' }, 'blob'] };
+        assert.deepEqual(validateCustomTemplate(template), [
+            'Property "function.bindings[0].name" must be a non-empty string.',
+            'Property "function.bindings[1]" must be an object.',
+            'Property "function.bindings" must have exactly one trigger binding, but found 0.'
+        ]);
+    });
+
+    test('Invalid files', () => {
+        const template: { [key: string]: {} } = getTemplate();
+        template.files = { 'index.js': 1, 'readme.md': '' };
+        assert.deepEqual(validateCustomTemplate(template), ['The contents of file "index.js" must be a string.']);
+    });
+});
@@ -0,0 +1,101 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { IBindingSetting, IBindingTemplate, IFunctionJsonProblem, validateFunctionJson, ValueType } from '../extension.bundle';
+
+function createSetting(name: string, required: boolean, valueType: ValueType = ValueType.string, enumValues: string[] = []): IBindingSetting {
+    return {
+        name,
+        label: name,
+        required,
+        valueType,
+        resourceType: undefined,
+        defaultValue: undefined,
+        enums: enumValues.map(value => { return { value, displayName: value }; }),
+        validateSetting: (value: string | undefined): string | undefined => value === 'invalid' ? 'Invalid value.' : undefined
+    };
+}
+
+const templates: IBindingTemplate[] = [
+    // Matches how `parseScriptBindings` loads triggers
+    { type: 'httpTrigger', direction: 'trigger', displayName: 'HTTP trigger', settings: [createSetting('name', true), createSetting('authLevel', false, ValueType.enum, ['function', 'anonymous', 'admin'])] },
+    { type: 'http', direction: 'out', displayName: 'HTTP output', settings: [createSetting('name', true)] },
+    { type: 'queue', direction: 'out', displayName: 'Queue output', settings: [createSetting('name', true), createSetting('queueName', true)] }
+];
+
+function validate(bindings: {}[]): IFunctionJsonProblem[] {
+    return validateFunctionJson({ bindings }, templates);
+}
+
+const httpTrigger: {} = { type: 'httpTrigger', direction: 'in', name: 'req', authLevel: 'function' };
+
+// tslint:disable-next-line:max-func-body-length
+suite('validateFunctionJson', () => {
+    test('Valid', () => {
+        assert.deepEqual(validate([httpTrigger, { type: 'http', direction: 'out', name: '$return' }]), []);
+    });
+
+    test('Trigger direction', () => {
+        const problems: IFunctionJsonProblem[] = validate([{ type: 'httpTrigger', direction: 'in', authLevel: 'function' }]);
+        assert.equal(problems.length, 1);
+        assert.equal(problems[0].bindingIndex, 0);
+        assert.ok(!problems[0].isWarning);
+
+        const directionProblems: IFunctionJsonProblem[] = validate([{ type: 'httpTrigger', direction: 'trigger', name: 'req' }]);
+        assert.equal(directionProblems.length, 1);
+        assert.equal(directionProblems[0].property, 'direction');
+        assert.ok(directionProblems[0].message.indexOf('"in"') !== -1);
+    });
+
+    test('Not an object', () => {
+        assert.equal(validateFunctionJson([], templates).length, 1);
+        assert.equal(validateFunctionJson('bindings', templates).length, 1);
+        assert.equal(validateFunctionJson({ bindings: {} }, templates)[0].property, 'bindings');
+    });
+
+    test('No trigger', () => {
+        const problems: IFunctionJsonProblem[] = validate([{ type: 'http', direction: 'out', name: '$return' }]);
+        assert.equal(problems.length, 1);
+        assert.equal(problems[0].bindingIndex, undefined);
+    });
+
+    test('Multiple triggers', () => {
+        const problems: IFunctionJsonProblem[] = validate([httpTrigger, { type: 'httpTrigger', direction: 'in', name: 'req2' }]);
+        assert.equal(problems.length, 1);
+        assert.equal(problems[0].bindingIndex, 1);
+        assert.equal(problems[0].property, 'type');
+    });
+
+    test('Duplicate names', () => {
+        const problems: IFunctionJsonProblem[] = validate([httpTrigger, { type: 'http', direction: 'out', name: 'REQ' }]);
+        assert.equal(problems.length, 1);
+        assert.equal(problems[0].bindingIndex, 1);
+        assert.equal(problems[0].property, 'name');
+    });
+
+    test('Unknown type and direction are warnings', () => {
+        const problems: IFunctionJsonProblem[] = validate([httpTrigger, { type: 'unknown', direction: 'out', name: 'a' }, { type: 'queue', direction: 'in', name: 'b', queueName: 'q' }]);
+        assert.equal(problems.length, 2);
+        assert.deepEqual(problems.map(p => [p.bindingIndex, p.property, p.isWarning]), [[1, 'type', true], [2, 'direction', true]]);
+    });
+
+    test('Missing required settings', () => {
+        const problems: IFunctionJsonProblem[] = validate([httpTrigger, { type: 'queue', direction: 'out', name: 'a', queueName: '' }, { type: 'queue', name: 'b' }]);
+        assert.equal(problems.length, 2);
+        assert.deepEqual(problems.map(p => p.bindingIndex), [1, 2]);
+        assert.ok(problems.every(p => !p.isWarning));
+    });
+
+    test('Invalid setting values', () => {
+        const problems: IFunctionJsonProblem[] = validate([{ type: 'httpTrigger', direction: 'in', name: 'req', authLevel: 'unknown' }, { type: 'queue', direction: 'out', name: 'a', QUEUENAME: 'invalid' }]);
+        assert.deepEqual(problems.map(p => [p.bindingIndex, p.property]), [[0, 'authLevel'], [1, 'QUEUENAME']]);
+    });
+
+    test('Structure is validated without templates', () => {
+        const problems: IFunctionJsonProblem[] = validateFunctionJson({ bindings: [{ type: 'unknown', direction: 'in', name: 'a' }, { type: 'unknown', direction: 'in', name: 'A' }] }, []);
+        assert.equal(problems.length, 2);
+    });
+});